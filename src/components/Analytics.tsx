@@ -1,103 +1,99 @@
-import React from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { Card } from "@/components/ui/card";
-
-interface Option {
-  id: string;
-  collegeCode: string;
-  branchCode: string;
-  collegeName: string;
-  branchName: string;
-  location: string;
-  collegeCourse: string;
-  priority: number;
-  courseFee?: string;
-  collegeAddress?: string;
-}
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getAnyAdmissionProbability, indexCutoffHistory, type ChanceBand } from "@/lib/admission-chance";
+import { getCategoryLabel, getEligibleCategoriesFor } from "@/lib/categories";
+import {
+  getAvailableRounds,
+  getAvailableYears,
+  loadCutoffDataset,
+  type CutoffDataset
+} from "@/lib/cutoff-repository";
+import { parseFee } from "@/lib/fee-engine";
+import { annotateOption, type PlannerOption } from "@/lib/option-planner";
+import { getRoundLabel, Round } from "@/lib/rounds";
 
 interface AnalyticsProps {
   userRank: number | null;
   userCategory: string;
-  selectedOptions: Option[];
+  selectedOptions: PlannerOption[];
 }
 
+const BAND_STYLES: Record<ChanceBand, string> = {
+  Safe: "bg-green-100 text-green-800",
+  Moderate: "bg-blue-100 text-blue-800",
+  Reach: "bg-yellow-100 text-yellow-800",
+  Unlikely: "bg-red-100 text-red-800"
+};
+
+const formatPercent = (probability: number) => `${Math.round(probability * 100)}%`;
+
 const Analytics: React.FC<AnalyticsProps> = ({ userRank, userCategory, selectedOptions }) => {
-  const getMockCutoff = (collegeCode: string, branchCode: string) => {
-    // Mock cutoff calculation - in real app, this would use actual cutoff data
-    const baseCutoff = 50000;
-    const collegeMultiplier = collegeCode.charCodeAt(0) % 3 + 0.8; // Varies by college
-    const branchMultiplier = branchCode === 'CS' ? 1.5 : branchCode === 'EC' ? 1.2 : 1.0;
-    return Math.round(baseCutoff * collegeMultiplier * branchMultiplier);
-  };
+  const [dataset, setDataset] = useState<CutoffDataset | null>(null);
+  const [error, setError] = useState("");
+  const [year, setYear] = useState("");
+  const [round, setRound] = useState<string>(Round.Round1);
 
-  const calculateChances = () => {
-    if (!userRank || selectedOptions.length === 0) return [];
+  useEffect(() => {
+    loadCutoffDataset()
+      .then(setDataset)
+      .catch((e: Error) => setError(e.message || "Failed to load cutoff data"));
+  }, []);
 
-    return selectedOptions.map(option => {
-      const cutoff = getMockCutoff(option.collegeCode, option.branchCode);
-      const rankDifference = cutoff - userRank;
-      
-      let status = "Unknown";
-      let probability = 0;
-      
-      if (rankDifference > 0) {
-        if (rankDifference > 10000) {
-          status = "Very High Chance";
-          probability = 95;
-        } else if (rankDifference > 5000) {
-          status = "High Chance";
-          probability = 85;
-        } else if (rankDifference > 1000) {
-          status = "Good Chance";
-          probability = 70;
-        } else {
-          status = "Moderate Chance";
-          probability = 50;
-        }
-      } else {
-        if (Math.abs(rankDifference) < 1000) {
-          status = "Borderline";
-          probability = 30;
-        } else if (Math.abs(rankDifference) < 5000) {
-          status = "Low Chance";
-          probability = 15;
-        } else {
-          status = "Very Low Chance";
-          probability = 5;
-        }
-      }
+  const historyIndex = useMemo(() => indexCutoffHistory(dataset?.cutoffs ?? []), [dataset]);
+  const years = useMemo(() => getAvailableYears(dataset?.cutoffs ?? []), [dataset]);
+  const rounds = useMemo(() => getAvailableRounds(dataset?.cutoffs ?? []), [dataset]);
+  const activeYear = year || years[0] || "";
+  const categories = useMemo(() => getEligibleCategoriesFor(userCategory), [userCategory]);
 
+  // Closing rank of the chosen year and round; the chance uses that round's
+  // closing ranks across every year
+  const chances = useMemo(() => {
+    if (!dataset) return [];
+    return selectedOptions.map(option => {
+      const annotation = annotateOption(option, userRank, categories, historyIndex, round);
+      const cutoff = annotation.history.find(record => record.year === activeYear)?.cutoff_rank ?? null;
       return {
         option,
+        category: annotation.category,
         cutoff,
-        status,
-        probability,
-        rankDifference
+        rankDifference: cutoff !== null && userRank ? cutoff - userRank : null,
+        chance: annotation.chance
       };
     });
-  };
+  }, [dataset, selectedOptions, userRank, categories, historyIndex, round, activeYear]);
 
-  const chances = calculateChances();
-  const totalFee = selectedOptions.reduce((sum, opt) => {
-    const fee = parseInt(opt.courseFee?.replace(/,/g, '') || '0');
-    return sum + fee;
-  }, 0);
+  const anyAdmission = useMemo(
+    () => userRank ? getAnyAdmissionProbability(chances.map(c => c.chance?.probability ?? 0)) : null,
+    [chances, userRank]
+  );
+  const withoutData = chances.filter(c => !c.category).length;
+
+  const totalFee = selectedOptions.reduce((sum, opt) => sum + (parseFee(opt.courseFee) ?? 0), 0);
 
   return (
     <div className="space-y-6">
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card className="p-4 text-center">
           <div className="text-2xl font-bold text-foreground">{selectedOptions.length}</div>
           <div className="text-sm text-muted-foreground">Total Options</div>
         </Card>
-        
+
         <Card className="p-4 text-center">
           <div className="text-2xl font-bold text-foreground">
             {userRank ? userRank.toLocaleString() : 'N/A'}
           </div>
           <div className="text-sm text-muted-foreground">Your Rank</div>
         </Card>
-        
+
+        <Card className="p-4 text-center">
+          <div className="text-2xl font-bold text-foreground">
+            {anyAdmission !== null && chances.length > 0 ? formatPercent(anyAdmission) : 'N/A'}
+          </div>
+          <div className="text-sm text-muted-foreground">Chance of At Least One Option</div>
+        </Card>
+
         <Card className="p-4 text-center">
           <div className="text-2xl font-bold text-foreground">
             {totalFee > 0 ? `₹${(totalFee / 100000).toFixed(1)}L` : 'N/A'}
@@ -108,15 +104,35 @@ const Analytics: React.FC<AnalyticsProps> = ({ userRank, userCategory, selectedO
 
       {/* Chances Analysis */}
       <Card className="p-6">
-        <h3 className="text-lg font-semibold text-foreground mb-4">Admission Chances Analysis</h3>
-        
-        {chances.length === 0 ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-semibold text-foreground">Admission Chances Analysis</h3>
+          <div className="flex gap-2">
+            <Select value={activeYear} onValueChange={setYear}>
+              <SelectTrigger className="w-28"><SelectValue placeholder="Year" /></SelectTrigger>
+              <SelectContent>
+                {years.map(y => <SelectItem key={y} value={y}>{y}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={round} onValueChange={setRound}>
+              <SelectTrigger className="w-44"><SelectValue placeholder="Round" /></SelectTrigger>
+              <SelectContent>
+                {rounds.map(r => <SelectItem key={r} value={r}>{getRoundLabel(r)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="text-center text-destructive py-8">{error}</div>
+        ) : !dataset ? (
+          <div className="text-center text-muted-foreground py-8">Loading cutoff data...</div>
+        ) : chances.length === 0 ? (
           <div className="text-center text-muted-foreground py-8">
             <p>Add some options to see your admission chances analysis</p>
           </div>
         ) : (
           <div className="space-y-3">
-            {chances.map((chance, index) => (
+            {chances.map((chance) => (
               <div key={chance.option.id} className="p-4 border rounded-lg">
                 <div className="flex justify-between items-start mb-2">
                   <div>
@@ -129,35 +145,38 @@ const Analytics: React.FC<AnalyticsProps> = ({ userRank, userCategory, selectedO
                   </div>
                   <div className="text-right">
                     <div className={`text-sm font-medium px-2 py-1 rounded ${
-                      chance.status.includes('High') ? 'bg-green-100 text-green-800' :
-                      chance.status.includes('Good') ? 'bg-blue-100 text-blue-800' :
-                      chance.status.includes('Moderate') ? 'bg-yellow-100 text-yellow-800' :
-                      chance.status.includes('Low') ? 'bg-red-100 text-red-800' :
-                      'bg-gray-100 text-gray-800'
+                      chance.chance ? BAND_STYLES[chance.chance.band] : 'bg-gray-100 text-gray-800'
                     }`}>
-                      {chance.status}
+                      {chance.chance ? chance.chance.band : chance.category ? 'Enter rank' : 'No data'}
                     </div>
+                    {chance.category && (
+                      <div className="text-xs text-muted-foreground mt-1">{getCategoryLabel(chance.category)}</div>
+                    )}
                   </div>
                 </div>
-                
+
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                   <div>
-                    <span className="text-muted-foreground">Cutoff Rank:</span>
-                    <div className="font-medium">{chance.cutoff.toLocaleString()}</div>
+                    <span className="text-muted-foreground">Cutoff Rank ({activeYear}):</span>
+                    <div className="font-medium">{chance.cutoff !== null ? chance.cutoff.toLocaleString() : '—'}</div>
                   </div>
                   <div>
                     <span className="text-muted-foreground">Your Rank:</span>
-                    <div className="font-medium">{userRank?.toLocaleString()}</div>
+                    <div className="font-medium">{userRank?.toLocaleString() ?? '—'}</div>
                   </div>
                   <div>
-                    <span className="text-muted-foreground">Difference:</span>
-                    <div className={`font-medium ${chance.rankDifference > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      {chance.rankDifference > 0 ? '+' : ''}{chance.rankDifference.toLocaleString()}
-                    </div>
+                    <span className="text-muted-foreground">Gap:</span>
+                    {chance.rankDifference !== null ? (
+                      <div className={`font-medium ${chance.rankDifference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {chance.rankDifference > 0 ? '+' : ''}{chance.rankDifference.toLocaleString()}
+                      </div>
+                    ) : (
+                      <div className="font-medium">—</div>
+                    )}
                   </div>
                   <div>
                     <span className="text-muted-foreground">Probability:</span>
-                    <div className="font-medium">{chance.probability}%</div>
+                    <div className="font-medium">{chance.chance ? formatPercent(chance.chance.probability) : '—'}</div>
                   </div>
                 </div>
               </div>
@@ -169,28 +188,39 @@ const Analytics: React.FC<AnalyticsProps> = ({ userRank, userCategory, selectedO
       {/* Insights */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold text-foreground mb-4">💡 Planning Insights</h3>
-        
+
         <div className="space-y-3 text-sm">
           <div className="p-3 bg-muted/30 rounded-lg">
             <div className="font-medium mb-1">Rank Analysis</div>
             <div className="text-muted-foreground">
-              {userRank ? 
-                `With rank ${userRank.toLocaleString()}, you have ${chances.filter(c => c.probability >= 70).length} high-probability options.` :
+              {userRank ?
+                `With rank ${userRank.toLocaleString()}, you have ${chances.filter(c => c.chance?.band === 'Safe').length} safe options.` :
                 'Enter your rank to see personalized insights.'
               }
+              {withoutData > 0 && ` ${withoutData} option${withoutData === 1 ? ' has' : 's have'} no ${getRoundLabel(round)} cutoffs for your category and count as no chance.`}
             </div>
           </div>
-          
+
+          <div className="p-3 bg-muted/30 rounded-lg">
+            <div className="font-medium mb-1">Whole List</div>
+            <div className="text-muted-foreground">
+              {anyAdmission !== null && chances.length > 0 ?
+                `About ${formatPercent(anyAdmission)} chance of being allotted at least one option, treating each option as independent. Options at the same college or branch tend to move together, so the real figure is usually lower.` :
+                'Enter your rank and add options to see the chance for the whole list.'
+              }
+            </div>
+          </div>
+
           <div className="p-3 bg-muted/30 rounded-lg">
             <div className="font-medium mb-1">Fee Considerations</div>
             <div className="text-muted-foreground">
-              {totalFee > 0 ? 
+              {totalFee > 0 ?
                 `Total annual fees: ₹${(totalFee / 100000).toFixed(1)} lakhs. Consider your budget constraints.` :
                 'Add course fees to see total cost analysis.'
               }
             </div>
           </div>
-          
+
           <div className="p-3 bg-muted/30 rounded-lg">
             <div className="font-medium mb-1">Strategy Tips</div>
             <div className="text-muted-foreground">
@@ -0,0 +1,60 @@
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  BASE_CATEGORIES,
+  getBaseCategoryLabel,
+  getEligibleCategories,
+  type BaseCategory,
+  type StudentCategoryProfile
+} from '@/lib/categories'
+
+interface CategoryProfileInputProps {
+  value: StudentCategoryProfile
+  onChange: (value: StudentCategoryProfile) => void
+  showEligible?: boolean
+}
+
+// Base category plus the rural / Kannada-medium / Hyderabad-Karnataka flags
+export function CategoryProfileInput({ value, onChange, showEligible = true }: CategoryProfileInputProps) {
+  const flags: Array<{ id: string; label: string; key: 'rural' | 'kannadaMedium' | 'hyderabadKarnataka' }> = [
+    { id: 'quota-rural', label: 'Rural', key: 'rural' },
+    { id: 'quota-kannada', label: 'Kannada medium', key: 'kannadaMedium' },
+    { id: 'quota-hk', label: 'Hyderabad-Karnataka', key: 'hyderabadKarnataka' }
+  ]
+
+  return (
+    <div className="space-y-2">
+      <Select value={value.base} onValueChange={(base: BaseCategory) => onChange({ ...value, base })}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select your category" />
+        </SelectTrigger>
+        <SelectContent>
+          {BASE_CATEGORIES.map((base) => (
+            <SelectItem key={base} value={base}>
+              {getBaseCategoryLabel(base)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex flex-wrap gap-x-4 gap-y-2 pt-1">
+        {flags.map(flag => (
+          <div key={flag.id} className="flex items-center gap-2">
+            <Checkbox
+              id={flag.id}
+              checked={Boolean(value[flag.key])}
+              onCheckedChange={(checked) => onChange({ ...value, [flag.key]: checked === true })}
+            />
+            <Label htmlFor={flag.id} className="text-sm font-normal">{flag.label}</Label>
+          </div>
+        ))}
+      </div>
+      {showEligible && (
+        <p className="text-xs text-muted-foreground">
+          Competing in: {getEligibleCategories(value).join(', ')}
+          {value.hyderabadKarnataka && ' • HK reserved-seat cutoffs are not in the published lists, so only these columns are checked'}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,496 @@
+import { useMemo, useState } from 'react'
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { TableExportMenu } from '@/components/TableExportMenu'
+import { getCategoryLabel } from '@/lib/categories'
+import {
+  getBranchDemand,
+  getBranchDistributions,
+  getBranchKey,
+  getCategoryGaps,
+  getCollegeTiers,
+  isComputingBranch,
+  summarizeCategoryGaps,
+  TIER_SHARES
+} from '@/lib/cutoff-analytics'
+import {
+  getAvailableCategories,
+  getAvailableRounds,
+  getAvailableYears,
+  queryCutoffs,
+  type CutoffRecord
+} from '@/lib/cutoff-repository'
+import { getRoundLabel, Round } from '@/lib/rounds'
+
+interface CutoffDashboardsProps {
+  cutoffs: CutoffRecord[]
+}
+
+type BranchGroup = 'all' | 'computing' | 'other'
+type DemandOrder = 'latest' | 'rising'
+
+const CHART_COLORS = [
+  'hsl(220 91% 50%)', 'hsl(142 76% 36%)', 'hsl(38 92% 50%)', 'hsl(0 84% 60%)',
+  'hsl(270 60% 55%)', 'hsl(190 80% 40%)', 'hsl(330 70% 50%)', 'hsl(25 80% 45%)'
+]
+
+// Branches drawn in the charts; the tables list every row
+const CHART_BRANCHES = 15
+const DEMAND_CHART_BRANCHES = 8
+const TIER_TABLE_ROWS = 100
+
+const DEFAULT_GAP_CATEGORIES = ['GM', 'SCG', '2AG']
+
+const formatRank = (rank: number | null | undefined) => rank === null || rank === undefined ? '—' : rank.toLocaleString()
+const formatChange = (change: number | null) => change === null ? '—' : `${change >= 0 ? '+' : ''}${(change * 100).toFixed(0)}%`
+
+// Closing-rank distributions, branch demand, college tiers and category gaps
+// over the whole cutoff dataset
+export function CutoffDashboards({ cutoffs }: CutoffDashboardsProps) {
+  const years = useMemo(() => getAvailableYears(cutoffs), [cutoffs])
+  const rounds = useMemo(() => getAvailableRounds(cutoffs), [cutoffs])
+  const categories = useMemo(() => getAvailableCategories(cutoffs), [cutoffs])
+
+  const [year, setYear] = useState('')
+  const [round, setRound] = useState('')
+  const [category, setCategory] = useState('GM')
+  const [branchGroup, setBranchGroup] = useState<BranchGroup>('all')
+  const [institute, setInstitute] = useState('')
+  const [demandOrder, setDemandOrder] = useState<DemandOrder>('latest')
+  const [gapCategories, setGapCategories] = useState(DEFAULT_GAP_CATEGORIES)
+
+  const activeYear = year || years[0] || ''
+  const activeRound = round || (rounds.includes(Round.Round1) ? Round.Round1 : rounds[0]) || ''
+
+  const filtered = useMemo(() => {
+    const scoped = institute.trim() ? queryCutoffs(cutoffs, { institute: institute.trim() }) : cutoffs
+    if (branchGroup === 'all') return scoped
+    const computing = new Map<string, boolean>()
+    return scoped.filter(record => {
+      const branch = getBranchKey(record)
+      if (!computing.has(branch)) computing.set(branch, isComputingBranch(branch, record.course))
+      return computing.get(branch) === (branchGroup === 'computing')
+    })
+  }, [cutoffs, institute, branchGroup])
+
+  const distributions = useMemo(
+    () => getBranchDistributions(filtered, { year: activeYear, round: activeRound, category }),
+    [filtered, activeYear, activeRound, category]
+  )
+  const demand = useMemo(() => {
+    const result = getBranchDemand(filtered, { round: activeRound, category })
+    if (demandOrder === 'rising') {
+      result.branches = [...result.branches].sort((a, b) => (b.positionChange ?? -Infinity) - (a.positionChange ?? -Infinity))
+    }
+    return result
+  }, [filtered, activeRound, category, demandOrder])
+  const tiers = useMemo(
+    () => getCollegeTiers(filtered, { year: activeYear, round: activeRound, category }),
+    [filtered, activeYear, activeRound, category]
+  )
+  const gapRows = useMemo(
+    () => getCategoryGaps(filtered, { year: activeYear, round: activeRound }, gapCategories),
+    [filtered, activeYear, activeRound, gapCategories]
+  )
+  const gaps = useMemo(() => summarizeCategoryGaps(gapRows, gapCategories), [gapRows, gapCategories])
+
+  const filterLabel = [activeYear, getRoundLabel(activeRound), category].filter(Boolean).join(' ')
+
+  const distributionChart = distributions.slice(0, CHART_BRANCHES).map(row => ({
+    branch: row.branch,
+    q1: row.q1,
+    spread: row.q3 - row.q1,
+    row
+  }))
+  const distributionConfig: ChartConfig = {
+    q1: { label: 'Up to Q1', color: 'transparent' },
+    spread: { label: 'Middle half (Q1–Q3)', color: CHART_COLORS[0] }
+  }
+
+  const demandChartBranches = demand.branches.slice(0, DEMAND_CHART_BRANCHES)
+  const demandChart = demand.years.map(y => ({
+    year: y,
+    ...Object.fromEntries(demandChartBranches.map((b, i) => [`branch${i}`, b.years[y]?.position ?? null]))
+  }))
+  const demandConfig: ChartConfig = Object.fromEntries(
+    demandChartBranches.map((b, i) => [`branch${i}`, { label: b.branch, color: CHART_COLORS[i % CHART_COLORS.length] }])
+  )
+
+  const tierChart = TIER_SHARES.map(({ tier }) => {
+    const rows = tiers.filter(row => row.tier === tier)
+    return { tier: `Tier ${tier}`, colleges: rows.length, from: rows[0]?.median ?? null, to: rows[rows.length - 1]?.median ?? null }
+  })
+  const tierConfig: ChartConfig = { colleges: { label: 'Colleges', color: CHART_COLORS[1] } }
+
+  const gapChart = [...gaps]
+    .sort((a, b) => b.seats - a.seats)
+    .slice(0, CHART_BRANCHES)
+    .sort((a, b) => (a.medians[gapCategories[0]] ?? Infinity) - (b.medians[gapCategories[0]] ?? Infinity))
+    .map(row => ({ branch: row.branch, ...Object.fromEntries(gapCategories.map((c, i) => [`category${i}`, row.medians[c]])) }))
+  const gapConfig: ChartConfig = Object.fromEntries(
+    gapCategories.map((c, i) => [`category${i}`, { label: c, color: CHART_COLORS[i % CHART_COLORS.length] }])
+  )
+
+  const setGapCategory = (index: number, value: string) =>
+    setGapCategories(current => current.map((c, i) => i === index ? value : c))
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <CardTitle>Cutoff Dashboards</CardTitle>
+        <div className="flex flex-wrap gap-3">
+          <Select value={activeYear} onValueChange={setYear}>
+            <SelectTrigger className="w-28"><SelectValue placeholder="Year" /></SelectTrigger>
+            <SelectContent>
+              {years.map(y => <SelectItem key={y} value={y}>{y}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={activeRound} onValueChange={setRound}>
+            <SelectTrigger className="w-48"><SelectValue placeholder="Round" /></SelectTrigger>
+            <SelectContent>
+              {rounds.map(r => <SelectItem key={r} value={r}>{getRoundLabel(r)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="w-56"><SelectValue placeholder="Category" /></SelectTrigger>
+            <SelectContent>
+              {categories.map(c => <SelectItem key={c} value={c}>{getCategoryLabel(c)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={branchGroup} onValueChange={value => setBranchGroup(value as BranchGroup)}>
+            <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All branches</SelectItem>
+              <SelectItem value="computing">Computing branches</SelectItem>
+              <SelectItem value="other">Other branches</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            className="w-56"
+            placeholder="College name or code"
+            value={institute}
+            onChange={e => setInstitute(e.target.value)}
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="distribution">
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value="distribution">Branch distributions</TabsTrigger>
+            <TabsTrigger value="demand">Branch demand</TabsTrigger>
+            <TabsTrigger value="tiers">College tiers</TabsTrigger>
+            <TabsTrigger value="gaps">Category gaps</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="distribution" className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Closing ranks across colleges for each branch, {filterLabel}. Bars span the middle half of colleges; most competitive branches first.
+              </p>
+              <TableExportMenu
+                disabled={distributions.length === 0}
+                getTable={() => ({
+                  title: `Branch distributions ${filterLabel}`,
+                  headers: ['Branch', 'Name', 'Colleges', 'Min', 'Q1', 'Median', 'Q3', 'Max'],
+                  rows: distributions.map(r => [r.branch, r.name, r.colleges, r.min, r.q1, r.median, r.q3, r.max])
+                })}
+              />
+            </div>
+            {distributions.length === 0 ? (
+              <div className="py-8 text-center text-muted-foreground">No closing ranks match these filters</div>
+            ) : (
+              <>
+                <ChartContainer config={distributionConfig} className="aspect-auto h-[420px] w-full">
+                  <BarChart data={distributionChart} layout="vertical" margin={{ left: 8, right: 16 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickFormatter={v => Number(v).toLocaleString()} />
+                    <YAxis type="category" dataKey="branch" width={48} />
+                    <ChartTooltip
+                      content={({ active, payload }) => {
+                        const row = active && payload?.[0]?.payload?.row
+                        if (!row) return null
+                        return (
+                          <div className="rounded-md border bg-background px-3 py-2 text-xs shadow-sm space-y-0.5">
+                            <div className="font-medium">{row.name}</div>
+                            <div>Median {formatRank(row.median)} · Q1–Q3 {formatRank(row.q1)}–{formatRank(row.q3)}</div>
+                            <div className="text-muted-foreground">Range {formatRank(row.min)}–{formatRank(row.max)} · {row.colleges} colleges</div>
+                          </div>
+                        )
+                      }}
+                    />
+                    <Bar dataKey="q1" stackId="range" fill="transparent" />
+                    <Bar dataKey="spread" stackId="range" fill="var(--color-spread)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Branch</TableHead>
+                      <TableHead className="text-right">Colleges</TableHead>
+                      <TableHead className="text-right">Best</TableHead>
+                      <TableHead className="text-right">Q1</TableHead>
+                      <TableHead className="text-right">Median</TableHead>
+                      <TableHead className="text-right">Q3</TableHead>
+                      <TableHead className="text-right">Last</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {distributions.map(r => (
+                      <TableRow key={r.branch}>
+                        <TableCell>
+                          <div className="font-medium">{r.branch}</div>
+                          <div className="text-xs text-muted-foreground truncate max-w-[260px]" title={r.name}>{r.name}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{r.colleges}</TableCell>
+                        <TableCell className="text-right font-mono">{formatRank(r.min)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatRank(r.q1)}</TableCell>
+                        <TableCell className="text-right font-mono font-medium">{formatRank(r.median)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatRank(r.q3)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatRank(r.max)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="demand" className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Branches ranked by median closing rank in each year ({getRoundLabel(activeRound)}, {category}); position 1 is the most sought after.
+                Branches offered by fewer than 3 colleges in a year are not ranked that year.
+              </p>
+              <div className="flex gap-2">
+                <Select value={demandOrder} onValueChange={value => setDemandOrder(value as DemandOrder)}>
+                  <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="latest">Latest position</SelectItem>
+                    <SelectItem value="rising">Rising fastest</SelectItem>
+                  </SelectContent>
+                </Select>
+                <TableExportMenu
+                  disabled={demand.branches.length === 0}
+                  getTable={() => ({
+                    title: `Branch demand ${getRoundLabel(activeRound)} ${category}`,
+                    headers: ['Branch', 'Name', ...demand.years.flatMap(y => [`${y} position`, `${y} median`]), 'Positions gained', 'Median change'],
+                    rows: demand.branches.map(b => [
+                      b.branch,
+                      b.name,
+                      ...demand.years.flatMap(y => [b.years[y]?.position ?? null, b.years[y]?.median ?? null]),
+                      b.positionChange,
+                      b.medianChange === null ? null : Math.round(b.medianChange * 1000) / 10
+                    ])
+                  })}
+                />
+              </div>
+            </div>
+            {demand.years.length < 2 ? (
+              <div className="py-8 text-center text-muted-foreground">Demand trends need at least two years of data for these filters</div>
+            ) : (
+              <>
+                <ChartContainer config={demandConfig} className="aspect-auto h-[360px] w-full">
+                  <LineChart data={demandChart} margin={{ left: 8, right: 16 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="year" />
+                    <YAxis reversed allowDecimals={false} width={32} domain={[1, 'dataMax']} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Legend />
+                    {demandChartBranches.map((b, i) => (
+                      <Line key={b.branch} type="monotone" dataKey={`branch${i}`} name={b.branch} stroke={`var(--color-branch${i})`} strokeWidth={2} connectNulls />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Branch</TableHead>
+                      {demand.years.map(y => <TableHead key={y} className="text-right">{y}</TableHead>)}
+                      <TableHead className="text-right">Positions gained</TableHead>
+                      <TableHead className="text-right">Median change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {demand.branches.map(b => (
+                      <TableRow key={b.branch}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{b.branch}</span>
+                            {isComputingBranch(b.branch, b.name) && <Badge variant="secondary">Computing</Badge>}
+                          </div>
+                          <div className="text-xs text-muted-foreground truncate max-w-[260px]" title={b.name}>{b.name}</div>
+                        </TableCell>
+                        {demand.years.map(y => (
+                          <TableCell key={y} className="text-right">
+                            <div>{b.years[y]?.position ?? '—'}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{formatRank(b.years[y]?.median)}</div>
+                          </TableCell>
+                        ))}
+                        <TableCell className={`text-right font-medium ${(b.positionChange ?? 0) > 0 ? 'text-green-600' : (b.positionChange ?? 0) < 0 ? 'text-red-600' : ''}`}>
+                          {b.positionChange === null ? '—' : `${b.positionChange > 0 ? '+' : ''}${b.positionChange}`}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatChange(b.medianChange)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="tiers" className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Colleges ordered by the median closing rank of their branches, {filterLabel}: Tier 1 is the best 10%, Tier 2 the next 20%, Tier 3 the next 30%.
+              </p>
+              <TableExportMenu
+                disabled={tiers.length === 0}
+                getTable={() => ({
+                  title: `College tiers ${filterLabel}`,
+                  headers: ['Tier', 'College Code', 'College', 'Median closing rank', 'Best closing rank', 'Branches'],
+                  rows: tiers.map(t => [t.tier, t.institute_code, t.institute, t.median, t.best, t.branches])
+                })}
+              />
+            </div>
+            {tiers.length === 0 ? (
+              <div className="py-8 text-center text-muted-foreground">No closing ranks match these filters</div>
+            ) : (
+              <>
+                <ChartContainer config={tierConfig} className="aspect-auto h-[220px] w-full max-w-xl">
+                  <BarChart data={tierChart}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="tier" />
+                    <YAxis allowDecimals={false} width={32} />
+                    <ChartTooltip
+                      content={({ active, payload }) => {
+                        const row = active && payload?.[0]?.payload
+                        if (!row) return null
+                        return (
+                          <div className="rounded-md border bg-background px-3 py-2 text-xs shadow-sm">
+                            <div className="font-medium">{row.tier}: {row.colleges} colleges</div>
+                            <div className="text-muted-foreground">Median closing rank {formatRank(row.from)}–{formatRank(row.to)}</div>
+                          </div>
+                        )
+                      }}
+                    />
+                    <Bar dataKey="colleges" fill="var(--color-colleges)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tier</TableHead>
+                      <TableHead>College</TableHead>
+                      <TableHead className="text-right">Median</TableHead>
+                      <TableHead className="text-right">Best</TableHead>
+                      <TableHead className="text-right">Branches</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tiers.slice(0, TIER_TABLE_ROWS).map(t => (
+                      <TableRow key={t.institute_code}>
+                        <TableCell><Badge variant={t.tier === 1 ? 'default' : 'secondary'}>Tier {t.tier}</Badge></TableCell>
+                        <TableCell>
+                          <div className="font-medium truncate max-w-[320px]" title={t.institute}>{t.institute}</div>
+                          <div className="text-xs text-muted-foreground">{t.institute_code}</div>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatRank(t.median)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatRank(t.best)}</TableCell>
+                        <TableCell className="text-right">{t.branches}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {tiers.length > TIER_TABLE_ROWS && (
+                  <p className="text-xs text-muted-foreground">Showing the first {TIER_TABLE_ROWS} of {tiers.length} colleges; export for the full list.</p>
+                )}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="gaps" className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2">
+                {gapCategories.map((c, i) => (
+                  <Select key={i} value={c} onValueChange={value => setGapCategory(i, value)}>
+                    <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {categories.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                ))}
+              </div>
+              <TableExportMenu
+                disabled={gapRows.length === 0}
+                getTable={() => ({
+                  title: `Category gaps ${activeYear} ${getRoundLabel(activeRound)}`,
+                  headers: ['College Code', 'College', 'Branch', ...gapCategories, ...gapCategories.slice(1).map(c => `${c} / ${gapCategories[0]}`)],
+                  rows: gapRows.map(r => [
+                    r.institute_code,
+                    r.institute,
+                    r.branch,
+                    ...gapCategories.map(c => r.ranks[c]),
+                    ...gapCategories.slice(1).map(c => r.ranks[c] === null ? null : Math.round(r.ranks[c]! / r.ranks[gapCategories[0]]! * 100) / 100)
+                  ])
+                })}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Closing ranks of the same seats in each column, {activeYear} {getRoundLabel(activeRound)}, compared with {getCategoryLabel(gapCategories[0])}.
+              Ratios are medians over seats offering both columns.
+            </p>
+            {gaps.length === 0 ? (
+              <div className="py-8 text-center text-muted-foreground">No seats have a {gapCategories[0]} closing rank for these filters</div>
+            ) : (
+              <>
+                <ChartContainer config={gapConfig} className="aspect-auto h-[360px] w-full">
+                  <BarChart data={gapChart} margin={{ left: 8, right: 16 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="branch" />
+                    <YAxis tickFormatter={v => Number(v).toLocaleString()} width={64} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Legend />
+                    {gapCategories.map((c, i) => <Bar key={i} dataKey={`category${i}`} name={c} fill={`var(--color-category${i})`} radius={2} />)}
+                  </BarChart>
+                </ChartContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Branch</TableHead>
+                      <TableHead className="text-right">Seats</TableHead>
+                      {gapCategories.map(c => <TableHead key={c} className="text-right">{c} median</TableHead>)}
+                      {gapCategories.slice(1).map(c => <TableHead key={`${c}-ratio`} className="text-right">{c} / {gapCategories[0]}</TableHead>)}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gaps.map(g => (
+                      <TableRow key={g.branch}>
+                        <TableCell>
+                          <div className="font-medium">{g.branch}</div>
+                          <div className="text-xs text-muted-foreground truncate max-w-[260px]" title={g.name}>{g.name}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{g.seats}</TableCell>
+                        {gapCategories.map(c => <TableCell key={c} className="text-right font-mono">{formatRank(g.medians[c])}</TableCell>)}
+                        {gapCategories.slice(1).map(c => (
+                          <TableCell key={`${c}-ratio`} className="text-right font-mono">
+                            {g.ratios[c] === null ? '—' : `${g.ratios[c]!.toFixed(1)}×`}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
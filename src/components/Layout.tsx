@@ -9,6 +9,7 @@ import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select'
 import { loadSettings, saveSettings, applyRuntimeSettings, defaultSettings, type AppSettings } from '@/lib/settings'
+import { getRoundLabel, ROUND_ORDER } from '@/lib/rounds'
 
 interface LayoutProps {
   children: React.ReactNode
@@ -128,10 +129,9 @@ export function Layout({ children }: LayoutProps) {
                           <SelectTrigger><SelectValue placeholder="None" /></SelectTrigger>
                           <SelectContent>
                             <SelectItem value="">None</SelectItem>
-                            <SelectItem value="R1">R1</SelectItem>
-                            <SelectItem value="R2">R2</SelectItem>
-                            <SelectItem value="R3">R3</SelectItem>
-                            <SelectItem value="EXT">EXT</SelectItem>
+                            {ROUND_ORDER.map(round => (
+                              <SelectItem key={round} value={round}>{getRoundLabel(round)}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
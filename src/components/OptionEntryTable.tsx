@@ -5,6 +5,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { ArrowUp, ArrowDown, X, Edit, Save, Trash2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import type { ChanceBand } from "@/lib/admission-chance";
+import type { OptionAnnotation } from "@/lib/option-planner";
+import { OptionExportMenu } from "@/components/OptionExportMenu";
 
 interface Option {
   id: string;
@@ -24,13 +28,29 @@ interface OptionEntryTableProps {
   userCategory: string;
   options: Option[];
   onOptionsChange: (options: Option[]) => void;
+  // Past cutoffs and admission chance per option id; adds two columns when set
+  annotations?: Record<string, OptionAnnotation>;
+  // Four-year cost per option id; adds a column when set, null where unknown
+  costs?: Record<string, number | null>;
+  // Shows the export menu, using this as the printout heading and file name
+  exportTitle?: string;
 }
 
+const CHANCE_STYLES: Record<ChanceBand, string> = {
+  Safe: "bg-green-100 text-green-800",
+  Moderate: "bg-yellow-100 text-yellow-800",
+  Reach: "bg-orange-100 text-orange-800",
+  Unlikely: "bg-red-100 text-red-800",
+};
+
 const OptionEntryTable: React.FC<OptionEntryTableProps> = ({
   userRank,
   userCategory,
   options,
   onOptionsChange,
+  annotations,
+  costs,
+  exportTitle,
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<Option>>({});
@@ -138,8 +158,11 @@ const OptionEntryTable: React.FC<OptionEntryTableProps> = ({
     <Card className="p-6">
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-lg font-semibold text-foreground">Your Option List</h3>
-        <div className="text-sm text-muted-foreground">
-          Total Options: {options.length}
+        <div className="flex items-center gap-3">
+          <div className="text-sm text-muted-foreground">
+            Total Options: {options.length}
+          </div>
+          {exportTitle && <OptionExportMenu options={options} title={exportTitle} />}
         </div>
       </div>
 
@@ -154,6 +177,9 @@ const OptionEntryTable: React.FC<OptionEntryTableProps> = ({
               <TableHead>Course Name</TableHead>
               <TableHead>Location</TableHead>
               <TableHead>Course Fee</TableHead>
+              {costs && <TableHead>4-Year Cost</TableHead>}
+              {annotations && <TableHead>Past Cutoffs (R1)</TableHead>}
+              {annotations && <TableHead>Chance</TableHead>}
               <TableHead className="w-40">Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -250,6 +276,38 @@ const OptionEntryTable: React.FC<OptionEntryTableProps> = ({
                     option.courseFee || 'N/A'
                   )}
                 </TableCell>
+                {costs && (
+                  <TableCell className="whitespace-nowrap">
+                    {costs[option.id] != null ? `₹${costs[option.id]!.toLocaleString("en-IN")}` : <span className="text-xs text-muted-foreground">N/A</span>}
+                  </TableCell>
+                )}
+                {annotations && (
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {annotations[option.id]?.history.length ? (
+                      <div className="space-y-0.5">
+                        {annotations[option.id].history.slice(0, 3).map(record => (
+                          <div key={record.year}>
+                            {record.year}: {record.cutoff_rank.toLocaleString()}
+                          </div>
+                        ))}
+                        <div className="text-muted-foreground">{annotations[option.id].category}</div>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">No data</span>
+                    )}
+                  </TableCell>
+                )}
+                {annotations && (
+                  <TableCell>
+                    {annotations[option.id]?.chance ? (
+                      <Badge className={CHANCE_STYLES[annotations[option.id].chance.band]}>
+                        {annotations[option.id].chance.band} · {Math.round(annotations[option.id].chance.probability * 100)}%
+                      </Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{userRank ? 'No data' : 'Set rank'}</span>
+                    )}
+                  </TableCell>
+                )}
                 <TableCell>
                   <div className="flex gap-1">
                     {editingId === option.id ? (
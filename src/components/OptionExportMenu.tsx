@@ -0,0 +1,74 @@
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { Copy, Download, FileSpreadsheet, FileText, Printer } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { exportOptionList, toOptionText, type OptionExportFormat } from '@/lib/option-export'
+import type { PlannerOption } from '@/lib/option-planner'
+
+interface OptionExportMenuProps {
+  options: PlannerOption[]
+  // Heading of the printout and base of the file names
+  title: string
+}
+
+// Export the ordered list for typing into the KEA option entry portal
+export function OptionExportMenu({ options, title }: OptionExportMenuProps) {
+  const { toast } = useToast()
+
+  const save = (format: OptionExportFormat) => {
+    try {
+      exportOptionList(options, format, title)
+    } catch (error) {
+      toast({ title: 'Export failed', description: error instanceof Error ? error.message : String(error), variant: 'destructive' })
+    }
+  }
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(toOptionText(options))
+      toast({ title: `Copied ${options.length} options` })
+    } catch {
+      toast({ title: 'Could not copy', description: 'Use the text file download instead', variant: 'destructive' })
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={options.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => save('csv')}>
+          <FileText className="h-4 w-4 mr-2" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => save('xlsx')}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Excel (XLSX)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => save('pdf')}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print / Save as PDF
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => save('text')}>
+          <FileText className="h-4 w-4 mr-2" />
+          Plain text
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={copy}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy as text
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,65 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, AlertTriangle, CheckCircle2, Info, ListChecks } from 'lucide-react'
+import type { LintFix, LintIssue, LintSeverity } from '@/lib/option-linter'
+
+interface OptionLintPanelProps {
+  issues: LintIssue[]
+  onApplyFix: (fix: LintFix) => void
+  // Shown instead of the all-clear message when rank checks are skipped
+  rankMissing?: boolean
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, { icon: typeof Info; className: string; label: string }> = {
+  error: { icon: AlertCircle, className: 'text-red-600', label: 'Fix' },
+  warning: { icon: AlertTriangle, className: 'text-orange-600', label: 'Check' },
+  info: { icon: Info, className: 'text-blue-600', label: 'Note' }
+}
+
+// Strategy checks over the option list with one-click fixes where possible
+export function OptionLintPanel({ issues, onApplyFix, rankMissing = false }: OptionLintPanelProps) {
+  const counts = issues.reduce<Record<LintSeverity, number>>(
+    (acc, issue) => ({ ...acc, [issue.severity]: acc[issue.severity] + 1 }),
+    { error: 0, warning: 0, info: 0 }
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          List Check
+          {counts.error > 0 && <Badge className="bg-red-100 text-red-800">{counts.error} to fix</Badge>}
+          {counts.warning > 0 && <Badge className="bg-orange-100 text-orange-800">{counts.warning} to check</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {issues.length === 0 && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            {rankMissing ? 'No duplicates. Enter your rank to check ordering and safety options.' : 'No problems found in this list.'}
+          </div>
+        )}
+        {issues.map(issue => {
+          const style = SEVERITY_STYLES[issue.severity]
+          const Icon = style.icon
+          return (
+            <div key={`${issue.rule}-${issue.optionIds.join('-')}`} className="flex items-start gap-3 rounded-md border p-3">
+              <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${style.className}`} />
+              <div className="flex-1 space-y-1 text-sm">
+                <div className="font-medium">{issue.message}</div>
+                <div className="text-muted-foreground">{issue.suggestion}</div>
+              </div>
+              {issue.fix && (
+                <Button size="sm" variant="outline" onClick={() => onApplyFix(issue.fix!)}>
+                  {issue.fix.type === 'remove' ? 'Remove' : 'Move up'}
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
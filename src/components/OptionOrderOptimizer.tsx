@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ArrowDown, ArrowUp, Wand2 } from 'lucide-react'
+import type { CutoffRecord } from '@/lib/cutoff-repository'
+import { KARNATAKA_CITIES } from '@/lib/locations'
+import type { OptionAnnotation, PlannerOption } from '@/lib/option-planner'
+import {
+  DEFAULT_WEIGHTS,
+  getCollegeReputation,
+  getExpectedUtility,
+  moveOptionTo,
+  optimizeOptionOrder,
+  type PreferenceWeights
+} from '@/lib/option-optimizer'
+
+interface OptionOrderOptimizerProps {
+  options: PlannerOption[]
+  annotations: Record<string, OptionAnnotation>
+  cutoffs: CutoffRecord[]
+  // Same contract as OptionEntryTable, so a proposal replaces the list directly
+  onOptionsChange: (options: PlannerOption[]) => void
+}
+
+const WEIGHT_LABELS: Record<keyof PreferenceWeights, string> = {
+  branch: 'Branch preference',
+  reputation: 'College reputation',
+  fee: 'Lower fee',
+  distance: 'Close to home'
+}
+
+const NO_HOME = 'none'
+
+// Proposes an order for the current list from the student's weights
+export function OptionOrderOptimizer({ options, annotations, cutoffs, onOptionsChange }: OptionOrderOptimizerProps) {
+  const [weights, setWeights] = useState<PreferenceWeights>(DEFAULT_WEIGHTS)
+  const [branchOrder, setBranchOrder] = useState<string[]>([])
+  const [homeCity, setHomeCity] = useState(NO_HOME)
+  const [maxOptions, setMaxOptions] = useState('')
+
+  const reputation = useMemo(() => getCollegeReputation(cutoffs), [cutoffs])
+
+  // Branches keep the order the student gave; new ones join at the end in list order
+  const branches = useMemo(() => {
+    const present = [...new Set(options.map(o => o.branchCode.toUpperCase()))]
+    return [...branchOrder.filter(b => present.includes(b)), ...present.filter(b => !branchOrder.includes(b))]
+  }, [options, branchOrder])
+
+  const proposal = useMemo(() => optimizeOptionOrder(options, annotations, reputation, {
+    weights,
+    branchOrder: branches,
+    home: KARNATAKA_CITIES.find(city => city.name === homeCity) ?? null,
+    maxOptions: parseInt(maxOptions) || undefined
+  }), [options, annotations, reputation, weights, branches, homeCity, maxOptions])
+
+  const currentUtility = getExpectedUtility(options, proposal.scores)
+  const currentIndex = new Map(options.map((option, index) => [option.id, index]))
+
+  const moveBranch = (index: number, offset: number) => {
+    const next = [...branches]
+    const target = index + offset
+    if (target < 0 || target >= next.length) return
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setBranchOrder(next)
+  }
+
+  if (options.length < 2) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wand2 className="h-5 w-5" />
+          Suggested Order
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-6 grid-cols-1 lg:grid-cols-3">
+          <div className="space-y-4">
+            {(Object.keys(WEIGHT_LABELS) as Array<keyof PreferenceWeights>).map(key => (
+              <div key={key} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <Label>{WEIGHT_LABELS[key]}</Label>
+                  <span className="text-muted-foreground">{Math.round(weights[key] * 100)}</span>
+                </div>
+                <Slider
+                  value={[weights[key] * 100]}
+                  max={100}
+                  step={5}
+                  onValueChange={([value]) => setWeights({ ...weights, [key]: value / 100 })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Branches, most wanted first</Label>
+            <div className="space-y-1">
+              {branches.map((branch, index) => (
+                <div key={branch} className="flex items-center justify-between rounded-md border px-3 py-1 text-sm">
+                  <span className="font-mono">{branch}</span>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === 0} onClick={() => moveBranch(index, -1)}>
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === branches.length - 1} onClick={() => moveBranch(index, 1)}>
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Home</Label>
+              <Select value={homeCity} onValueChange={setHomeCity}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_HOME}>Not set</SelectItem>
+                  {KARNATAKA_CITIES.map(city => <SelectItem key={city.name} value={city.name}>{city.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="optimizer-max">Keep at most (optional)</Label>
+              <Input
+                id="optimizer-max"
+                type="number"
+                min={1}
+                value={maxOptions}
+                onChange={(e) => setMaxOptions(e.target.value)}
+                placeholder={`${options.length} options`}
+              />
+            </div>
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div>Expected utility now: <span className="font-semibold">{(currentUtility * 100).toFixed(1)}</span></div>
+              <div>With this order: <span className="font-semibold">{(proposal.expectedUtility * 100).toFixed(1)}</span></div>
+              {proposal.dropped.length > 0 && (
+                <div className="text-muted-foreground">{proposal.dropped.length} options left out</div>
+              )}
+            </div>
+            <Button className="w-full" onClick={() => onOptionsChange(proposal.options)}>
+              Apply suggested order
+            </Button>
+          </div>
+        </div>
+
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Suggested</TableHead>
+                <TableHead className="w-20">Now</TableHead>
+                <TableHead>Option</TableHead>
+                <TableHead>Utility</TableHead>
+                <TableHead>Chance</TableHead>
+                <TableHead className="w-28"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {proposal.options.map((option, index) => {
+                const score = proposal.scores[option.id]
+                const now = currentIndex.get(option.id) ?? -1
+                return (
+                  <TableRow key={option.id}>
+                    <TableCell className="font-medium">{index + 1}</TableCell>
+                    <TableCell className={now !== index ? 'text-orange-600' : 'text-muted-foreground'}>{now + 1}</TableCell>
+                    <TableCell>
+                      <div className="font-mono">{option.collegeCourse}</div>
+                      <div className="text-xs text-muted-foreground">{option.branchName} @ {option.collegeName}</div>
+                    </TableCell>
+                    <TableCell title={`Branch ${score.branch.toFixed(2)}, reputation ${score.reputation.toFixed(2)}, fee ${score.fee.toFixed(2)}, distance ${score.distance.toFixed(2)}`}>
+                      {(score.utility * 100).toFixed(0)}
+                    </TableCell>
+                    <TableCell>{annotations[option.id]?.chance ? `${Math.round(score.probability * 100)}%` : '—'}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={now === index}
+                        onClick={() => onOptionsChange(moveOptionTo(options, option.id, index))}
+                      >
+                        Move to {index + 1}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertTriangle } from 'lucide-react'
+import {
+  correctImportRow,
+  type ConfidenceLevel,
+  type ImportReference,
+  type ImportRow,
+  type OptionImportResult
+} from '@/lib/option-import'
+
+interface PDFImportReviewProps {
+  result: OptionImportResult
+  reference?: ImportReference
+  onConfirm: (rows: ImportRow[]) => void
+  onCancel: () => void
+}
+
+const LEVEL_STYLES: Record<ConfidenceLevel, string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-red-100 text-red-800'
+}
+
+// Parsed PDF rows with their confidence; uncertain rows can be corrected or left out before import
+export function PDFImportReview({ result, reference, onConfirm, onCancel }: PDFImportReviewProps) {
+  const [rows, setRows] = useState<ImportRow[]>(result.rows)
+  const [included, setIncluded] = useState<Set<string>>(
+    () => new Set(result.rows.filter(row => row.level !== 'low').map(row => row.option.id))
+  )
+
+  const counts = rows.reduce<Record<ConfidenceLevel, number>>(
+    (acc, row) => ({ ...acc, [row.level]: acc[row.level] + 1 }),
+    { high: 0, medium: 0, low: 0 }
+  )
+
+  const correct = (index: number, collegeCode: string, branchCode: string) => {
+    const next = [...rows]
+    next[index] = correctImportRow(rows[index], collegeCode, branchCode, reference)
+    setRows(next)
+  }
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(included)
+    if (checked) next.add(id)
+    else next.delete(id)
+    setIncluded(next)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{result.fileName}</span>
+        <span className="text-muted-foreground">• {result.pageCount} pages • {rows.length} options read</span>
+        <Badge className={LEVEL_STYLES.high}>{counts.high} high</Badge>
+        <Badge className={LEVEL_STYLES.medium}>{counts.medium} medium</Badge>
+        <Badge className={LEVEL_STYLES.low}>{counts.low} low</Badge>
+      </div>
+
+      {result.missingPriorities.length > 0 && (
+        <div className="flex items-start gap-2 rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            Option numbers not found: {result.missingPriorities.slice(0, 20).join(', ')}
+            {result.missingPriorities.length > 20 && ` and ${result.missingPriorities.length - 20} more`}.
+            Add them by code after importing.
+          </span>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          No options could be read from this file. Check that it is the option entry printout from the KEA portal.
+        </div>
+      ) : (
+        <div className="rounded-md border max-h-[28rem] overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10"></TableHead>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead className="w-14">Page</TableHead>
+                <TableHead className="w-48">Code</TableHead>
+                <TableHead>College / Course</TableHead>
+                <TableHead>Confidence</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={row.option.id} className={included.has(row.option.id) ? '' : 'opacity-60'}>
+                  <TableCell>
+                    <Checkbox
+                      checked={included.has(row.option.id)}
+                      onCheckedChange={(checked) => toggle(row.option.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>{row.option.priority}</TableCell>
+                  <TableCell>{row.page}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Input
+                        list="import-college-codes"
+                        value={row.option.collegeCode}
+                        onChange={(e) => correct(index, e.target.value, row.option.branchCode)}
+                        className="h-8 w-20 font-mono"
+                      />
+                      <Input
+                        list="import-course-codes"
+                        value={row.option.branchCode}
+                        onChange={(e) => correct(index, row.option.collegeCode, e.target.value)}
+                        className="h-8 w-16 font-mono"
+                      />
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{row.option.collegeName}</div>
+                    <div className="text-xs text-muted-foreground">{row.option.branchName}</div>
+                    {row.issues.length > 0 && (
+                      <div className="text-xs text-orange-700">{row.issues.join(' • ')}</div>
+                    )}
+                    {row.level !== 'high' && (
+                      <div className="text-xs text-muted-foreground font-mono truncate max-w-md" title={row.rawText}>
+                        “{row.rawText}”
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={LEVEL_STYLES[row.level]}>
+                      {row.corrected && row.level === 'high' ? 'Corrected' : `${row.level} · ${Math.round(row.confidence * 100)}%`}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {result.unparsed.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">
+            {result.unparsed.length} lines mention an option code but could not be read
+          </summary>
+          <ul className="mt-2 space-y-1 font-mono text-xs">
+            {result.unparsed.map((fragment, i) => (
+              <li key={i}>p.{fragment.page}: {fragment.text}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {reference && (
+        <>
+          <datalist id="import-college-codes">
+            {Object.entries(reference.colleges).map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+          </datalist>
+          <datalist id="import-course-codes">
+            {Object.entries(reference.courses).map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+          </datalist>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={() => onConfirm(rows.filter(row => included.has(row.option.id)))} disabled={included.size === 0}>
+          Add {included.size} option{included.size === 1 ? '' : 's'}
+        </Button>
+        <Button variant="outline" onClick={onCancel}>Discard</Button>
+      </div>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { validateRank, validateCategory } from "@/lib/security";
+import { BASE_CATEGORIES, getBaseCategoryLabel, getCategoryCode } from "@/lib/categories";
 
 interface RankInputProps {
   onRankSubmit: (rank: number, category: string) => void;
@@ -63,15 +64,11 @@ const RankInput: React.FC<RankInputProps> = ({ onRankSubmit }) => {
               <SelectValue placeholder="Select category" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="GM">General Merit (GM)</SelectItem>
-              <SelectItem value="SC">Scheduled Caste (SC)</SelectItem>
-              <SelectItem value="ST">Scheduled Tribe (ST)</SelectItem>
-              <SelectItem value="OBC">Other Backward Classes (OBC)</SelectItem>
-              <SelectItem value="CAT1">Category 1</SelectItem>
-              <SelectItem value="CAT2A">Category 2A</SelectItem>
-              <SelectItem value="CAT2B">Category 2B</SelectItem>
-              <SelectItem value="CAT3A">Category 3A</SelectItem>
-              <SelectItem value="CAT3B">Category 3B</SelectItem>
+              {BASE_CATEGORIES.map((base) => (
+                <SelectItem key={base} value={getCategoryCode(base, 'G')}>
+                  {getBaseCategoryLabel(base)}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -0,0 +1,43 @@
+import { getRoundLabel } from '@/lib/rounds'
+import type { RoundPoint } from '@/lib/round-movement'
+
+interface RoundSparklineProps {
+  points: RoundPoint[]
+  // Round to mark, usually the one of the row being shown
+  highlightRound?: string
+  width?: number
+  height?: number
+}
+
+// Closing rank per round; higher on the chart means a larger (easier) closing rank
+export function RoundSparkline({ points, highlightRound, width = 80, height = 24 }: RoundSparklineProps) {
+  if (points.length < 2) {
+    return <span className="text-xs text-muted-foreground">—</span>
+  }
+
+  const ranks = points.map(p => p.cutoff_rank)
+  const min = Math.min(...ranks)
+  const max = Math.max(...ranks)
+  const pad = 3
+  const x = (i: number) => pad + (i * (width - 2 * pad)) / (points.length - 1)
+  const y = (rank: number) => max === min ? height / 2 : height - pad - ((rank - min) * (height - 2 * pad)) / (max - min)
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.cutoff_rank).toFixed(1)}`).join(' ')
+  const title = points.map(p => `${getRoundLabel(p.round)}: ${p.cutoff_rank.toLocaleString()}`).join('\n')
+  const rising = ranks[ranks.length - 1] >= ranks[0]
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label={title}>
+      <title>{title}</title>
+      <path d={path} fill="none" strokeWidth={1.5} className={rising ? 'stroke-green-600' : 'stroke-red-600'} />
+      {points.map((p, i) => (
+        <circle
+          key={p.round}
+          cx={x(i)}
+          cy={y(p.cutoff_rank)}
+          r={p.round === highlightRound ? 2.5 : 1.5}
+          className={p.round === highlightRound ? 'fill-primary' : 'fill-muted-foreground'}
+        />
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,150 @@
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Play } from 'lucide-react'
+import { getAvailableYears, type CutoffRecord } from '@/lib/cutoff-repository'
+import { Round } from '@/lib/rounds'
+import {
+  compareAllocations,
+  compareWithHistory,
+  simulateSeatAllocation,
+  type AllocationResult,
+  type ScenarioRow
+} from '@/lib/seat-allocation'
+import { loadSeatMatrix } from '@/lib/seat-matrix'
+import { median } from '@/lib/statistics'
+
+interface SeatAllocationScenariosProps {
+  cutoffs: CutoffRecord[]
+}
+
+interface ScenarioRun {
+  baseline: AllocationResult
+  scenario: AllocationResult
+  rows: ScenarioRow[]
+  // Median |ln(synthetic / published)| of the baseline over matched columns
+  historyError: number | null
+  matched: number
+}
+
+// A tenth of the pool keeps a run to a few seconds; seats are scaled to match
+const SAMPLE_RATE = 0.1
+const TABLE_ROWS = 50
+
+const formatRank = (rank: number | null) => rank === null ? '—' : rank.toLocaleString()
+
+// Synthetic cutoffs from the seat matrix, checked against the published ones
+// and rerun with more or fewer seats
+export function SeatAllocationScenarios({ cutoffs }: SeatAllocationScenariosProps) {
+  const years = useMemo(() => getAvailableYears(cutoffs), [cutoffs])
+  const [year, setYear] = useState('')
+  const [seatChange, setSeatChange] = useState(10)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState('')
+  const [run, setRun] = useState<ScenarioRun | null>(null)
+
+  const activeYear = year || years[0] || ''
+
+  const runScenario = async () => {
+    setRunning(true)
+    setError('')
+    try {
+      const matrix = await loadSeatMatrix(Number(activeYear))
+      if (matrix.capacities.length === 0) throw new Error(`No seat matrix rows for ${activeYear}`)
+      // History before the simulated year sets each line's popularity
+      const history = cutoffs.filter(record => record.year < activeYear)
+      const options = { sampleRate: SAMPLE_RATE, seed: 1 }
+      const baseline = simulateSeatAllocation(matrix.capacities, history, options)
+      const scenario = simulateSeatAllocation(matrix.capacities, history, { ...options, seatFactor: 1 + seatChange / 100 })
+      const comparisons = compareWithHistory(baseline.cutoffs, cutoffs, activeYear, Round.Round1)
+      setRun({
+        baseline,
+        scenario,
+        rows: compareAllocations(baseline.cutoffs, scenario.cutoffs)
+          .filter(row => row.category === 'GM' && row.baselineRank !== null)
+          .sort((a, b) => a.baselineRank! - b.baselineRank!),
+        historyError: comparisons.length > 0 ? median(comparisons.map(c => Math.abs(c.logRatio))) : null,
+        matched: comparisons.length
+      })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Simulation failed')
+      setRun(null)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <CardTitle>Seat Allocation Scenarios</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Allots a synthetic candidate pool against the seat matrix, compares the resulting Round 1 cutoffs with the published ones,
+          and reruns the allotment with the seat change below.
+        </p>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="scenario-year">Seat matrix year</Label>
+            <Input id="scenario-year" className="w-28" value={activeYear} onChange={e => setYear(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="scenario-seats">Seat change %</Label>
+            <Input id="scenario-seats" className="w-28" type="number" value={seatChange} onChange={e => setSeatChange(Number(e.target.value))} />
+          </div>
+          <Button onClick={runScenario} disabled={running || !activeYear || seatChange <= -100}>
+            <Play className="h-4 w-4 mr-2" />
+            {running ? 'Simulating…' : 'Run'}
+          </Button>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardHeader>
+      {run && (
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="p-3 rounded-lg border">
+              <p className="text-xs text-muted-foreground">Candidates simulated</p>
+              <p className="text-xl font-semibold">{run.baseline.candidates.toLocaleString()}</p>
+            </div>
+            <div className="p-3 rounded-lg border">
+              <p className="text-xs text-muted-foreground">Placed, actual seats → with change</p>
+              <p className="text-xl font-semibold">{run.baseline.placed.toLocaleString()} → {run.scenario.placed.toLocaleString()}</p>
+            </div>
+            <div className="p-3 rounded-lg border">
+              <p className="text-xs text-muted-foreground">Typical gap to published cutoffs</p>
+              <p className="text-xl font-semibold">
+                {run.historyError === null ? '—' : `×${Math.exp(run.historyError).toFixed(2)}`}
+              </p>
+              <p className="text-xs text-muted-foreground">over {run.matched.toLocaleString()} matched columns</p>
+            </div>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Seat line</TableHead>
+                <TableHead className="text-right">Seats</TableHead>
+                <TableHead className="text-right">GM closing rank</TableHead>
+                <TableHead className="text-right">With {seatChange >= 0 ? '+' : ''}{seatChange}% seats</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {run.rows.slice(0, TABLE_ROWS).map(row => (
+                <TableRow key={`${row.collegeCode}${row.branchCode}`}>
+                  <TableCell className="font-mono">{row.collegeCode}{row.branchCode}</TableCell>
+                  <TableCell className="text-right">{row.baselineSeats} → {row.scenarioSeats}</TableCell>
+                  <TableCell className="text-right">{formatRank(row.baselineRank)}</TableCell>
+                  <TableCell className="text-right">{formatRank(row.scenarioRank)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            Seats and ranks are for a {Math.round(SAMPLE_RATE * 100)}% sample of the candidate pool; ranks are on the full scale.
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,110 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { CET_SUBJECT_LABELS } from '@/lib/stream-rank-predictor'
+import {
+  PAPER_MAX,
+  PCM_SUBJECTS,
+  validateSubjectMarks,
+  type CompositeBreakdown,
+  type MarksExam,
+  type PcmSubject,
+  type SubjectMarks
+} from '@/lib/subject-marks'
+
+const parseMark = (value: string): number | null => value.trim() === '' ? null : Number(value)
+
+const EXAM_TITLES: Record<MarksExam, string> = { kcet: 'KCET', puc: 'Second PUC' }
+
+// KCET and PUC marks entered paper by paper
+export function SubjectMarksInput({ value, onChange, disabled }: {
+  value: SubjectMarks
+  onChange: (value: SubjectMarks) => void
+  disabled?: boolean
+}) {
+  // Blank papers are only reported when predicting
+  const errors = validateSubjectMarks(value).filter(e => value[e.exam][e.subject] !== null)
+  const setMark = (exam: MarksExam, subject: PcmSubject, mark: number | null) =>
+    onChange({ ...value, [exam]: { ...value[exam], [subject]: mark } })
+
+  return (
+    <div className="space-y-4">
+      {(['kcet', 'puc'] as MarksExam[]).map(exam => (
+        <div key={exam} className="space-y-2">
+          <p className="text-sm font-medium">{EXAM_TITLES[exam]}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {PCM_SUBJECTS.map(subject => {
+              const error = errors.find(e => e.exam === exam && e.subject === subject)
+              return (
+                <div key={subject} className="space-y-1">
+                  <Label htmlFor={`${exam}-${subject}`}>{CET_SUBJECT_LABELS[subject]} (0-{PAPER_MAX[exam]})</Label>
+                  <Input
+                    id={`${exam}-${subject}`}
+                    type="number"
+                    min="0"
+                    max={PAPER_MAX[exam]}
+                    disabled={disabled}
+                    aria-invalid={Boolean(error)}
+                    value={value[exam][subject] ?? ''}
+                    onChange={e => setMark(exam, subject, parseMark(e.target.value))}
+                  />
+                  {error && <p className="text-xs text-destructive">{error.error}</p>}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Composite points each subject's KCET and PUC marks add
+export function SubjectContributionTable({ breakdown }: { breakdown: CompositeBreakdown }) {
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Subject</TableHead>
+            <TableHead className="text-right">KCET</TableHead>
+            <TableHead className="text-right">PUC</TableHead>
+            <TableHead className="text-right">KCET points</TableHead>
+            <TableHead className="text-right">PUC points</TableHead>
+            <TableHead className="text-right">Total points</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {breakdown.subjects.map(s => (
+            <TableRow key={s.subject}>
+              <TableCell className="font-medium">{s.label}</TableCell>
+              <TableCell className="text-right">{s.kcet}/{PAPER_MAX.kcet}</TableCell>
+              <TableCell className="text-right">{s.puc}/{PAPER_MAX.puc}</TableCell>
+              <TableCell className="text-right font-mono">{s.kcetPoints.toFixed(2)}</TableCell>
+              <TableCell className="text-right font-mono">{s.pucPoints.toFixed(2)}</TableCell>
+              <TableCell className="text-right font-mono font-semibold">{s.points.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell className="font-medium">Composite</TableCell>
+            <TableCell className="text-right">{breakdown.kcetTotal}/{PAPER_MAX.kcet * PCM_SUBJECTS.length}</TableCell>
+            <TableCell className="text-right">{breakdown.pucPercentage.toFixed(2)}%</TableCell>
+            <TableCell className="text-right font-mono">{breakdown.subjects.reduce((sum, s) => sum + s.kcetPoints, 0).toFixed(2)}</TableCell>
+            <TableCell className="text-right font-mono">{breakdown.subjects.reduce((sum, s) => sum + s.pucPoints, 0).toFixed(2)}</TableCell>
+            <TableCell className="text-right font-mono font-semibold">{breakdown.composite.toFixed(2)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+      {breakdown.subjects.map(s => (
+        <div key={s.subject}>
+          <div className="flex justify-between text-sm mb-1">
+            <span>{s.label}</span>
+            <span>{breakdown.composite > 0 ? (s.points / breakdown.composite * 100).toFixed(1) : '0.0'}% of composite</span>
+          </div>
+          <Progress value={breakdown.composite > 0 ? s.points / breakdown.composite * 100 : 0} />
+        </div>
+      ))}
+    </div>
+  )
+}
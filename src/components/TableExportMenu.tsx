@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { Download, FileSpreadsheet, FileText } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { exportTable, type ExportTable, type TableExportFormat } from '@/lib/table-export'
+
+interface TableExportMenuProps {
+  // Built on demand so large tables are only assembled when exported
+  getTable: () => ExportTable
+  disabled?: boolean
+}
+
+// Download the rows behind a chart or table as CSV or XLSX
+export function TableExportMenu({ getTable, disabled }: TableExportMenuProps) {
+  const { toast } = useToast()
+
+  const save = (format: TableExportFormat) => {
+    try {
+      exportTable(getTable(), format)
+    } catch (error) {
+      toast({ title: 'Export failed', description: error instanceof Error ? error.message : String(error), variant: 'destructive' })
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => save('csv')}>
+          <FileText className="h-4 w-4 mr-2" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => save('xlsx')}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Excel (XLSX)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
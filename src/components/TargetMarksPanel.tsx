@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from 'react'
+import { CartesianGrid, Legend, Line, LineChart, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Crosshair } from 'lucide-react'
+import { getCategoryLabel } from '@/lib/categories'
+import {
+  getAvailableCategories,
+  getAvailableCourses,
+  getAvailableInstitutes,
+  getAvailableRounds,
+  loadCutoffDataset,
+  queryCutoffs,
+  type CutoffRecord
+} from '@/lib/cutoff-repository'
+import {
+  getKcetMarksNeeded,
+  getRequiredMarks,
+  getRequiredScore,
+  getTargetCutoff
+} from '@/lib/reverse-rank-predictor'
+import { getRoundLabel, Round } from '@/lib/rounds'
+
+interface TargetMarksPanelProps {
+  // The student's current marks, drawn on the curve
+  kcetMarks?: number
+  pucPercentage?: number
+}
+
+type TargetMode = 'rank' | 'cutoff'
+
+// PUC percentages the curve is drawn over; 45% is the general eligibility bar
+const CURVE_PUC_MIN = 40
+const CURVE_PUC_VALUES = Array.from({ length: 100 - CURVE_PUC_MIN + 1 }, (_, i) => CURVE_PUC_MIN + i)
+
+const chartConfig: ChartConfig = {
+  kcet: { label: 'KCET marks for the predicted rank', color: 'hsl(220 91% 50%)' },
+  safeKcet: { label: 'KCET marks with a safe margin', color: 'hsl(142 76% 36%)' }
+}
+
+const formatMarks = (marks: number | null) => marks === null ? 'Not reachable' : `${marks}/180`
+
+// Composite and KCET marks needed for a target rank or a college's closing rank
+export function TargetMarksPanel({ kcetMarks, pucPercentage }: TargetMarksPanelProps) {
+  const [mode, setMode] = useState<TargetMode>('rank')
+  const [rankInput, setRankInput] = useState('10000')
+  const [cutoffs, setCutoffs] = useState<CutoffRecord[]>([])
+  const [loadError, setLoadError] = useState('')
+  const [institute, setInstitute] = useState('')
+  const [course, setCourse] = useState('')
+  const [category, setCategory] = useState('GM')
+  const [round, setRound] = useState<string>(Round.Round1)
+  const [puc, setPuc] = useState(pucPercentage ?? 85)
+
+  useEffect(() => {
+    if (mode !== 'cutoff' || cutoffs.length > 0) return
+    loadCutoffDataset()
+      .then(dataset => setCutoffs(dataset.cutoffs))
+      .catch(error => setLoadError(error instanceof Error ? error.message : 'Unable to load cutoffs'))
+  }, [mode, cutoffs.length])
+
+  const institutes = useMemo(() => getAvailableInstitutes(cutoffs), [cutoffs])
+  const instituteCutoffs = useMemo(() => institute ? queryCutoffs(cutoffs, { institute }) : [], [cutoffs, institute])
+  const courses = useMemo(() => getAvailableCourses(instituteCutoffs), [instituteCutoffs])
+  const courseCutoffs = useMemo(() => course ? queryCutoffs(instituteCutoffs, { course }) : [], [instituteCutoffs, course])
+  const categories = useMemo(() => getAvailableCategories(courseCutoffs), [courseCutoffs])
+  const rounds = useMemo(() => getAvailableRounds(courseCutoffs), [courseCutoffs])
+
+  const targetCutoff = useMemo(
+    () => mode === 'cutoff' && course ? getTargetCutoff(courseCutoffs, { institute_code: institute, course, category, round }) : null,
+    [mode, courseCutoffs, institute, course, category, round]
+  )
+
+  const targetRank = mode === 'rank' ? Math.round(Number(rankInput)) : targetCutoff?.cutoff_rank ?? NaN
+  // Number('1e400') is Infinity, which getRequiredScore rejects
+  const validRank = Number.isFinite(targetRank) && targetRank >= 1
+  const required = useMemo(() => validRank ? getRequiredScore(targetRank) : null, [validRank, targetRank])
+  const rows = useMemo(() => required ? getRequiredMarks(required) : [], [required])
+  const curve = useMemo(
+    () => required ? getRequiredMarks(required, CURVE_PUC_VALUES) : [],
+    [required]
+  )
+
+  const selectInstitute = (code: string) => {
+    setInstitute(code)
+    setCourse('')
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <CardTitle className="flex items-center gap-2">
+          <Crosshair className="h-5 w-5" />
+          Marks Needed for a Target
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Work back from the rank you want, or from the closing rank of a college, course and category, to the composite and KCET marks it takes.
+        </p>
+        <div className="flex flex-wrap gap-3 items-end">
+          <div className="space-y-1">
+            <Label>Target</Label>
+            <Select value={mode} onValueChange={value => setMode(value as TargetMode)}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rank">A rank</SelectItem>
+                <SelectItem value="cutoff">A college's cutoff</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === 'rank' ? (
+            <div className="space-y-1">
+              <Label htmlFor="target-rank">Target rank</Label>
+              <Input id="target-rank" className="w-40" type="number" min="1" value={rankInput} onChange={e => setRankInput(e.target.value)} />
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Label>College</Label>
+                <Select value={institute} onValueChange={selectInstitute}>
+                  <SelectTrigger className="w-72"><SelectValue placeholder={cutoffs.length ? 'Choose a college' : 'Loading cutoffs…'} /></SelectTrigger>
+                  <SelectContent>
+                    {institutes.map(i => <SelectItem key={i.code} value={i.code}>{i.code} – {i.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Course</Label>
+                <Select value={course} onValueChange={setCourse} disabled={!institute}>
+                  <SelectTrigger className="w-72"><SelectValue placeholder="Choose a course" /></SelectTrigger>
+                  <SelectContent>
+                    {courses.map(c => <SelectItem key={c.name} value={c.name}>{c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Select value={category} onValueChange={setCategory} disabled={!course}>
+                  <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(categories.length ? categories : [category]).map(c => <SelectItem key={c} value={c}>{getCategoryLabel(c)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Round</Label>
+                <Select value={round} onValueChange={setRound} disabled={!course}>
+                  <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(rounds.length ? rounds : [round]).map(r => <SelectItem key={r} value={r}>{getRoundLabel(r)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+        </div>
+        {mode === 'rank' && rankInput.trim() !== '' && !validRank && (
+          <p className="text-sm text-destructive">Enter a whole rank of 1 or more</p>
+        )}
+        {mode === 'cutoff' && loadError && <p className="text-sm text-destructive">{loadError}</p>}
+        {mode === 'cutoff' && course && !targetCutoff && (
+          <p className="text-sm text-muted-foreground">No {getCategoryLabel(category)} cutoff was published for this course in {getRoundLabel(round)}.</p>
+        )}
+        {targetCutoff && (
+          <p className="text-sm">
+            Closing rank <span className="font-semibold">{targetCutoff.cutoff_rank.toLocaleString()}</span> in {targetCutoff.year} {getRoundLabel(targetCutoff.round)}
+          </p>
+        )}
+      </CardHeader>
+      {required && (
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="p-4 rounded-lg border bg-muted/40">
+              <p className="text-sm text-muted-foreground">Composite for a predicted rank of {required.targetRank.toLocaleString()}</p>
+              <p className="text-2xl font-bold">{required.composite.toFixed(1)}%</p>
+            </div>
+            <div className="p-4 rounded-lg border bg-muted/40">
+              <p className="text-sm text-muted-foreground">Composite that reaches it even at the pessimistic end</p>
+              <p className="text-2xl font-bold">{required.safeComposite === null ? 'Not reachable' : `${required.safeComposite.toFixed(1)}%`}</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span>PUC PCM {puc}%</span>
+              <span>
+                KCET {formatMarks(getKcetMarksNeeded(required.composite, puc))}
+                <Badge variant="outline" className="ml-2">Safe {formatMarks(getKcetMarksNeeded(required.safeComposite, puc))}</Badge>
+              </span>
+            </div>
+            <Slider min={CURVE_PUC_MIN} max={100} step={1} value={[puc]} onValueChange={([value]) => setPuc(value)} />
+          </div>
+
+          <ChartContainer config={chartConfig} className="aspect-auto h-[320px] w-full">
+            <LineChart data={curve} margin={{ left: 8, right: 16 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="puc" type="number" domain={[CURVE_PUC_MIN, 100]} unit="%" />
+              <YAxis domain={[0, 180]} width={36} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `PUC ${payload?.[0]?.payload.puc}%`} />} />
+              <Legend />
+              <Line type="monotone" dataKey="kcet" stroke="var(--color-kcet)" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="safeKcet" stroke="var(--color-safeKcet)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+              <ReferenceLine x={puc} stroke="hsl(215 16% 47%)" strokeDasharray="2 2" />
+              {kcetMarks !== undefined && pucPercentage !== undefined && pucPercentage >= CURVE_PUC_MIN && (
+                <ReferenceDot x={pucPercentage} y={kcetMarks} r={5} fill="hsl(0 84% 60%)" stroke="none" label={{ value: 'You', position: 'top' }} />
+              )}
+            </LineChart>
+          </ChartContainer>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PUC PCM %</TableHead>
+                <TableHead className="text-right">KCET marks needed</TableHead>
+                <TableHead className="text-right">With a safe margin</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.puc}>
+                  <TableCell>{row.puc}%</TableCell>
+                  <TableCell className="text-right">{formatMarks(row.kcet)}</TableCell>
+                  <TableCell className="text-right">{formatMarks(row.safeKcet)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            The safe margin covers the high end of the 80% rank band. Cutoffs move every year, so a college's last closing rank is only a guide.
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
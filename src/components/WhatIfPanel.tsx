@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react'
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Sparkles } from 'lucide-react'
+import { MAX_PREDICTED_RANK } from '@/lib/rank-predictor'
+import { getMarginalGain, getMarginalGainCurve, getRankGrid } from '@/lib/rank-sensitivity'
+import { cn } from '@/lib/utils'
+
+interface WhatIfPanelProps {
+  // Marks the explorer starts from
+  kcetMarks: number
+  pucPercentage: number
+}
+
+const chartConfig: ChartConfig = {
+  perKcetMark: { label: 'Ranks per extra KCET mark', color: 'hsl(220 91% 50%)' }
+}
+
+const formatCompactRank = (rank: number) => rank >= 1000 ? `${(rank / 1000).toFixed(rank >= 10000 ? 0 : 1)}k` : String(rank)
+
+// Green for the best ranks through to red for the worst, on a log scale
+const getRankColor = (rank: number) => {
+  const t = Math.log(Math.max(rank, 1)) / Math.log(MAX_PREDICTED_RANK)
+  return `hsl(${Math.round(142 * (1 - t))} 70% 82%)`
+}
+
+const nearest = (values: number[], value: number) =>
+  values.reduce((best, v) => (Math.abs(v - value) < Math.abs(best - value) ? v : best), values[0])
+
+const formatGain = (gain: number | null) => gain === null ? 'Already at full marks' : `${gain.toLocaleString()} ranks`
+
+// Heatmap of predicted rank over KCET marks and PUC percentage, and what one
+// more mark is worth at a chosen point
+export function WhatIfPanel({ kcetMarks, pucPercentage }: WhatIfPanelProps) {
+  const [kcet, setKcet] = useState(Math.round(kcetMarks))
+  const [puc, setPuc] = useState(Math.round(pucPercentage))
+
+  const grid = useMemo(() => getRankGrid(), [])
+  const gain = useMemo(() => getMarginalGain(kcet, puc), [kcet, puc])
+  const curve = useMemo(() => getMarginalGainCurve(puc), [puc])
+
+  const highlightKcet = nearest(grid.kcetValues, kcet)
+  const highlightPuc = nearest(grid.pucValues, puc)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          What If Explorer
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          See how your predicted rank moves with your marks. Pick a cell or move the sliders to see what one more mark is worth at that level.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-6 sm:grid-cols-2">
+          <div className="space-y-3">
+            <Label>KCET PCM: {kcet}/180</Label>
+            <Slider min={0} max={180} step={1} value={[kcet]} onValueChange={([value]) => setKcet(value)} />
+          </div>
+          <div className="space-y-3">
+            <Label>PUC PCM: {puc}%</Label>
+            <Slider min={0} max={100} step={1} value={[puc]} onValueChange={([value]) => setPuc(value)} />
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="p-4 rounded-lg border bg-muted/40">
+            <p className="text-sm text-muted-foreground">Predicted rank</p>
+            <p className="text-2xl font-bold">{gain.rank.toLocaleString()}</p>
+          </div>
+          <div className="p-4 rounded-lg border bg-muted/40">
+            <p className="text-sm text-muted-foreground">One more KCET mark</p>
+            <p className="text-2xl font-bold">{formatGain(gain.perKcetMark)}</p>
+          </div>
+          <div className="p-4 rounded-lg border bg-muted/40">
+            <p className="text-sm text-muted-foreground">One more PUC percent</p>
+            <p className="text-2xl font-bold">{formatGain(gain.perPucPercent)}</p>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full border-separate border-spacing-0.5 text-xs">
+            <thead>
+              <tr>
+                <th className="p-1 text-left font-medium text-muted-foreground">PUC \ KCET</th>
+                {grid.kcetValues.map(value => (
+                  <th key={value} className="p-1 font-medium text-muted-foreground">{value}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {[...grid.rows].reverse().map(row => (
+                <tr key={row[0].puc}>
+                  <th className="p-1 text-left font-medium text-muted-foreground">{row[0].puc}%</th>
+                  {row.map(cell => (
+                    <td
+                      key={cell.kcet}
+                      title={`KCET ${cell.kcet}, PUC ${cell.puc}%: rank ${cell.rank.toLocaleString()}`}
+                      className={cn(
+                        'p-1 text-center rounded cursor-pointer font-mono',
+                        cell.kcet === highlightKcet && cell.puc === highlightPuc && 'ring-2 ring-primary font-bold'
+                      )}
+                      style={{ backgroundColor: getRankColor(cell.rank) }}
+                      onClick={() => {
+                        setKcet(cell.kcet)
+                        setPuc(cell.puc)
+                      }}
+                    >
+                      {formatCompactRank(cell.rank)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Ranks gained per extra KCET mark at PUC {puc}%</p>
+          <ChartContainer config={chartConfig} className="aspect-auto h-[280px] w-full">
+            <LineChart data={curve} margin={{ left: 8, right: 16 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="kcet" type="number" domain={[0, 180]} />
+              <YAxis width={48} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `KCET ${payload?.[0]?.payload.kcet}/180`} />} />
+              <Line type="monotone" dataKey="perKcetMark" stroke="var(--color-perKcetMark)" strokeWidth={2} dot={false} />
+              <ReferenceLine x={kcet} stroke="hsl(215 16% 47%)" strokeDasharray="2 2" />
+            </LineChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground">
+            Marks are worth the most ranks in the crowded middle of the field and the fewest at the top, where few candidates compete.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
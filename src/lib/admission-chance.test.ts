@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest'
+import { estimateAdmissionChance, getAnyAdmissionProbability, getChanceBand, indexCutoffHistory, getHistoryKey } from './admission-chance'
+import type { CutoffRecord } from './cutoff-repository'
+
+const line = (year: string, round: string, cutoff_rank: number): CutoffRecord => ({
+  institute: 'RVCE', institute_code: 'E005', course: 'Computer Science And Engineering', course_code: 'CS',
+  category: 'GM', cutoff_rank, year, round
+})
+
+const history = [line('2023', 'R1', 1000), line('2023', 'EXT', 1200), line('2024', 'R1', 1050), line('2024', 'EXT', 1300)]
+
+describe('Admission chance', () => {
+  test('bands follow the probability', () => {
+    expect(getChanceBand(0.95)).toBe('Safe')
+    expect(getChanceBand(0.6)).toBe('Moderate')
+    expect(getChanceBand(0.3)).toBe('Reach')
+    expect(getChanceBand(0.05)).toBe('Unlikely')
+  })
+
+  test('probability falls as the rank gets worse', () => {
+    const safe = estimateAdmissionChance(500, history)
+    const borderline = estimateAdmissionChance(1150, history)
+    const unlikely = estimateAdmissionChance(5000, history)
+
+    expect(safe.band).toBe('Safe')
+    expect(borderline.probability).toBeGreaterThan(0.2)
+    expect(borderline.probability).toBeLessThan(0.8)
+    expect(unlikely.band).toBe('Unlikely')
+    expect(safe.probability).toBeGreaterThan(borderline.probability)
+    expect(borderline.expectedCutoff).toBeGreaterThan(1000)
+    expect(borderline.expectedCutoff).toBeLessThan(1300)
+  })
+
+  test('groups history by college, course and category', () => {
+    const index = indexCutoffHistory([...history, { ...line('2024', 'R1', 4000), category: 'SCG' }])
+    expect(index.get(getHistoryKey(history[0]))).toHaveLength(4)
+    expect(index.size).toBe(2)
+  })
+
+  test('combines option chances into the chance of getting at least one', () => {
+    expect(getAnyAdmissionProbability([])).toBe(0)
+    expect(getAnyAdmissionProbability([0.5, 0.5])).toBeCloseTo(0.75)
+    expect(getAnyAdmissionProbability([0.2, 1])).toBe(1)
+  })
+})
@@ -0,0 +1,90 @@
+import { type CutoffRecord } from '@/lib/cutoff-repository'
+import { clamp, normalCdf, weightedMean, weightedStdDev } from '@/lib/statistics'
+
+export type ChanceBand = 'Safe' | 'Moderate' | 'Reach' | 'Unlikely'
+
+export interface AdmissionChance {
+  // Probability that the closing rank ends up at or beyond the user's rank
+  probability: number
+  band: ChanceBand
+  // Median of the modelled closing rank
+  expectedCutoff: number
+  observations: number
+}
+
+// Lower bounds of each band, checked in order
+export const CHANCE_BANDS: Array<{ band: ChanceBand; min: number }> = [
+  { band: 'Safe', min: 0.8 },
+  { band: 'Moderate', min: 0.5 },
+  { band: 'Reach', min: 0.2 },
+  { band: 'Unlikely', min: 0 }
+]
+
+// Results below this probability are not worth listing in the finder
+export const MIN_LISTED_CHANCE = 0.05
+
+// Spread of closing ranks in log space: never assume less than ~12% year to
+// year movement, and assume ~30% when only a single observation exists
+const MIN_LOG_SPREAD = 0.12
+const SINGLE_OBSERVATION_SPREAD = 0.3
+
+// Each year further back counts half as much as the one after it
+const YEAR_DECAY = 0.5
+
+export const getChanceBand = (probability: number): ChanceBand => {
+  return CHANCE_BANDS.find(({ min }) => probability >= min)?.band ?? 'Unlikely'
+}
+
+/** Key identifying one college-course-category seat line across years and rounds. */
+export const getHistoryKey = (record: Pick<CutoffRecord, 'institute_code' | 'course_code' | 'course' | 'category'>): string => {
+  return [record.institute_code, record.course_code || record.course, record.category].join('|')
+}
+
+export const indexCutoffHistory = (records: CutoffRecord[]): Map<string, CutoffRecord[]> => {
+  const index = new Map<string, CutoffRecord[]>()
+  for (const record of records) {
+    const key = getHistoryKey(record)
+    const list = index.get(key)
+    if (list) list.push(record)
+    else index.set(key, [record])
+  }
+  return index
+}
+
+/**
+ * Estimate the chance of admission from the closing-rank history of one seat
+ * line. Closing ranks are modelled as log-normal: the centre is a
+ * recency-weighted mean of every year and round observed, the spread comes from
+ * how much those observations disagree (round-to-round slide plus year-to-year
+ * drift).
+ */
+export const estimateAdmissionChance = (userRank: number, history: CutoffRecord[]): AdmissionChance => {
+  const observations = history.filter(r => r.cutoff_rank > 0)
+  if (observations.length === 0 || userRank <= 0) {
+    return { probability: 0, band: 'Unlikely', expectedCutoff: 0, observations: 0 }
+  }
+
+  const latestYear = Math.max(...observations.map(r => parseInt(r.year)))
+  const logs = observations.map(r => Math.log(r.cutoff_rank))
+  const weights = observations.map(r => YEAR_DECAY ** (latestYear - parseInt(r.year)))
+
+  const center = weightedMean(logs, weights)
+  const spread = observations.length === 1
+    ? SINGLE_OBSERVATION_SPREAD
+    : Math.max(MIN_LOG_SPREAD, weightedStdDev(logs, weights))
+
+  const probability = clamp(1 - normalCdf((Math.log(userRank) - center) / spread), 0, 1)
+  return {
+    probability,
+    band: getChanceBand(probability),
+    expectedCutoff: Math.round(Math.exp(center)),
+    observations: observations.length
+  }
+}
+
+/**
+ * Chance of being allotted at least one option of a list, treating admission
+ * to each option as independent.
+ */
+export const getAnyAdmissionProbability = (probabilities: number[]): number =>
+  1 - probabilities.reduce((none, probability) => none * (1 - clamp(probability, 0, 1)), 1)
@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest'
+import { runMockAllotment } from './allotment-engine'
+import { getAllotmentOrder } from './categories'
+import type { CutoffRecord } from './cutoff-repository'
+
+const seat = (institute_code: string, course_code: string, category: string, cutoff_rank: number): CutoffRecord => ({
+  institute: institute_code, institute_code, course: course_code, course_code, category, cutoff_rank, year: '2024', round: 'R1'
+})
+
+const cutoffs = [
+  seat('E005', 'CS', 'GM', 900),
+  seat('E005', 'CS', '2AG', 1400),
+  seat('E003', 'CS', 'GM', 2500),
+  seat('E003', 'CS', '2AR', 4200),
+  seat('E010', 'EC', 'GM', 9000),
+  seat('E020', 'ME', 'SCG', 30000)
+]
+
+const options = [
+  { collegeCode: 'E005', branchCode: 'CS' },
+  { collegeCode: 'E099', branchCode: 'CS' },
+  { collegeCode: 'E020', branchCode: 'ME' },
+  { collegeCode: 'E003', branchCode: 'CS' },
+  { collegeCode: 'E010', branchCode: 'EC' }
+]
+
+describe('Mock allotment engine', () => {
+  test('allots only the highest-priority option with an open column', () => {
+    const categories = getAllotmentOrder({ base: '2A', rural: true, kannadaMedium: false })
+    const result = runMockAllotment(cutoffs, { rank: 3000, categories, options })
+
+    expect(result.allotted?.priority).toBe(4)
+    expect(result.allotted?.category).toBe('2AR')
+    expect(result.evaluations.map(e => e.outcome)).toEqual([
+      'rank_above_cutoff', 'no_data', 'no_eligible_column', 'allotted', 'not_reached'
+    ])
+    expect(result.evaluations[0]).toMatchObject({ category: '2AG', cutoff_rank: 1400 })
+  })
+
+  test('prefers general merit when the rank is good enough for it', () => {
+    const categories = getAllotmentOrder({ base: '2A', rural: true, kannadaMedium: false })
+    const result = runMockAllotment(cutoffs, { rank: 2000, categories, options: options.slice(3) })
+    expect(result.allotted?.category).toBe('GM')
+  })
+
+  test('returns no seat when every option is missed', () => {
+    const result = runMockAllotment(cutoffs, { rank: 50000, categories: ['GM'], options })
+    expect(result.allotted).toBeNull()
+    expect(result.evaluations.every(e => e.outcome !== 'not_reached')).toBe(true)
+  })
+})
@@ -0,0 +1,167 @@
+import { normalizeCategory, type CutoffRecord } from '@/lib/cutoff-repository'
+
+export interface AllotmentOption {
+  collegeCode: string
+  branchCode: string
+  collegeName?: string
+  branchName?: string
+}
+
+export type OptionOutcome =
+  | 'allotted'
+  // Cutoffs exist in the student's columns but all closed before their rank
+  | 'rank_above_cutoff'
+  // The seat line exists but has no seats in any column the student may use
+  | 'no_eligible_column'
+  // Nothing published for this college/course in the year and round
+  | 'no_data'
+  // Below the allotted option; never considered
+  | 'not_reached'
+
+export interface ColumnCutoff {
+  category: string
+  cutoff_rank: number
+}
+
+export interface OptionEvaluation<T extends AllotmentOption = AllotmentOption> {
+  option: T
+  priority: number
+  outcome: OptionOutcome
+  // Closing ranks of the student's columns for this option, in allotment order
+  columns: ColumnCutoff[]
+  // Column that won the seat (allotted) or came closest (rank_above_cutoff)
+  category?: string
+  cutoff_rank?: number
+  explanation: string
+}
+
+export interface AllotmentResult<T extends AllotmentOption = AllotmentOption> {
+  allotted: OptionEvaluation<T> | null
+  evaluations: OptionEvaluation<T>[]
+  categories: string[]
+}
+
+export interface AllotmentInput<T extends AllotmentOption> {
+  rank: number
+  // Eligible category columns in the order they are tried (see getAllotmentOrder)
+  categories: string[]
+  options: T[]
+}
+
+/** Parse an option code such as E001CS, "E001 CS" or e001-cs. */
+export const parseOptionCode = (text: string): AllotmentOption | null => {
+  const match = text.trim().toUpperCase().match(/^(E\d{3})[\s\-_]*([A-Z]{2,3})$/)
+  return match ? { collegeCode: match[1], branchCode: match[2] } : null
+}
+
+const optionCode = (option: AllotmentOption) => `${option.collegeCode}${option.branchCode}`.toUpperCase()
+
+/** Key of a college/course seat line, shared by the cutoff and seat matrix indexes. */
+export const lineKey = (instituteCode: string, courseCode: string) => `${instituteCode}|${courseCode}`.toUpperCase()
+
+/**
+ * Index the closing ranks of one year and round by institute/course so options
+ * can be evaluated without scanning the whole dataset each time.
+ */
+export const indexSeatLines = (cutoffs: CutoffRecord[]): Map<string, CutoffRecord[]> => {
+  const index = new Map<string, CutoffRecord[]>()
+  for (const record of cutoffs) {
+    if (!record.course_code) continue
+    const key = lineKey(record.institute_code, record.course_code)
+    const list = index.get(key)
+    if (list) list.push(record)
+    else index.set(key, [record])
+  }
+  return index
+}
+
+const evaluateOption = <T extends AllotmentOption>(
+  option: T,
+  priority: number,
+  rank: number,
+  categories: string[],
+  lines: Map<string, CutoffRecord[]>
+): OptionEvaluation<T> => {
+  const code = optionCode(option)
+  const records = lines.get(lineKey(option.collegeCode, option.branchCode)) ?? []
+  if (records.length === 0) {
+    return { option, priority, outcome: 'no_data', columns: [], explanation: `No cutoff published for ${code} in this round` }
+  }
+
+  const columns = categories
+    .map(category => {
+      const ranks = records.filter(r => r.category === category).map(r => r.cutoff_rank)
+      return ranks.length > 0 ? { category, cutoff_rank: Math.max(...ranks) } : null
+    })
+    .filter((column): column is ColumnCutoff => column !== null)
+
+  if (columns.length === 0) {
+    return {
+      option,
+      priority,
+      outcome: 'no_eligible_column',
+      columns,
+      explanation: `${code} had no seats in your columns (${categories.join(', ')})`
+    }
+  }
+
+  // A seat was available to this rank if someone at or behind it got one
+  const winner = columns.find(column => column.cutoff_rank >= rank)
+  if (winner) {
+    return {
+      option,
+      priority,
+      outcome: 'allotted',
+      columns,
+      category: winner.category,
+      cutoff_rank: winner.cutoff_rank,
+      explanation: `Allotted under ${winner.category}: it closed at ${winner.cutoff_rank.toLocaleString()}, behind your rank ${rank.toLocaleString()}`
+    }
+  }
+
+  const closest = columns.reduce((best, column) => column.cutoff_rank > best.cutoff_rank ? column : best)
+  return {
+    option,
+    priority,
+    outcome: 'rank_above_cutoff',
+    columns,
+    category: closest.category,
+    cutoff_rank: closest.cutoff_rank,
+    explanation: `Closed at ${closest.cutoff_rank.toLocaleString()} in ${closest.category} (your best column), ${(rank - closest.cutoff_rank).toLocaleString()} ranks ahead of you`
+  }
+}
+
+/**
+ * Allot a single seat the way KEA does for one candidate: walk the options in
+ * priority order and stop at the first one where any eligible column, tried in
+ * allotment order, was still open at the candidate's rank. Every option above
+ * the allotted one carries the reason it was missed.
+ */
+export const runMockAllotment = <T extends AllotmentOption>(
+  cutoffs: CutoffRecord[] | Map<string, CutoffRecord[]>,
+  input: AllotmentInput<T>
+): AllotmentResult<T> => {
+  const lines = cutoffs instanceof Map ? cutoffs : indexSeatLines(cutoffs)
+  const categories = input.categories.map(normalizeCategory)
+  const evaluations: OptionEvaluation<T>[] = []
+  let allotted: OptionEvaluation<T> | null = null
+
+  for (const [index, option] of input.options.entries()) {
+    const priority = index + 1
+    if (allotted) {
+      evaluations.push({
+        option,
+        priority,
+        outcome: 'not_reached',
+        columns: [],
+        explanation: `Not considered: option ${allotted.priority} was allotted first`
+      })
+      continue
+    }
+    const evaluation = evaluateOption(option, priority, input.rank, categories, lines)
+    evaluations.push(evaluation)
+    if (evaluation.outcome === 'allotted') allotted = evaluation
+  }
+
+  return { allotted, evaluations, categories }
+}
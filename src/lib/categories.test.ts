@@ -0,0 +1,20 @@
+import { describe, test, expect } from 'vitest'
+import { getCategoryType, getEligibleCategories, getEligibleCategoriesFor, parseCategory } from './categories'
+
+describe('KEA category model', () => {
+  test('decomposes column codes into base category and sub-quota', () => {
+    expect(parseCategory('3BR')).toEqual({ code: '3BR', base: '3B', quota: 'R' })
+    expect(parseCategory('gmk')).toEqual({ code: 'GMK', base: 'GM', quota: 'K' })
+    expect(parseCategory('SC')?.code).toBe('SCG')
+    expect(parseCategory('CAT2A')?.code).toBe('2AG')
+    expect(parseCategory('OBC')).toBeNull()
+    expect(getCategoryType('1K')).toBe('1G')
+  })
+
+  test('lists every column a student can compete in', () => {
+    expect(getEligibleCategories({ base: '2A', rural: true, kannadaMedium: true }))
+      .toEqual(['2AR', '2AK', '2AG', 'GMR', 'GMK', 'GM'])
+    expect(getEligibleCategories({ base: 'GM', rural: false, kannadaMedium: false })).toEqual(['GM'])
+    expect(getEligibleCategoriesFor('STR')).toEqual(['STR', 'STG', 'GMR', 'GM'])
+  })
+})
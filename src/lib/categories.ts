@@ -0,0 +1,169 @@
+import type { Database } from '@/integrations/supabase/types'
+
+// KEA publishes one closing-rank column per reservation category and
+// sub-quota: e.g. 2AR = category 2A, rural quota. General merit is written
+// GM / GMK / GMR rather than GMG.
+export type BaseCategory = 'GM' | '1' | '2A' | '2B' | '3A' | '3B' | 'SC' | 'ST'
+
+// G = general, R = rural, K = Kannada medium
+export type SubQuota = 'G' | 'R' | 'K'
+
+export type CategoryType = Database['public']['Enums']['category_type']
+
+export interface CategoryColumn {
+  code: string
+  base: BaseCategory
+  quota: SubQuota
+}
+
+export interface StudentCategoryProfile {
+  base: BaseCategory
+  rural: boolean
+  kannadaMedium: boolean
+  // Hyderabad-Karnataka (371J) seats are allotted from a separate list that
+  // the published cutoff columns do not include, so this adds no columns
+  hyderabadKarnataka?: boolean
+}
+
+export const BASE_CATEGORIES: BaseCategory[] = ['GM', '1', '2A', '2B', '3A', '3B', 'SC', 'ST']
+
+export const SUB_QUOTAS: SubQuota[] = ['G', 'R', 'K']
+
+const BASE_CATEGORY_LABELS: Record<BaseCategory, string> = {
+  'GM': 'General Merit',
+  '1': 'Category 1',
+  '2A': 'Category 2A',
+  '2B': 'Category 2B',
+  '3A': 'Category 3A',
+  '3B': 'Category 3B',
+  'SC': 'Scheduled Caste',
+  'ST': 'Scheduled Tribe'
+}
+
+const SUB_QUOTA_LABELS: Record<SubQuota, string> = {
+  G: 'General',
+  R: 'Rural',
+  K: 'Kannada Medium'
+}
+
+// Base categories as stored in the category_type enum of the database
+const CATEGORY_TYPES: Record<BaseCategory, CategoryType> = {
+  'GM': 'GM',
+  '1': '1G',
+  '2A': '2A',
+  '2B': '2B',
+  '3A': '3A',
+  '3B': '3B',
+  'SC': 'SC',
+  'ST': 'ST'
+}
+
+// Older inputs and forms used these spellings for the base categories
+const BASE_ALIASES: Record<string, BaseCategory> = {
+  'GENERAL': 'GM',
+  'GENERALMERIT': 'GM',
+  'CAT1': '1',
+  'CATEGORY1': '1',
+  'CAT2A': '2A',
+  'CAT2B': '2B',
+  'CAT3A': '3A',
+  'CAT3B': '3B'
+}
+
+export const getCategoryCode = (base: BaseCategory, quota: SubQuota): string => {
+  if (base === 'GM') return quota === 'G' ? 'GM' : `GM${quota}`
+  return `${base}${quota}`
+}
+
+export const CATEGORY_COLUMNS: CategoryColumn[] = BASE_CATEGORIES.flatMap(base =>
+  SUB_QUOTAS.map(quota => ({ code: getCategoryCode(base, quota), base, quota }))
+)
+
+const COLUMNS_BY_CODE = new Map(CATEGORY_COLUMNS.map(column => [column.code, column]))
+
+const normalizeCategoryKey = (value: unknown): string => {
+  return String(value ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+/**
+ * Decompose a category code into base category and sub-quota. Accepts
+ * published column codes (2AK, GMR, SCG), bare base categories (2A, SC, the
+ * 1G database value) and legacy aliases; bare bases map to the general column.
+ */
+export const parseCategory = (value: unknown): CategoryColumn | null => {
+  const key = normalizeCategoryKey(value)
+  if (!key) return null
+
+  const column = COLUMNS_BY_CODE.get(key === 'GMG' ? 'GM' : key)
+  if (column) return column
+
+  const base = BASE_ALIASES[key] ?? BASE_CATEGORIES.find(b => b === key)
+  return base ? COLUMNS_BY_CODE.get(getCategoryCode(base, 'G')) ?? null : null
+}
+
+export const isCategoryCode = (value: unknown): boolean => {
+  return COLUMNS_BY_CODE.has(normalizeCategoryKey(value))
+}
+
+export const getCategoryLabel = (value: string): string => {
+  const column = parseCategory(value)
+  if (!column) return value
+  const base = BASE_CATEGORY_LABELS[column.base]
+  return column.quota === 'G'
+    ? `${base} (${column.code})`
+    : `${base} · ${SUB_QUOTA_LABELS[column.quota]} (${column.code})`
+}
+
+export const getBaseCategoryLabel = (base: BaseCategory): string => BASE_CATEGORY_LABELS[base]
+
+export const getCategoryType = (value: string): CategoryType | null => {
+  const column = parseCategory(value)
+  return column ? CATEGORY_TYPES[column.base] : null
+}
+
+/**
+ * Build a student profile from a single column code, e.g. 2AR is a rural
+ * candidate of category 2A. Kannada-medium is only set by a K column.
+ */
+export const profileFromCategory = (value: string): StudentCategoryProfile | null => {
+  const column = parseCategory(value)
+  if (!column) return null
+  return { base: column.base, rural: column.quota === 'R', kannadaMedium: column.quota === 'K' }
+}
+
+/**
+ * Columns a student may compete in, most specific first: their own
+ * category's sub-quota columns, then the general merit columns. A 2A rural
+ * Kannada-medium student gets 2AR, 2AK, 2AG, GMR, GMK, GM.
+ */
+export const getEligibleCategories = (profile: StudentCategoryProfile): string[] => {
+  const quotas: SubQuota[] = [
+    ...(profile.rural ? ['R' as const] : []),
+    ...(profile.kannadaMedium ? ['K' as const] : []),
+    'G'
+  ]
+  const bases: BaseCategory[] = profile.base === 'GM' ? ['GM'] : [profile.base, 'GM']
+  return bases.flatMap(base => quotas.map(quota => getCategoryCode(base, quota)))
+}
+
+/**
+ * The same columns in the order KEA considers them during allotment: general
+ * merit first (so a reserved seat is not used up by a candidate who would
+ * have won on merit), then the candidate's own category, general before the
+ * Kannada-medium and rural sub-quotas.
+ */
+export const getAllotmentOrder = (profile: StudentCategoryProfile): string[] => {
+  const quotas: SubQuota[] = [
+    'G',
+    ...(profile.kannadaMedium ? ['K' as const] : []),
+    ...(profile.rural ? ['R' as const] : [])
+  ]
+  const bases: BaseCategory[] = profile.base === 'GM' ? ['GM'] : ['GM', profile.base]
+  return bases.flatMap(base => quotas.map(quota => getCategoryCode(base, quota)))
+}
+
+/** Eligible columns for a student identified by one category code. */
+export const getEligibleCategoriesFor = (value: string): string[] => {
+  const profile = profileFromCategory(value)
+  return profile ? getEligibleCategories(profile) : []
+}
@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'vitest'
+import { buildCutoffComparison, formatCompareItems, highlightValues, parseCompareItems } from './college-compare'
+import { parseFeesStructure, parsePlacementStats } from './college-profile'
+import type { CutoffRecord } from './cutoff-repository'
+
+const record = (institute_code: string, course_code: string, cutoff_rank: number, year = '2024', round = 'R1'): CutoffRecord => ({
+  institute: '', institute_code, course: '', course_code, category: 'GM', cutoff_rank, year, round
+})
+
+describe('College compare', () => {
+  test('reads and writes items in the URL format', () => {
+    const items = parseCompareItems('e001cs, E005,E005,bogus,E010EC,E020,E030')
+    expect(items).toEqual([
+      { collegeCode: 'E001', courseCode: 'CS' },
+      { collegeCode: 'E005', courseCode: null },
+      { collegeCode: 'E010', courseCode: 'EC' },
+      { collegeCode: 'E020', courseCode: null }
+    ])
+    expect(formatCompareItems(items)).toBe('E001CS,E005,E010EC,E020')
+  })
+
+  test('lines up closing ranks by year and round, using the median for whole colleges', () => {
+    const rows = buildCutoffComparison([
+      record('E001', 'CS', 300),
+      record('E001', 'CS', 900, '2024', 'R2'),
+      record('E005', 'CS', 2000),
+      record('E005', 'EC', 4000),
+      record('E005', 'ME', 9000),
+      record('E001', 'CS', 250, '2025')
+    ], parseCompareItems('E001CS,E005'), 'GM')
+
+    expect(rows).toEqual([
+      { year: '2025', round: 'R1', values: [250, null] },
+      { year: '2024', round: 'R1', values: [300, 4000] },
+      { year: '2024', round: 'R2', values: [900, null] }
+    ])
+  })
+
+  test('counts rows without a course code once in the college median', () => {
+    const rows = buildCutoffComparison([
+      record('E005', '', 1000),
+      record('E005', 'CS', 2000),
+      record('E005', 'EC', 3000)
+    ], parseCompareItems('E005'), 'GM')
+
+    expect(rows).toEqual([{ year: '2024', round: 'R1', values: [2000] }])
+  })
+
+    test('highlights best and worst only where values differ', () => {
+    expect(highlightValues([300, 4000, null, 1200], 'higher')).toEqual(['worst', 'best', null, null])
+    expect(highlightValues([90000, 90000], 'lower')).toEqual([null, null])
+    expect(highlightValues([90000, null], 'lower')).toEqual([null, null])
+  })
+
+  test('reads fee and placement JSON in the shapes colleges use', () => {
+    expect(parseFeesStructure({ tuition: { Government: '1,12,410', comedk: 185000 }, hostel_fee: { amount: 90000 } })).toEqual({
+      tuition: { government: 112410, comed_k: 185000 },
+      hostel: 90000,
+      oneTime: null
+    })
+    expect(parseFeesStructure({ notes: 'see website' })).toBeNull()
+    expect(parsePlacementStats({ avg_package: '8.5', placement_rate: 0.92, companies: ['A', 'B'] })).toMatchObject({
+      averagePackage: 8.5,
+      placementRate: 92,
+      recruiters: 2
+    })
+  })
+})
@@ -0,0 +1,102 @@
+import { parseOptionCode } from '@/lib/allotment-engine'
+import type { CutoffRecord } from '@/lib/cutoff-repository'
+import { compareRounds } from '@/lib/rounds'
+import { median } from '@/lib/statistics'
+
+export const MIN_COMPARE_ITEMS = 2
+export const MAX_COMPARE_ITEMS = 4
+
+// A college, or one course at a college when courseCode is set
+export interface CompareItem {
+  collegeCode: string
+  courseCode: string | null
+}
+
+export interface CutoffComparisonRow {
+  year: string
+  round: string
+  // One closing rank per compared item, null where it had no seats in that round
+  values: Array<number | null>
+}
+
+// Which end of a metric is better for the student
+export type Preference = 'higher' | 'lower'
+
+export type CellHighlight = 'best' | 'worst' | null
+
+export const getCompareKey = (item: CompareItem): string => `${item.collegeCode}${item.courseCode ?? ''}`
+
+/** Read items from a URL value such as "E001CS,E005", dropping repeats and extras. */
+export const parseCompareItems = (value: string | null): CompareItem[] => {
+  const items: CompareItem[] = []
+  for (const part of (value ?? '').split(',')) {
+    const text = part.trim().toUpperCase()
+    const option = parseOptionCode(text)
+    const item = option
+      ? { collegeCode: option.collegeCode, courseCode: option.branchCode }
+      : /^E\d{3}$/.test(text) ? { collegeCode: text, courseCode: null } : null
+    if (!item || items.some(existing => getCompareKey(existing) === getCompareKey(item))) continue
+    items.push(item)
+    if (items.length === MAX_COMPARE_ITEMS) break
+  }
+  return items
+}
+
+export const formatCompareItems = (items: CompareItem[]): string => items.map(getCompareKey).join(',')
+
+/**
+ * Closing ranks of each item in one category for every year and round that
+ * any of them appears in, newest first. A college compared without a course
+ * uses the median closing rank across its courses.
+ */
+export const buildCutoffComparison = (
+  records: CutoffRecord[],
+  items: CompareItem[],
+  category: string
+): CutoffComparisonRow[] => {
+  const colleges = new Set(items.map(item => item.collegeCode))
+  const ranks = new Map<string, number[]>()
+  const periods = new Map<string, { year: string; round: string }>()
+
+  for (const record of records) {
+    const college = record.institute_code.toUpperCase()
+    if (record.category !== category || !colleges.has(college) || record.cutoff_rank <= 0) continue
+    const period = `${record.year}|${record.round}`
+    periods.set(period, { year: record.year, round: record.round })
+    // Rows without a course code only count towards the whole college, once
+    const course = record.course_code.toUpperCase()
+    const keys = course ? [`${college}|${period}`, `${college}${course}|${period}`] : [`${college}|${period}`]
+    for (const key of keys) {
+      const list = ranks.get(key)
+      if (list) list.push(record.cutoff_rank)
+      else ranks.set(key, [record.cutoff_rank])
+    }
+  }
+
+  return [...periods.entries()]
+    .sort(([, a], [, b]) => b.year.localeCompare(a.year) || compareRounds(a.round, b.round))
+    .map(([period, { year, round }]) => ({
+      year,
+      round,
+      values: items.map(item => {
+        const list = ranks.get(`${getCompareKey(item)}|${period}`)
+        return list ? Math.round(median(list)) : null
+      })
+    }))
+    .filter(row => row.values.some(value => value !== null))
+}
+
+/** Whether at least two items have a value and those values are not all equal. */
+export const valuesDiffer = (values: Array<number | null>): boolean => {
+  const present = values.filter((value): value is number => value !== null)
+  return present.length > 1 && present.some(value => value !== present[0])
+}
+
+/** Mark the best and worst value of a row, only where the values differ. */
+export const highlightValues = (values: Array<number | null>, prefer: Preference): CellHighlight[] => {
+  if (!valuesDiffer(values)) return values.map(() => null)
+  const present = values.filter((value): value is number => value !== null)
+  const best = prefer === 'higher' ? Math.max(...present) : Math.min(...present)
+  const worst = prefer === 'higher' ? Math.min(...present) : Math.max(...present)
+  return values.map(value => value === best ? 'best' : value === worst ? 'worst' : null)
+}
@@ -0,0 +1,146 @@
+import { supabase } from '@/integrations/supabase/client'
+import type { Database, Json } from '@/integrations/supabase/types'
+import { parseFee } from '@/lib/fee-engine'
+
+export type SeatType = Database['public']['Enums']['seat_type']
+
+export const SEAT_TYPES: SeatType[] = ['government', 'comed_k', 'management', 'nri']
+
+export const SEAT_TYPE_LABELS: Record<SeatType, string> = {
+  government: 'Government (KEA)',
+  comed_k: 'COMEDK',
+  management: 'Management',
+  nri: 'NRI'
+}
+
+// Annual amounts in rupees read from colleges.fees_structure
+export interface CollegeFees {
+  tuition: Partial<Record<SeatType, number>>
+  hostel: number | null
+  // Charged once at admission (admission, caution deposit, university fees)
+  oneTime: number | null
+}
+
+// Read from colleges.placement_stats; packages in lakhs per annum
+export interface PlacementStats {
+  averagePackage: number | null
+  medianPackage: number | null
+  highestPackage: number | null
+  // Share of eligible students placed, as a percentage
+  placementRate: number | null
+  recruiters: number | null
+  year: string | null
+}
+
+export interface CollegeProfile {
+  code: string
+  name: string
+  location: string | null
+  district: string | null
+  type: string | null
+  establishedYear: number | null
+  website: string | null
+  fees: CollegeFees | null
+  placements: PlacementStats | null
+}
+
+// Keys seen for each field in the JSON columns, in order of preference
+const SEAT_TYPE_KEYS: Record<SeatType, string[]> = {
+  government: ['government', 'govt', 'gov', 'kea', 'cet'],
+  comed_k: ['comed_k', 'comedk'],
+  management: ['management', 'mgmt'],
+  nri: ['nri']
+}
+const HOSTEL_KEYS = ['hostel', 'hostel_fee', 'hostel_fees', 'accommodation']
+const ONE_TIME_KEYS = ['one_time', 'onetime', 'admission_fee', 'admission', 'other', 'other_fees']
+
+const isRecord = (value: Json | undefined): value is Record<string, Json> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toAmount = (value: Json | undefined): number | null => {
+  if (typeof value === 'number') return value > 0 ? value : null
+  if (typeof value === 'string') return parseFee(value)
+  // Entries such as { "amount": 95000 } or { "annual": 95000 }
+  if (isRecord(value)) return toAmount(value.amount ?? value.annual ?? value.tuition ?? value.total)
+  return null
+}
+
+const toNumber = (value: Json | undefined): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/,/g, ''))
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+const pick = (source: Record<string, Json>, keys: string[]): Json | undefined => {
+  const lower = Object.fromEntries(Object.entries(source).map(([key, value]) => [key.toLowerCase(), value]))
+  return keys.map(key => lower[key]).find(value => value !== undefined && value !== null)
+}
+
+/**
+ * Read a fees_structure column. Tuition may sit at the top level or under a
+ * "tuition" object, keyed by seat type; amounts may be numbers or text such
+ * as "1,12,410". Returns null when no amount can be read.
+ */
+export const parseFeesStructure = (value: Json | null | undefined): CollegeFees | null => {
+  if (!isRecord(value ?? undefined)) return null
+  const source = value as Record<string, Json>
+  const tuitionSource = isRecord(source.tuition) ? source.tuition : source
+
+  const tuition: Partial<Record<SeatType, number>> = {}
+  for (const seatType of SEAT_TYPES) {
+    const amount = toAmount(pick(tuitionSource, SEAT_TYPE_KEYS[seatType]))
+    if (amount !== null) tuition[seatType] = amount
+  }
+  const fees = {
+    tuition,
+    hostel: toAmount(pick(source, HOSTEL_KEYS)),
+    oneTime: toAmount(pick(source, ONE_TIME_KEYS))
+  }
+  return Object.keys(tuition).length > 0 || fees.hostel !== null || fees.oneTime !== null ? fees : null
+}
+
+/** Read a placement_stats column; rates given as fractions are turned into percentages. */
+export const parsePlacementStats = (value: Json | null | undefined): PlacementStats | null => {
+  if (!isRecord(value ?? undefined)) return null
+  const source = value as Record<string, Json>
+  const recruiters = pick(source, ['recruiters', 'companies', 'recruiter_count', 'companies_visited'])
+  const rate = toNumber(pick(source, ['placement_rate', 'placement_percentage', 'placed_percentage', 'percentage_placed']))
+  const year = pick(source, ['year', 'batch'])
+
+  const stats: PlacementStats = {
+    averagePackage: toNumber(pick(source, ['average_package', 'avg_package', 'average', 'average_lpa'])),
+    medianPackage: toNumber(pick(source, ['median_package', 'median', 'median_lpa'])),
+    highestPackage: toNumber(pick(source, ['highest_package', 'max_package', 'highest', 'highest_lpa'])),
+    placementRate: rate === null ? null : rate <= 1 ? rate * 100 : rate,
+    recruiters: Array.isArray(recruiters) ? recruiters.length : toNumber(recruiters),
+    year: typeof year === 'string' || typeof year === 'number' ? String(year) : null
+  }
+  const values = [stats.averagePackage, stats.medianPackage, stats.highestPackage, stats.placementRate, stats.recruiters]
+  return values.some(v => v !== null) ? stats : null
+}
+
+/** Load the colleges table rows for the given codes, keyed by code. */
+export const loadCollegeProfiles = async (codes: string[]): Promise<Map<string, CollegeProfile>> => {
+  if (codes.length === 0) return new Map()
+  const { data, error } = await supabase
+    .from('colleges')
+    .select('code, name, location, district, type, established_year, website, fees_structure, placement_stats')
+    .in('code', codes.map(code => code.toUpperCase()))
+
+  if (error) throw new Error(`Failed to load colleges: ${error.message}`)
+
+  return new Map((data ?? []).map(row => [row.code.toUpperCase(), {
+    code: row.code.toUpperCase(),
+    name: row.name,
+    location: row.location,
+    district: row.district,
+    type: row.type,
+    establishedYear: row.established_year,
+    website: row.website,
+    fees: parseFeesStructure(row.fees_structure),
+    placements: parsePlacementStats(row.placement_stats)
+  }]))
+}
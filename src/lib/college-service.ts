@@ -29,6 +29,15 @@ export interface CollegeReview {
 
 import { supabase } from "@/integrations/supabase/client";
 
+// Average ratings of a college's reviews
+export interface ReviewSummary {
+  count: number;
+  rating: number;
+  faculty: number;
+  infrastructure: number;
+  placements: number;
+}
+
 // Get or create a user session ID for tracking user's own reviews
 const getUserSessionId = (): string => {
   let sessionId = localStorage.getItem('user_session_id');
@@ -209,6 +218,31 @@ export const loadCollegeReviews = async (): Promise<CollegeReview[]> => {
   }
 };
 
+export const summarizeReviews = (reviews: CollegeReview[]): ReviewSummary | null => {
+  if (reviews.length === 0) return null;
+  const average = (value: (review: CollegeReview) => number) =>
+    reviews.reduce((sum, review) => sum + value(review), 0) / reviews.length;
+  return {
+    count: reviews.length,
+    rating: average(review => review.rating),
+    faculty: average(review => review.faculty_rating),
+    infrastructure: average(review => review.infrastructure_rating),
+    placements: average(review => review.placements_rating)
+  };
+};
+
+// Review averages keyed by college code; colleges without reviews are left out
+export const loadReviewSummaries = async (): Promise<Map<string, ReviewSummary>> => {
+  const reviews = await loadCollegeReviews();
+  const byCollege = new Map<string, CollegeReview[]>();
+  reviews.forEach(review => {
+    const code = review.collegeCode?.toUpperCase();
+    if (!code || code === 'UNKNOWN') return;
+    byCollege.set(code, [...(byCollege.get(code) ?? []), review]);
+  });
+  return new Map([...byCollege].map(([code, list]) => [code, summarizeReviews(list)!]));
+};
+
 export const getCollegesWithReviews = async (): Promise<{ college: College; reviews: CollegeReview[] }[]> => {
   try {
     // Load colleges from Supabase instead of JSON to ensure all colleges are available
@@ -0,0 +1,52 @@
+import { describe, test, expect } from 'vitest'
+import { simulateCounselling } from './counselling-simulator'
+import type { CutoffRecord } from './cutoff-repository'
+
+const seat = (institute_code: string, course_code: string, round: string, cutoff_rank: number): CutoffRecord => ({
+  institute: institute_code, institute_code, course: course_code, course_code, category: 'GM', cutoff_rank, year: '2024', round
+})
+
+// E005CS opens up in round 2, E003CS is available from round 1
+const cutoffs = [
+  seat('E005', 'CS', 'R1', 1800), seat('E005', 'CS', 'R2', 2300), seat('E005', 'CS', 'EXT', 2600),
+  seat('E003', 'CS', 'R1', 4000), seat('E003', 'CS', 'R2', 4500), seat('E003', 'CS', 'EXT', 5000)
+]
+
+const input = {
+  rank: 2100,
+  year: '2024',
+  categories: ['GM'],
+  options: [{ collegeCode: 'E005', branchCode: 'CS' }, { collegeCode: 'E003', branchCode: 'CS' }]
+}
+
+describe('Counselling simulator', () => {
+  test('Choice 2 holds the seat and upgrades in the next round', () => {
+    const result = simulateCounselling(cutoffs, { ...input, choices: { R1: 2, R2: 2 } })
+    expect(result.steps[0].seat?.priority).toBe(2)
+    expect(result.steps[0].upgraded).toBe(false)
+    expect(result.steps[1].upgraded).toBe(true)
+    expect(result.finalSeat?.option.collegeCode).toBe('E005')
+    expect(result.endedIn).toBe('EXT')
+  })
+
+  test('Choice 1 freezes the first seat and Choice 4 leaves without one', () => {
+    expect(simulateCounselling(cutoffs, { ...input, choices: { R1: 1 } }).finalSeat?.option.collegeCode).toBe('E003')
+    const exited = simulateCounselling(cutoffs, { ...input, choices: { R1: 4 } })
+    expect(exited.finalSeat).toBeNull()
+    expect(exited.steps).toHaveLength(1)
+  })
+
+  test('a first seat is not an upgrade', () => {
+    // Nothing is allotted in round 1 at this rank, so the round 2 seat is the first one
+    const result = simulateCounselling(cutoffs, { ...input, rank: 4200, choices: { R2: 2 } })
+    expect(result.steps[0].seat).toBeNull()
+    expect(result.steps[1].seat?.option.collegeCode).toBe('E003')
+    expect(result.steps[1].upgraded).toBe(false)
+  })
+
+  test('Choice 3 gives up the seat for good', () => {
+    const result = simulateCounselling(cutoffs, { ...input, rank: 3000, choices: { R1: 3 } })
+    expect(result.steps[1].optionsInPlay).toHaveLength(1)
+    expect(result.finalSeat).toBeNull()
+  })
+})
@@ -0,0 +1,149 @@
+import {
+  indexSeatLines,
+  runMockAllotment,
+  type AllotmentOption,
+  type AllotmentResult,
+  type OptionEvaluation
+} from '@/lib/allotment-engine'
+import { queryCutoffs, type CutoffRecord } from '@/lib/cutoff-repository'
+import { Round } from '@/lib/rounds'
+
+// KEA decisions after a seat is allotted in a round
+export type CounsellingChoice = 1 | 2 | 3 | 4
+
+export const COUNSELLING_CHOICES: Array<{ choice: CounsellingChoice; label: string; description: string }> = [
+  { choice: 1, label: 'Choice 1', description: 'Accept and freeze the seat; leave counselling' },
+  { choice: 2, label: 'Choice 2', description: 'Accept the seat but try for a higher option next round' },
+  { choice: 3, label: 'Choice 3', description: 'Reject the seat but stay for the next round' },
+  { choice: 4, label: 'Choice 4', description: 'Reject the seat and exit counselling' }
+]
+
+export const COUNSELLING_ROUNDS = [Round.Round1, Round.Round2, Round.Extended]
+
+export interface CounsellingInput<T extends AllotmentOption> {
+  rank: number
+  year: string
+  // Eligible category columns in allotment order
+  categories: string[]
+  options: T[]
+  // Decision taken after each round; rounds without one default to Choice 2
+  choices: Partial<Record<string, CounsellingChoice>>
+  rounds?: string[]
+}
+
+export interface RoundStep<T extends AllotmentOption> {
+  round: string
+  // False when no cutoffs were published for this round of the year
+  hasData: boolean
+  // Seat held going into the round (from an earlier Choice 2)
+  heldSeat: OptionEvaluation<T> | null
+  // Options still in play: everything, or only those above the held seat
+  optionsInPlay: T[]
+  allotment: AllotmentResult<T> | null
+  // Seat the candidate has at the end of the round, before deciding
+  seat: OptionEvaluation<T> | null
+  // True only when a new allotment replaced a held seat
+  upgraded: boolean
+  choice: CounsellingChoice | null
+  note: string
+}
+
+export interface CounsellingResult<T extends AllotmentOption> {
+  steps: RoundStep<T>[]
+  finalSeat: OptionEvaluation<T> | null
+  // Round in which the candidate froze (Choice 1) or exited (Choice 4)
+  endedIn: string | null
+}
+
+const sameOption = (a: AllotmentOption, b: AllotmentOption) =>
+  a.collegeCode.toUpperCase() === b.collegeCode.toUpperCase() && a.branchCode.toUpperCase() === b.branchCode.toUpperCase()
+
+/**
+ * Play the candidate through the counselling rounds of one year. Each round is
+ * a single-seat allotment against that round's closing ranks; a held seat can
+ * only be replaced by a higher option, and the candidate's choice decides
+ * whether they stay in, keep the seat or leave.
+ */
+export const simulateCounselling = <T extends AllotmentOption>(
+  cutoffs: CutoffRecord[],
+  input: CounsellingInput<T>
+): CounsellingResult<T> => {
+  const rounds = input.rounds ?? COUNSELLING_ROUNDS
+  const steps: RoundStep<T>[] = []
+  let options = [...input.options]
+  let held: OptionEvaluation<T> | null = null
+
+  for (const [index, round] of rounds.entries()) {
+    const isLast = index === rounds.length - 1
+    const roundCutoffs = queryCutoffs(cutoffs, { year: input.year, round })
+    const heldPriority = held ? options.findIndex(o => sameOption(o, held!.option)) : -1
+    const optionsInPlay = held && heldPriority >= 0 ? options.slice(0, heldPriority) : options
+
+    if (roundCutoffs.length === 0) {
+      steps.push({
+        round, hasData: false, heldSeat: held, optionsInPlay, allotment: null, seat: held,
+        upgraded: false, choice: null, note: `No ${input.year} cutoffs published for this round`
+      })
+      continue
+    }
+
+    const allotment = optionsInPlay.length > 0
+      ? runMockAllotment(indexSeatLines(roundCutoffs), { rank: input.rank, categories: input.categories, options: optionsInPlay })
+      : null
+    const upgraded = Boolean(held && allotment?.allotted && !sameOption(allotment.allotted.option, held.option))
+    const seat = allotment?.allotted
+      // Priorities are relative to the options in play; report them against the entered list
+      ? { ...allotment.allotted, priority: input.options.findIndex(o => sameOption(o, allotment.allotted!.option)) + 1 }
+      : held
+
+    const step: RoundStep<T> = {
+      round, hasData: true, heldSeat: held, optionsInPlay, allotment, seat, upgraded, choice: null, note: ''
+    }
+    steps.push(step)
+
+    if (!seat) {
+      step.note = isLast ? 'No seat allotted in the final round' : 'No seat allotted; all options carry over'
+      continue
+    }
+
+    const choice = input.choices[round] ?? 2
+    step.choice = choice
+
+    if (choice === 1 || (choice === 2 && isLast)) {
+      step.note = `Seat frozen at option ${seat.priority}`
+      return { steps, finalSeat: seat, endedIn: round }
+    }
+    if (choice === 4) {
+      step.note = 'Exited counselling without a seat'
+      return { steps, finalSeat: null, endedIn: round }
+    }
+    if (choice === 2) {
+      held = seat
+      step.note = `Holding option ${seat.priority}; only higher options stay in play`
+      continue
+    }
+    // Choice 3: the allotted seat is surrendered for good
+    options = options.filter(o => !sameOption(o, seat.option))
+    held = null
+    step.note = isLast ? 'Seat rejected in the final round' : 'Seat rejected; remaining options carry over'
+  }
+
+  return { steps, finalSeat: held, endedIn: null }
+}
+
+export interface ChoiceComparison<T extends AllotmentOption> {
+  choice: CounsellingChoice
+  result: CounsellingResult<T>
+}
+
+/** Final seat for each possible choice in one round, keeping every other decision as entered. */
+export const compareChoices = <T extends AllotmentOption>(
+  cutoffs: CutoffRecord[],
+  input: CounsellingInput<T>,
+  round: string
+): ChoiceComparison<T>[] => {
+  return COUNSELLING_CHOICES.map(({ choice }) => ({
+    choice,
+    result: simulateCounselling(cutoffs, { ...input, choices: { ...input.choices, [round]: choice } })
+  }))
+}
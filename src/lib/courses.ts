@@ -1,26 +1,456 @@
 export type Course = { code: string; name: string };
 
-// These are now loaded dynamically from kcet_cutoffs.json (consolidated data)
-// Keeping this file for backward compatibility and type definitions
-export const COURSES: Course[] = [];
+// KEA course codes as printed in the seat matrix and option entry forms
+export const COURSE_CODE_TO_NAME: Record<string, string> = {
+  // Engineering Courses
+  AD: 'Artificial Intelligence And Data Science',
+  AE: 'Aeronautical Engineering',
+  AI: 'Artificial Intelligence and Machine Learning',
+  AR: 'Architecture',
+  AT: 'Automotive Engineering',
+  AU: 'Automobile Engineering',
+  BC: 'BTech Computer Technology',
+  BD: 'Computer Science Engineering-Big Data',
+  BE: 'Bio-Electronics Engineering',
+  BI: 'Information Technology and Engineering',
+  BM: 'Bio Medical Engineering',
+  BR: 'BioMedical and Robotic Engineering',
+  BS: 'Bachelor of Science (Honours)',
+  BT: 'Bio Technology',
+  CA: 'Computer Science Engineering-AI',
+  CB: 'Computer Science and Business Systems',
+  CC: 'Computer and Communication Engineering',
+  CD: 'Computer Science and Design',
+  CE: 'Civil Engineering',
+  CF: 'Computer Science Engineering-Artificial',
+  CG: 'Computer Science and Technology',
+  CH: 'Chemical Engineering',
+  CI: 'Computer Science and Information',
+  CK: 'Civil Engineering (Kannada Medium)',
+  CM: 'Electronics Engineering (VLSI Design)',
+  CO: 'Computer Engineering',
+  CP: 'Civil Engineering and Planning',
+  CR: 'Ceramics and Cement Technology',
+  CS: 'Computer Science And Engineering',
+  CT: 'Construction Technology and Management',
+  CV: 'Civil Environmental Engineering',
+  CY: 'Computer Science Engineering-Cyber',
+  DC: 'Data Sciences',
+  DG: 'Design',
+  DM: 'Computer Science and Engineering',
+  DS: 'Computer Science Engineering-Data',
+  EA: 'Agriculture Engineering',
+  EB: 'Electronics and Communication (Advanced)',
+  EC: 'Electronics and Communication Engineering',
+  EE: 'Electrical And Electronics Engineering',
+  EG: 'Energy Engineering',
+  EI: 'Electronics and Instrumentation Engineering',
+  EL: 'Electronics and Instrumentation Technology',
+  EN: 'Environmental Engineering',
+  EP: 'BTech Technology and Entrepreneurship',
+  ER: 'Electrical and Computer Engineering',
+  ES: 'Electronics and Computer Engineering',
+  ET: 'Electronics and Telecommunication',
+  EV: 'Electronics Engineering (VLSI Design)',
+  IB: 'Computer Science Engg - IoT including Blockchain',
+  IC: 'Computer Science - Internet of Things',
+  IE: 'Information Science and Engineering',
+  IG: 'Information Technology',
+  II: 'Electronics and Communication - Industrial',
+  IM: 'Industrial Engineering and Management',
+  IO: 'Computer Science Engineering - Internet of Things',
+  IP: 'Industrial and Production Engineering',
+  IS: 'Information Science and Technology',
+  IT: 'Instrumentation Technology',
+  IY: 'Computer Science - Information Technology - Cyber Security',
+  LA: 'B Plan',
+  LC: 'Computer Science Engineering - Block Chain',
+  LJ: 'BTech in Computer Science',
+  MC: 'Mathematics and Computing',
+  MD: 'Medical Electronics',
+  ME: 'Mechanical Engineering',
+  MK: 'Mechanical Engineering (Kannada Medium)',
+  MM: 'Mechanical and Smart Manufacturing',
+  MN: 'Mining Engineering',
+  MR: 'Marine Engineering',
+  MS: 'Manufacturing Science and Engineering',
+  MT: 'Mechatronics',
+  NT: 'Nano Technology',
+  OP: 'Computer Science Engineering - DevOps',
+  OT: 'Industrial IoT',
+  PE: 'Petrochemical Engineering',
+  PL: 'Petroleum Engineering',
+  PM: 'Precision Manufacturing',
+  PT: 'Polymer Science and Technology',
+  RA: 'Robotics and Automation',
+  RB: 'Robotics',
+  RI: 'Robotics and Artificial Intelligence',
+  RM: 'Computer Science - Robotic Engineering - AI',
+  RO: 'Automation and Robotics Engineering',
+  SA: 'Smart Agritech',
+  SE: 'Aerospace Engineering',
+  SS: 'Computer Science and System Engineering',
+  ST: 'Silk Technology',
+  TC: 'Telecommunication Engineering',
+  TE: 'Tool Engineering',
+  TX: 'Textile Technology',
+  UP: 'Planning',
+  UR: 'Planning',
+  ZC: 'Computer Science',
 
-export const COURSE_CODE_TO_NAME: Record<string, string> = {};
+  // B.Tech Specialisations (prefixed with "B")
+  AM: 'B Tech in Computer Science & Engg (AI & ML)',
+  BA: 'B.Tech (Agricultural Engineering)',
+  BB: 'B Tech in Electronics & Communication',
+  BF: 'B Tech (Hons) Comp Sci and Engg (Data)',
+  BG: 'B Tech in Artificial Intelligence and Data',
+  BH: 'B Tech in Artificial Intelligence and ML',
+  BJ: 'B Tech in Electrical & Electronics',
+  BK: 'B Tech in Energy Engineering',
+  BL: 'B Tech in Aerospace Engineering',
+  BN: 'B Tech in Computer Science and Tech (Big Data)',
+  BO: 'B Tech in Bio-Technology',
+  BP: 'B Tech in Civil Engineering',
+  BQ: 'B Tech in Computer Science',
+  BU: 'B Tech in Computer Science and Information',
+  BV: 'B Tech in Computer Engineering',
+  BW: 'B Tech in Computer Science',
+  BX: 'B Tech in Computer Science and Engg (Cyber)',
+  BY: 'B Tech in Computer Science',
+  BZ: 'B Tech in Computer Science',
+  CL: 'B Tech in Electronics & Computer',
+  CN: 'B Tech in Computer Science and Engg (IoT and ...)',
+  CQ: 'B Tech in Computer Science',
+  CU: 'B Tech in Information Science',
+  CW: 'B Tech in Information Technology',
+  CX: 'B Tech in Information Science & ...',
+  CZ: 'B Tech in Computer Science',
+  DA: 'B Tech in Mathematics and Computing',
+  DB: 'B Tech in Mechanical Engineering',
+  DD: 'B Tech in Mechatronics Engineering',
+  DE: 'B Tech in Petroleum Engineering',
+  DF: 'B Tech in Robotics and Automation',
+  DH: 'B Tech in Robotics and Artificial Intelligence',
+  DI: 'B Tech in Robotic Engineering',
+  DJ: 'B Tech in Robotics',
+  DK: 'B Tech in Computer Science and System',
+  DL: 'B Tech in Computer Science',
+  DN: 'B Tech in VLSI',
+  LD: 'B Tech in Computer Science (Data)',
+  LE: 'B Tech in Computer Science (AI & ML)',
+  LF: 'B Tech in Computer Science (Cloud)',
+  LG: 'B Tech in Computer Science (Cyber)',
+  LH: 'B Tech in Computer Science (Information)',
+  LK: 'B Tech in Computer Science (Internet of Things)',
 
+  // Farm Science Courses
+  FH: 'B.F.Sc. Fisheries Science',
+  AB: 'B.Tech (Biotechnology)',
+  AMB: 'B.Sc. (Hons) Ag. Business Management',
+  AG: 'B.Sc. (Hons) Agriculture',
+  HS: 'B.Sc. (Hons) Community Science',
+  FR: 'B.Sc. (Hons) Forestry',
+  HT: 'B.Sc. (Hons) Horticulture',
+  SR: 'B.Sc. (Hons) Sericulture',
+  VS: 'B.V.Sc. and A.H',
+  DT: 'B.Tech (Dairy Technology)',
+  FS: 'B.Tech (Food Technology)',
+  FT: 'B.Tech (Food Technology)',
+  HE: 'Horticultural Engineering',
+};
+
+// Raw course titles as they appear in the KEA cutoff PDFs/XLSX (often wrapped
+// across several lines) mapped to a readable canonical name
+export const COURSE_NAME_ALIASES: Record<string, string> = {
+  'ARTIFICIAL\nINTELLIGENCE AND\nDATA SCIENCE': 'Artificial Intelligence and Data Science',
+  'ARTIFICIAL\nINTELLIGENCE AND\nMACHINE\nLEARNING': 'Artificial Intelligence and Machine Learning',
+  'AUTOMATION\nAND ROBOTICS': 'Automation and Robotics',
+  'AUTOMATION AND\nROBOTICS': 'Automation and Robotics',
+  'AUTOMOBILE\nENGINEERING': 'Automobile Engineering',
+  'AUTOMOTIVE\nENGINEERING': 'Automotive Engineering',
+  'B TECH (HONS)\nCOMPUTER\nSCIENCE AND\nENGINEERING(D\nATA SCIENCE)': 'B.Tech (Hons) Computer Science and Engineering (Data Science)',
+  'B TECH (HONS)\nCOMPUTER\nSCIENCE AND\nENGINEERING(DAT\nA SCIENCE)': 'B.Tech (Hons) Computer Science and Engineering (Data Science)',
+  'B TECH IN\nAERONAUTICAL\nENGINEERING': 'B.Tech in Aeronautical Engineering',
+  'B TECH IN\nAGRICULTURAL\nENGINEERING': 'B.Tech in Agricultural Engineering',
+  'B TECH IN\nARTIFICIAL\nINTELLIGENCE\nAND DATA\nSCIENCE': 'B.Tech in Artificial Intelligence and Data Science',
+  'B TECH IN\nARTIFICIAL\nINTELLIGENCE\nAND MACHINE\nLEARNING': 'B.Tech in Artificial Intelligence and Machine Learning',
+  'B TECH IN\nCOMPUTER\nENGINEERING': 'B.Tech in Computer Engineering',
+  'B TECH IN\nCOMPUTER\nSCIENCE': 'B.Tech in Computer Science',
+  'B TECH IN\nCOMPUTER\nSCIENCE\n(CLOUD\nCOMPUTING)': 'B.Tech in Computer Science (Cloud Computing)',
+  'B TECH IN\nCOMPUTER\nSCIENCE\n(CYBER\nSECURITY)': 'B.Tech in Computer Science (Cyber Security)',
+  'B TECH IN\nCOMPUTER\nSCIENCE &\nENGG\n(ARTIFICIAL\nINTELLIGENCE\nAND FUTURE\nTECHNOLOGIES\n)': 'B.Tech in Computer Science & Engineering (Artificial Intelligence and Future Technologies)',
+  'B TECH IN\nCOMPUTER\nSCIENCE &\nENGINEERING\n(ARTIFICAL\nINTELLIGENCE &\nMACHINE\nLEARNING)': 'B.Tech in Computer Science & Engineering (Artificial Intelligence and Machine Learning)',
+  'B TECH IN\nCOMPUTER\nSCIENCE & ENGG\n(ARTIFICIAL\nINTELLIGENCE AND\nFUTURE\nTECHNOLOGIES)': 'B.Tech in Computer Science & Engineering (Artificial Intelligence and Future Technologies)',
+  'B TECH IN\nCOMPUTER\nSCIENCE (CLOUD\nCOMPUTING)': 'B.Tech in Computer Science (Cloud Computing)',
+  'B TECH IN\nCOMPUTER\nSCIENCE (CYBER\nSECURITY)': 'B.Tech in Computer Science (Cyber Security)',
+  'B TECH IN\nCOMPUTER\nSCIENCE (DATA\nSCIENCE)': 'B.Tech in Computer Science (Data Science)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING': 'B.Tech in Computer Science and Engineering',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(A\nRTIFICIAL\nINTELLIGENCE &\nDATA SCIENCE)': 'B.Tech in Computer Science and Engineering (Artificial Intelligence and Data Science)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(ARTI\nFICAL\nINTELLIGENCE &\nDATA SCIENCE)': 'B.Tech in Computer Science and Engineering (Artificial Intelligence and Data Science)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(BLO\nCK CHAIN)': 'B.Tech in Computer Science and Engineering (Block Chain)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(C\nYBER\nSECURITY)': 'B.Tech in Computer Science and Engineering (Cyber Security)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(CYB\nER SECURITY)': 'B.Tech in Computer Science and Engineering (Cyber Security)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(D\nATA SCIENCE)': 'B.Tech in Computer Science and Engineering (Data Science)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(DAT\nA SCIENCE)': 'B.Tech in Computer Science and Engineering (Data Science)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(I\nOT INCLUDING\nBLOCK CHAIN)': 'B.Tech in Computer Science and Engineering (IoT including Block Chain)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(I\nOT)': 'B.Tech in Computer Science and Engineering (IoT)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(IOT\nINCLUDING BLOCK\nCHAIN)': 'B.Tech in Computer Science and Engineering (IoT including Block Chain)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(IOT)': 'B.Tech in Computer Science and Engineering (IoT)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nINFORMATION\nTECHNOLOGY': 'B.Tech in Computer Science and Information Technology',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nTECHNOLOGY': 'B.Tech in Computer Science and Technology',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nTECHNOLOGY(BIG\nDATA)': 'B.Tech in Computer Science and Technology (Big Data)',
+  'B TECH IN\nCOMPUTER\nSCIENCE AND\nTECHNOLOGY(DEV\nOPS)': 'B.Tech in Computer Science and Technology (DevOps)',
+  'B TECH IN\nELECTRICAL &\nELECTRONICS\nENGINEERING': 'B.Tech in Electrical & Electronics Engineering',
+  'B TECH IN\nELECTRONICS &\nCOMMUNICATIO\nN ENGINEERING': 'B.Tech in Electronics & Communication Engineering',
+  'B TECH IN\nELECTRONICS &\nCOMMUNICATION\nENGINEERING': 'B.Tech in Electronics & Communication Engineering',
+  'B TECH IN\nELECTRONICS &\nCOMPUTER\nENGINEERING': 'B.Tech in Electronics & Computer Engineering',
+  'B TECH IN\nINFORMATION\nSCIENCE\nENGINEERING': 'B.Tech in Information Science Engineering',
+  'B TECH IN\nINFORMATION\nSCIENCE &\nTECHNOLOGY': 'B.Tech in Information Science & Technology',
+  'B TECH IN\nINFORMATION\nTECHNOLOGY': 'B.Tech in Information Technology',
+  'B TECH IN\nMATHAMATICS\nAND\nCOMPUTING': 'B.Tech in Mathematics and Computing',
+  'B TECH IN\nMATHAMATICS\nAND COMPUTING': 'B.Tech in Mathematics and Computing',
+  'B TECH IN\nMECHANICAL\nENGINEERING': 'B.Tech in Mechanical Engineering',
+  'B TECH IN\nMECHATRONICS\nENGINEERING': 'B.Tech in Mechatronics Engineering',
+  'B TECH IN\nPETROLEUM\nENGINEERING': 'B.Tech in Petroleum Engineering',
+  'B TECH IN\nROBOTIC\nENGINEERING': 'B.Tech in Robotic Engineering',
+  'B TECH IN\nROBOTICS\nENGINEERING': 'B.Tech in Robotics Engineering',
+  'B TECH IN\nROBOTICS AND\nAUTOMATION': 'B.Tech in Robotics and Automation',
+  'B TECH IN AERO\nSPACE\nENGINEERING': 'B.Tech in Aerospace Engineering',
+  'B TECH IN BIO-\nTECHNOLOGY': 'B.Tech in Bio-Technology',
+  'B TECH IN CIVIL\nENGINEERING': 'B.Tech in Civil Engineering',
+  'B TECH IN ENERGY\nENGINEERING': 'B.Tech in Energy Engineering',
+  'B Tech in\nComputer\nScience(AI &ML)': 'B.Tech in Computer Science (AI & ML)',
+  'B Tech in\nComputer Science\n(Information\nSecurity)': 'B.Tech in Computer Science (Information Security)',
+  'B Tech in\nROBOTICS AND\nARTIFICIAL\nINTELLIGENCE': 'B.Tech in Robotics and Artificial Intelligence',
+  'B Tech in Computer\nScience (Information\nSecurity)': 'B.Tech in Computer Science (Information Security)',
+  'B Tech in Computer\nScience(AI &ML)': 'B.Tech in Computer Science (AI & ML)',
+  'B.Plan': 'B.Plan',
+  'B.TECH IN\nCOMPUTER\nENGINEERING(S\nOFTWARE\nPRODUCT\nDEVELOPMENT)': 'B.Tech in Computer Engineering (Software Product Development)',
+  'B.TECH IN\nCOMPUTER\nENGINEERING(SOF\nTWARE PRODUCT\nDEVELOPMENT)': 'B.Tech in Computer Engineering (Software Product Development)',
+  'B.TECH IN\nCOMPUTER\nSCIENCE AND\nARTIFICIAL\nINTELLIGENCE': 'B.Tech in Computer Science and Artificial Intelligence',
+  'B.TECH IN\nCOMPUTER\nSCIENCE AND\nENGG\n(ROBOTICS)': 'B.Tech in Computer Science and Engineering (Robotics)',
+  'B.TECH IN\nCOMPUTER\nSCIENCE AND\nENGG (ROBOTICS)': 'B.Tech in Computer Science and Engineering (Robotics)',
+  'B.TECH IN\nCOMPUTER\nSICENCE AND\nENGG (DATA\nANALYTICS)': 'B.Tech in Computer Science and Engineering (Data Analytics)',
+  'B.TECH IN\nComputer Science\nand Medical\nEngineering': 'B.Tech in Computer Science and Medical Engineering',
+  'B.TECH IN\nELECTRICAL\nENGINEERING\nAND COMPUTER\nSCIENCE': 'B.Tech in Electrical Engineering and Computer Science',
+  'B.TECH IN\nELECTRICAL\nENGINEERING AND\nCOMPUTER\nSCIENCE': 'B.Tech in Electrical Engineering and Computer Science',
+  'B.TECH IN\nELECTRONICS\nENGINEERING': 'B.Tech in Electronics Engineering',
+  'B.TECH IN\nELECTRONICS\nENGINEERING\n(VLSI AND\nEMBEDDED\nSYSTEM)': 'B.Tech in Electronics Engineering (VLSI and Embedded System)',
+  'B.TECH IN\nEMBEDDED\nSYSTEM AND\nVLSI': 'B.Tech in Embedded System and VLSI',
+  'B.TECH IN\nEMBEDDED\nSYSTEM AND VLSI': 'B.Tech in Embedded System and VLSI',
+  'B.TECH IN\nMECHANICAL\nAND\nAEROSPACE\nENGINEERING': 'B.Tech in Mechanical and Aerospace Engineering',
+  'B.TECH IN\nMECHANICAL AND\nAEROSPACE\nENGINEERING': 'B.Tech in Mechanical and Aerospace Engineering',
+  'B.TECH IN CIVIL\nCONSTRUCTION\nAND\nSUSTAINABILITY\nENGINEERING': 'B.Tech in Civil Construction and Sustainability Engineering',
+  'B.Tech In\nBIOTECHNOLOG\nY & BIO-\nENGINEERING': 'B.Tech in Biotechnology & Bio-Engineering',
+  'B.Tech In\nBIOTECHNOLOGY\n& BIO-\nENGINEERING': 'B.Tech in Biotechnology & Bio-Engineering',
+  'B.Tech in\nCOMPUTER\nSCIENCE & ENGG\n(Business Systems)': 'B.Tech in Computer Science & Engineering (Business Systems)',
+  'B.Tech in\nComputer Science\n(Internet of\nThings)': 'B.Tech in Computer Science (Internet of Things)',
+  'B.Tech in\nComputer Science\nand\nEngineering(Clou\nd Computing)': 'B.Tech in Computer Science and Engineering (Cloud Computing)',
+  'B.Tech in\nComputer Science\nand\nEngineering(Dev\nOps)': 'B.Tech in Computer Science and Engineering (DevOps)',
+  'B.Tech in\nComputer Science\nand\nEngineering(Full\nStack\nDevelopment)': 'B.Tech in Computer Science and Engineering (Full Stack Development)',
+  'B.Tech in\nElectrical and\nElectronics\nEngineering\n(Electrical Vehicle\nTechnology)': 'B.Tech in Electrical and Electronics Engineering (Electrical Vehicle Technology)',
+  'B.Tech in Computer\nScience (Internet of\nThings)': 'B.Tech in Computer Science (Internet of Things)',
+  'B.Tech in Computer\nScience and\nEngineering(Cloud\nComputing)': 'B.Tech in Computer Science and Engineering (Cloud Computing)',
+  'B.Tech in Computer\nScience and\nEngineering(Dev\nOps)': 'B.Tech in Computer Science and Engineering (DevOps)',
+  'B.Tech in Computer\nScience and\nEngineering(Full\nStack Development)': 'B.Tech in Computer Science and Engineering (Full Stack Development)',
+  'B.Tech in Electrical\nand Electronics\nEngineering\n(Electrical Vehicle\nTechnology)': 'B.Tech in Electrical and Electronics Engineering (Electrical Vehicle Technology)',
+  'B.Tech in VLSI': 'B.Tech in VLSI',
+  'BIO-\nTECHNOLOGY': 'Bio-Technology',
+  'BIO-MEDICAL\nENGINEERING': 'Bio Medical Engineering',
+  'BIO-TECHNOLOGY': 'Bio-Technology',
+  'BIOMEDICAL\nAND ROBOTIC\nENGINEERING': 'Biomedical and Robotic Engineering',
+  'BIOMEDICAL AND\nROBOTIC\nENGINEERING': 'Biomedical and Robotic Engineering',
+  'BTECH IN\nCOMPUTER\nSCIENCE AND\nBUSINESS\nSYSTEMS': 'B.Tech in Computer Science and Business Systems',
+  'BTECH IN\nCOMPUTER\nSCIENCE AND\nDESIGN': 'B.Tech in Computer Science and Design',
+  'BTECH IN\nELECTRONICS\nENGINEERING(V\nLSI DESIGN &\nTECHNOLOGY)': 'B.Tech in Electronics Engineering (VLSI Design & Technology)',
+  'BTECH IN\nELECTRONICS\nENGINEERING(VLSI\nDESIGN &\nTECHNOLOGY)': 'B.Tech in Electronics Engineering (VLSI Design & Technology)',
+  'BTECH IN\nINFORMATION\nTECHNOLOGY\nDATA\nANALYTICS': 'B.Tech in Information Technology Data Analytics',
+  'BTECH IN\nINFORMATION\nTECHNOLOGY\nDATA ANALYTICS': 'B.Tech in Information Technology Data Analytics',
+  'BTECH IN\nMECHANICAL AND\nSMART\nMANUFACTURING': 'B.Tech in Mechanical and Smart Manufacturing',
+  'BTECH IN\nPHARMACEUTICAL\nENGINEERING': 'B.Tech in Pharmaceutical Engineering',
+  'CERAMICS &\nCEMENT\nENGINEERING': 'Ceramics and Cement Engineering',
+  'CHEMICAL\nENGINEERING': 'Chemical Engineering',
+  'CIVIL\nENGINEERING': 'Civil Engineering',
+  'CIVIL\nENGINEERING\n(KANNADA\nMEDIUM)': 'Civil Engineering (Kannada Medium)',
+  'CIVIL\nENGINEERING\nWITH COMPUTER\nAPPLICATION': 'Civil Engineering with Computer Application',
+  'CIVIL\nENVIRONMENTA\nL ENGINEERING': 'Civil Environmental Engineering',
+  'CIVIL\nENVIRONMENTAL\nENGINEERING': 'Civil Environmental Engineering',
+  'COMMUNICATION\nDESIGN': 'Communication Design',
+  'COMPUTER\nENGINEERING': 'Computer Engineering',
+  'COMPUTER\nSCIENCE': 'Computer Science',
+  'COMPUTER\nSCIENCE &\nTECHNOLOGY': 'Computer Science & Technology',
+  'COMPUTER\nSCIENCE AND\nBUSINESS\nSYSTEMS': 'Computer Science and Business Systems',
+  'COMPUTER\nSCIENCE AND\nDESIGN': 'Computer Science and Design',
+  'COMPUTER\nSCIENCE AND\nENGG\n(ARTIFICIAL\nINTELLIGENCE)': 'Computer Science and Engineering (Artificial Intelligence)',
+  'COMPUTER\nSCIENCE AND\nENGG (ARTIFICIAL\nINTELLIGENCE)': 'Computer Science and Engineering (Artificial Intelligence)',
+  'COMPUTER\nSCIENCE AND\nENGG(ARTIFICIA\nL INTELLIGENCE\nAND MACHINE\nLEARNING)': 'Computer Science and Engineering (Artificial Intelligence and Machine Learning)',
+  'COMPUTER\nSCIENCE AND\nENGG(ARTIFICIAL\nINTELLIGENCE AND\nMACHINE\nLEARNING)': 'Computer Science and Engineering (Artificial Intelligence and Machine Learning)',
+  'COMPUTER\nSCIENCE AND\nENGG(INTERNE\nT OF THINGS &\nCYBER\nSECURITY\nINCLUDING\nBLOCK CHAIN\nTECH)': 'Computer Science and Engineering (Internet of Things & Cyber Security including Block Chain Tech)',
+  'COMPUTER\nSCIENCE AND\nENGG(INTERNE\nT OF THINGS)': 'Computer Science and Engineering (Internet of Things)',
+  'COMPUTER\nSCIENCE AND\nENGG(INTERNET\nOF THINGS &\nCYBER SECURITY\nINCLUDING BLOCK\nCHAIN TECH)': 'Computer Science and Engineering (Internet of Things & Cyber Security including Block Chain Tech)',
+  'COMPUTER\nSCIENCE AND\nENGG(INTERNET\nOF THINGS)': 'Computer Science and Engineering (Internet of Things)',
+  'COMPUTER\nSCIENCE AND\nENGINEERING': 'Computer Science and Engineering',
+  'COMPUTER\nSCIENCE AND\nENGINEERING\n(AIML)': 'Computer Science and Engineering (AIML)',
+  'COMPUTER\nSCIENCE AND\nENGINEERING\n(CYBER\nSECURITY)': 'Computer Science and Engineering (Cyber Security)',
+  'COMPUTER\nSCIENCE AND\nENGINEERING\n(CYBER SECURITY)': 'Computer Science and Engineering (Cyber Security)',
+  'COMPUTER\nSCIENCE AND\nENGINEERING(A\nRTIFICAL\nINTELLIGENCE &\nDATA SCIENCE)': 'Computer Science and Engineering (Artificial Intelligence and Data Science)',
+  'COMPUTER\nSCIENCE AND\nENGINEERING(ARTI\nFICAL\nINTELLIGENCE &\nDATA SCIENCE)': 'Computer Science and Engineering (Artificial Intelligence and Data Science)',
+  'COMPUTER\nSCIENCE AND\nENGINEERING(D\nATA SCIENCE)': 'Computer Science and Engineering (Data Science)',
+  'COMPUTER\nSCIENCE AND\nENGINEERING(DAT\nA SCIENCE)': 'Computer Science and Engineering (Data Science)',
+  'COMPUTER AND\nCOMMUNICATIO\nN ENGINEERING': 'Computer and Communication Engineering',
+  'COMPUTER AND\nCOMMUNICATION\nENGINEERING': 'Computer and Communication Engineering',
+  'CYBER\nSECURITY': 'Cyber Security',
+  'CYBER SECURITY': 'Cyber Security',
+  'DATA SCIENCES': 'Data Sciences',
+  'DESIGN': 'Design',
+  'ELECTRICAL &\nCOMPUTER\nENGINEERING': 'Electrical & Computer Engineering',
+  'ELECTRICAL &\nELECTRONICS\nENGINEERING': 'Electrical & Electronics Engineering',
+  'ELECTRONICS\nAND\nCOMMUNICATIO\nN (ADVANCED\nCOMMUNICATIO\nN\nTECHNOLOGY)': 'Electronics and Communication (Advanced Communication Technology)',
+  'ELECTRONICS\nAND\nCOMMUNICATIO\nN ENGG': 'Electronics and Communication Engineering',
+  'ELECTRONICS\nAND\nCOMMUNICATIO\nN ENGG (VLSI\nDESIGN AND\nTECHNOLOGY)': 'Electronics and Communication Engineering (VLSI Design and Technology)',
+  'ELECTRONICS\nAND\nINSTRUMENTATI\nON\nENGINEERING': 'Electronics and Instrumentation Engineering',
+  'ELECTRONICS\nAND\nTELECOMMUNIC\nATION\nENGINEERING': 'Electronics and Telecommunication Engineering',
+  'ELECTRONICS\nENGINEERING(V\nLSI DESIGN &\nTECHNOLOGY)': 'Electronics Engineering (VLSI Design & Technology)',
+  'ELECTRONICS\nENGINEERING(VLSI\nDESIGN &\nTECHNOLOGY)': 'Electronics Engineering (VLSI Design & Technology)',
+  'ELECTRONICS &\nCOMMUNICATION\nENGINEERING(IND\nUSTRIAL\nINTEGTATED)': 'Electronics & Communication Engineering (Industrial Integrated)',
+  'ELECTRONICS &\nCOMPUTER\nENGINEERING': 'Electronics & Computer Engineering',
+  'ELECTRONICS &\nCOMPUTER\nSCIENCE': 'Electronics & Computer Science',
+  'ELECTRONICS &\nINSTRUMENTATI\nON\nENGINEERING': 'Electronics & Instrumentation Engineering',
+  'ELECTRONICS &\nINSTRUMENTATION\nENGINEERING': 'Electronics & Instrumentation Engineering',
+  'ELECTRONICS AND\nCOMMUNICATION\n(ADVANCED\nCOMMUNICATION\nTECHNOLOGY)': 'Electronics and Communication (Advanced Communication Technology)',
+  'ELECTRONICS AND\nCOMMUNICATION\nENGG': 'Electronics and Communication Engineering',
+  'ELECTRONICS AND\nCOMMUNICATION\nENGG (VLSI\nDESIGN AND\nTECHNOLOGY)': 'Electronics and Communication Engineering (VLSI Design and Technology)',
+  'ELECTRONICS AND\nINSTRUMENTATION\nENGINEERING': 'Electronics and Instrumentation Engineering',
+  'ELECTRONICS AND\nTELECOMMUNICAT\nION ENGINEERING': 'Electronics and Telecommunication Engineering',
+  'ENGINEERING\nDESIGN': 'Engineering Design',
+  'ENVIRONMENTA\nL ENGINEERING': 'Environmental Engineering',
+  'ENVIRONMENTAL\nENGINEERING': 'Environmental Engineering',
+  'FASHION DESIGN': 'Fashion Design',
+  'INDUSTRIAL\nDESIGN': 'Industrial Design',
+  'INDUSTRIAL\nENGINEERING &\nMANAGEMENT': 'Industrial Engineering & Management',
+  'INDUSTRIAL &\nPRODUCTION\nENGINEERING': 'Industrial & Production Engineering',
+  'INDUSTRIAL IOT': 'Industrial IoT',
+  'INFORMATION\nSCIENCE': 'Information Science',
+  'INFORMATION\nSCIENCE AND\nENGINEERING': 'Information Science and Engineering',
+  'LIFE STYLE AND\nACCESSORY\nDESIGN': 'Life Style and Accessory Design',
+  'MARINE\nENGINEERING': 'Marine Engineering',
+  'MECHANICAL\nENGINEERING': 'Mechanical Engineering',
+  'MECHANICAL\nENGINEERING\n(KANNADA\nMEDIUM)': 'Mechanical Engineering (Kannada Medium)',
+  'MECHANICAL AND\nSMART\nMANUFACTURING': 'Mechanical and Smart Manufacturing',
+  'MECHATRONICS': 'Mechatronics',
+  'MEDICAL\nELECTRONICS\nENGINEERING': 'Medical Electronics Engineering',
+  'MINING\nENGINEERING': 'Mining Engineering',
+  'PLANNING': 'Planning',
+  'POLYMER\nSCIENCE &\nTECHNOLOGY': 'Polymer Science & Technology',
+  'POLYMER SCIENCE\n& TECHNOLOGY': 'Polymer Science & Technology',
+  'PRODUCTION\nENGINEERING': 'Production Engineering',
+  'ROBOTICS AND\nARTIFICIAL\nINTELLIGENCE': 'Robotics and Artificial Intelligence',
+  'ROBOTICS AND\nAUTOMATION': 'Robotics and Automation',
+  'SILK\nTECHNOLOGY': 'Silk Technology',
+  'TEXTILES\nTECHNOLOGY': 'Textiles Technology',
+  // Additional common variations for better matching
+  'ARTIFICIAL INTELLIGENCE AND DATA SCIENCE': 'Artificial Intelligence and Data Science',
+  'ARTIFICIAL INTELLIGENCE AND MACHINE LEARNING': 'Artificial Intelligence and Machine Learning',
+  'COMPUTER SCIENCE AND ENGINEERING (AI)': 'Computer Science and Engineering (AI)',
+  'COMPUTER SCIENCE AND ENGINEERING (CYBER SECURITY)': 'Computer Science and Engineering (Cyber Security)',
+  'COMPUTER SCIENCE AND ENGINEERING (DATA SCIENCE)': 'Computer Science and Engineering (Data Science)',
+  'COMPUTER SCIENCE AND ENGINEERING (IOT)': 'Computer Science and Engineering (IoT)',
+  'ELECTRONICS AND COMMUNICATION ENGINEERING': 'Electronics and Communication Engineering',
+  'ELECTRICAL AND ELECTRONICS ENGINEERING': 'Electrical and Electronics Engineering',
+  'BIO TECHNOLOGY': 'Bio Technology',
+  'BIO MEDICAL ENGINEERING': 'Bio Medical Engineering',
+  'INFORMATION SCIENCE AND ENGINEERING': 'Information Science and Engineering',
+  'INFORMATION TECHNOLOGY': 'Information Technology',
+  'ROBOTICS AND AUTOMATION': 'Robotics and Automation',
+  'ROBOTICS AND ARTIFICIAL INTELLIGENCE': 'Robotics and Artificial Intelligence',
+  'AERONAUTICAL ENGINEERING': 'Aeronautical Engineering',
+  'AUTOMOBILE ENGINEERING': 'Automobile Engineering',
+  'AUTOMOTIVE ENGINEERING': 'Automotive Engineering',
+  'AUTOMATION AND ROBOTICS': 'Automation and Robotics',
+  'AEROSPACE ENGINEERING': 'Aerospace Engineering',
+  'MARINE ENGINEERING': 'Marine Engineering',
+  'MINING ENGINEERING': 'Mining Engineering',
+  'PETROLEUM ENGINEERING': 'Petroleum Engineering',
+  'POLYMER SCIENCE AND TECHNOLOGY': 'Polymer Science and Technology',
+  'B.PLAN': 'B.Plan',
+  'B.TECH': 'B.Tech',
+  'B.TECH IN': 'B.Tech in',
+  'B TECH IN': 'B.Tech in',
+  'B TECH': 'B.Tech',
+
+  // Additional mappings for specific course names found in the data
+  'COMPUTER SCIENCE AND ENGG(INTERNET OF THINGS & CYBER SECURITY INCLUDING BLOCK CHAIN TECH)': 'Computer Science and Engineering (Internet of Things & Cyber Security including Block Chain Tech)',
+};
+
+export const COURSES: Course[] = Object.entries(COURSE_CODE_TO_NAME)
+  .map(([code, name]) => ({ code, name }))
+  .sort((a, b) => a.code.localeCompare(b.code));
+
+const collapse = (text: string): string => (text ?? '').toString().replace(/\s+/g, ' ').trim();
+const nameKey = (text: string): string => collapse(text).toUpperCase();
+
+// Several codes share a display name; the first code listed wins
 export const COURSE_NAME_TO_CODE: Record<string, string> = {};
+for (const [code, name] of Object.entries(COURSE_CODE_TO_NAME)) {
+  if (!COURSE_NAME_TO_CODE[name]) COURSE_NAME_TO_CODE[name] = code;
+}
 
-// Function to get course display name (can be used for formatting)
-export const getCourseDisplayName = (courseName: string): string => {
-  return courseName || 'Unknown Course';
+const NAME_KEY_TO_CODE = new Map<string, string>();
+for (const [name, code] of Object.entries(COURSE_NAME_TO_CODE)) {
+  if (!NAME_KEY_TO_CODE.has(nameKey(name))) NAME_KEY_TO_CODE.set(nameKey(name), code);
+}
+
+const NAME_KEY_TO_CANONICAL = new Map<string, string>();
+for (const name of Object.values(COURSE_CODE_TO_NAME)) {
+  if (!NAME_KEY_TO_CANONICAL.has(nameKey(name))) NAME_KEY_TO_CANONICAL.set(nameKey(name), name);
+}
+for (const [raw, name] of Object.entries(COURSE_NAME_ALIASES)) {
+  NAME_KEY_TO_CANONICAL.set(nameKey(raw), name);
+  if (!NAME_KEY_TO_CANONICAL.has(nameKey(name))) NAME_KEY_TO_CANONICAL.set(nameKey(name), name);
+}
+
+// Map a raw course label (code, "CS Computer Science", or a wrapped PDF title)
+// to its canonical display name. Unknown labels are returned whitespace-collapsed.
+export const normalizeCourseName = (rawCourse: string): string => {
+  const text = collapse(rawCourse);
+  if (!text) return text;
+
+  const leadingCode = text.split(/[\s-]/)[0].toUpperCase();
+  if (COURSE_CODE_TO_NAME[leadingCode]) {
+    return COURSE_CODE_TO_NAME[leadingCode];
+  }
+
+  return NAME_KEY_TO_CANONICAL.get(nameKey(text)) ?? text;
+};
+
+// Exact lookup of the KEA course code for a course name or alias
+export const findCourseCode = (courseName: string): string => {
+  const text = collapse(courseName);
+  if (!text) return '';
+  if (COURSE_CODE_TO_NAME[text.toUpperCase()]) return text.toUpperCase();
+  return NAME_KEY_TO_CODE.get(nameKey(normalizeCourseName(text))) ?? '';
 };
 
-// Function to get course code from name (if needed)
+const ENGINEERING_TERMS = ['computer', 'electronics', 'electrical', 'mechanical', 'civil', 'information', 'artificial', 'robotics', 'bio', 'chemical', 'telecommunication', 'instrumentation', 'medical', 'aeronautical', 'aerospace', 'automobile', 'automotive', 'mining', 'marine', 'petroleum', 'polymer', 'ceramics', 'textile', 'silk', 'architecture', 'planning', 'design', 'data', 'cyber', 'cloud', 'devops', 'blockchain', 'iot', 'vlsi', 'mechatronics', 'nanotechnology', 'energy', 'environmental', 'agriculture', 'food', 'dairy', 'fisheries', 'forestry', 'horticulture', 'sericulture'];
+
+// Best-effort course code for display: exact lookup first, then a partial
+// match on at least two significant words
 export const getCourseCode = (courseName: string): string => {
-  // Extract first few characters as code for display purposes
-  const words = courseName.split(' ');
-  if (words.length >= 2) {
-    return words.slice(0, 2).map(word => word.charAt(0)).join('').toUpperCase();
+  const exact = findCourseCode(courseName);
+  if (exact) return exact;
+
+  const courseWords = collapse(courseName).toLowerCase().split(' ');
+  if (!courseWords.some(word => ENGINEERING_TERMS.includes(word))) return '';
+
+  for (const [code, name] of Object.entries(COURSE_CODE_TO_NAME)) {
+    const nameWords = collapse(name).toLowerCase().split(' ');
+    const matchingWords = courseWords.filter(word => nameWords.includes(word) && word.length > 2);
+    if (matchingWords.length >= 2) return code;
   }
-  return courseName.substring(0, 3).toUpperCase();
+  return '';
 };
 
-
+// Function to get course display name (can be used for formatting)
+export const getCourseDisplayName = (courseName: string): string => {
+  return courseName || 'Unknown Course';
+};
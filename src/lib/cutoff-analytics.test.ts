@@ -0,0 +1,67 @@
+import { describe, test, expect } from 'vitest'
+import {
+  getBranchDemand,
+  getBranchDistributions,
+  getCategoryGaps,
+  getCollegeTiers,
+  isComputingBranch,
+  summarizeCategoryGaps
+} from './cutoff-analytics'
+import type { CutoffRecord } from './cutoff-repository'
+
+const record = (institute_code: string, course_code: string, cutoff_rank: number, year = '2024', category = 'GM'): CutoffRecord => ({
+  institute: `College ${institute_code}`, institute_code, course: course_code, course_code, category, cutoff_rank, year, round: 'R1'
+})
+
+describe('Cutoff analytics', () => {
+  test('summarizes closing ranks per branch, most competitive first', () => {
+    const records = [
+      record('E001', 'CS', 1000), record('E002', 'CS', 2000), record('E003', 'CS', 3000), record('E004', 'CS', 9000),
+      record('E001', 'ME', 20000), record('E002', 'ME', 40000),
+      record('E001', 'CS', 500, '2023')
+    ]
+    const [cs, me] = getBranchDistributions(records, { year: '2024', round: 'R1', category: 'GM' })
+    expect(cs).toMatchObject({ branch: 'CS', colleges: 4, min: 1000, q1: 1750, median: 2500, q3: 4500, max: 9000 })
+    expect(me.median).toBe(30000)
+  })
+
+  test('ranks branch demand per year and tracks movement', () => {
+    const colleges = ['E001', 'E002', 'E003']
+    const records = colleges.flatMap((code, i) => [
+      record(code, 'CS', 1000 + i, '2023'), record(code, 'EC', 2000 + i, '2023'), record(code, 'AI', 3000 + i, '2023'),
+      record(code, 'CS', 1000 + i, '2024'), record(code, 'AI', 1500 + i, '2024'), record(code, 'EC', 4000 + i, '2024')
+    ])
+    const { years, branches } = getBranchDemand(records, { round: 'R1', category: 'GM' })
+    expect(years).toEqual(['2023', '2024'])
+    expect(branches.map(b => b.branch)).toEqual(['CS', 'AI', 'EC'])
+    expect(branches[1].positionChange).toBe(1)
+    expect(branches[1].medianChange).toBeCloseTo(-0.5, 2)
+    expect(getBranchDemand(records, { round: 'R1', category: 'GM' }, 4).branches).toEqual([])
+  })
+
+  test('tiers colleges by median closing rank', () => {
+    const records = Array.from({ length: 10 }, (_, i) => record(`E${String(i + 1).padStart(3, '0')}`, 'CS', (i + 1) * 1000))
+    const tiers = getCollegeTiers(records, { year: '2024', round: 'R1', category: 'GM' })
+    expect(tiers.map(t => t.tier)).toEqual([1, 2, 2, 3, 3, 3, 4, 4, 4, 4])
+  })
+
+  test('compares category columns of the same seat', () => {
+    const records = [
+      record('E001', 'CS', 1000), record('E001', 'CS', 5000, '2024', 'SCG'), record('E001', 'CS', 2000, '2024', '2AG'),
+      record('E002', 'CS', 3000), record('E002', 'CS', 9000, '2024', 'SCG'),
+      record('E003', 'CS', 7000, '2024', 'SCG')
+    ]
+    const rows = getCategoryGaps(records, { year: '2024', round: 'R1' }, ['GM', 'SCG', '2AG'])
+    expect(rows.map(r => r.institute_code)).toEqual(['E001', 'E002'])
+    expect(rows[1].ranks).toEqual({ GM: 3000, SCG: 9000, '2AG': null })
+    const [cs] = summarizeCategoryGaps(rows, ['GM', 'SCG', '2AG'])
+    expect(cs.medians).toEqual({ GM: 2000, SCG: 7000, '2AG': 2000 })
+    expect(cs.ratios).toEqual({ GM: 1, SCG: 4, '2AG': 2 })
+  })
+
+  test('recognizes computing branches', () => {
+    expect(isComputingBranch('CS')).toBe(true)
+    expect(isComputingBranch('CY')).toBe(true)
+    expect(isComputingBranch('ME')).toBe(false)
+  })
+})
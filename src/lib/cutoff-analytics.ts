@@ -0,0 +1,249 @@
+import { COURSE_CODE_TO_NAME } from '@/lib/courses'
+import type { CutoffRecord } from '@/lib/cutoff-repository'
+import { median, quantile } from '@/lib/statistics'
+
+// One year, round and category column of the dataset
+export interface AnalyticsScope {
+  year: string
+  round: string
+  category: string
+}
+
+export interface BranchDistribution {
+  branch: string
+  name: string
+  // Colleges with a closing rank for the branch
+  colleges: number
+  min: number
+  q1: number
+  median: number
+  q3: number
+  max: number
+}
+
+export interface BranchDemandYear {
+  median: number
+  // 1 for the branch with the lowest median closing rank that year
+  position: number
+  colleges: number
+}
+
+export interface BranchDemand {
+  branch: string
+  name: string
+  years: Record<string, BranchDemandYear>
+  // Positions climbed between the first and last year covered; positive
+  // means rising demand
+  positionChange: number | null
+  // Relative change of the median closing rank over the same years; negative
+  // means seats close earlier
+  medianChange: number | null
+}
+
+export type CollegeTier = 1 | 2 | 3 | 4
+
+export interface CollegeTierRow {
+  institute_code: string
+  institute: string
+  tier: CollegeTier
+  // Median and best closing rank over the college's branches
+  median: number
+  best: number
+  branches: number
+}
+
+export interface CategoryGapRow {
+  institute_code: string
+  institute: string
+  branch: string
+  name: string
+  // Closing rank per compared category, null when the seat has none
+  ranks: Record<string, number | null>
+}
+
+export interface BranchCategoryGap {
+  branch: string
+  name: string
+  seats: number
+  medians: Record<string, number | null>
+  // Median over seats of the category's closing rank divided by the first
+  // category's, e.g. 3 = the seat stays open three times as far down
+  ratios: Record<string, number | null>
+}
+
+// Cumulative share of colleges in each tier, best median closing rank first
+export const TIER_SHARES: Array<{ tier: CollegeTier; share: number }> = [
+  { tier: 1, share: 0.1 },
+  { tier: 2, share: 0.3 },
+  { tier: 3, share: 0.6 },
+  { tier: 4, share: 1 }
+]
+
+// Branches offered by fewer colleges give too noisy a median to rank
+export const MIN_DEMAND_COLLEGES = 3
+
+// Computing branches, including the specialisations split off CS
+const COMPUTING_BRANCH = /computer|artificial|data|cyber|information|machine learning/i
+
+export const getBranchKey = (record: Pick<CutoffRecord, 'course_code' | 'course'>): string =>
+  record.course_code || record.course
+
+export const getBranchName = (branch: string, fallback?: string): string =>
+  COURSE_CODE_TO_NAME[branch] ?? fallback ?? branch
+
+export const isComputingBranch = (branch: string, name?: string): boolean =>
+  COMPUTING_BRANCH.test(getBranchName(branch, name))
+
+const inScope = (records: CutoffRecord[], scope: Partial<AnalyticsScope>): CutoffRecord[] =>
+  records.filter(record =>
+    record.cutoff_rank > 0 &&
+    (!scope.year || record.year === scope.year) &&
+    (!scope.round || record.round === scope.round) &&
+    (!scope.category || record.category === scope.category)
+  )
+
+const groupBy = <T>(items: T[], key: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const k = key(item)
+    const list = groups.get(k)
+    if (list) list.push(item)
+    else groups.set(k, [item])
+  }
+  return groups
+}
+
+/** Spread of closing ranks across colleges for each branch, most competitive first. */
+export const getBranchDistributions = (records: CutoffRecord[], scope: AnalyticsScope): BranchDistribution[] =>
+  [...groupBy(inScope(records, scope), record => getBranchKey(record))]
+    .map(([branch, rows]) => {
+      const ranks = rows.map(row => row.cutoff_rank)
+      return {
+        branch,
+        name: getBranchName(branch, rows[0].course),
+        colleges: new Set(rows.map(row => row.institute_code)).size,
+        min: Math.min(...ranks),
+        q1: Math.round(quantile(ranks, 0.25)),
+        median: Math.round(median(ranks)),
+        q3: Math.round(quantile(ranks, 0.75)),
+        max: Math.max(...ranks)
+      }
+    })
+    .sort((a, b) => a.median - b.median)
+
+/**
+ * Rank branches by median closing rank in every year of one round and
+ * category, and how far each moved between the first and last year it was
+ * ranked in. Branches offered by fewer than minColleges colleges in a year are
+ * left out of that year.
+ */
+export const getBranchDemand = (
+  records: CutoffRecord[],
+  scope: Omit<AnalyticsScope, 'year'>,
+  minColleges = MIN_DEMAND_COLLEGES
+): { years: string[]; branches: BranchDemand[] } => {
+  const byYear = groupBy(inScope(records, scope), record => record.year)
+  const years = [...byYear.keys()].sort()
+  const branches = new Map<string, BranchDemand>()
+
+  for (const year of years) {
+    const ranked = getBranchDistributions(byYear.get(year)!, { ...scope, year })
+      .filter(row => row.colleges >= minColleges)
+    ranked.forEach((row, index) => {
+      const demand = branches.get(row.branch) ?? { branch: row.branch, name: row.name, years: {}, positionChange: null, medianChange: null }
+      demand.years[year] = { median: row.median, position: index + 1, colleges: row.colleges }
+      branches.set(row.branch, demand)
+    })
+  }
+
+  for (const demand of branches.values()) {
+    const covered = years.filter(year => demand.years[year])
+    if (covered.length < 2) continue
+    const first = demand.years[covered[0]]
+    const last = demand.years[covered[covered.length - 1]]
+    demand.positionChange = first.position - last.position
+    demand.medianChange = last.median / first.median - 1
+  }
+
+  const latest = years[years.length - 1]
+  return {
+    years,
+    branches: [...branches.values()].sort((a, b) =>
+      (a.years[latest]?.position ?? Infinity) - (b.years[latest]?.position ?? Infinity))
+  }
+}
+
+/** Group colleges into tiers by the median closing rank of their branches. */
+export const getCollegeTiers = (records: CutoffRecord[], scope: AnalyticsScope): CollegeTierRow[] => {
+  const colleges = [...groupBy(inScope(records, scope), record => record.institute_code)]
+    .map(([code, rows]) => {
+      const ranks = rows.map(row => row.cutoff_rank)
+      return {
+        institute_code: code,
+        institute: rows.find(row => row.institute)?.institute ?? code,
+        median: Math.round(median(ranks)),
+        best: Math.min(...ranks),
+        branches: new Set(rows.map(getBranchKey)).size
+      }
+    })
+    .sort((a, b) => a.median - b.median)
+
+  return colleges.map((college, index) => ({
+    ...college,
+    tier: TIER_SHARES.find(({ share }) => index < Math.ceil(share * colleges.length))?.tier ?? 4
+  }))
+}
+
+/**
+ * Closing ranks of the same seat (college and branch) in several category
+ * columns. Only seats with a rank in the first category are kept, since gaps
+ * are measured against it.
+ */
+export const getCategoryGaps = (
+  records: CutoffRecord[],
+  scope: Omit<AnalyticsScope, 'category'>,
+  categories: string[]
+): CategoryGapRow[] => {
+  const wanted = new Set(categories)
+  const seats = groupBy(
+    inScope(records, scope).filter(record => wanted.has(record.category)),
+    record => `${record.institute_code}|${getBranchKey(record)}`
+  )
+  const rows: CategoryGapRow[] = []
+  for (const group of seats.values()) {
+    const ranks = Object.fromEntries(categories.map(category => [
+      category,
+      group.find(record => record.category === category)?.cutoff_rank ?? null
+    ]))
+    if (ranks[categories[0]] === null) continue
+    const branch = getBranchKey(group[0])
+    rows.push({
+      institute_code: group[0].institute_code,
+      institute: group.find(record => record.institute)?.institute ?? group[0].institute_code,
+      branch,
+      name: getBranchName(branch, group[0].course),
+      ranks
+    })
+  }
+  return rows.sort((a, b) => a.ranks[categories[0]]! - b.ranks[categories[0]]!)
+}
+
+/** Category gaps per branch: median closing rank and median ratio to the first category. */
+export const summarizeCategoryGaps = (rows: CategoryGapRow[], categories: string[]): BranchCategoryGap[] => {
+  const [base] = categories
+  return [...groupBy(rows, row => row.branch)]
+    .map(([branch, seats]) => {
+      const medians: Record<string, number | null> = {}
+      const ratios: Record<string, number | null> = {}
+      for (const category of categories) {
+        const ranks = seats.map(seat => seat.ranks[category]).filter((rank): rank is number => rank !== null)
+        const seatRatios = seats
+          .filter(seat => seat.ranks[category] !== null)
+          .map(seat => seat.ranks[category]! / seat.ranks[base]!)
+        medians[category] = ranks.length > 0 ? Math.round(median(ranks)) : null
+        ratios[category] = seatRatios.length > 0 ? median(seatRatios) : null
+      }
+      return { branch, name: seats[0].name, seats: seats.length, medians, ratios }
+    })
+    .sort((a, b) => (a.medians[base] ?? Infinity) - (b.medians[base] ?? Infinity))
+}
@@ -0,0 +1,48 @@
+import { describe, test, expect } from 'vitest'
+import { estimateProjectedChance, getProjectionYear, projectCutoffs, projectSeatLine } from './cutoff-projection'
+import type { CutoffRecord } from './cutoff-repository'
+
+const line = (year: string, round: string, cutoff_rank: number): CutoffRecord => ({
+  institute: 'BMSCE', institute_code: 'E003', course: 'Electronics And Communication Engineering', course_code: 'EC',
+  category: 'GM', cutoff_rank, year, round
+})
+
+describe('Cutoff projection', () => {
+  test('extends a shared yearly trend to every round', () => {
+    const history = [
+      line('2023', 'R1', 10000), line('2024', 'R1', 11000), line('2025', 'R1', 12100),
+      line('2023', 'EXT', 14000), line('2024', 'EXT', 15400), line('2025', 'EXT', 16940)
+    ]
+    const [r1, ext] = projectSeatLine(history, 2026)
+
+    expect(r1).toMatchObject({ round: 'R1', year: '2026' })
+    expect(r1.yearlyChange).toBeCloseTo(0.1, 2)
+    expect(r1.expected).toBeGreaterThan(13000)
+    expect(r1.expected).toBeLessThan(13600)
+    expect(ext.expected).toBeGreaterThan(r1.expected)
+    expect(r1.low).toBeLessThan(r1.expected)
+    expect(r1.high).toBeGreaterThan(r1.expected)
+  })
+
+  test('falls back to a flat, wide projection with a single observation', () => {
+    const [projection] = projectSeatLine([line('2025', 'R2', 20000)], 2026)
+    expect(projection.expected).toBe(20000)
+    expect(projection.yearlyChange).toBe(0)
+    expect(projection.high / projection.low).toBeGreaterThan(2)
+  })
+
+  test('projects the year after the latest in the dataset', () => {
+    const records = [line('2024', 'R1', 5000), line('2025', 'R1', 5200)]
+    expect(getProjectionYear(records)).toBe('2026')
+    const [projection] = projectCutoffs(records)
+    expect(estimateProjectedChance(2000, projection).band).toBe('Safe')
+    expect(estimateProjectedChance(20000, projection).band).toBe('Unlikely')
+  })
+
+  test('finds the projection year of a full-size dataset', () => {
+    const records = Array.from({ length: 200000 }, (_, i) => line(String(2020 + (i % 5)), 'R1', i + 1))
+    records.push(line('', 'R1', 1))
+    expect(getProjectionYear(records)).toBe('2025')
+    expect(getProjectionYear([])).toBe('')
+  })
+})
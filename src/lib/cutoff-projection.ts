@@ -0,0 +1,155 @@
+import { getChanceBand, getHistoryKey, indexCutoffHistory, type AdmissionChance } from '@/lib/admission-chance'
+import { type CutoffRecord } from '@/lib/cutoff-repository'
+import { clamp, normalCdf } from '@/lib/statistics'
+
+export interface CutoffProjection {
+  institute: string
+  institute_code: string
+  course: string
+  course_code: string
+  category: string
+  round: string
+  year: string
+  // Expected closing rank and the bounds of the confidence interval
+  expected: number
+  low: number
+  high: number
+  // Fitted year-over-year change of the closing rank (0.1 = 10% higher each year)
+  yearlyChange: number
+  observations: number
+}
+
+export type ProjectedCutoffRecord = CutoffRecord & { projection: CutoffProjection }
+
+// 90% two-sided interval
+const INTERVAL_Z = 1.645
+
+// Log-space residual spread used when too few points exist to estimate it
+const DEFAULT_LOG_SPREAD = 0.3
+const MIN_LOG_SPREAD = 0.08
+
+// Cap on the fitted yearly change so two noisy years cannot double a cutoff
+const MAX_LOG_SLOPE = Math.log(1.5)
+
+export const getProjectionKey = (record: Pick<CutoffRecord, 'institute_code' | 'course_code' | 'course' | 'category' | 'round'>): string => {
+  return `${getHistoryKey(record)}|${record.round}`
+}
+
+/** Year after the latest one in the records; a loop, as full datasets are too large to spread. */
+export const getProjectionYear = (records: CutoffRecord[]): string => {
+  let latest = -Infinity
+  for (const record of records) {
+    const year = parseInt(record.year)
+    if (year > latest) latest = year
+  }
+  return isFinite(latest) ? String(latest + 1) : ''
+}
+
+/**
+ * Fit one seat line (institute/course/category). Log closing rank is modelled
+ * as a round-specific level plus a trend over years shared by all rounds, so
+ * the slide between rounds does not masquerade as a yearly trend.
+ */
+export const projectSeatLine = (history: CutoffRecord[], targetYear: number): CutoffProjection[] => {
+  const points = history
+    .filter(r => r.cutoff_rank > 0 && !isNaN(parseInt(r.year)))
+    .map(r => ({ record: r, x: parseInt(r.year), y: Math.log(r.cutoff_rank) }))
+  if (points.length === 0) return []
+
+  const byRound = new Map<string, typeof points>()
+  for (const point of points) {
+    const list = byRound.get(point.record.round)
+    if (list) list.push(point)
+    else byRound.set(point.record.round, [point])
+  }
+
+  // Shared slope from within-round deviations
+  let sxy = 0
+  let sxx = 0
+  const roundMeans = new Map<string, { x: number; y: number; n: number }>()
+  for (const [round, list] of byRound) {
+    const mx = list.reduce((sum, p) => sum + p.x, 0) / list.length
+    const my = list.reduce((sum, p) => sum + p.y, 0) / list.length
+    roundMeans.set(round, { x: mx, y: my, n: list.length })
+    for (const p of list) {
+      sxy += (p.x - mx) * (p.y - my)
+      sxx += (p.x - mx) ** 2
+    }
+  }
+  const rawSlope = sxx > 0 ? sxy / sxx : 0
+  const slope = clamp(rawSlope, -MAX_LOG_SLOPE, MAX_LOG_SLOPE)
+
+  let ssr = 0
+  for (const [round, list] of byRound) {
+    const mean = roundMeans.get(round)!
+    for (const p of list) ssr += (p.y - (mean.y + slope * (p.x - mean.x))) ** 2
+  }
+  const dof = points.length - byRound.size - (sxx > 0 ? 1 : 0)
+  const spread = dof > 0 ? Math.max(MIN_LOG_SPREAD, Math.sqrt(ssr / dof)) : DEFAULT_LOG_SPREAD
+
+  const latest = [...points].sort((a, b) => b.x - a.x)[0].record
+  return [...byRound.keys()].map(round => {
+    const mean = roundMeans.get(round)!
+    const center = mean.y + slope * (targetYear - mean.x)
+    const leverage = sxx > 0 ? (targetYear - mean.x) ** 2 / sxx : 0
+    const margin = INTERVAL_Z * spread * Math.sqrt(1 + 1 / mean.n + leverage)
+    return {
+      institute: latest.institute,
+      institute_code: latest.institute_code,
+      course: latest.course,
+      course_code: latest.course_code,
+      category: latest.category,
+      round,
+      year: String(targetYear),
+      expected: Math.round(Math.exp(center)),
+      low: Math.max(1, Math.round(Math.exp(center - margin))),
+      high: Math.round(Math.exp(center + margin)),
+      yearlyChange: Math.exp(slope) - 1,
+      observations: byRound.get(round)!.length
+    }
+  })
+}
+
+/** Project every seat line and round in the dataset to the year after the latest one. */
+export const projectCutoffs = (records: CutoffRecord[], targetYear?: string): CutoffProjection[] => {
+  const year = parseInt(targetYear ?? getProjectionYear(records))
+  if (isNaN(year)) return []
+  const projections: CutoffProjection[] = []
+  for (const history of indexCutoffHistory(records).values()) {
+    projections.push(...projectSeatLine(history, year))
+  }
+  return projections
+}
+
+export const indexProjections = (projections: CutoffProjection[]): Map<string, CutoffProjection> => {
+  return new Map(projections.map(p => [getProjectionKey(p), p]))
+}
+
+/** Projections as cutoff records (closing rank = expected rank) so they can be queried like any year. */
+export const toProjectedRecords = (projections: CutoffProjection[]): ProjectedCutoffRecord[] => {
+  return projections.map(projection => ({
+    institute: projection.institute,
+    institute_code: projection.institute_code,
+    course: projection.course,
+    course_code: projection.course_code,
+    category: projection.category,
+    cutoff_rank: projection.expected,
+    year: projection.year,
+    round: projection.round,
+    projection
+  }))
+}
+
+/** Admission chance against a projected closing rank, using the projection's own interval as the spread. */
+export const estimateProjectedChance = (userRank: number, projection: CutoffProjection): AdmissionChance => {
+  const spread = Math.max(MIN_LOG_SPREAD, (Math.log(projection.high) - Math.log(projection.low)) / (2 * INTERVAL_Z))
+  const probability = userRank > 0
+    ? clamp(1 - normalCdf((Math.log(userRank) - Math.log(projection.expected)) / spread), 0, 1)
+    : 0
+  return {
+    probability,
+    band: getChanceBand(probability),
+    expectedCutoff: projection.expected,
+    observations: projection.observations
+  }
+}
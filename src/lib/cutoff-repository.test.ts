@@ -0,0 +1,96 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest'
+import {
+  buildCutoffDataset,
+  clearCutoffCache,
+  getAvailableRounds,
+  loadCutoffDataset,
+  normalizeCutoffRecord,
+  normalizeRound,
+  pickBestColumns,
+  queryCutoffs
+} from './cutoff-repository'
+
+const raw = {
+  metadata: { last_updated: '2025-09-12', institute_names: { E005: 'R. V. College of Engineering' } },
+  cutoffs: [
+    { institute: 'RVCE', institute_code: 'e005', course: 'CS Computer Science', category: 'GM', cutoff_rank: '1,234', year: 2024, round: 'Round 1' },
+    { institute: 'RVCE', institute_code: 'E005', course: 'CS', category: '2a g', cutoff_rank: 2100, year: '2024', round: 'R2' },
+    { institute: 'RVCE', institute_code: 'E005', course: 'CIVIL\nENGINEERING', category: 'GM', cutoff_rank: 40000, year: '2025', round: 'R3' },
+    { institute: 'BMSCE', institute_code: 'E003', course: 'EC', category: 'GM', cutoff_rank: 5000, year: '2024', round: 'MOCK' },
+    { institute: 'Broken', institute_code: 'E010', course: 'CS', category: 'GM', cutoff_rank: 0, year: '2024', round: 'R1' }
+  ]
+}
+
+describe('Cutoff repository', () => {
+  beforeEach(() => {
+    clearCutoffCache()
+    vi.mocked(fetch).mockReset()
+  })
+
+  test('normalizes codes, ranks and round spellings', () => {
+    const record = normalizeCutoffRecord(raw.cutoffs[0])
+    expect(record).toMatchObject({
+      institute_code: 'E005',
+      course: 'Computer Science And Engineering',
+      course_code: 'CS',
+      cutoff_rank: 1234,
+      year: '2024',
+      round: 'R1'
+    })
+    expect(normalizeCutoffRecord(raw.cutoffs[1])?.category).toBe('2AG')
+    expect(normalizeCutoffRecord(raw.cutoffs[2])?.course).toBe('Civil Engineering')
+    expect(normalizeCutoffRecord(raw.cutoffs[4])).toBeNull()
+  })
+
+  test('treats the extended round and R3 as the same round', () => {
+    expect(normalizeRound('R3')).toBe(normalizeRound('Round 3 (Extended)'))
+    expect(normalizeRound('EXT')).toBe(normalizeRound('R3'))
+    expect(normalizeRound('Mock Round 1')).toBe('MOCK')
+    expect(normalizeRound('kcet-2024-mock-round1-cutoffs.xlsx')).toBe('MOCK')
+    expect(normalizeRound('kcet-2024-round3(extended)-cutoffs.xlsx')).toBe('EXT')
+    expect(normalizeRound('Round 2')).toBe(normalizeRound('r2'))
+    expect(normalizeRound('Special Round')).toBe('SPECIAL')
+  })
+
+  test('queries by year, round, category, institute and course', () => {
+    const { cutoffs } = buildCutoffDataset(raw, 'test')
+    expect(cutoffs).toHaveLength(4)
+    expect(queryCutoffs(cutoffs, { year: '2024', round: 'Round 1' })).toHaveLength(1)
+    expect(queryCutoffs(cutoffs, { year: '2024', round: 'ALL', category: 'GM' })).toHaveLength(2)
+    expect(queryCutoffs(cutoffs, { institute: 'R. V. College (E005)' })).toHaveLength(3)
+    expect(queryCutoffs(cutoffs, { course: ['Computer Science And Engineering'] })).toHaveLength(2)
+    expect(queryCutoffs(cutoffs, { course: 'EC' })[0].institute_code).toBe('E003')
+    expect(getAvailableRounds(cutoffs, '2024')).toEqual(['MOCK', 'R1', 'R2'])
+    expect(queryCutoffs(cutoffs, { round: 'Round 3 (Extended)' })).toHaveLength(1)
+  })
+
+  test('keeps the most lenient eligible column per college and course', () => {
+    const { cutoffs } = buildCutoffDataset({
+      cutoffs: [
+        { institute_code: 'E005', course: 'CS', category: 'GM', cutoff_rank: 1200, year: 2024, round: 'R1' },
+        { institute_code: 'E005', course: 'CS', category: '2AR', cutoff_rank: 3400, year: 2024, round: 'R1' },
+        { institute_code: 'E005', course: 'CS', category: '2AG', cutoff_rank: 2600, year: 2024, round: 'R1' },
+        { institute_code: 'E005', course: 'CS', category: 'SCG', cutoff_rank: 9000, year: 2024, round: 'R1' },
+        { institute_code: 'E005', course: 'EC', category: 'GM', cutoff_rank: 4000, year: 2024, round: 'R1' }
+      ]
+    }, 'test')
+    const best = pickBestColumns(cutoffs, ['2AR', '2AG', 'GMR', 'GM'])
+    expect(best).toHaveLength(2)
+    expect(best[0]).toMatchObject({ course_code: 'CS', category: '2AR', cutoff_rank: 3400, compared_categories: ['2AR', '2AG', 'GM'] })
+    expect(best[1]).toMatchObject({ course_code: 'EC', category: 'GM', compared_categories: ['GM'] })
+  })
+
+  test('falls through unavailable sources and caches the dataset', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({ ok: false } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => raw } as Response)
+
+    const first = await loadCutoffDataset()
+    const second = await loadCutoffDataset()
+
+    expect(first).toBe(second)
+    expect(first.metadata.source).toBe('/kcet_cutoffs.json')
+    expect(first.metadata.institute_names.E005).toBe('R. V. College of Engineering')
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
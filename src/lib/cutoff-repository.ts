@@ -0,0 +1,345 @@
+import { XLSXLoader } from '@/lib/xlsx-loader'
+import { compareRounds, parseRound, Round } from '@/lib/rounds'
+import { COURSE_CODE_TO_NAME, findCourseCode, normalizeCourseName, type Course } from '@/lib/courses'
+
+// Canonical shape of a single closing-rank entry, regardless of which
+// dataset (consolidated JSON, per-round JSON, XLSX) it was read from
+export interface CutoffRecord {
+  institute: string
+  institute_code: string
+  course: string
+  course_code: string
+  category: string
+  cutoff_rank: number
+  year: string
+  round: string
+  total_seats?: number
+  available_seats?: number
+}
+
+export interface CutoffDatasetMetadata {
+  source: string
+  last_updated?: string
+  total_entries: number
+  source_files?: string[]
+  institute_names: Record<string, string>
+}
+
+export interface CutoffDataset {
+  metadata: CutoffDatasetMetadata
+  cutoffs: CutoffRecord[]
+}
+
+export interface CutoffQuery {
+  year?: string
+  round?: string
+  category?: string | string[]
+  institute?: string
+  course?: string | string[]
+}
+
+type RawCutoff = Record<string, unknown>
+
+interface RawCutoffFile {
+  metadata?: {
+    last_updated?: string
+    source_files?: string[]
+    data_sources?: string[]
+    institute_names?: Record<string, string>
+  }
+  cutoffs?: RawCutoff[]
+  data?: RawCutoff[]
+  cutoffs_data?: RawCutoff[]
+}
+
+export interface InstituteOption {
+  code: string
+  name: string
+}
+
+// Tried in order; the first source that responds with parseable JSON wins
+export const CUTOFF_DATA_SOURCES = [
+  '/data/kcet_cutoffs_consolidated.json',
+  '/kcet_cutoffs.json',
+  '/kcet_cutoffs_round3_2025.json',
+  '/kcet_cutoffs2025.json'
+]
+
+const ALL = 'ALL'
+
+export const normalizeYear = (value: unknown): string => {
+  const match = String(value ?? '').match(/20\d{2}/)
+  return match ? match[0] : ''
+}
+
+// Rows without a round come from the first-round publications
+export const normalizeRound = (value: unknown): string => {
+  const text = String(value ?? '').trim()
+  if (!text) return Round.Round1
+  return parseRound(text) ?? text
+}
+
+export const normalizeCategory = (value: unknown): string => {
+  return String(value ?? '').toUpperCase().replace(/[\s_-]/g, '')
+}
+
+export const normalizeInstituteCode = (value: unknown): string => {
+  return String(value ?? '').toUpperCase().replace(/\s+/g, '')
+}
+
+export const normalizeCourseCode = (value: unknown): string => {
+  const code = String(value ?? '').trim().toUpperCase()
+  return /^[A-Z]{2,3}$/.test(code) ? code : ''
+}
+
+const parseCount = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined
+  const count = parseInt(String(value).replace(/[^\d]/g, ''))
+  return isNaN(count) ? undefined : count
+}
+
+/**
+ * Map one raw entry from any of the known datasets onto a CutoffRecord.
+ * Returns null for rows that cannot be used (no rank, year, institute or category).
+ */
+export const normalizeCutoffRecord = (value: unknown): CutoffRecord | null => {
+  if (!value || typeof value !== 'object') return null
+  const item = value as RawCutoff
+
+  const cutoff_rank = parseCount(item.cutoff_rank ?? item.cutoffRank ?? item.closing_rank) ?? 0
+  const year = normalizeYear(item.year ?? item.Year)
+  const institute_code = normalizeInstituteCode(item.institute_code ?? item.college_code ?? item.instituteCode)
+  const category = normalizeCategory(item.category ?? item.Category)
+  if (cutoff_rank <= 0 || !year || !institute_code || !category) return null
+
+  const explicitCode = normalizeCourseCode(item.course_code ?? item.branch_code)
+  const rawCourse = String(item.course ?? item.Course ?? item.branch_name ?? '')
+  const course = normalizeCourseName(rawCourse) || COURSE_CODE_TO_NAME[explicitCode] || ''
+  const course_code = explicitCode || findCourseCode(course)
+
+  const record: CutoffRecord = {
+    institute: String(item.institute ?? item.college_name ?? item.collegeName ?? '').trim(),
+    institute_code,
+    course,
+    course_code,
+    category,
+    cutoff_rank,
+    year,
+    round: normalizeRound(item.round ?? item.Round)
+  }
+
+  const totalSeats = parseCount(item.total_seats ?? item.totalSeats)
+  const availableSeats = parseCount(item.available_seats ?? item.availableSeats)
+  if (totalSeats !== undefined) record.total_seats = totalSeats
+  if (availableSeats !== undefined) record.available_seats = availableSeats
+
+  return record
+}
+
+const extractRawCutoffs = (raw: RawCutoffFile | RawCutoff[]): RawCutoff[] => {
+  if (Array.isArray(raw)) return raw
+  return raw?.cutoffs ?? raw?.data ?? raw?.cutoffs_data ?? []
+}
+
+export const buildCutoffDataset = (raw: RawCutoffFile | RawCutoff[], source: string): CutoffDataset => {
+  const file = Array.isArray(raw) ? {} : raw ?? {}
+  const cutoffs = extractRawCutoffs(raw)
+    .map(normalizeCutoffRecord)
+    .filter((record): record is CutoffRecord => record !== null)
+
+  const institute_names: Record<string, string> = { ...(file.metadata?.institute_names ?? {}) }
+  for (const record of cutoffs) {
+    if (record.institute && !institute_names[record.institute_code]) {
+      institute_names[record.institute_code] = record.institute
+    }
+  }
+
+  return {
+    metadata: {
+      source,
+      last_updated: file.metadata?.last_updated,
+      total_entries: cutoffs.length,
+      source_files: file.metadata?.source_files ?? file.metadata?.data_sources,
+      institute_names
+    },
+    cutoffs
+  }
+}
+
+const fetchCutoffDataset = async (): Promise<CutoffDataset> => {
+  for (const url of CUTOFF_DATA_SOURCES) {
+    try {
+      const response = await fetch(url, { cache: 'no-store' })
+      if (!response?.ok) continue
+      const dataset = buildCutoffDataset(await response.json(), url)
+      if (dataset.cutoffs.length > 0) return dataset
+    } catch (error) {
+      console.warn(`Cutoff source ${url} unavailable:`, error)
+    }
+  }
+  throw new Error('No cutoff data source available')
+}
+
+let datasetPromise: Promise<CutoffDataset> | null = null
+let xlsxDatasetPromise: Promise<CutoffDataset> | null = null
+
+/**
+ * Load the consolidated cutoff dataset. The result is cached for the lifetime
+ * of the page so every route shares a single fetch and normalization pass.
+ */
+export const loadCutoffDataset = (): Promise<CutoffDataset> => {
+  if (!datasetPromise) {
+    datasetPromise = fetchCutoffDataset().catch(error => {
+      datasetPromise = null
+      throw error
+    })
+  }
+  return datasetPromise
+}
+
+/**
+ * Load cutoffs straight from the per-round XLSX files, normalized the same way
+ * as the JSON dataset. Cached separately from loadCutoffDataset.
+ */
+export const loadXLSXCutoffDataset = (): Promise<CutoffDataset> => {
+  if (!xlsxDatasetPromise) {
+    xlsxDatasetPromise = XLSXLoader.loadAllXLSXFiles()
+      .then(result => buildCutoffDataset(result, 'xlsx'))
+      .catch(error => {
+        xlsxDatasetPromise = null
+        throw error
+      })
+  }
+  return xlsxDatasetPromise
+}
+
+export const clearCutoffCache = () => {
+  datasetPromise = null
+  xlsxDatasetPromise = null
+}
+
+const collapse = (text: string): string => (text ?? '').replace(/\s+/g, ' ').trim().toLowerCase()
+
+const toList = (value?: string | string[]): string[] => {
+  const list = Array.isArray(value) ? value : value ? [value] : []
+  return list.filter(v => v && v !== ALL)
+}
+
+const instituteMatcher = (institute: string) => {
+  const code = institute.match(/\bE\d{3}\b/i)?.[0].toUpperCase()
+  if (code) return (record: CutoffRecord) => record.institute_code === code
+  const name = collapse(institute)
+  return (record: CutoffRecord) => collapse(record.institute).includes(name)
+}
+
+const courseMatcher = (courses: string[]) => {
+  const codes = new Set<string>()
+  const names = new Set<string>()
+  for (const course of courses) {
+    const code = findCourseCode(course)
+    if (code) codes.add(code)
+    names.add(collapse(normalizeCourseName(course)))
+  }
+  return (record: CutoffRecord) =>
+    (record.course_code !== '' && codes.has(record.course_code)) || names.has(collapse(record.course))
+}
+
+/**
+ * Filter cutoff records. Omitted fields and 'ALL' match everything; round and
+ * category values are normalized before comparison, institute accepts a code
+ * (or "Name (E001)") or a name fragment, course accepts codes or names.
+ */
+export const queryCutoffs = <T extends CutoffRecord>(records: T[], query: CutoffQuery): T[] => {
+  const predicates: Array<(record: CutoffRecord) => boolean> = []
+
+  if (query.year && query.year !== ALL) {
+    const year = normalizeYear(query.year)
+    predicates.push(record => record.year === year)
+  }
+  if (query.round && query.round !== ALL) {
+    const round = normalizeRound(query.round)
+    predicates.push(record => record.round === round)
+  }
+  const categories = toList(query.category).map(normalizeCategory)
+  if (categories.length > 0) {
+    const set = new Set(categories)
+    predicates.push(record => set.has(record.category))
+  }
+  if (query.institute && query.institute !== ALL) {
+    predicates.push(instituteMatcher(query.institute))
+  }
+  const courses = toList(query.course)
+  if (courses.length > 0) {
+    predicates.push(courseMatcher(courses))
+  }
+
+  if (predicates.length === 0) return records
+  return records.filter(record => predicates.every(predicate => predicate(record)))
+}
+
+export type BestColumnMatch<T extends CutoffRecord> = T & { compared_categories: string[] }
+
+/**
+ * Collapse the rows of each institute/course/year/round to the most lenient
+ * (highest closing rank) of the given category columns. Ties go to the column
+ * listed first. Each result lists the columns that were compared.
+ */
+export const pickBestColumns = <T extends CutoffRecord>(records: T[], categories: string[]): BestColumnMatch<T>[] => {
+  const order = categories.map(normalizeCategory)
+  const groups = new Map<string, BestColumnMatch<T>>()
+
+  for (const record of records) {
+    const rank = order.indexOf(record.category)
+    if (rank === -1) continue
+    const key = [record.institute_code, record.course_code || record.course, record.year, record.round].join('|')
+    const current = groups.get(key)
+    if (!current) {
+      groups.set(key, { ...record, compared_categories: [record.category] })
+      continue
+    }
+    const compared = [...current.compared_categories, record.category]
+    const better = record.cutoff_rank > current.cutoff_rank ||
+      (record.cutoff_rank === current.cutoff_rank && rank < order.indexOf(current.category))
+    groups.set(key, { ...(better ? record : current), compared_categories: compared })
+  }
+
+  for (const match of groups.values()) {
+    match.compared_categories.sort((a, b) => order.indexOf(a) - order.indexOf(b))
+  }
+  return [...groups.values()]
+}
+
+export const getAvailableYears = (records: CutoffRecord[]): string[] => {
+  return [...new Set(records.map(r => r.year))].sort((a, b) => b.localeCompare(a))
+}
+
+export const getAvailableRounds = (records: CutoffRecord[], year?: string): string[] => {
+  const scoped = year && year !== ALL ? queryCutoffs(records, { year }) : records
+  return [...new Set(scoped.map(r => r.round))].sort(compareRounds)
+}
+
+export const getAvailableCategories = (records: CutoffRecord[]): string[] => {
+  return [...new Set(records.map(r => r.category))].sort()
+}
+
+export const getAvailableCourses = (records: CutoffRecord[]): Course[] => {
+  const byName = new Map<string, Course>()
+  for (const record of records) {
+    if (record.course && !byName.has(record.course)) {
+      byName.set(record.course, { code: record.course_code, name: record.course })
+    }
+  }
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export const getAvailableInstitutes = (records: CutoffRecord[]): InstituteOption[] => {
+  const byCode = new Map<string, string>()
+  for (const record of records) {
+    if (!byCode.has(record.institute_code) || !byCode.get(record.institute_code)) {
+      byCode.set(record.institute_code, record.institute)
+    }
+  }
+  return [...byCode.entries()]
+    .map(([code, name]) => ({ code, name }))
+    .sort((a, b) => a.code.localeCompare(b.code))
+}
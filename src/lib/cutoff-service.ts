@@ -1,27 +1,11 @@
-export interface CutoffData {
-  year: string;
-  round: string;
-  institute_code: string;
-  course: string;
-  category: string;
-  cutoff_rank: number;
+import { loadCutoffDataset, queryCutoffs, type CutoffRecord } from "@/lib/cutoff-repository";
+import { compareRounds } from "@/lib/rounds";
+import { getAllotmentOrder, profileFromCategory } from "@/lib/categories";
+import { runMockAllotment, type AllotmentOption, type AllotmentResult } from "@/lib/allotment-engine";
+
+export interface CutoffData extends CutoffRecord {
   college_name?: string;
   branch_name?: string;
-  total_seats?: number;
-  available_seats?: number;
-}
-
-export interface MockAllotmentResult {
-  collegeCode: string;
-  branchCode: string;
-  collegeName: string;
-  branchName: string;
-  cutoff_rank: number;
-  year: string;
-  round: string;
-  category: string;
-  success: boolean;
-  message: string;
 }
 
 export class CutoffService {
@@ -34,60 +18,17 @@ export class CutoffService {
     }
 
     try {
-      // Try multiple sources, including new R3 2025 file
-      const sources = [
-        '/data/kcet_cutoffs_consolidated.json',
-        '/kcet_cutoffs.json',
-        '/kcet_cutoffs_round3_2025.json',
-        '/kcet_cutoffs2025.json'
-      ];
-      let response: Response | null = null;
-      for (const url of sources) {
-        const r = await fetch(url, { cache: 'no-store' });
-        if (r.ok) {
-          response = r;
-          break;
-        }
-      }
-      if (!response) {
-        throw new Error('No cutoff data source available');
-      }
-      
-      const raw = await response.json();
-      const dataArray: any[] = Array.isArray(raw)
-        ? raw
-        : (raw.cutoffs ?? raw.data ?? raw.cutoffs_data ?? []);
-      
-      // Transform the data to match our expected format
-      this.cutoffs = dataArray.map((item: any) => ({
-        year: item.year || item.Year || "2024",
-        round: item.round || item.Round || "Round 1",
-        institute_code: item.institute_code || item.college_code || item.instituteCode || "",
-        course: item.course || item.branch_code || item.Course || "",
-        category: item.category || item.Category || "GM",
-        cutoff_rank: parseInt(item.cutoff_rank || item.cutoffRank || "0") || 0,
-        college_name: item.college_name || item.collegeName || "",
-        branch_name: item.branch_name || item.branchName || "",
-        total_seats: parseInt(item.total_seats || item.totalSeats || "0") || 0,
-        available_seats: parseInt(item.available_seats || item.availableSeats || "0") || 0,
+      const dataset = await loadCutoffDataset();
+      this.cutoffs = dataset.cutoffs.map(record => ({
+        ...record,
+        college_name: record.institute,
+        branch_name: record.course,
       }));
-
       this.isLoaded = true;
       return this.cutoffs;
     } catch (error) {
       console.error('Failed to load cutoffs:', error);
-      
-      // Return fallback data
-      this.cutoffs = [
-        { year: "2024", round: "Round 1", institute_code: "E001", course: "CS", category: "GM", cutoff_rank: 5000 },
-        { year: "2024", round: "Round 2", institute_code: "E001", course: "CS", category: "GM", cutoff_rank: 5500 },
-        { year: "2024", round: "Round 3", institute_code: "E001", course: "CS", category: "GM", cutoff_rank: 6000 },
-        { year: "2023", round: "Round 1", institute_code: "E001", course: "CS", category: "GM", cutoff_rank: 4800 },
-        { year: "2023", round: "Round 2", institute_code: "E001", course: "CS", category: "GM", cutoff_rank: 5200 },
-        { year: "2023", round: "Round 3", institute_code: "E001", course: "CS", category: "GM", cutoff_rank: 5700 },
-      ];
-      
-      this.isLoaded = true;
+      this.cutoffs = [];
       return this.cutoffs;
     }
   }
@@ -103,12 +44,7 @@ export class CutoffService {
         .filter(c => c.year === year)
         .map(c => c.round)
     ));
-    return rounds.sort((a, b) => {
-      // Sort rounds logically: Round 1, Round 2, Round 3, etc.
-      const aNum = parseInt(a.match(/\d+/)?.[0] || "0");
-      const bNum = parseInt(b.match(/\d+/)?.[0] || "0");
-      return aNum - bNum;
-    });
+    return rounds.sort(compareRounds);
   }
 
   static getAvailableCategories(): string[] {
@@ -116,110 +52,33 @@ export class CutoffService {
     return categories.sort();
   }
 
-  static async simulateMockAllotment(
+  /**
+   * Run the single-seat allotment for an ordered option list against the
+   * closing ranks of one year and round.
+   */
+  static async simulateMockAllotment<T extends AllotmentOption>(
     userRank: number,
     userCategory: string,
     selectedYear: string,
     selectedRound: string,
-    userOptions: any[]
-  ): Promise<MockAllotmentResult[]> {
+    userOptions: T[]
+  ): Promise<AllotmentResult<T>> {
     await this.loadCutoffs();
 
-    const results: MockAllotmentResult[] = [];
-    
-    // Filter cutoffs based on selected year and round
-    const relevantCutoffs = this.cutoffs.filter(
-      c => c.year === selectedYear && c.round === selectedRound
-    );
-
+    const relevantCutoffs = queryCutoffs(this.cutoffs, { year: selectedYear, round: selectedRound });
     if (relevantCutoffs.length === 0) {
-      return [{
-        collegeCode: "",
-        branchCode: "",
-        collegeName: "",
-        branchName: "",
-        cutoff_rank: 0,
-        year: selectedYear,
-        round: selectedRound,
-        category: userCategory,
-        success: false,
-        message: `No cutoff data available for ${selectedYear} - ${selectedRound}`
-      }];
+      throw new Error(`No cutoff data available for ${selectedYear} - ${selectedRound}`);
     }
 
-    // Process each user option
-    for (const option of userOptions) {
-      const matchingCutoffs = relevantCutoffs.filter(
-        c => 
-          this.normalizeCode(c.institute_code) === this.normalizeCode(option.collegeCode) &&
-          this.normalizeCode(c.course) === this.normalizeCode(option.branchCode) &&
-          this.normalizeCode(c.category) === this.normalizeCode(userCategory)
-      );
-
-      if (matchingCutoffs.length === 0) {
-        results.push({
-          collegeCode: option.collegeCode,
-          branchCode: option.branchCode,
-          collegeName: option.collegeName,
-          branchName: option.branchName,
-          cutoff_rank: 0,
-          year: selectedYear,
-          round: selectedRound,
-          category: userCategory,
-          success: false,
-          message: `No cutoff data found for ${option.collegeCode}${option.branchCode} in ${userCategory} category`
-        });
-        continue;
-      }
-
-      // Find the best matching cutoff
-      const bestCutoff = matchingCutoffs.reduce((best, current) => {
-        if (current.cutoff_rank >= userRank && current.cutoff_rank < best.cutoff_rank) {
-          return current;
-        }
-        return best;
-      }, matchingCutoffs[0]);
-
-      if (bestCutoff && bestCutoff.cutoff_rank >= userRank) {
-        results.push({
-          collegeCode: option.collegeCode,
-          branchCode: option.branchCode,
-          collegeName: option.collegeName,
-          branchName: option.branchName,
-          cutoff_rank: bestCutoff.cutoff_rank,
-          year: selectedYear,
-          round: selectedRound,
-          category: userCategory,
-          success: true,
-          message: `Congratulations! You would get ${option.collegeName} - ${option.branchName}`
-        });
-      } else {
-        results.push({
-          collegeCode: option.collegeCode,
-          branchCode: option.branchCode,
-          collegeName: option.collegeName,
-          branchName: option.branchName,
-          cutoff_rank: bestCutoff?.cutoff_rank || 0,
-          year: selectedYear,
-          round: selectedRound,
-          category: userCategory,
-          success: false,
-          message: `Your rank ${userRank} is higher than the cutoff rank ${bestCutoff?.cutoff_rank || 'N/A'}`
-        });
-      }
-    }
-
-    return results;
-  }
+    // A student competes in every column their category profile allows
+    const profile = profileFromCategory(userCategory);
+    const categories = profile ? getAllotmentOrder(profile) : [userCategory];
 
-  private static normalizeCode(code: string): string {
-    return (code || "").trim().toUpperCase();
+    return runMockAllotment(relevantCutoffs, { rank: userRank, categories, options: userOptions });
   }
 
   static getCutoffStats(year: string, round: string, category: string) {
-    const relevantCutoffs = this.cutoffs.filter(
-      c => c.year === year && c.round === round && c.category === category
-    );
+    const relevantCutoffs = queryCutoffs(this.cutoffs, { year, round, category });
 
     if (relevantCutoffs.length === 0) return null;
 
@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'vitest'
+import { calculateFees, getFeeSchedule, parseFee } from './fee-engine'
+
+const fees = { tuition: { government: 100000, management: 300000 }, hostel: 80000, oneTime: 20000 }
+
+describe('Fee engine', () => {
+  test('parses fee amounts', () => {
+    expect(parseFee('1,12,410 - Government')).toBe(112410)
+    expect(parseFee('Not specified')).toBeNull()
+  })
+
+  test('totals four years with hostel, one-time charges and yearly increases', () => {
+    const schedule = getFeeSchedule(fees, 'management')!
+    const breakdown = calculateFees(schedule, { category: 'GM', familyIncome: null, includeHostel: true, annualIncrease: 0.1 })
+    expect(breakdown.years.map(row => row.total)).toEqual([400000, 418000, 459800, 505780])
+    expect(breakdown.total).toBe(1783580)
+    expect(breakdown.oneTime).toBe(20000)
+  })
+
+  test('waives government seat tuition for eligible categories within the income limit', () => {
+    const schedule = getFeeSchedule(fees, 'government')!
+    const eligible = calculateFees(schedule, { category: 'SC', familyIncome: 200000, includeHostel: false })
+    expect(eligible.concession).toBe(400000)
+    expect(eligible.total).toBe(20000)
+    expect(calculateFees(schedule, { category: 'SC', familyIncome: 900000, includeHostel: false }).appliedConcession).toBeNull()
+    expect(calculateFees(getFeeSchedule(fees, 'management')!, { category: 'SC', familyIncome: 200000, includeHostel: false }).concession).toBe(0)
+  })
+
+  test('falls back to the option fee for government seats only', () => {
+    expect(getFeeSchedule(null, 'government', '1,12,410 - Government')).toEqual({ seatType: 'government', tuition: 112410, hostel: null, oneTime: null })
+    expect(getFeeSchedule(null, 'nri', '1,12,410')).toBeNull()
+  })
+})
@@ -0,0 +1,127 @@
+import type { BaseCategory } from '@/lib/categories'
+import type { CollegeFees, SeatType } from '@/lib/college-profile'
+
+// Annual amounts for one seat type at one college
+export interface FeeSchedule {
+  seatType: SeatType
+  tuition: number
+  hostel: number | null
+  oneTime: number | null
+}
+
+// Tuition waived at admission for a category on some seat types, subject to
+// a family income limit
+export interface CategoryConcession {
+  label: string
+  categories: BaseCategory[]
+  seatTypes: SeatType[]
+  maxIncome: number
+  // Share of tuition waived, between 0 and 1
+  tuitionShare: number
+}
+
+export interface FeeInputs {
+  category: BaseCategory
+  // Annual family income in rupees; concessions with an income limit need it
+  familyIncome: number | null
+  includeHostel: boolean
+  years?: number
+  // Yearly tuition and hostel increase as a fraction, e.g. 0.05
+  annualIncrease?: number
+}
+
+export interface YearCost {
+  year: number
+  tuition: number
+  concession: number
+  hostel: number
+  oneTime: number
+  total: number
+}
+
+export interface FeeBreakdown {
+  seatType: SeatType
+  years: YearCost[]
+  tuition: number
+  concession: number
+  hostel: number
+  oneTime: number
+  total: number
+  appliedConcession: CategoryConcession | null
+}
+
+export const DEFAULT_COURSE_YEARS = 4
+
+/** First amount in a fee text such as "1,12,410 - Government". */
+export const parseFee = (text: string | undefined): number | null => {
+  const match = (text ?? '').match(/\d[\d,]*/)
+  const value = match ? Number(match[0].replace(/,/g, '')) : NaN
+  return value > 0 ? value : null
+}
+
+// KEA fee exemption for government seats; the income limit follows the
+// current fee notification and should be checked each year
+export const CATEGORY_CONCESSIONS: CategoryConcession[] = [
+  {
+    label: 'SC/ST/Category-1 tuition fee exemption',
+    categories: ['SC', 'ST', '1'],
+    seatTypes: ['government'],
+    maxIncome: 250000,
+    tuitionShare: 1
+  }
+]
+
+/**
+ * Annual amounts for a seat type, from the college's fee data or, for
+ * government seats, from the fee printed against the option (the option
+ * entry PDF lists the government seat fee). Null when no tuition is known.
+ */
+export const getFeeSchedule = (
+  fees: CollegeFees | null | undefined,
+  seatType: SeatType,
+  optionFee?: string
+): FeeSchedule | null => {
+  const tuition = fees?.tuition[seatType] ?? (seatType === 'government' ? parseFee(optionFee) : null)
+  if (tuition === null || tuition === undefined) return null
+  return { seatType, tuition, hostel: fees?.hostel ?? null, oneTime: fees?.oneTime ?? null }
+}
+
+export const findCategoryConcession = (
+  seatType: SeatType,
+  category: BaseCategory,
+  familyIncome: number | null
+): CategoryConcession | null =>
+  CATEGORY_CONCESSIONS.find(concession =>
+    concession.seatTypes.includes(seatType) &&
+    concession.categories.includes(category) &&
+    familyIncome !== null &&
+    familyIncome <= concession.maxIncome
+  ) ?? null
+
+/** Year-by-year cost of a seat over the course, with the category concession applied. */
+export const calculateFees = (schedule: FeeSchedule, inputs: FeeInputs): FeeBreakdown => {
+  const years = inputs.years ?? DEFAULT_COURSE_YEARS
+  const increase = inputs.annualIncrease ?? 0
+  const appliedConcession = findCategoryConcession(schedule.seatType, inputs.category, inputs.familyIncome)
+
+  const rows: YearCost[] = Array.from({ length: years }, (_, i) => {
+    const growth = (1 + increase) ** i
+    const tuition = Math.round(schedule.tuition * growth)
+    const concession = appliedConcession ? Math.round(tuition * appliedConcession.tuitionShare) : 0
+    const hostel = inputs.includeHostel && schedule.hostel ? Math.round(schedule.hostel * growth) : 0
+    const oneTime = i === 0 ? schedule.oneTime ?? 0 : 0
+    return { year: i + 1, tuition, concession, hostel, oneTime, total: tuition - concession + hostel + oneTime }
+  })
+
+  const sum = (key: keyof Omit<YearCost, 'year'>) => rows.reduce((total, row) => total + row[key], 0)
+  return {
+    seatType: schedule.seatType,
+    years: rows,
+    tuition: sum('tuition'),
+    concession: sum('concession'),
+    hostel: sum('hostel'),
+    oneTime: sum('oneTime'),
+    total: sum('total'),
+    appliedConcession
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { applySchemes, evaluateSchemes, parseFeeSchemeRules, type EligibilityProfile, type FeeSchemeRules } from './fee-schemes'
+import { calculateFees } from './fee-engine'
+
+const rules = parseFeeSchemeRules(JSON.parse(readFileSync(resolve(__dirname, '../../public/data/fee-schemes.json'), 'utf-8')))
+
+const student = (overrides: Partial<EligibilityProfile>): EligibilityProfile => ({
+  base: 'GM', rural: false, kannadaMedium: false, incomeBand: null, ...overrides
+})
+
+const statusOf = (profile: EligibilityProfile, id: string) =>
+  evaluateSchemes(rules, profile, 'government').find(match => match.scheme.id === id)!.status
+
+describe('Fee scheme rules', () => {
+  test('checks category, income band and per-category income limits', () => {
+    expect(statusOf(student({ base: 'SC', incomeBand: 'upto-2.5l' }), 'sc-post-matric')).toBe('eligible')
+    expect(statusOf(student({ base: 'SC', incomeBand: 'upto-4.5l' }), 'sc-post-matric')).toBe('ineligible')
+    expect(statusOf(student({ base: 'SC' }), 'sc-post-matric')).toBe('needs_income')
+    expect(statusOf(student({ base: '1', incomeBand: 'upto-2.5l' }), 'bc-fee-reimbursement')).toBe('eligible')
+    expect(statusOf(student({ base: '2A', incomeBand: 'upto-2.5l' }), 'bc-fee-reimbursement')).toBe('ineligible')
+    expect(statusOf(student({ base: 'GM', incomeBand: 'upto-2.5l' }), 'sc-post-matric')).toBe('ineligible')
+  })
+
+  test('lists schemes with unchecked requirements as possible without applying them', () => {
+    const profile = student({ base: 'GM', incomeBand: 'upto-4.5l' })
+    expect(statusOf(profile, 'aicte-tfw')).toBe('possible')
+    expect(statusOf(student({ base: 'GM', incomeBand: 'above-8l' }), 'aicte-tfw')).toBe('ineligible')
+    const breakdown = calculateFees({ seatType: 'government', tuition: 100000, hostel: null, oneTime: null }, { category: 'GM', familyIncome: 450000, includeHostel: false })
+    expect(applySchemes(breakdown, evaluateSchemes(rules, profile, 'government')).net).toBe(breakdown.total)
+  })
+
+  test('checks quota flags', () => {
+    const flagged: FeeSchemeRules = {
+      ...rules,
+      schemes: [{ id: 'rural', name: 'Rural', provider: '', kind: 'scholarship', conditions: { rural: true }, benefit: { annualAmount: 1000 } }]
+    }
+    expect(evaluateSchemes(flagged, student({ rural: true }), 'government')[0].status).toBe('eligible')
+    expect(evaluateSchemes(flagged, student({}), 'government')[0].reasons).toEqual(['Only for rural candidates'])
+  })
+
+  test('applies one tuition scheme per group and caps benefits at the fees charged', () => {
+    const breakdown = calculateFees(
+      { seatType: 'government', tuition: 100000, hostel: 60000, oneTime: 10000 },
+      { category: '1', familyIncome: 250000, includeHostel: true }
+    )
+    // Category 1 within the income limit also gets the KEA exemption, so
+    // reimbursement has no tuition left to cover
+    expect(breakdown.concession).toBe(400000)
+    const net = applySchemes(breakdown, evaluateSchemes(rules, student({ base: '1', incomeBand: 'upto-2.5l' }), 'government'))
+    expect(net.benefits.map(b => [b.scheme.id, b.amount])).toEqual([['vidyasiri', 60000]])
+    expect(net.net).toBe(breakdown.total - 60000)
+
+    const cheap = calculateFees({ seatType: 'government', tuition: 5000, hostel: null, oneTime: null }, { category: '2A', familyIncome: 100000, includeHostel: false })
+    const capped = applySchemes(cheap, evaluateSchemes(rules, student({ base: '2A', incomeBand: 'upto-1l' }), 'government'))
+    expect(capped.net).toBe(0)
+    expect(capped.years.every(year => year.net >= 0)).toBe(true)
+  })
+
+  test('rejects rules written for another schema', () => {
+    expect(() => parseFeeSchemeRules({ ...rules, schemaVersion: 2 })).toThrow(/schema 2/)
+  })
+})
@@ -0,0 +1,228 @@
+import type { BaseCategory, StudentCategoryProfile } from '@/lib/categories'
+import type { SeatType } from '@/lib/college-profile'
+import type { FeeBreakdown } from '@/lib/fee-engine'
+
+// Bump when the shape of public/data/fee-schemes.json changes; the file's own
+// version string tracks rule updates
+export const FEE_SCHEME_SCHEMA_VERSION = 1
+
+const RULES_URL = '/data/fee-schemes.json'
+
+// concession: waived at admission; reimbursement: tuition paid back by the
+// department; scholarship: a fixed yearly amount
+export type SchemeKind = 'concession' | 'reimbursement' | 'scholarship'
+
+export interface SchemeConditions {
+  categories?: BaseCategory[]
+  seatTypes?: SeatType[]
+  // Annual family income limit in rupees, optionally different per category
+  maxIncome?: number
+  maxIncomeByCategory?: Partial<Record<BaseCategory, number>>
+  rural?: boolean
+  kannadaMedium?: boolean
+  hyderabadKarnataka?: boolean
+}
+
+export interface SchemeBenefit {
+  // Share of the tuition still payable that the scheme covers
+  tuitionShare?: number
+  annualAmount?: number
+  // Course years the benefit is paid in; every year when unset
+  years?: number[]
+}
+
+export interface FeeScheme {
+  id: string
+  name: string
+  provider: string
+  kind: SchemeKind
+  // Only the most valuable eligible scheme of a group applies
+  group?: string
+  conditions: SchemeConditions
+  benefit: SchemeBenefit
+  // A condition that cannot be checked here; such schemes are listed as
+  // possible but left out of the net payable
+  requirement?: string
+  note?: string
+  url?: string
+}
+
+export interface FeeSchemeRules {
+  schemaVersion: number
+  version: string
+  updated: string
+  notes?: string
+  schemes: FeeScheme[]
+}
+
+export interface IncomeBand {
+  id: string
+  label: string
+  // Upper limit of the band; Infinity for the top band
+  max: number
+}
+
+// Band edges sit on the scheme income limits so a band is never split by one
+export const INCOME_BANDS: IncomeBand[] = [
+  { id: 'upto-1l', label: 'Up to ₹1 lakh', max: 100000 },
+  { id: 'upto-2.5l', label: '₹1 – 2.5 lakh', max: 250000 },
+  { id: 'upto-4.5l', label: '₹2.5 – 4.5 lakh', max: 450000 },
+  { id: 'upto-8l', label: '₹4.5 – 8 lakh', max: 800000 },
+  { id: 'above-8l', label: 'Above ₹8 lakh', max: Infinity }
+]
+
+export interface EligibilityProfile extends StudentCategoryProfile {
+  incomeBand: string | null
+}
+
+export type SchemeStatus = 'eligible' | 'possible' | 'needs_income' | 'ineligible'
+
+export interface SchemeMatch {
+  scheme: FeeScheme
+  status: SchemeStatus
+  // Why the scheme does not apply, or what is still unknown
+  reasons: string[]
+}
+
+export interface SchemeBenefitAmount {
+  scheme: FeeScheme
+  amount: number
+}
+
+export interface NetPayable {
+  gross: number
+  benefits: SchemeBenefitAmount[]
+  net: number
+  years: Array<{ year: number; gross: number; benefit: number; net: number }>
+}
+
+const KIND_ORDER: SchemeKind[] = ['concession', 'reimbursement', 'scholarship']
+
+const FLAG_LABELS: Record<'rural' | 'kannadaMedium' | 'hyderabadKarnataka', string> = {
+  rural: 'rural',
+  kannadaMedium: 'Kannada medium',
+  hyderabadKarnataka: 'Hyderabad-Karnataka'
+}
+
+export const getIncomeBand = (id: string | null): IncomeBand | null =>
+  INCOME_BANDS.find(band => band.id === id) ?? null
+
+/** Validate a parsed rules file, rejecting files written for another schema. */
+export const parseFeeSchemeRules = (raw: unknown): FeeSchemeRules => {
+  const rules = raw as Partial<FeeSchemeRules> | null
+  if (!rules || rules.schemaVersion !== FEE_SCHEME_SCHEMA_VERSION) {
+    throw new Error(`Unsupported fee scheme rules (schema ${rules?.schemaVersion ?? 'missing'}, expected ${FEE_SCHEME_SCHEMA_VERSION})`)
+  }
+  if (!Array.isArray(rules.schemes)) throw new Error('Fee scheme rules have no schemes')
+  const invalid = rules.schemes.find(scheme => !scheme?.id || !scheme.name || !KIND_ORDER.includes(scheme.kind))
+  if (invalid) throw new Error(`Invalid fee scheme ${invalid?.id ?? '(no id)'}`)
+  return rules as FeeSchemeRules
+}
+
+let rulesPromise: Promise<FeeSchemeRules> | null = null
+
+/** Load the scheme rules once per page. */
+export const loadFeeSchemeRules = (): Promise<FeeSchemeRules> => {
+  if (!rulesPromise) {
+    rulesPromise = fetch(RULES_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load fee scheme rules (${response.status})`)
+        return response.json()
+      })
+      .then(parseFeeSchemeRules)
+      .catch(error => {
+        rulesPromise = null
+        throw error
+      })
+  }
+  return rulesPromise
+}
+
+const checkScheme = (scheme: FeeScheme, profile: EligibilityProfile, seatType: SeatType): SchemeMatch => {
+  const { conditions } = scheme
+  const reasons: string[] = []
+
+  if (conditions.categories && !conditions.categories.includes(profile.base)) {
+    reasons.push(`Only for categories ${conditions.categories.join(', ')}`)
+  }
+  if (conditions.seatTypes && !conditions.seatTypes.includes(seatType)) {
+    reasons.push(`Only for ${conditions.seatTypes.join(', ')} seats`)
+  }
+  for (const flag of Object.keys(FLAG_LABELS) as Array<keyof typeof FLAG_LABELS>) {
+    if (conditions[flag] !== undefined && conditions[flag] !== Boolean(profile[flag])) {
+      reasons.push(conditions[flag] ? `Only for ${FLAG_LABELS[flag]} candidates` : `Not for ${FLAG_LABELS[flag]} candidates`)
+    }
+  }
+  if (reasons.length > 0) return { scheme, status: 'ineligible', reasons }
+
+  const limit = conditions.maxIncomeByCategory?.[profile.base] ?? conditions.maxIncome
+  if (limit !== undefined) {
+    const band = getIncomeBand(profile.incomeBand)
+    if (!band) return { scheme, status: 'needs_income', reasons: [`Family income up to ₹${limit.toLocaleString('en-IN')}`] }
+    if (band.max > limit) return { scheme, status: 'ineligible', reasons: [`Family income must be up to ₹${limit.toLocaleString('en-IN')}`] }
+  }
+  return scheme.requirement
+    ? { scheme, status: 'possible', reasons: [scheme.requirement] }
+    : { scheme, status: 'eligible', reasons }
+}
+
+/** Check every scheme against the student and seat, eligible schemes first. */
+export const evaluateSchemes = (rules: FeeSchemeRules, profile: EligibilityProfile, seatType: SeatType): SchemeMatch[] => {
+  const order: SchemeStatus[] = ['eligible', 'possible', 'needs_income', 'ineligible']
+  return rules.schemes
+    .map(scheme => checkScheme(scheme, profile, seatType))
+    .sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status))
+}
+
+const paysInYear = (benefit: SchemeBenefit, year: number) => !benefit.years || benefit.years.includes(year)
+
+// Benefit of a scheme on its own, used to pick one scheme per group
+const standaloneValue = (scheme: FeeScheme, breakdown: FeeBreakdown): number =>
+  breakdown.years.reduce((total, row) => {
+    if (!paysInYear(scheme.benefit, row.year)) return total
+    return total + (scheme.benefit.tuitionShare ?? 0) * (row.tuition - row.concession) + (scheme.benefit.annualAmount ?? 0)
+  }, 0)
+
+/**
+ * Net payable after the eligible schemes. Concessions apply before
+ * reimbursements, and each tuition share covers only the tuition still
+ * payable, so overlapping schemes never pay for the same rupee twice. No year
+ * goes below zero.
+ */
+export const applySchemes = (breakdown: FeeBreakdown, matches: SchemeMatch[]): NetPayable => {
+  const bestInGroup = new Map<string, FeeScheme>()
+  const applied: FeeScheme[] = []
+  for (const { scheme, status } of matches) {
+    if (status !== 'eligible') continue
+    if (!scheme.group) {
+      applied.push(scheme)
+      continue
+    }
+    const current = bestInGroup.get(scheme.group)
+    if (!current || standaloneValue(scheme, breakdown) > standaloneValue(current, breakdown)) bestInGroup.set(scheme.group, scheme)
+  }
+  applied.push(...bestInGroup.values())
+  applied.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind))
+
+  const amounts = new Map<string, number>(applied.map(scheme => [scheme.id, 0]))
+  const years = breakdown.years.map(row => {
+    let tuitionLeft = row.tuition - row.concession
+    let payable = row.total
+    for (const scheme of applied) {
+      if (!paysInYear(scheme.benefit, row.year)) continue
+      const share = Math.round(tuitionLeft * (scheme.benefit.tuitionShare ?? 0))
+      tuitionLeft -= share
+      const amount = Math.min(payable, share + (scheme.benefit.annualAmount ?? 0))
+      payable -= amount
+      amounts.set(scheme.id, amounts.get(scheme.id)! + amount)
+    }
+    return { year: row.year, gross: row.total, benefit: row.total - payable, net: payable }
+  })
+
+  return {
+    gross: breakdown.total,
+    benefits: applied.map(scheme => ({ scheme, amount: amounts.get(scheme.id)! })).filter(b => b.amount > 0),
+    net: years.reduce((total, row) => total + row.net, 0),
+    years
+  }
+}
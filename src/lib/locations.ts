@@ -0,0 +1,57 @@
+// Karnataka district headquarters with approximate coordinates, used to
+// estimate how far a college is from a student's home
+export interface City {
+  name: string
+  aliases: string[]
+  lat: number
+  lon: number
+}
+
+export const KARNATAKA_CITIES: City[] = [
+  { name: 'Bengaluru', aliases: ['BANGALORE', 'BENGALURU'], lat: 12.97, lon: 77.59 },
+  { name: 'Mysuru', aliases: ['MYSORE', 'MYSURU'], lat: 12.30, lon: 76.64 },
+  { name: 'Mangaluru', aliases: ['MANGALORE', 'MANGALURU', 'DAKSHINA KANNADA', 'MOODBIDRI', 'MOODABIDRI'], lat: 12.91, lon: 74.86 },
+  { name: 'Udupi', aliases: ['UDUPI', 'MANIPAL', 'KARKALA'], lat: 13.34, lon: 74.75 },
+  { name: 'Hubballi-Dharwad', aliases: ['HUBLI', 'HUBBALLI', 'DHARWAD'], lat: 15.36, lon: 75.12 },
+  { name: 'Belagavi', aliases: ['BELGAUM', 'BELAGAVI'], lat: 15.85, lon: 74.50 },
+  { name: 'Kalaburagi', aliases: ['GULBARGA', 'KALABURAGI'], lat: 17.33, lon: 76.83 },
+  { name: 'Davanagere', aliases: ['DAVANGERE', 'DAVANAGERE'], lat: 14.46, lon: 75.92 },
+  { name: 'Ballari', aliases: ['BELLARY', 'BALLARI'], lat: 15.14, lon: 76.92 },
+  { name: 'Hosapete', aliases: ['HOSPET', 'HOSAPETE', 'VIJAYANAGARA'], lat: 15.27, lon: 76.39 },
+  { name: 'Shivamogga', aliases: ['SHIMOGA', 'SHIVAMOGGA'], lat: 13.93, lon: 75.57 },
+  { name: 'Tumakuru', aliases: ['TUMKUR', 'TUMAKURU'], lat: 13.34, lon: 77.10 },
+  { name: 'Hassan', aliases: ['HASSAN'], lat: 13.00, lon: 76.10 },
+  { name: 'Mandya', aliases: ['MANDYA'], lat: 12.52, lon: 76.90 },
+  { name: 'Chikkamagaluru', aliases: ['CHIKMAGALUR', 'CHIKKAMAGALURU'], lat: 13.32, lon: 75.77 },
+  { name: 'Vijayapura', aliases: ['BIJAPUR', 'VIJAYAPURA'], lat: 16.83, lon: 75.71 },
+  { name: 'Bidar', aliases: ['BIDAR'], lat: 17.91, lon: 77.52 },
+  { name: 'Raichur', aliases: ['RAICHUR'], lat: 16.20, lon: 77.36 },
+  { name: 'Kolar', aliases: ['KOLAR'], lat: 13.14, lon: 78.13 },
+  { name: 'Chitradurga', aliases: ['CHITRADURGA'], lat: 14.23, lon: 76.40 },
+  { name: 'Bagalkote', aliases: ['BAGALKOT', 'BAGALKOTE'], lat: 16.18, lon: 75.70 },
+  { name: 'Gadag', aliases: ['GADAG'], lat: 15.43, lon: 75.63 },
+  { name: 'Haveri', aliases: ['HAVERI', 'RANEBENNUR'], lat: 14.79, lon: 75.40 },
+  { name: 'Koppal', aliases: ['KOPPAL'], lat: 15.35, lon: 76.15 },
+  { name: 'Karwar', aliases: ['KARWAR', 'UTTARA KANNADA', 'SIRSI', 'BHATKAL'], lat: 14.81, lon: 74.13 },
+  { name: 'Chamarajanagar', aliases: ['CHAMARAJANAGAR'], lat: 11.92, lon: 76.94 },
+  { name: 'Madikeri', aliases: ['MADIKERI', 'KODAGU', 'COORG'], lat: 12.42, lon: 75.74 },
+  { name: 'Ramanagara', aliases: ['RAMANAGARA', 'RAMANAGAR'], lat: 12.72, lon: 77.28 },
+  { name: 'Chikkaballapur', aliases: ['CHIKKABALLAPUR', 'CHICKBALLAPUR'], lat: 13.43, lon: 77.73 },
+  { name: 'Yadgir', aliases: ['YADGIR', 'YADAGIRI'], lat: 16.77, lon: 77.14 }
+]
+
+/** First known city mentioned in a free-text location or college name. */
+export const findCity = (text: string | null | undefined): City | null => {
+  const upper = (text ?? '').toUpperCase()
+  if (!upper) return null
+  return KARNATAKA_CITIES.find(city => city.aliases.some(alias => upper.includes(alias))) ?? null
+}
+
+/** Great-circle distance in kilometres. */
+export const distanceKm = (a: Pick<City, 'lat' | 'lon'>, b: Pick<City, 'lat' | 'lon'>): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLon = toRad(b.lon - a.lon)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.sqrt(h))
+}
@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { toOptionCsv, toOptionText, toOptionWorkbook, toPrintableHtml } from './option-export'
+import { createPlannerOption } from './option-planner'
+
+const options = [
+  createPlannerOption({ collegeCode: 'e005', branchCode: 'ec', collegeName: 'B M S College of Engineering, Bengaluru', branchName: 'Electronics', priority: 2 }),
+  createPlannerOption({ collegeCode: 'E001', branchCode: 'CS', collegeName: 'R V "College" <RVCE>', branchName: 'Computer Science', priority: 1 })
+]
+
+describe('Option list export', () => {
+  test('writes CSV rows in list order with KEA option codes', () => {
+    const lines = toOptionCsv(options).split('\r\n')
+    expect(lines[0]).toBe('Option No,Option Code,College Code,Course Code,College Name,Course Name,Location,Course Fee')
+    expect(lines[1]).toMatch(/^1,E001CS,E001,CS,"R V ""College"" <RVCE>",/)
+    expect(lines[2]).toMatch(/^2,E005EC,E005,EC,"B M S College of Engineering, Bengaluru",/)
+  })
+
+  test('builds a compact text list and a printable page', () => {
+    expect(toOptionText(options)).toBe(
+      '1. E001CS  Computer Science - R V "College" <RVCE>\n2. E005EC  Electronics - B M S College of Engineering, Bengaluru'
+    )
+    const html = toPrintableHtml(options, 'My list')
+    expect(html).toContain('<td class="code">E001CS</td>')
+    expect(html).toContain('R V &quot;College&quot; &lt;RVCE&gt;')
+  })
+
+  test('fills an XLSX sheet with the same rows', () => {
+    const workbook = toOptionWorkbook(options, 'Round 1: final')
+    expect(workbook.SheetNames).toEqual(['Round 1  final'])
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[workbook.SheetNames[0]])
+    expect(rows.map(row => row['Option Code'])).toEqual(['E001CS', 'E005EC'])
+  })
+})
@@ -0,0 +1,98 @@
+import * as XLSX from 'xlsx'
+import type { PlannerOption } from '@/lib/option-planner'
+import { downloadFile, toCsv, toFileName, toSheetName } from '@/lib/table-export'
+
+export type OptionExportFormat = 'csv' | 'xlsx' | 'pdf' | 'text'
+
+// Columns in the order the KEA option entry form asks for them
+const EXPORT_COLUMNS: Array<{ header: string; value: (option: PlannerOption) => string | number }> = [
+  { header: 'Option No', value: option => option.priority },
+  { header: 'Option Code', value: option => option.collegeCourse },
+  { header: 'College Code', value: option => option.collegeCode },
+  { header: 'Course Code', value: option => option.branchCode },
+  { header: 'College Name', value: option => option.collegeName },
+  { header: 'Course Name', value: option => option.branchName },
+  { header: 'Location', value: option => option.location },
+  { header: 'Course Fee', value: option => option.courseFee ?? '' }
+]
+
+/** Options in list order, each with its KEA option code rebuilt from its parts. */
+export const toExportOptions = (options: PlannerOption[]): PlannerOption[] =>
+  [...options]
+    .sort((a, b) => a.priority - b.priority)
+    .map(option => ({ ...option, collegeCourse: `${option.collegeCode}${option.branchCode}`.toUpperCase() }))
+
+const toRows = (options: PlannerOption[]) =>
+  toExportOptions(options).map(option => EXPORT_COLUMNS.map(column => column.value(option)))
+
+export const toOptionCsv = (options: PlannerOption[]): string =>
+  toCsv([EXPORT_COLUMNS.map(column => column.header), ...toRows(options)])
+
+/** One line per option, e.g. "1. E001CS  Computer Science - R V College of Engineering". */
+export const toOptionText = (options: PlannerOption[]): string =>
+  toExportOptions(options)
+    .map(option => {
+      const names = [option.branchName, option.collegeName].filter(Boolean).join(' - ')
+      return `${option.priority}. ${option.collegeCourse}${names ? `  ${names}` : ''}`
+    })
+    .join('\n')
+
+export const toOptionWorkbook = (options: PlannerOption[], title: string): XLSX.WorkBook => {
+  const sheet = XLSX.utils.aoa_to_sheet([EXPORT_COLUMNS.map(column => column.header), ...toRows(options)])
+  sheet['!cols'] = [{ wch: 10 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 50 }, { wch: 40 }, { wch: 20 }, { wch: 14 }]
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, toSheetName(title, 'Options'))
+  return workbook
+}
+
+const escapeHtml = (value: string | number): string =>
+  String(value).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!)
+
+/** Standalone page with the option table, laid out for printing or saving as PDF. */
+export const toPrintableHtml = (options: PlannerOption[], title: string): string => {
+  const rows = toExportOptions(options)
+    .map(option => `<tr><td>${option.priority}</td><td class="code">${escapeHtml(option.collegeCourse)}</td>` +
+      `<td>${escapeHtml(option.collegeName)}</td><td>${escapeHtml(option.branchName)}</td></tr>`)
+    .join('')
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>
+body{font-family:Arial,sans-serif;margin:24px;color:#111}
+h1{font-size:18px;margin:0 0 4px}p{font-size:12px;color:#555;margin:0 0 16px}
+table{border-collapse:collapse;width:100%;font-size:12px}
+th,td{border:1px solid #999;padding:4px 6px;text-align:left}
+th{background:#eee}tr{page-break-inside:avoid}
+.code{font-family:monospace;font-size:13px;font-weight:bold}
+</style></head><body><h1>${escapeHtml(title)}</h1>
+<p>${options.length} options &middot; ${new Date().toLocaleDateString()}</p>
+<table><thead><tr><th>Option No</th><th>Option Code</th><th>College</th><th>Course</th></tr></thead>
+<tbody>${rows}</tbody></table></body></html>`
+}
+
+/**
+ * Save the list in one of the export formats. PDF opens the printable page in
+ * a new window and starts the browser's print dialog, where it can be saved
+ * as PDF; it throws when pop-ups are blocked.
+ */
+export const exportOptionList = (options: PlannerOption[], format: OptionExportFormat, title: string): void => {
+  const fileName = toFileName(title, 'option_list')
+  switch (format) {
+    case 'csv':
+      // Byte order mark so spreadsheet apps read the file as UTF-8
+      downloadFile(`\uFEFF${toOptionCsv(options)}`, 'text/csv;charset=utf-8', `${fileName}.csv`)
+      break
+    case 'xlsx':
+      XLSX.writeFile(toOptionWorkbook(options, title), `${fileName}.xlsx`)
+      break
+    case 'text':
+      downloadFile(toOptionText(options), 'text/plain;charset=utf-8', `${fileName}.txt`)
+      break
+    case 'pdf': {
+      const printWindow = window.open('', '_blank')
+      if (!printWindow) throw new Error('Allow pop-ups for this site to print the option list')
+      printWindow.document.write(toPrintableHtml(options, title))
+      printWindow.document.close()
+      printWindow.focus()
+      printWindow.print()
+      break
+    }
+  }
+}
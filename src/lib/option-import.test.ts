@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'vitest'
+import { buildImportResult, correctImportRow, type ImportCandidate, type ImportSource } from './option-import'
+
+const candidate = (priority: number, code: string, source: ImportSource, collegeName = 'R V College of Engineering'): ImportCandidate => ({
+  priority,
+  collegeCode: code.slice(0, 4),
+  branchCode: code.slice(4),
+  collegeName,
+  branchName: '',
+  courseFee: '',
+  location: '',
+  page: 1,
+  source,
+  rawText: `${priority} ${code}`
+})
+
+const reference = {
+  colleges: { E001: 'R V College of Engineering', E005: 'B M S College of Engineering' },
+  courses: { CS: 'Computer Science and Engineering', EC: 'Electronics and Communication Engineering' }
+}
+
+describe('PDF option import', () => {
+  test('scores rows by source agreement and known codes', () => {
+    const result = buildImportResult('options.pdf', {
+      pageCount: 2,
+      candidates: [
+        candidate(1, 'E001CS', 'row'),
+        candidate(1, 'E001CS', 'block'),
+        candidate(2, 'E005EC', 'row'),
+        candidate(2, 'E008EC', 'text'),
+        candidate(3, 'E999ZZ', 'text', '')
+      ],
+      unparsed: []
+    }, reference)
+
+    expect(result.rows.map(row => [row.option.collegeCourse, row.level])).toEqual([
+      ['E001CS', 'high'],
+      ['E005EC', 'medium'],
+      ['E999ZZ', 'low']
+    ])
+    expect(result.rows[0].confidence).toBe(1)
+    expect(result.rows[0].option.branchName).toBe('Computer Science and Engineering')
+    expect(result.rows[1].issues).toEqual(['Also read as E008EC'])
+    expect(result.rows[2].issues).toHaveLength(3)
+  })
+
+  test('flags duplicates and reports option numbers it could not read', () => {
+    const result = buildImportResult('options.pdf', {
+      pageCount: 1,
+      candidates: [candidate(1, 'E001CS', 'row'), candidate(4, 'E001CS', 'row')],
+      unparsed: [{ page: 1, text: '2 E00' }]
+    }, reference)
+
+    expect(result.rows[1].issues).toEqual(['Same option as #1'])
+    expect(result.missingPriorities).toEqual([2, 3])
+    expect(result.unparsed).toHaveLength(1)
+  })
+
+  test('returns no rows rather than inventing options', () => {
+    const result = buildImportResult('blank.pdf', { pageCount: 1, candidates: [], unparsed: [] }, reference)
+    expect(result.rows).toEqual([])
+    expect(result.missingPriorities).toEqual([])
+  })
+
+  test('trusts a correction only once its codes are known', () => {
+    const [row] = buildImportResult('options.pdf', { pageCount: 1, candidates: [candidate(1, 'E999ZZ', 'text', '')], unparsed: [] }, reference).rows
+
+    const partial = correctImportRow(row, 'e005', 'ZZ', reference)
+    expect(partial.level).toBe('low')
+    expect(partial.option.collegeName).toBe('B M S College of Engineering')
+
+    const fixed = correctImportRow(partial, 'E005', 'ec', reference)
+    expect(fixed.level).toBe('high')
+    expect(fixed.corrected).toBe(true)
+    expect(fixed.option.collegeCourse).toBe('E005EC')
+    expect(fixed.option.id).toBe(row.option.id)
+  })
+})
@@ -0,0 +1,216 @@
+import { createPlannerOption, type PlannerOption } from '@/lib/option-planner'
+
+// Which pass of the PDF parser read an option: a table row holding both the
+// option number and code, a block of rows under an option number, or a scan
+// of the page text for codes near numbers
+export type ImportSource = 'row' | 'block' | 'text'
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low'
+
+export interface ImportCandidate {
+  priority: number
+  collegeCode: string
+  branchCode: string
+  collegeName: string
+  branchName: string
+  courseFee: string
+  location: string
+  page: number
+  source: ImportSource
+  rawText: string
+}
+
+export interface ImportFragment {
+  page: number
+  text: string
+}
+
+export interface PDFExtraction {
+  pageCount: number
+  candidates: ImportCandidate[]
+  // Rows that mention an option code but could not be read as an option
+  unparsed: ImportFragment[]
+}
+
+export interface ImportRow {
+  option: PlannerOption
+  page: number
+  source: ImportSource
+  rawText: string
+  confidence: number
+  level: ConfidenceLevel
+  issues: string[]
+  corrected?: boolean
+}
+
+export interface OptionImportResult {
+  fileName: string
+  pageCount: number
+  rows: ImportRow[]
+  unparsed: ImportFragment[]
+  // Option numbers between 1 and the last one read that no row covers
+  missingPriorities: number[]
+}
+
+// Known college and course codes, mapped to their names
+export interface ImportReference {
+  colleges: Record<string, string>
+  courses: Record<string, string>
+}
+
+const SOURCE_CONFIDENCE: Record<ImportSource, number> = { row: 0.9, block: 0.85, text: 0.5 }
+const SOURCE_ORDER: ImportSource[] = ['row', 'block', 'text']
+
+const AGREEMENT_BONUS = 0.1
+const CONFLICT_PENALTY = 0.3
+const UNKNOWN_COLLEGE_PENALTY = 0.3
+const UNKNOWN_COURSE_PENALTY = 0.2
+const MISSING_NAME_PENALTY = 0.1
+const DUPLICATE_PENALTY = 0.2
+// Hand-entered codes are trusted once both are in the reference
+const UNVERIFIED_CORRECTION_CONFIDENCE = 0.3
+
+export const getConfidenceLevel = (confidence: number): ConfidenceLevel => {
+  if (confidence >= 0.8) return 'high'
+  if (confidence >= 0.5) return 'medium'
+  return 'low'
+}
+
+const codeOf = (candidate: Pick<ImportCandidate, 'collegeCode' | 'branchCode'>) =>
+  `${candidate.collegeCode}${candidate.branchCode}`.toUpperCase()
+
+const rowFromCandidates = (candidates: ImportCandidate[], reference?: ImportReference): ImportRow => {
+  const sorted = [...candidates].sort((a, b) => SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source))
+  const chosen = sorted[0]
+  const code = codeOf(chosen)
+  const agreeing = sorted.filter(c => codeOf(c) === code)
+  const conflicting = [...new Set(sorted.filter(c => codeOf(c) !== code).map(codeOf))]
+  const issues: string[] = []
+
+  let confidence = SOURCE_CONFIDENCE[chosen.source]
+  if (new Set(agreeing.map(c => c.source)).size > 1) confidence += AGREEMENT_BONUS
+  if (conflicting.length > 0) {
+    confidence -= CONFLICT_PENALTY
+    issues.push(`Also read as ${conflicting.join(', ')}`)
+  }
+
+  const collegeCode = chosen.collegeCode.toUpperCase()
+  const branchCode = chosen.branchCode.toUpperCase()
+  let collegeName = agreeing.find(c => c.collegeName)?.collegeName ?? ''
+  let branchName = agreeing.find(c => c.branchName)?.branchName ?? ''
+
+  if (reference && Object.keys(reference.colleges).length > 0) {
+    if (reference.colleges[collegeCode]) collegeName ||= reference.colleges[collegeCode]
+    else {
+      confidence -= UNKNOWN_COLLEGE_PENALTY
+      issues.push(`College code ${collegeCode} is not in the cutoff data`)
+    }
+  }
+  if (reference) {
+    if (reference.courses[branchCode]) branchName ||= reference.courses[branchCode]
+    else {
+      confidence -= UNKNOWN_COURSE_PENALTY
+      issues.push(`Course code ${branchCode} is not a known course`)
+    }
+  }
+  if (!collegeName) {
+    confidence -= MISSING_NAME_PENALTY
+    issues.push('College name not found')
+  }
+
+  const bounded = Math.max(0, Math.min(1, confidence))
+  return {
+    option: createPlannerOption({
+      collegeCode,
+      branchCode,
+      collegeName,
+      branchName,
+      location: agreeing.find(c => c.location)?.location ?? '',
+      courseFee: agreeing.find(c => c.courseFee)?.courseFee || undefined,
+      priority: chosen.priority
+    }),
+    page: chosen.page,
+    source: chosen.source,
+    rawText: chosen.rawText,
+    confidence: bounded,
+    level: getConfidenceLevel(bounded),
+    issues
+  }
+}
+
+/**
+ * Merge what the parser passes read into one row per option number, scoring
+ * each row by the pass that read it, whether passes agree, and whether its
+ * codes exist in the reference data. Nothing is invented for options that
+ * could not be read; they are listed as missing instead.
+ */
+export const buildImportResult = (
+  fileName: string,
+  extraction: PDFExtraction,
+  reference?: ImportReference
+): OptionImportResult => {
+  const byPriority = new Map<number, ImportCandidate[]>()
+  for (const candidate of extraction.candidates) {
+    const list = byPriority.get(candidate.priority)
+    if (list) list.push(candidate)
+    else byPriority.set(candidate.priority, [candidate])
+  }
+
+  const rows = [...byPriority.keys()]
+    .sort((a, b) => a - b)
+    .map(priority => rowFromCandidates(byPriority.get(priority)!, reference))
+
+  const firstByCode = new Map<string, ImportRow>()
+  for (const row of rows) {
+    const code = row.option.collegeCourse
+    const first = firstByCode.get(code)
+    if (!first) {
+      firstByCode.set(code, row)
+      continue
+    }
+    row.confidence = Math.max(0, row.confidence - DUPLICATE_PENALTY)
+    row.level = getConfidenceLevel(row.confidence)
+    row.issues.push(`Same option as #${first.option.priority}`)
+  }
+
+  const found = new Set(rows.map(row => row.option.priority))
+  const last = rows.length > 0 ? rows[rows.length - 1].option.priority : 0
+  const missingPriorities = Array.from({ length: last }, (_, i) => i + 1).filter(p => !found.has(p))
+
+  return { fileName, pageCount: extraction.pageCount, rows, unparsed: extraction.unparsed, missingPriorities }
+}
+
+/**
+ * Replace a row's codes with a hand correction, taking names from the
+ * reference. The row stays flagged while a code is not in the reference.
+ */
+export const correctImportRow = (
+  row: ImportRow,
+  collegeCode: string,
+  branchCode: string,
+  reference?: ImportReference
+): ImportRow => {
+  const college = collegeCode.trim().toUpperCase()
+  const branch = branchCode.trim().toUpperCase()
+  const issues: string[] = []
+  if (reference && Object.keys(reference.colleges).length > 0 && !reference.colleges[college]) {
+    issues.push(`College code ${college} is not in the cutoff data`)
+  }
+  if (reference && !reference.courses[branch]) issues.push(`Course code ${branch} is not a known course`)
+  const confidence = issues.length > 0 ? UNVERIFIED_CORRECTION_CONFIDENCE : 1
+
+  return {
+    ...row,
+    option: createPlannerOption({
+      ...row.option,
+      collegeCode: college,
+      branchCode: branch,
+      collegeName: reference?.colleges[college] ?? (college === row.option.collegeCode ? row.option.collegeName : ''),
+      branchName: reference?.courses[branch] ?? (branch === row.option.branchCode ? row.option.branchName : '')
+    }),
+    confidence,
+    level: getConfidenceLevel(confidence),
+    issues,
+    corrected: true
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'vitest'
+import { applyLintFix, lintOptionList } from './option-linter'
+import { createPlannerOption, renumberOptions, type OptionAnnotation } from './option-planner'
+import { getChanceBand } from './admission-chance'
+
+const option = (code: string) => createPlannerOption({ id: code, collegeCode: code.slice(0, 4), branchCode: code.slice(4) })
+
+const annotated = (probability: number, expectedCutoff: number): OptionAnnotation => ({
+  category: 'GM',
+  history: [{ institute: '', institute_code: '', course: '', course_code: '', category: 'GM', cutoff_rank: expectedCutoff, year: '2024', round: 'R1' }],
+  chance: { probability, band: getChanceBand(probability), expectedCutoff, observations: 2 }
+})
+
+describe('Option list linter', () => {
+  const options = renumberOptions([option('E010EC'), option('E001CS'), option('E050ME')])
+  const annotations = {
+    E010EC: annotated(0.7, 12000),
+    E001CS: annotated(0.1, 4000),
+    E050ME: annotated(0.95, 40000)
+  }
+
+  test('flags a likely option blocking a harder one and moves it up', () => {
+    const issues = lintOptionList(options, annotations, 10000)
+    const inversion = issues.find(i => i.rule === 'priority_inversion')!
+    expect(inversion.optionIds).toEqual(['E001CS', 'E010EC'])
+    expect(applyLintFix(options, inversion.fix!).map(o => [o.id, o.priority])).toEqual([['E001CS', 1], ['E010EC', 2], ['E050ME', 3]])
+    expect(issues.some(i => i.rule === 'no_safety')).toBe(false)
+  })
+
+  test('flags duplicates, a missing safety net and options without history', () => {
+    const list = renumberOptions([option('E001CS'), createPlannerOption({ id: 'dup', collegeCode: 'E001', branchCode: 'CS' }), option('E099XX')])
+    const issues = lintOptionList(list, { E001CS: annotated(0.1, 4000), dup: annotated(0.1, 4000), E099XX: { category: null, history: [], chance: null } }, 10000)
+    expect(issues.map(i => i.rule).sort()).toEqual(['duplicate', 'no_history', 'no_safety'])
+    expect(applyLintFix(list, issues.find(i => i.rule === 'duplicate')!.fix!)).toHaveLength(2)
+  })
+
+  test('skips rank checks until a rank is set', () => {
+    expect(lintOptionList(options, annotations, null)).toEqual([])
+  })
+})
@@ -0,0 +1,138 @@
+import { CHANCE_BANDS } from '@/lib/admission-chance'
+import { getOptionCode, renumberOptions, type OptionAnnotation, type PlannerOption } from '@/lib/option-planner'
+
+export type LintRule = 'duplicate' | 'priority_inversion' | 'no_safety' | 'no_history'
+
+export type LintSeverity = 'error' | 'warning' | 'info'
+
+export type LintFix =
+  | { type: 'remove'; optionId: string }
+  // Move an option so it sits directly above another one
+  | { type: 'move_above'; optionId: string; targetId: string }
+
+export interface LintIssue {
+  rule: LintRule
+  severity: LintSeverity
+  // Options the issue is about, the one to act on first
+  optionIds: string[]
+  message: string
+  suggestion: string
+  fix?: LintFix
+}
+
+// An option above a harder one only blocks it when it is likely to be allotted
+const BLOCKING_PROBABILITY = CHANCE_BANDS.find(({ band }) => band === 'Moderate')!.min
+// Closing ranks within this fraction are treated as equally hard
+const INVERSION_TOLERANCE = 0.1
+// Rank multiple to aim for when suggesting safety options
+const SAFETY_MARGIN = 1.3
+
+const describe = (option: PlannerOption) => `#${option.priority} ${getOptionCode(option)}`
+
+const findDuplicates = (options: PlannerOption[]): LintIssue[] => {
+  const firstByCode = new Map<string, PlannerOption>()
+  const issues: LintIssue[] = []
+  for (const option of options) {
+    const code = getOptionCode(option)
+    const first = firstByCode.get(code)
+    if (!first) {
+      firstByCode.set(code, option)
+      continue
+    }
+    issues.push({
+      rule: 'duplicate',
+      severity: 'error',
+      optionIds: [option.id, first.id],
+      message: `${describe(option)} repeats ${describe(first)}`,
+      suggestion: `Remove option ${option.priority}; the same seat can only be allotted once`,
+      fix: { type: 'remove', optionId: option.id }
+    })
+  }
+  return issues
+}
+
+/**
+ * A likely option placed above one that closes earlier: once the easier
+ * option is allotted, the harder one below it is never tried. Reported once
+ * per harder option, against the first easier option blocking it.
+ */
+const findInversions = (options: PlannerOption[], annotations: Record<string, OptionAnnotation>): LintIssue[] => {
+  const issues: LintIssue[] = []
+  for (const [index, option] of options.entries()) {
+    const chance = annotations[option.id]?.chance
+    if (!chance?.observations) continue
+
+    const blocker = options.slice(0, index).find(above => {
+      const aboveChance = annotations[above.id]?.chance
+      return aboveChance?.observations &&
+        getOptionCode(above) !== getOptionCode(option) &&
+        aboveChance.probability >= BLOCKING_PROBABILITY &&
+        chance.expectedCutoff < aboveChance.expectedCutoff * (1 - INVERSION_TOLERANCE)
+    })
+    if (!blocker) continue
+
+    issues.push({
+      rule: 'priority_inversion',
+      severity: 'warning',
+      optionIds: [option.id, blocker.id],
+      message: `${describe(option)} (closes near ${Math.round(chance.expectedCutoff).toLocaleString()}) sits below ${describe(blocker)} (closes near ${Math.round(annotations[blocker.id].chance!.expectedCutoff).toLocaleString()}), which you are likely to get first`,
+      suggestion: `Move ${getOptionCode(option)} above ${getOptionCode(blocker)} if you would rather have it; otherwise it will never be reached`,
+      fix: { type: 'move_above', optionId: option.id, targetId: blocker.id }
+    })
+  }
+  return issues
+}
+
+const findMissingSafety = (options: PlannerOption[], annotations: Record<string, OptionAnnotation>, rank: number): LintIssue[] => {
+  if (options.some(option => annotations[option.id]?.chance?.band === 'Safe')) return []
+  const last = options[options.length - 1]
+  return [{
+    rule: 'no_safety',
+    severity: 'error',
+    optionIds: last ? [last.id] : [],
+    message: `No option in the list is safe for rank ${rank.toLocaleString()}`,
+    suggestion: `End the list with a few options that usually close beyond rank ${Math.round(rank * SAFETY_MARGIN).toLocaleString()} in your category`
+  }]
+}
+
+const findMissingHistory = (options: PlannerOption[], annotations: Record<string, OptionAnnotation>): LintIssue[] => {
+  return options
+    .filter(option => annotations[option.id] && annotations[option.id].history.length === 0)
+    .map(option => ({
+      rule: 'no_history' as const,
+      severity: 'info' as const,
+      optionIds: [option.id],
+      message: `${describe(option)} has no Round 1 cutoff in your category columns`,
+      suggestion: 'Check the college and course codes; if the course is new or has no seats for your category, place it by judgement'
+    }))
+}
+
+/**
+ * Check an option list for duplicates, likely options blocking harder ones,
+ * a missing safety net and options without cutoff history. Rank-dependent
+ * checks are skipped until a rank is set.
+ */
+export const lintOptionList = (
+  options: PlannerOption[],
+  annotations: Record<string, OptionAnnotation>,
+  rank: number | null
+): LintIssue[] => {
+  if (options.length === 0) return []
+  return [
+    ...findDuplicates(options),
+    ...(rank ? findInversions(options, annotations) : []),
+    ...(rank ? findMissingSafety(options, annotations, rank) : []),
+    ...findMissingHistory(options, annotations)
+  ]
+}
+
+export const applyLintFix = (options: PlannerOption[], fix: LintFix): PlannerOption[] => {
+  if (fix.type === 'remove') return renumberOptions(options.filter(option => option.id !== fix.optionId))
+
+  const moving = options.find(option => option.id === fix.optionId)
+  if (!moving) return options
+  const rest = options.filter(option => option.id !== fix.optionId)
+  const target = rest.findIndex(option => option.id === fix.targetId)
+  if (target === -1) return options
+  return renumberOptions([...rest.slice(0, target), moving, ...rest.slice(target)])
+}
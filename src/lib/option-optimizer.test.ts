@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest'
+import { getExpectedUtility, optimizeOptionOrder } from './option-optimizer'
+import { createPlannerOption, renumberOptions, type OptionAnnotation } from './option-planner'
+import { getChanceBand } from './admission-chance'
+import { KARNATAKA_CITIES } from './locations'
+
+const chance = (probability: number): OptionAnnotation => ({
+  category: 'GM',
+  history: [],
+  chance: { probability, band: getChanceBand(probability), expectedCutoff: 10000, observations: 2 }
+})
+
+const options = renumberOptions([
+  createPlannerOption({ id: 'a', collegeCode: 'E001', branchCode: 'EC', location: 'Mysore', courseFee: '1,00,000' }),
+  createPlannerOption({ id: 'b', collegeCode: 'E002', branchCode: 'CS', location: 'Bangalore', courseFee: '1,00,000' }),
+  createPlannerOption({ id: 'c', collegeCode: 'E003', branchCode: 'CS', location: 'Bangalore', courseFee: '2,00,000' })
+])
+const annotations = { a: chance(0.9), b: chance(0.3), c: chance(0.6) }
+const reputation = new Map([['E001', 0.5], ['E002', 0.9], ['E003', 0.5]])
+const home = KARNATAKA_CITIES.find(c => c.name === 'Bengaluru')!
+
+describe('Option order optimizer', () => {
+  test('orders by utility and never lowers expected utility', () => {
+    const proposal = optimizeOptionOrder(options, annotations, reputation, {
+      weights: { branch: 1, reputation: 1, fee: 0, distance: 0 }, branchOrder: ['CS', 'EC'], home: null
+    })
+    expect(proposal.options.map(o => o.id)).toEqual(['b', 'c', 'a'])
+    expect(proposal.expectedUtility).toBeGreaterThanOrEqual(getExpectedUtility(options, proposal.scores))
+  })
+
+  test('fee and distance weights change the order', () => {
+    const proposal = optimizeOptionOrder(options, annotations, reputation, {
+      weights: { branch: 0, reputation: 0, fee: 1, distance: 1 }, branchOrder: [], home
+    })
+    // c costs the most; a is the same fee as b but a few hours from home
+    expect(proposal.options.map(o => o.id)).toEqual(['b', 'a', 'c'])
+  })
+
+  test('capped lists keep the subset with the best expected utility', () => {
+    const proposal = optimizeOptionOrder(options, annotations, reputation, {
+      weights: { branch: 1, reputation: 1, fee: 0, distance: 0 }, branchOrder: ['CS', 'EC'], home: null, maxOptions: 2
+    })
+    expect(proposal.options).toHaveLength(2)
+    expect(proposal.dropped).toHaveLength(1)
+    const kept = proposal.options.map(o => o.id)
+    // Brute force over every pair, listed by utility
+    const pairs = [['b', 'c'], ['b', 'a'], ['c', 'a']].map(ids => getExpectedUtility(ids.map(id => options.find(o => o.id === id)!), proposal.scores))
+    expect(proposal.expectedUtility).toBeCloseTo(Math.max(...pairs))
+    expect(kept).toEqual([...kept].sort((x, y) => proposal.scores[y].utility - proposal.scores[x].utility))
+  })
+})
@@ -0,0 +1,182 @@
+import type { CutoffRecord } from '@/lib/cutoff-repository'
+import { parseFee } from '@/lib/fee-engine'
+import { distanceKm, findCity, type City } from '@/lib/locations'
+import { renumberOptions, type OptionAnnotation, type PlannerOption } from '@/lib/option-planner'
+import { Round } from '@/lib/rounds'
+import { clamp, median } from '@/lib/statistics'
+
+export interface PreferenceWeights {
+  branch: number
+  reputation: number
+  fee: number
+  distance: number
+}
+
+export interface OptimizerPreferences {
+  weights: PreferenceWeights
+  // Branch codes from most to least wanted; unlisted branches score zero
+  branchOrder: string[]
+  home: City | null
+  // Longest list to propose; all options are kept when unset
+  maxOptions?: number
+}
+
+export interface OptionScore {
+  // Per-criterion scores between 0 and 1
+  branch: number
+  reputation: number
+  fee: number
+  distance: number
+  // Weighted utility between 0 and 1
+  utility: number
+  probability: number
+}
+
+export interface OrderProposal {
+  options: PlannerOption[]
+  // Options left out to respect maxOptions
+  dropped: PlannerOption[]
+  scores: Record<string, OptionScore>
+  expectedUtility: number
+}
+
+export const DEFAULT_WEIGHTS: PreferenceWeights = { branch: 0.4, reputation: 0.35, fee: 0.15, distance: 0.1 }
+
+// Score used when a criterion cannot be worked out for an option
+const NEUTRAL_SCORE = 0.5
+// Admission probability assumed for options without cutoff history or rank
+const UNKNOWN_PROBABILITY = 0.5
+// Distance at which the distance score reaches zero
+const MAX_DISTANCE_KM = 600
+// Rank treated as the bottom of the reputation scale
+const REPUTATION_FLOOR_RANK = 200000
+
+/**
+ * College reputation from how early its general merit seats close in
+ * Round 1, on a log scale: 1 for colleges closing in the first hundred ranks,
+ * 0 at the reputation floor.
+ */
+export const getCollegeReputation = (history: CutoffRecord[]): Map<string, number> => {
+  const ranks = new Map<string, number[]>()
+  for (const record of history) {
+    if (record.category !== 'GM' || record.round !== Round.Round1 || record.cutoff_rank <= 0) continue
+    const code = record.institute_code.toUpperCase()
+    const list = ranks.get(code)
+    if (list) list.push(record.cutoff_rank)
+    else ranks.set(code, [record.cutoff_rank])
+  }
+  const top = Math.log(100)
+  const floor = Math.log(REPUTATION_FLOOR_RANK)
+  return new Map([...ranks].map(([code, values]) => [
+    code,
+    clamp(1 - (Math.log(median(values)) - top) / (floor - top), 0, 1)
+  ]))
+}
+
+export const scoreOptions = (
+  options: PlannerOption[],
+  annotations: Record<string, OptionAnnotation>,
+  reputation: Map<string, number>,
+  preferences: OptimizerPreferences
+): Record<string, OptionScore> => {
+  const { weights, branchOrder, home } = preferences
+  const fees = options.map(option => parseFee(option.courseFee)).filter((fee): fee is number => fee !== null)
+  const minFee = Math.min(...fees)
+  const maxFee = Math.max(...fees)
+  const totalWeight = weights.branch + weights.reputation + weights.fee + weights.distance
+
+  return Object.fromEntries(options.map(option => {
+    const branchIndex = branchOrder.indexOf(option.branchCode.toUpperCase())
+    const branch = branchOrder.length === 0
+      ? NEUTRAL_SCORE
+      : branchIndex === -1 ? 0 : 1 - branchIndex / branchOrder.length
+
+    const fee = parseFee(option.courseFee)
+    const feeScore = fee === null ? NEUTRAL_SCORE : maxFee === minFee ? 1 : 1 - (fee - minFee) / (maxFee - minFee)
+
+    const city = findCity(option.location) ?? findCity(option.collegeName)
+    const distance = home && city ? 1 - Math.min(distanceKm(home, city), MAX_DISTANCE_KM) / MAX_DISTANCE_KM : NEUTRAL_SCORE
+
+    const scores = {
+      branch,
+      reputation: reputation.get(option.collegeCode.toUpperCase()) ?? NEUTRAL_SCORE,
+      fee: feeScore,
+      distance
+    }
+    const utility = totalWeight > 0
+      ? (weights.branch * scores.branch + weights.reputation * scores.reputation + weights.fee * scores.fee + weights.distance * scores.distance) / totalWeight
+      : 0
+
+    return [option.id, { ...scores, utility, probability: annotations[option.id]?.chance?.probability ?? UNKNOWN_PROBABILITY }]
+  }))
+}
+
+/**
+ * Expected utility of a list where the first option the student gets is the
+ * one they keep, treating admission to each option as independent.
+ */
+export const getExpectedUtility = (options: PlannerOption[], scores: Record<string, OptionScore>): number => {
+  let unallotted = 1
+  let total = 0
+  for (const option of options) {
+    const score = scores[option.id]
+    if (!score) continue
+    total += unallotted * score.probability * score.utility
+    unallotted *= 1 - score.probability
+  }
+  return total
+}
+
+/**
+ * Order options to maximize expected utility. Since the student keeps the
+ * first option they get, listing by utility is optimal whatever the
+ * probabilities; probabilities decide which options make the cut when the
+ * list is capped, chosen exactly by dynamic programming over that order.
+ */
+export const optimizeOptionOrder = (
+  options: PlannerOption[],
+  annotations: Record<string, OptionAnnotation>,
+  reputation: Map<string, number>,
+  preferences: OptimizerPreferences
+): OrderProposal => {
+  const scores = scoreOptions(options, annotations, reputation, preferences)
+  const sorted = [...options].sort((a, b) => scores[b.id].utility - scores[a.id].utility)
+  const limit = preferences.maxOptions && preferences.maxOptions > 0 ? preferences.maxOptions : sorted.length
+
+  let chosen = sorted
+  if (limit < sorted.length) {
+    // best[k]: highest expected utility of k options taken from the tail
+    // processed so far, with the ids that achieve it
+    let best: Array<{ value: number; ids: string[] }> = [{ value: 0, ids: [] }]
+    for (const option of [...sorted].reverse()) {
+      const { utility, probability } = scores[option.id]
+      const next = [...best]
+      for (let k = 1; k <= Math.min(limit, best.length); k++) {
+        const below = best[k - 1]
+        const value = probability * utility + (1 - probability) * below.value
+        if (!next[k] || value > next[k].value) next[k] = { value, ids: [option.id, ...below.ids] }
+      }
+      best = next
+    }
+    const top = best.reduce((a, b) => b.value > a.value ? b : a)
+    const keep = new Set(top.ids)
+    chosen = sorted.filter(option => keep.has(option.id))
+  }
+
+  const ordered = renumberOptions(chosen)
+  return {
+    options: ordered,
+    dropped: sorted.filter(option => !ordered.some(o => o.id === option.id)),
+    scores,
+    expectedUtility: getExpectedUtility(ordered, scores)
+  }
+}
+
+/** Move one option to a position (0-based) in the list. */
+export const moveOptionTo = (options: PlannerOption[], id: string, index: number): PlannerOption[] => {
+  const moving = options.find(option => option.id === id)
+  if (!moving) return options
+  const rest = options.filter(option => option.id !== id)
+  const target = clamp(index, 0, rest.length)
+  return renumberOptions([...rest.slice(0, target), moving, ...rest.slice(target)])
+}
@@ -0,0 +1,43 @@
+import { beforeEach, describe, test, expect } from 'vitest'
+import { annotateOption, appendOptions, createPlannerOption, deleteDraft, loadDrafts, saveDraft } from './option-planner'
+import { indexCutoffHistory } from './admission-chance'
+import type { CutoffRecord } from './cutoff-repository'
+
+const record = (category: string, year: string, cutoff_rank: number, round = 'R1'): CutoffRecord => ({
+  institute: 'Test College', institute_code: 'E001', course: 'Computer Science', course_code: 'CS', category, cutoff_rank, year, round
+})
+
+describe('Option planner', () => {
+  beforeEach(() => localStorage.clear())
+
+  test('appends new codes in order and skips duplicates', () => {
+    const list = appendOptions([], [createPlannerOption({ collegeCode: 'e001', branchCode: 'cs' })])
+    const next = appendOptions(list, [
+      createPlannerOption({ collegeCode: 'E001', branchCode: 'CS' }),
+      createPlannerOption({ collegeCode: 'E002', branchCode: 'EC' })
+    ])
+    expect(next.map(o => [o.collegeCourse, o.priority])).toEqual([['E001CS', 1], ['E002EC', 2]])
+  })
+
+  test('annotates with the Round 1 history of the best eligible column', () => {
+    const index = indexCutoffHistory([
+      record('GM', '2023', 4000), record('GM', '2024', 4200), record('GM', '2024', 9000, 'R2'),
+      record('2AG', '2023', 7000), record('2AG', '2024', 7500)
+    ])
+    const option = createPlannerOption({ collegeCode: 'E001', branchCode: 'CS' })
+    const annotation = annotateOption(option, 6000, ['2AG', 'GM'], index)
+    expect(annotation.category).toBe('2AG')
+    expect(annotation.history.map(r => r.year)).toEqual(['2024', '2023'])
+    expect(annotation.chance?.probability).toBeGreaterThan(0.5)
+    expect(annotateOption(option, 6000, ['SCG'], index).chance).toBeNull()
+    expect(annotateOption(option, 6000, ['GM'], index, 'R2').history.map(r => r.cutoff_rank)).toEqual([9000])
+  })
+
+  test('saves, replaces and deletes drafts', () => {
+    const draft = { id: 'd1', name: 'Plan A', updatedAt: '', rank: 5000, profile: { base: 'GM' as const, rural: false, kannadaMedium: false }, options: [] }
+    saveDraft(draft)
+    saveDraft({ ...draft, name: 'Plan A v2' })
+    expect(loadDrafts().map(d => d.name)).toEqual(['Plan A v2'])
+    expect(deleteDraft('d1')).toEqual([])
+  })
+})
@@ -0,0 +1,129 @@
+import { estimateAdmissionChance, getHistoryKey, type AdmissionChance } from '@/lib/admission-chance'
+import type { StudentCategoryProfile } from '@/lib/categories'
+import { COURSE_CODE_TO_NAME } from '@/lib/courses'
+import type { CutoffRecord } from '@/lib/cutoff-repository'
+import type { ParsedOption } from '@/lib/pdf-parser'
+import { Round } from '@/lib/rounds'
+
+// Same shape the PDF parser, OptionEntryTable and CollegeList work with
+export type PlannerOption = ParsedOption
+
+export interface PlannerDraft {
+  id: string
+  name: string
+  updatedAt: string
+  rank: number | null
+  profile: StudentCategoryProfile
+  options: PlannerOption[]
+}
+
+export interface OptionAnnotation {
+  // Column the likelihood was worked out for: the one with the best chance
+  category: string | null
+  // Closing ranks of that column in the chosen round, latest year first
+  history: CutoffRecord[]
+  chance: AdmissionChance | null
+}
+
+const DRAFTS_KEY = 'kcet.planner.drafts.v1'
+
+export const getOptionCode = (option: Pick<PlannerOption, 'collegeCode' | 'branchCode'>): string =>
+  `${option.collegeCode}${option.branchCode}`.toUpperCase()
+
+export const createPlannerOption = (
+  fields: Pick<PlannerOption, 'collegeCode' | 'branchCode'> & Partial<PlannerOption>
+): PlannerOption => {
+  const collegeCode = fields.collegeCode.trim().toUpperCase()
+  const branchCode = fields.branchCode.trim().toUpperCase()
+  return {
+    location: '',
+    priority: 0,
+    ...fields,
+    id: fields.id ?? `${collegeCode}${branchCode}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    collegeCode,
+    branchCode,
+    collegeName: fields.collegeName || collegeCode,
+    branchName: fields.branchName || COURSE_CODE_TO_NAME[branchCode] || branchCode,
+    collegeCourse: `${collegeCode}${branchCode}`
+  }
+}
+
+/** Priorities follow list order, starting at 1. */
+export const renumberOptions = (options: PlannerOption[]): PlannerOption[] =>
+  options.map((option, index) => ({ ...option, priority: index + 1 }))
+
+/** Append options at the bottom of the list, skipping codes already in it. */
+export const appendOptions = (existing: PlannerOption[], incoming: PlannerOption[]): PlannerOption[] => {
+  const seen = new Set(existing.map(getOptionCode))
+  const added = incoming.filter(option => {
+    const code = getOptionCode(option)
+    if (seen.has(code)) return false
+    seen.add(code)
+    return true
+  })
+  return renumberOptions([...existing, ...added])
+}
+
+/**
+ * Past closing ranks of an option in one round (Round 1 unless given) and the
+ * admission chance in the eligible column that gives the best odds.
+ */
+export const annotateOption = (
+  option: PlannerOption,
+  rank: number | null,
+  categories: string[],
+  historyIndex: Map<string, CutoffRecord[]>,
+  round: string = Round.Round1
+): OptionAnnotation => {
+  let best: OptionAnnotation = { category: null, history: [], chance: null }
+
+  for (const category of categories) {
+    const history = (historyIndex.get(getHistoryKey({
+      institute_code: option.collegeCode,
+      course_code: option.branchCode,
+      course: option.branchName,
+      category
+    })) ?? []).filter(record => record.round === round)
+    if (history.length === 0) continue
+
+    const sorted = [...history].sort((a, b) => b.year.localeCompare(a.year))
+    const chance = rank ? estimateAdmissionChance(rank, history) : null
+    const isBetter = !best.category ||
+      (chance && best.chance ? chance.probability > best.chance.probability : sorted[0].cutoff_rank > best.history[0].cutoff_rank)
+    if (isBetter) best = { category, history: sorted, chance }
+  }
+
+  return best
+}
+
+export function loadDrafts(): PlannerDraft[] {
+  try {
+    const raw = localStorage.getItem(DRAFTS_KEY)
+    const parsed = raw ? JSON.parse(raw) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function writeDrafts(drafts: PlannerDraft[]) {
+  try {
+    localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts))
+  } catch {
+    // Storage full or disabled: the draft stays in memory only
+  }
+}
+
+/** Insert or replace a draft by id, most recently saved first. */
+export function saveDraft(draft: PlannerDraft): PlannerDraft[] {
+  const saved = { ...draft, updatedAt: new Date().toISOString() }
+  const drafts = [saved, ...loadDrafts().filter(d => d.id !== draft.id)]
+  writeDrafts(drafts)
+  return drafts
+}
+
+export function deleteDraft(id: string): PlannerDraft[] {
+  const drafts = loadDrafts().filter(d => d.id !== id)
+  writeDrafts(drafts)
+  return drafts
+}
@@ -1,4 +1,5 @@
 import { pdfjsLib, configurePDFJS } from './pdf-config';
+import type { ImportCandidate, ImportFragment, PDFExtraction } from './option-import';
 
 // Configure PDF.js when this module is imported
 configurePDFJS();
@@ -16,63 +17,132 @@ export interface ParsedOption {
   collegeAddress?: string;
 }
 
+// Text run on a PDF page with its position
+interface PageTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export class PDFParser {
   static async parseKCETOptions(file: File): Promise<ParsedOption[]> {
     try {
-      // Check if PDF.js is properly loaded
-      if (!pdfjsLib || !pdfjsLib.getDocument) {
-        throw new Error('PDF.js library not properly loaded');
-      }
+      const pages = await this.readPages(file);
+      return pages.flatMap((pageText, index) => this.parseKCETPageText(pageText, index + 1)).map(this.toParsedOption);
+    } catch (error) {
+      console.error('Error parsing PDF:', error);
+      throw new Error('Failed to parse PDF. Please check the file format.');
+    }
+  }
 
-      const arrayBuffer = await file.arrayBuffer();
-      
-      // Create PDF document with error handling for worker issues
-      let pdf;
-      try {
-        pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-      } catch (workerError) {
-        console.warn('⚠️ Worker-based PDF loading failed, trying alternative approach:', workerError);
-        // If worker fails, try with different options
-        pdf = await pdfjsLib.getDocument({ 
-          data: arrayBuffer,
-          // Let PDF.js handle worker creation naturally
-        }).promise;
-      }
-      
-      const options: ParsedOption[] = [];
-      let currentPriority = 1;
+  /**
+   * Run every parser pass over the document and keep what each one read,
+   * with page numbers and the text it came from, plus the rows that mention
+   * an option code none of the passes could read. See buildImportResult for
+   * turning this into one scored row per option.
+   */
+  static async extractOptionCandidates(file: File): Promise<PDFExtraction> {
+    try {
+      const pages = await this.readPages(file);
+      const candidates: ImportCandidate[] = [];
+      const unparsed: ImportFragment[] = [];
 
-      // Process each page
-      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-        const page = await pdf.getPage(pageNum);
-        const textContent = await page.getTextContent();
-        
-        // Extract text with positioning information
-        const pageText = textContent.items
-          .map((item: any) => ({
-            text: item.str,
-            x: item.transform[4],
-            y: item.transform[5],
-            width: item.width,
-            height: item.height
+      pages.forEach((pageText, index) => {
+        const page = index + 1;
+        const pageCandidates = [
+          ...this.parseKCETPageText(pageText, page),
+          ...this.parseKCETPageAdvanced(pageText).map(option => ({
+            priority: option.priority,
+            collegeCode: option.collegeCode,
+            branchCode: option.branchCode,
+            collegeName: option.collegeName,
+            branchName: option.branchName,
+            courseFee: option.courseFee || '',
+            location: option.location,
+            page,
+            source: 'block' as const,
+            rawText: `${option.priority} ${option.collegeCourse} ${option.collegeName}`.trim()
           }))
-          .filter((item: any) => item.text && item.text.trim());
+        ];
+        candidates.push(...pageCandidates);
 
-        // Use specialized KCET parser
-        const pageOptions = this.parseKCETPageText(pageText, currentPriority);
-        options.push(...pageOptions);
-        currentPriority += pageOptions.length;
-      }
+        const readCodes = new Set(pageCandidates.map(c => `${c.collegeCode}${c.branchCode}`));
+        for (const row of this.groupTextByRows(pageText)) {
+          const rowText = row.map((item: PageTextItem) => item.text).join(' ').trim();
+          const codes = rowText.match(/[A-Z]\d{3}[A-Z]+/g);
+          if (codes && codes.some(code => !readCodes.has(code))) {
+            unparsed.push({ page, text: rowText });
+          }
+        }
+      });
 
-      return options;
+      return { pageCount: pages.length, candidates, unparsed };
     } catch (error) {
       console.error('Error parsing PDF:', error);
       throw new Error('Failed to parse PDF. Please check the file format.');
     }
   }
 
-  private static parseKCETPageText(textItems: any[], startPriority: number): ParsedOption[] {
-    const options: ParsedOption[] = [];
+  private static async readPages(file: File): Promise<PageTextItem[][]> {
+    // Check if PDF.js is properly loaded
+    if (!pdfjsLib || !pdfjsLib.getDocument) {
+      throw new Error('PDF.js library not properly loaded');
+    }
+
+    const arrayBuffer = await file.arrayBuffer();
+
+    // Create PDF document with error handling for worker issues
+    let pdf;
+    try {
+      pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    } catch (workerError) {
+      console.warn('⚠️ Worker-based PDF loading failed, trying alternative approach:', workerError);
+      // If worker fails, try with different options
+      pdf = await pdfjsLib.getDocument({
+        data: arrayBuffer,
+        // Let PDF.js handle worker creation naturally
+      }).promise;
+    }
+
+    const pages: PageTextItem[][] = [];
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const textContent = await page.getTextContent();
+
+      // Extract text with positioning information; marked-content items carry no text
+      pages.push(textContent.items
+        .filter((item): item is typeof item & { str: string; transform: number[]; width: number; height: number } => 'str' in item)
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height
+        }))
+        .filter(item => item.text && item.text.trim()));
+    }
+    return pages;
+  }
+
+  private static toParsedOption(candidate: ImportCandidate): ParsedOption {
+    const collegeCourse = `${candidate.collegeCode}${candidate.branchCode}`;
+    return {
+      id: `kcet-${candidate.source}-${candidate.priority}-${collegeCourse}`,
+      collegeCode: candidate.collegeCode,
+      branchCode: candidate.branchCode,
+      collegeName: candidate.collegeName,
+      branchName: candidate.branchName,
+      location: candidate.location,
+      collegeCourse,
+      priority: candidate.priority,
+      courseFee: candidate.courseFee || undefined,
+    };
+  }
+
+  private static parseKCETPageText(textItems: PageTextItem[], page: number): ImportCandidate[] {
+    const options: ImportCandidate[] = [];
     
     // Group text items by rows (similar Y coordinates)
     const rows = this.groupTextByRows(textItems);
@@ -93,8 +163,6 @@ export class PDFParser {
         const optionNumber = parseInt(match[1]);
         const collegeCourse = match[2];
         
-        console.log(`🎯 Found KCET option ${optionNumber}: ${collegeCourse} in row: "${rowText}"`);
-        
         // Extract college code and branch code
         const collegeCode = collegeCourse.substring(0, 4); // E099, E005, E048
         const branchCode = collegeCourse.substring(4); // AI, CS, CA, CY, DS, AD
@@ -113,39 +181,31 @@ export class PDFParser {
           // Extract course name (look for engineering branch names)
           if (!courseName && this.isKCETCourseName(searchText)) {
             courseName = searchRowText;
-            console.log(`�� Found course name: "${courseName}"`);
           }
           
           // Extract college name (look for college keywords)
           if (!collegeName && this.isKCETCollegeName(searchText)) {
             collegeName = searchRowText;
-            console.log(`🏫 Found college name: "${collegeName}"`);
           }
           
           // Extract course fee (look for fee pattern)
           if (!courseFee && this.isKCETCourseFee(searchText)) {
             courseFee = searchRowText;
-            console.log(`💰 Found course fee: "${courseFee}"`);
           }
         }
         
-        // If we found the essential data, create an option
-        if (collegeCode && branchCode) {
-          const option: ParsedOption = {
-            id: `kcet-${optionNumber}-${Date.now()}`,
-            collegeCode,
-            branchCode,
-            collegeName: collegeName || `${collegeCode} College`,
-            branchName: courseName || `${branchCode} Engineering`,
-            location: this.extractKCETLocation(collegeName),
-            collegeCourse,
-            priority: optionNumber,
-            courseFee: courseFee || 'Not specified',
-          };
-          
-          options.push(option);
-          console.log(`✅ Parsed KCET option ${optionNumber}:`, option);
-        }
+        options.push({
+          priority: optionNumber,
+          collegeCode,
+          branchCode,
+          collegeName,
+          branchName: courseName,
+          location: this.extractKCETLocation(collegeName),
+          courseFee,
+          page,
+          source: 'row',
+          rawText: rowText,
+        });
       }
     }
     
@@ -164,34 +224,24 @@ export class PDFParser {
         
         // Check if we already have this option
         if (!options.find(opt => opt.priority === optionNumber)) {
-          console.log(`🔍 Aggressive parsing found option ${optionNumber}: ${collegeCourse}`);
-          
-          const collegeCode = collegeCourse.substring(0, 4);
-          const branchCode = collegeCourse.substring(4);
-          
           // Look for context around this match
           const startIndex = Math.max(0, aggressiveMatch.index - 200);
           const endIndex = Math.min(allText.length, aggressiveMatch.index + 800);
           const contextText = allText.substring(startIndex, endIndex);
-          
-          const courseName = this.extractCourseNameFromContext(contextText);
           const collegeName = this.extractCollegeNameFromContext(contextText);
-          const courseFee = this.extractCourseFeeFromContext(contextText);
           
-          const option: ParsedOption = {
-            id: `kcet-aggressive-${optionNumber}-${Date.now()}`,
-            collegeCode,
-            branchCode,
-            collegeName: collegeName || `${collegeCode} College`,
-            branchName: courseName || `${branchCode} Engineering`,
-            location: this.extractKCETLocation(collegeName),
-            collegeCourse,
+          options.push({
             priority: optionNumber,
-            courseFee: courseFee || 'Not specified',
-          };
-          
-          options.push(option);
-          console.log(`✅ Aggressive parsed option ${optionNumber}:`, option);
+            collegeCode: collegeCourse.substring(0, 4),
+            branchCode: collegeCourse.substring(4),
+            collegeName,
+            branchName: this.extractCourseNameFromContext(contextText),
+            location: this.extractKCETLocation(collegeName),
+            courseFee: this.extractCourseFeeFromContext(contextText),
+            page,
+            source: 'text',
+            rawText: aggressiveMatch[0],
+          });
         }
       }
     }
@@ -218,8 +268,6 @@ export class PDFParser {
         }
       }
       
-      console.log(`🔍 Found ${numbers.length} potential option numbers`);
-      
       // For each number, look for nearby college course codes
       for (const numInfo of numbers) {
         if (options.find(opt => opt.priority === numInfo.number)) continue;
@@ -235,34 +283,25 @@ export class PDFParser {
         
         if (courseMatch) {
           const collegeCourse = courseMatch[1];
-          const collegeCode = collegeCourse.substring(0, 4);
-          const branchCode = collegeCourse.substring(4);
-          
-          console.log(`🔍 Ultra-aggressive found option ${numInfo.number}: ${collegeCourse}`);
           
           // Look for context around this match
           const contextStart = Math.max(0, numInfo.index - 300);
           const contextEnd = Math.min(allText.length, numInfo.index + 600);
           const contextText = allText.substring(contextStart, contextEnd);
-          
-          const courseName = this.extractCourseNameFromContext(contextText);
           const collegeName = this.extractCollegeNameFromContext(contextText);
-          const courseFee = this.extractCourseFeeFromContext(contextText);
           
-          const option: ParsedOption = {
-            id: `kcet-ultra-${numInfo.number}-${Date.now()}`,
-            collegeCode,
-            branchCode,
-            collegeName: collegeName || `${collegeCode} College`,
-            branchName: courseName || `${branchCode} Engineering`,
-            location: this.extractKCETLocation(collegeName),
-            collegeCourse,
+          options.push({
             priority: numInfo.number,
-            courseFee: courseFee || 'Not specified',
-          };
-          
-          options.push(option);
-          console.log(`✅ Ultra-aggressive parsed option ${numInfo.number}:`, option);
+            collegeCode: collegeCourse.substring(0, 4),
+            branchCode: collegeCourse.substring(4),
+            collegeName,
+            branchName: this.extractCourseNameFromContext(contextText),
+            location: this.extractKCETLocation(collegeName),
+            courseFee: this.extractCourseFeeFromContext(contextText),
+            page,
+            source: 'text',
+            rawText: searchArea.trim(),
+          });
         }
       }
     }
@@ -344,7 +383,7 @@ export class PDFParser {
           branchCode: '',
           collegeName: '',
           branchName: '',
-          location: 'Bangalore',
+          location: '',
           collegeCourse: '',
           courseFee: '',
           collegeAddress: ''
@@ -532,7 +571,7 @@ export class PDFParser {
   }
 
   private static extractKCETLocation(collegeName: string): string {
-    if (!collegeName) return 'Bangalore';
+    if (!collegeName) return '';
     
     const locations = [
       'BANGALORE', 'MYSORE', 'MANGALORE', 'BELGAUM', 'HUBLI',
@@ -547,7 +586,7 @@ export class PDFParser {
       }
     }
     
-    return 'Bangalore'; // Default location
+    return '';
   }
 
   // Helper methods for aggressive parsing
@@ -599,57 +638,14 @@ export class PDFParser {
     return match ? match[0] : '';
   }
 
-  // Fallback method for when automatic parsing fails
+  // Tries the block parser first, then the row parser; throws when neither reads an option
   static async parseWithFallback(file: File): Promise<ParsedOption[]> {
-    try {
-      console.log('🚀 Starting advanced KCET PDF parsing...');
-      
-      // Try the advanced KCET parser first
-      const advancedOptions = await this.parseKCETOptionsAdvanced(file);
-      if (advancedOptions.length > 0) {
-        console.log(`✅ Advanced KCET parser successful! Found ${advancedOptions.length} options`);
-        return advancedOptions;
-      }
-      
-      console.log('⚠️ Advanced parser found no options, trying basic parser...');
-      
-      // Fallback to basic parser
-      const basicOptions = await this.parseKCETOptions(file);
-      if (basicOptions.length > 0) {
-        console.log(`✅ Basic KCET parser successful! Found ${basicOptions.length} options`);
-        return basicOptions;
-      }
-      
-      console.log('⚠️ Basic parser also failed, using fallback options...');
-      
-      // Final fallback
-      return [{
-        id: 'fallback-1',
-        collegeCode: 'E001',
-        branchCode: 'CS',
-        collegeName: 'Sample College',
-        branchName: 'Computer Science Engineering',
-        location: 'Bangalore',
-        collegeCourse: 'E001CS',
-        priority: 1,
-        courseFee: 'Not specified',
-      }];
-      
-    } catch (error) {
-      console.error('❌ All parsing methods failed:', error);
-      
-      // Return fallback options
-      return [{
-        id: 'error-fallback-1',
-        collegeCode: 'E001',
-        branchCode: 'CS',
-        collegeName: 'Error - Please check PDF format',
-        branchName: 'Computer Science Engineering',
-        location: 'Bangalore',
-        collegeCourse: 'E001CS',
-        priority: 1,
-        courseFee: 'Not specified',
-      }];
-    }
+    const advancedOptions = await this.parseKCETOptionsAdvanced(file);
+    if (advancedOptions.length > 0) return advancedOptions;
+
+    const basicOptions = await this.parseKCETOptions(file);
+    if (basicOptions.length > 0) return basicOptions;
+
+    throw new Error('No options could be read from this PDF. Please check that it is the KEA option entry printout.');
   }
 }
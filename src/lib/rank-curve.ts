@@ -0,0 +1,139 @@
+import { clamp } from '@/lib/statistics'
+
+export interface ScoreRankSample {
+  score: number
+  rank: number
+}
+
+export interface RankCurve {
+  // Knots of the fitted curve, score ascending and rank strictly falling;
+  // ranks are interpolated log-linearly between them
+  knots: ScoreRankSample[]
+  // Typical error of log rank, from leave-one-out residuals of the samples
+  logSpread: number
+  samples: number
+}
+
+export interface RankEstimate {
+  low: number
+  medium: number
+  high: number
+}
+
+export interface RankCurveOptions {
+  // Rank at a perfect score and at zero, used when the samples do not reach
+  // the ends of the scale
+  topRank?: number
+  bottomRank: number
+  // Floor on the spread so a table that happens to fit well still gets a band
+  minLogSpread?: number
+}
+
+const MIN_LOG_SPREAD = 0.05
+
+// The low-high range is an 80% band
+export const RANK_INTERVAL_Z = 1.2816
+
+interface Point {
+  x: number
+  y: number
+  weight: number
+}
+
+/**
+ * Pool adjacent violators: least-squares fit of y that never increases with
+ * x. Points must be sorted by x; each returned block is one flat stretch of
+ * the fit, summarised by its weighted mean x and y.
+ */
+const fitNonIncreasing = (points: Point[]): Point[] => {
+  const blocks: Point[] = []
+  for (const point of points) {
+    blocks.push({ ...point })
+    while (blocks.length > 1 && blocks[blocks.length - 2].y <= blocks[blocks.length - 1].y) {
+      const last = blocks.pop()!
+      const prev = blocks.pop()!
+      const weight = prev.weight + last.weight
+      blocks.push({
+        x: (prev.x * prev.weight + last.x * last.weight) / weight,
+        y: (prev.y * prev.weight + last.y * last.weight) / weight,
+        weight
+      })
+    }
+  }
+  return blocks
+}
+
+const isUsable = (sample: ScoreRankSample) => sample.rank > 0 && isFinite(sample.score)
+
+const toKnots = (samples: ScoreRankSample[], options: RankCurveOptions): Point[] => {
+  const points = samples
+    .map(sample => ({ x: sample.score, y: Math.log(sample.rank), weight: 1 }))
+    .sort((a, b) => a.x - b.x)
+  if (points.length === 0) throw new Error('No score-rank samples to fit')
+  if (points[0].x > 0) points.unshift({ x: 0, y: Math.log(options.bottomRank), weight: 1 })
+  if (points[points.length - 1].x < 100) points.push({ x: 100, y: Math.log(options.topRank ?? 1), weight: 1 })
+  return fitNonIncreasing(points)
+}
+
+const interpolate = (knots: Point[], x: number): number => {
+  if (knots.length === 1 || x <= knots[0].x) return knots[0].y
+  const last = knots[knots.length - 1]
+  if (x >= last.x) return last.y
+  const i = knots.findIndex(knot => knot.x >= x)
+  const a = knots[i - 1]
+  const b = knots[i]
+  return a.y + (b.y - a.y) * (x - a.x) / (b.x - a.x)
+}
+
+/**
+ * Fit a monotone score to rank curve: isotonic regression of log rank on
+ * score, interpolated between the pooled blocks so better scores always give
+ * strictly better ranks. The spread comes from predicting each sample with
+ * the curve fitted on the others.
+ */
+export const fitRankCurve = (samples: ScoreRankSample[], options: RankCurveOptions): RankCurve => {
+  const usable = samples.filter(isUsable)
+  const knots = toKnots(usable, options)
+  const residuals = usable.length > 2
+    ? usable.map((sample, i) => {
+        const others = toKnots(usable.filter((_, j) => j !== i), options)
+        return Math.log(sample.rank) - interpolate(others, sample.score)
+      })
+    : []
+  const rms = residuals.length > 0 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length) : 0
+  return {
+    knots: knots.map(knot => ({ score: knot.x, rank: Math.exp(knot.y) })),
+    logSpread: Math.max(options.minLogSpread ?? MIN_LOG_SPREAD, rms),
+    samples: usable.length
+  }
+}
+
+/** Log rank at a score, clamped to the ends of the curve. */
+export const getLogRank = (curve: RankCurve, score: number): number =>
+  interpolate(curve.knots.map(knot => ({ x: knot.score, y: Math.log(knot.rank), weight: 1 })), clamp(score, 0, 100))
+
+/** Rank at a score with its 80% band, capped to the ranks that exist. */
+export const estimateRank = (curve: RankCurve, score: number, maxRank: number): RankEstimate => {
+  const logRank = getLogRank(curve, score)
+  const toRank = (value: number) => Math.round(clamp(Math.exp(value), 1, maxRank))
+  return {
+    low: toRank(logRank - RANK_INTERVAL_Z * curve.logSpread),
+    medium: toRank(logRank),
+    high: toRank(logRank + RANK_INTERVAL_Z * curve.logSpread)
+  }
+}
+
+/**
+ * Least score whose log rank on the curve is at most the given one; the
+ * inverse of getLogRank. Null when the rank is better than the curve reaches.
+ */
+export const getScoreForLogRank = (curve: RankCurve, logRank: number): number | null => {
+  const knots = curve.knots.map(knot => ({ x: knot.score, y: Math.log(knot.rank) }))
+  if (logRank >= knots[0].y) return 0
+  const last = knots[knots.length - 1]
+  if (logRank < last.y) return null
+  const i = knots.findIndex(knot => knot.y <= logRank)
+  const a = knots[i - 1]
+  const b = knots[i]
+  return a.x + (b.x - a.x) * (logRank - a.y) / (b.y - a.y)
+}
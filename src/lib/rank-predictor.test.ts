@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'vitest'
-import { predictKCETRank, getPercentile, calculatePercentile, getRankAnalysis, getCollegeSuggestions } from './rank-predictor'
+import { predictKCETRank, getPercentile, calculatePercentile, getRankAnalysis, getCollegeSuggestions, getRankCurve, kcet2025RankTable, MAX_PREDICTED_RANK } from './rank-predictor'
+import { fitRankCurve, getLogRank, RANK_INTERVAL_Z } from './rank-curve'
 
 // Test the rank prediction logic
 describe('Rank Predictor Logic', () => {
@@ -36,7 +37,9 @@ describe('Rank Predictor Logic', () => {
     expect(getPercentile(95)).toBe('Top 1%')
     expect(getPercentile(90)).toBe('Top 5%')
     expect(getPercentile(80)).toBe('Top 15%')
-    expect(getPercentile(70)).toBe('Below Average')
+    expect(getPercentile(70)).toBe('Top 30%')
+    expect(getPercentile(60)).toBe('Top 50%')
+    expect(getPercentile(55)).toBe('Below Average')
   })
 
   test('should calculate percentile correctly', () => {
@@ -45,17 +48,63 @@ describe('Rank Predictor Logic', () => {
   })
 
   test('should provide rank analysis', () => {
-    expect(getRankAnalysis(500)).toContain('Elite rank')
-    expect(getRankAnalysis(3000)).toContain('Great rank')
-    expect(getRankAnalysis(10000)).toContain('Solid rank')
+    expect(getRankAnalysis(150)).toContain('Elite rank')
+    expect(getRankAnalysis(500)).toContain('Excellent rank')
+    expect(getRankAnalysis(3000)).toContain('Very good rank')
+    expect(getRankAnalysis(10000)).toContain('Above average rank')
   })
 
   test('should suggest colleges based on rank and category', () => {
     const generalCollege = getCollegeSuggestions(500, 'general')
     expect(generalCollege.name).toContain('MSRIT')
     
-    const obcCollege = getCollegeSuggestions(2000, 'obc')
+    const obcCollege = getCollegeSuggestions(1500, 'obc')
     expect(obcCollege.name).toContain('MSRIT')
+    expect(getCollegeSuggestions(2000, 'obc').name).toContain('SIT')
+  })
+
+  test('better marks never give a worse rank', () => {
+    let previous = Infinity
+    for (let cet = 0; cet <= 180; cet += 3) {
+      const result = predictKCETRank(cet, cet / 1.8)
+      expect(result.medium).toBeLessThanOrEqual(previous)
+      expect(result.low).toBeLessThanOrEqual(result.medium)
+      expect(result.high).toBeGreaterThanOrEqual(result.medium)
+      previous = result.medium
+    }
+    const { knots } = getRankCurve()
+    knots.slice(1).forEach((knot, i) => {
+      expect(knot.score).toBeGreaterThan(knots[i].score)
+      expect(knot.rank).toBeLessThan(knots[i].rank)
+    })
+  })
+
+  test('follows the sample table and picks it by year', () => {
+    // Samples that already agree with their neighbours are reproduced exactly
+    expect(predictKCETRank(162, 90).medium).toBe(1245)
+    expect(predictKCETRank(144, 80).medium).toBe(8500)
+    expect(predictKCETRank(144, 80, '2025').medium).toBe(8500)
+    expect(() => predictKCETRank(144, 80, '1999')).toThrow(/1999/)
+  })
+
+  test('band of a fit without the reported results covers them', () => {
+    // The reported results are held out of the fit, so this checks the band
+    // against ranks it never saw
+    const reported = [{ score: 67.27, rank: 25000 }, { score: 58.07, rank: 69918 }]
+    const estimates = kcet2025RankTable.filter(sample => !reported.some(r => r.score === sample.score))
+    expect(estimates).toHaveLength(kcet2025RankTable.length - reported.length)
+    const curve = fitRankCurve(estimates, { bottomRank: MAX_PREDICTED_RANK })
+    for (const result of reported) {
+      expect(Math.abs(Math.log(result.rank) - getLogRank(curve, result.score))).toBeLessThanOrEqual(RANK_INTERVAL_Z * curve.logSpread)
+    }
+  })
+
+  test('band width is pinned to the 2025 table', () => {
+    // A change in the table that moves this needs a look at the band it shows
+    expect(getRankCurve().logSpread).toBeCloseTo(0.2996, 3)
+    const { low, high } = predictKCETRank(144, 80)
+    expect(low).toBe(Math.round(8500 * Math.exp(-RANK_INTERVAL_Z * 0.29957)))
+    expect(high).toBe(Math.round(8500 * Math.exp(RANK_INTERVAL_Z * 0.29957)))
   })
 })
 
@@ -1,5 +1,9 @@
-// KCET 2025 Rank Analysis - Enhanced prediction table based on comprehensive data
-export const kcet2025RankTable = [
+import { estimateRank, fitRankCurve, type RankCurve, type ScoreRankSample } from '@/lib/rank-curve'
+
+// KCET 2025 Rank Analysis - Enhanced prediction table based on comprehensive data.
+// The 60-70% band estimates (70% = 30,000, 65% = 50,000, 60% = 80,000) ranked
+// worse than the reported results below and were dropped in their favour
+export const kcet2025RankTable: ScoreRankSample[] = [
   // Top performers (95-100%)
   { score: 96.22, rank: 81 },
   { score: 94.06, rank: 308 },
@@ -9,16 +13,12 @@ export const kcet2025RankTable = [
   
   // Mid-range performers (70-80%)
   { score: 75.00, rank: 16000 },
-  { score: 70.00, rank: 30000 },
   
   // Real data point: KCET 95 + 89% PUC = Rank ~25,000
-  { score: 67.3, rank: 25000 }, // KCET 95/180 (52.78%) + PUC 89% = 67.3% composite
-  
-  { score: 65.00, rank: 50000 },
-  { score: 60.00, rank: 80000 },
+  { score: 67.27, rank: 25000 }, // KCET 95/180 (52.78%) + PUC 89% = 67.27% composite
   
-  // Real data point: KCET 72 + 85% PUC = Rank 69,918
-  { score: 58.0, rank: 69918 }, // KCET 72/180 (40%) + PUC 85% = 58% composite
+  // Real data point: KCET 71 + 86% PUC = Rank 69,918
+  { score: 58.07, rank: 69918 }, // KCET 71/180 (39.44%) + PUC 86% = 58.07% composite
   
   // Lower performers (50-60%)
   { score: 50.00, rank: 155000 },
@@ -42,17 +42,6 @@ export const rankGapAnalysis = [
   { range: "30-40%", rankRange: "2,35,000-2,59,000", candidatesPer1Percent: "10,000" }
 ]
 
-// Cutoff estimates for 2025
-export const cutoffEstimates2025 = [
-  { targetRank: "Top 100", expectedAggregate: "96%+" },
-  { targetRank: "Top 1,000", expectedAggregate: "92.5%+" },
-  { targetRank: "Top 5,000", expectedAggregate: "84.5%+" },
-  { targetRank: "Top 10,000", expectedAggregate: "79%+" },
-  { targetRank: "Top 20,000", expectedAggregate: "74.5%+" },
-  { targetRank: "Top 50,000", expectedAggregate: "65%+" },
-  { targetRank: "Top 100,000", expectedAggregate: "57%+" }
-]
-
 // Legacy rank table for backward compatibility
 export const rankTable = kcet2025RankTable
 
@@ -80,66 +69,60 @@ export interface RankAnalysis {
   improvementPotential: string
 }
 
-// KCET 2025 Rank Analysis - Realistic prediction algorithm
-// Based on actual KCET data patterns and real-world results
+// Score to rank samples per exam year. trendData has ranks but no scores, so
+// it cannot be fitted; add a year here once its sample table is collected
+export const RANK_SAMPLE_TABLES: Record<string, ScoreRankSample[]> = {
+  2025: kcet2025RankTable
+}
 
-// Realistic rank prediction using polynomial curve fitting
-export const predictKCETRank = (cet: number, puc: number): RankPrediction => {
-  try {
-    const kcetPercentage = (cet / 180) * 100
-    // Using 60/40 weight based on KCET 2025 analysis
-    const combinedScore = 0.6 * kcetPercentage + 0.4 * puc
+export const DEFAULT_SAMPLE_YEAR = '2025'
 
-    if (isNaN(combinedScore) || combinedScore < 0 || combinedScore > 100) {
-      throw new Error('Please enter valid marks (KCET: 0-180, PUC: 0-100)')
-    }
+// Predicted ranks never go beyond this; also the rank assumed at a zero score
+export const MAX_PREDICTED_RANK = 300000
 
-    // Realistic rank calculation using polynomial curve
-    // This curve is calibrated to match real KCET data patterns - EXTREMELY CONSERVATIVE
-    let predictedRank: number
-    
-    if (combinedScore >= 95) {
-      // Top performers - very steep curve
-      predictedRank = Math.max(1, Math.round(100 - (combinedScore - 95) * 20))
-    } else if (combinedScore >= 90) {
-      // High performers - steep curve
-      predictedRank = Math.round(100 + Math.pow(95 - combinedScore, 2) * 15)
-    } else if (combinedScore >= 80) {
-      // Good performers - moderate curve
-      predictedRank = Math.round(2000 + Math.pow(90 - combinedScore, 2) * 40)
-    } else if (combinedScore >= 70) {
-      // Average performers - flatter curve
-      predictedRank = Math.round(8000 + Math.pow(80 - combinedScore, 2) * 80)
-    } else if (combinedScore >= 60) {
-      // Below average - very flat curve
-      predictedRank = Math.round(25000 + Math.pow(70 - combinedScore, 2) * 150)
-    } else if (combinedScore >= 50) {
-      // Poor performers - extremely flat curve
-      predictedRank = Math.round(60000 + Math.pow(60 - combinedScore, 2) * 300)
-    } else {
-      // Very poor performers - massive curve
-      predictedRank = Math.round(150000 + Math.pow(50 - combinedScore, 2) * 800)
-    }
+const rankCurves = new Map<string, RankCurve>()
 
-    // Ensure rank doesn't exceed realistic maximum
-    predictedRank = Math.min(predictedRank, 300000)
+/** Monotone curve fitted to a year's sample table, fitted once per year. */
+export const getRankCurve = (year: string = DEFAULT_SAMPLE_YEAR): RankCurve => {
+  const samples = RANK_SAMPLE_TABLES[year]
+  if (!samples) throw new Error(`No score-rank samples for ${year}`)
+  let curve = rankCurves.get(year)
+  if (!curve) {
+    curve = fitRankCurve(samples, { bottomRank: MAX_PREDICTED_RANK })
+    rankCurves.set(year, curve)
+  }
+  return curve
+}
 
-    // Add realistic variance (±5% for uncertainty)
-    const variance = Math.round(predictedRank * 0.05)
-    const low = Math.max(1, predictedRank - variance)
-    const high = Math.min(300000, predictedRank + variance)
+// Using 60/40 weight based on KCET 2025 analysis
+export const COMPOSITE_WEIGHTS = { cet: 0.6, puc: 0.4 }
 
-    return {
-      low,
-      medium: predictedRank,
-      high,
-      composite: combinedScore,
-      percentile: calculatePercentile(predictedRank),
-      rankBand: getRankBand(predictedRank),
-      competitionLevel: getCompetitionLevel(combinedScore)
-    }
-  } catch (error) {
-    throw new Error(error instanceof Error ? error.message : 'Error calculating rank')
+export const getCompositeScore = (cet: number, puc: number): number => {
+  const kcetPercentage = (cet / 180) * 100
+  return COMPOSITE_WEIGHTS.cet * kcetPercentage + COMPOSITE_WEIGHTS.puc * puc
+}
+
+/**
+ * Rank from KCET marks and PUC percentage on the curve fitted to the sample
+ * table of the given year. The low-high range is the band the table's own
+ * samples fall in when each is predicted from the others.
+ */
+export const predictKCETRank = (cet: number, puc: number, year: string = DEFAULT_SAMPLE_YEAR): RankPrediction => {
+  const combinedScore = getCompositeScore(cet, puc)
+  if (isNaN(combinedScore) || combinedScore < 0 || combinedScore > 100) {
+    throw new Error('Please enter valid marks (KCET: 0-180, PUC: 0-100)')
+  }
+
+  const { low, medium: predictedRank, high } = estimateRank(getRankCurve(year), combinedScore, MAX_PREDICTED_RANK)
+
+  return {
+    low,
+    medium: predictedRank,
+    high,
+    composite: combinedScore,
+    percentile: calculatePercentile(predictedRank),
+    rankBand: getRankBand(predictedRank),
+    competitionLevel: getCompetitionLevel(combinedScore)
   }
 }
 
@@ -195,8 +178,7 @@ export const getPercentile = (composite: number): string => {
 
 export const calculatePercentile = (rank: number): string => {
   const totalCandidates = 260000 // Updated based on KCET 2025 data
-  const percentile = ((totalCandidates - rank) / totalCandidates * 100).toFixed(2)
-  return `${percentile}%`
+  return (Math.max(0, totalCandidates - rank) / totalCandidates * 100).toFixed(2)
 }
 
 export const getRankAnalysis = (rank: number): string => {
@@ -213,11 +195,6 @@ export const getRankAnalysis = (rank: number): string => {
   return 'Very poor rank. Explore all possible options including diploma courses.'
 }
 
-// Get cutoff estimates for target ranks
-export const getCutoffEstimates = () => {
-  return cutoffEstimates2025
-}
-
 // Enhanced college suggestions based on KCET 2025 data
 export const getCollegeSuggestions = (rank: number, category: string) => {
   const colleges = {
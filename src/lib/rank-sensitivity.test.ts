@@ -0,0 +1,32 @@
+import { describe, test, expect } from 'vitest'
+import { getMarginalGain, getMarginalGainCurve, getRankGrid } from './rank-sensitivity'
+import { predictKCETRank } from './rank-predictor'
+
+describe('Rank sensitivity', () => {
+  test('grid ranks improve with either mark', () => {
+    const grid = getRankGrid({ kcetValues: [60, 90, 120, 150], pucValues: [60, 80, 100] })
+    expect(grid.rows).toHaveLength(3)
+    expect(grid.rows[1][2]).toEqual({ kcet: 120, puc: 80, rank: predictKCETRank(120, 80).medium })
+    for (let r = 0; r < grid.rows.length; r++) {
+      for (let c = 0; c < grid.kcetValues.length; c++) {
+        if (c > 0) expect(grid.rows[r][c].rank).toBeLessThanOrEqual(grid.rows[r][c - 1].rank)
+        if (r > 0) expect(grid.rows[r][c].rank).toBeLessThanOrEqual(grid.rows[r - 1][c].rank)
+      }
+    }
+  })
+
+  test('marginal gain is the rank one more mark or percent buys', () => {
+    const gain = getMarginalGain(100, 80)
+    expect(gain.perKcetMark).toBe(predictKCETRank(100, 80).medium - predictKCETRank(101, 80).medium)
+    expect(gain.perPucPercent).toBe(predictKCETRank(100, 80).medium - predictKCETRank(100, 81).medium)
+    expect(gain.perKcetMark).toBeGreaterThan(0)
+    expect(getMarginalGain(180, 100)).toMatchObject({ perKcetMark: null, perPucPercent: null })
+  })
+
+  test('gain curve covers every KCET mark and sums to the whole range', () => {
+    const curve = getMarginalGainCurve(85)
+    expect(curve).toHaveLength(181)
+    const total = curve.reduce((sum, point) => sum + (point.perKcetMark ?? 0), 0)
+    expect(total).toBe(curve[0].rank - curve[180].rank)
+  })
+})
@@ -0,0 +1,66 @@
+import { DEFAULT_SAMPLE_YEAR, predictKCETRank } from '@/lib/rank-predictor'
+
+export interface RankGridOptions {
+  kcetValues?: number[]
+  pucValues?: number[]
+  year?: string
+}
+
+export interface RankGridCell {
+  kcet: number
+  puc: number
+  rank: number
+}
+
+export interface RankGrid {
+  kcetValues: number[]
+  pucValues: number[]
+  // One row per PUC percentage, one cell per KCET mark value
+  rows: RankGridCell[][]
+}
+
+export interface MarginalGain {
+  kcet: number
+  puc: number
+  rank: number
+  // Ranks gained by one more KCET mark or one more PUC percent; null at full marks
+  perKcetMark: number | null
+  perPucPercent: number | null
+}
+
+const KCET_MAX = 180
+const PUC_MAX = 100
+
+const range = (from: number, to: number, step: number): number[] =>
+  Array.from({ length: Math.floor((to - from) / step) + 1 }, (_, i) => from + i * step)
+
+export const DEFAULT_GRID_KCET = range(0, KCET_MAX, 10)
+export const DEFAULT_GRID_PUC = range(40, PUC_MAX, 5)
+
+/** Predicted rank over every pairing of KCET marks and PUC percentage. */
+export const getRankGrid = (options: RankGridOptions = {}): RankGrid => {
+  const kcetValues = options.kcetValues ?? DEFAULT_GRID_KCET
+  const pucValues = options.pucValues ?? DEFAULT_GRID_PUC
+  const year = options.year ?? DEFAULT_SAMPLE_YEAR
+  return {
+    kcetValues,
+    pucValues,
+    rows: pucValues.map(puc => kcetValues.map(kcet => ({ kcet, puc, rank: predictKCETRank(kcet, puc, year).medium })))
+  }
+}
+
+/** Ranks one more KCET mark and one more PUC percent are worth at the given marks. */
+export const getMarginalGain = (kcet: number, puc: number, year: string = DEFAULT_SAMPLE_YEAR): MarginalGain => {
+  const rank = predictKCETRank(kcet, puc, year).medium
+  return {
+    kcet,
+    puc,
+    rank,
+    perKcetMark: kcet + 1 <= KCET_MAX ? rank - predictKCETRank(kcet + 1, puc, year).medium : null,
+    perPucPercent: puc + 1 <= PUC_MAX ? rank - predictKCETRank(kcet, puc + 1, year).medium : null
+  }
+}
+
+/** Marginal gain at every whole KCET mark for a fixed PUC percentage. */
+export const getMarginalGainCurve = (puc: number, year: string = DEFAULT_SAMPLE_YEAR): MarginalGain[] =>
+  range(0, KCET_MAX, 1).map(kcet => getMarginalGain(kcet, puc, year))
@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest'
+import { getKcetMarksNeeded, getMilestoneScores, getRequiredMarks, getRequiredScore, getTargetCutoff } from './reverse-rank-predictor'
+import { getRankCurve, MAX_PREDICTED_RANK, predictKCETRank } from './rank-predictor'
+import { estimateRank } from './rank-curve'
+import type { CutoffRecord } from './cutoff-repository'
+
+const cutoff = (overrides: Partial<CutoffRecord>): CutoffRecord => ({
+  institute: 'R V College of Engineering',
+  institute_code: 'E005',
+  course: 'COMPUTER SCIENCE AND ENGINEERING',
+  course_code: 'CS',
+  category: 'GM',
+  cutoff_rank: 300,
+  year: '2024',
+  round: 'R1',
+  ...overrides
+})
+
+describe('Reverse rank predictor', () => {
+  test('the required composite predicts the target rank', () => {
+    for (const target of [150, 2000, 15000, 60000, 150000]) {
+      const required = getRequiredScore(target)
+      expect(Math.abs(estimateRank(getRankCurve(), required.composite, MAX_PREDICTED_RANK).medium - target) / target).toBeLessThan(0.01)
+      expect(required.safeComposite).toBeGreaterThan(required.composite)
+    }
+    expect(() => getRequiredScore(0)).toThrow()
+  })
+
+  test('marks needed are the least whole marks reaching the target', () => {
+    const required = getRequiredScore(20000)
+    for (const row of getRequiredMarks(required, [60, 75, 90])) {
+      expect(row.kcet).not.toBeNull()
+      expect(predictKCETRank(row.kcet!, row.puc).medium).toBeLessThanOrEqual(20000)
+      if (row.kcet! > 0) expect(predictKCETRank(row.kcet! - 1, row.puc).medium).toBeGreaterThan(20000)
+      expect(row.safeKcet!).toBeGreaterThanOrEqual(row.kcet!)
+    }
+  })
+
+  test('reports unreachable and trivially reachable targets', () => {
+    expect(getKcetMarksNeeded(95, 50)).toBeNull()
+    expect(getKcetMarksNeeded(20, 100)).toBe(0)
+    expect(getKcetMarksNeeded(null, 90)).toBeNull()
+    expect(getKcetMarksNeeded(60, 60)).toBe(180 * 60 / 100)
+  })
+
+  test('milestone composites rise as the target rank improves', () => {
+    const composites = getMilestoneScores().map(m => m.composite)
+    expect(composites).toEqual([...composites].sort((a, b) => b - a))
+  })
+
+  test('targets the latest closing rank of a college-course-category', () => {
+    const records = [
+      cutoff({}),
+      cutoff({ year: '2025', cutoff_rank: 350 }),
+      cutoff({ year: '2025', round: 'R2', cutoff_rank: 500 }),
+      cutoff({ year: '2025', category: 'SCG', cutoff_rank: 9000 })
+    ]
+    const target = { institute_code: 'E005', course: 'CS', category: 'GM' }
+    expect(getTargetCutoff(records, target)?.cutoff_rank).toBe(350)
+    expect(getTargetCutoff(records, { ...target, round: 'R2' })?.cutoff_rank).toBe(500)
+    expect(getTargetCutoff(records, { ...target, category: '2AG' })).toBeNull()
+  })
+})
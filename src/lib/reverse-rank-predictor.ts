@@ -0,0 +1,88 @@
+import { getScoreForLogRank, RANK_INTERVAL_Z } from '@/lib/rank-curve'
+import { COMPOSITE_WEIGHTS, DEFAULT_SAMPLE_YEAR, getRankCurve } from '@/lib/rank-predictor'
+import { queryCutoffs, type CutoffRecord } from '@/lib/cutoff-repository'
+import { Round } from '@/lib/rounds'
+
+export interface RequiredScore {
+  targetRank: number
+  // Composite whose predicted rank is the target
+  composite: number
+  // Composite whose pessimistic end of the rank band still reaches the
+  // target; null when no composite is that safe
+  safeComposite: number | null
+}
+
+export interface RequiredMarks {
+  puc: number
+  // Least KCET marks out of 180 with that PUC percentage; null when even
+  // full marks fall short
+  kcet: number | null
+  safeKcet: number | null
+}
+
+export interface CutoffTarget {
+  institute_code: string
+  course: string
+  category: string
+  round?: string
+}
+
+const KCET_MAX = 180
+
+// PUC percentages listed in the required marks table
+export const REQUIRED_MARKS_PUC_STEPS = [50, 60, 70, 75, 80, 85, 90, 95, 100]
+
+// Ranks the milestone table answers "what composite do I need" for
+export const TARGET_RANK_MILESTONES = [100, 1000, 5000, 10000, 20000, 50000, 100000]
+
+/**
+ * Composite needed for a rank on a year's curve: the score where the
+ * predicted rank reaches the target, and the score where even the high end
+ * of the 80% band does.
+ */
+export const getRequiredScore = (targetRank: number, year: string = DEFAULT_SAMPLE_YEAR): RequiredScore => {
+  if (!Number.isFinite(targetRank) || targetRank < 1) throw new Error('Target rank must be 1 or more')
+  const curve = getRankCurve(year)
+  const logRank = Math.log(targetRank)
+  return {
+    targetRank,
+    composite: getScoreForLogRank(curve, logRank) ?? 100,
+    safeComposite: getScoreForLogRank(curve, logRank - RANK_INTERVAL_Z * curve.logSpread)
+  }
+}
+
+/** Least whole KCET marks that reach a composite with the given PUC percentage. */
+export const getKcetMarksNeeded = (composite: number | null, puc: number): number | null => {
+  if (composite === null) return null
+  const kcetPercentage = (composite - COMPOSITE_WEIGHTS.puc * puc) / COMPOSITE_WEIGHTS.cet
+  // Guard against 89.99999 becoming 90 and then 91 marks
+  const marks = Math.max(0, Math.ceil(Number((kcetPercentage / 100 * KCET_MAX).toFixed(6))))
+  return marks > KCET_MAX ? null : marks
+}
+
+/** KCET marks needed at each PUC percentage for a required score. */
+export const getRequiredMarks = (required: RequiredScore, pucValues: number[] = REQUIRED_MARKS_PUC_STEPS): RequiredMarks[] =>
+  pucValues.map(puc => ({
+    puc,
+    kcet: getKcetMarksNeeded(required.composite, puc),
+    safeKcet: getKcetMarksNeeded(required.safeComposite, puc)
+  }))
+
+/** Composite needed for each milestone rank, replacing the hand-written estimates. */
+export const getMilestoneScores = (year: string = DEFAULT_SAMPLE_YEAR): RequiredScore[] =>
+  TARGET_RANK_MILESTONES.map(rank => getRequiredScore(rank, year))
+
+/**
+ * Closing rank of a college-course-category in the latest year that has the
+ * round, or null when it was never listed.
+ */
+export const getTargetCutoff = (records: CutoffRecord[], target: CutoffTarget): CutoffRecord | null => {
+  const matches = queryCutoffs(records, {
+    institute: target.institute_code,
+    course: target.course,
+    category: target.category,
+    round: target.round ?? Round.Round1
+  })
+  if (matches.length === 0) return null
+  return matches.reduce((latest, record) => (record.year > latest.year ? record : latest))
+}
@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'vitest'
+import { analyzeRoundMovement, formatSlide, getYearMovement } from './round-movement'
+import { getHistoryKey } from './admission-chance'
+import type { CutoffRecord } from './cutoff-repository'
+
+const line = (year: string, round: string, cutoff_rank: number, category = 'GM'): CutoffRecord => ({
+  institute: 'RVCE', institute_code: 'E005', course: 'Computer Science And Engineering', course_code: 'CS',
+  category, cutoff_rank, year, round
+})
+
+const key = getHistoryKey(line('2024', 'R1', 0))
+
+describe('Round movement', () => {
+  test('typical slide is the median of the yearly slides', () => {
+    const movement = analyzeRoundMovement([
+      line('2022', 'R1', 1000), line('2022', 'EXT', 1100),
+      line('2023', 'R2', 1300), line('2023', 'R1', 1000),
+      line('2024', 'R1', 1000), line('2024', 'R2', 1200), line('2024', 'EXT', 1500)
+    ]).get(key)!
+
+    expect(movement.years.map(y => y.year)).toEqual(['2022', '2023', '2024'])
+    expect(movement.years[1].points.map(p => p.round)).toEqual(['R1', 'R2'])
+    expect(movement.years.map(y => y.slide)).toEqual([0.1, 0.3, 0.5])
+    expect(movement.typicalSlide).toBeCloseTo(0.3, 6)
+    expect(formatSlide(movement.typicalSlide)).toBe('+30%')
+  })
+
+  test('years with a single allotment round have no slide', () => {
+    const movement = analyzeRoundMovement([
+      // Mock allotment assigns no seats, so it does not count as a round
+      line('2023', 'MOCK', 800), line('2023', 'R1', 1000),
+      line('2024', 'R1', 1000), line('2024', 'R2', 900)
+    ]).get(key)!
+
+    expect(getYearMovement(movement, '2023')).toMatchObject({ points: [{ round: 'R1', cutoff_rank: 1000 }], slide: null })
+    expect(getYearMovement(movement, '2024')?.slide).toBeCloseTo(-0.1, 6)
+    expect(movement.typicalSlide).toBeCloseTo(-0.1, 6)
+    expect(getYearMovement(movement, '2025')).toBeUndefined()
+  })
+
+  test('keeps categories apart and handles empty history', () => {
+    const movements = analyzeRoundMovement([line('2024', 'R1', 1000), line('2024', 'R1', 5000, 'SCG')])
+    expect(movements.size).toBe(2)
+    expect(movements.get(key)?.typicalSlide).toBeNull()
+    expect(formatSlide(null)).toBe('—')
+
+    expect(analyzeRoundMovement([]).size).toBe(0)
+    expect(getYearMovement(undefined, '2024')).toBeUndefined()
+  })
+})
@@ -0,0 +1,76 @@
+import { getHistoryKey } from '@/lib/admission-chance'
+import { type CutoffRecord } from '@/lib/cutoff-repository'
+import { compareRounds, Round } from '@/lib/rounds'
+import { median } from '@/lib/statistics'
+
+export interface RoundPoint {
+  round: string
+  cutoff_rank: number
+}
+
+export interface YearMovement {
+  year: string
+  // Allotment rounds of that year in counselling order (mock round excluded)
+  points: RoundPoint[]
+  // Relative change of the closing rank from the first to the last round;
+  // +0.25 means the cutoff slid 25% further (easier) by the final round
+  slide: number | null
+}
+
+export interface SeatLineMovement {
+  key: string
+  years: YearMovement[]
+  // Median slide across the years with at least two rounds
+  typicalSlide: number | null
+}
+
+const toYearMovement = (year: string, records: CutoffRecord[]): YearMovement => {
+  const byRound = new Map<string, number>()
+  for (const record of records) {
+    // Mock allotment does not assign seats, so it says nothing about freezing
+    if (record.round === Round.Mock) continue
+    byRound.set(record.round, Math.max(byRound.get(record.round) ?? 0, record.cutoff_rank))
+  }
+  const points = [...byRound.entries()]
+    .map(([round, cutoff_rank]) => ({ round, cutoff_rank }))
+    .sort((a, b) => compareRounds(a.round, b.round))
+  const slide = points.length > 1
+    ? (points[points.length - 1].cutoff_rank - points[0].cutoff_rank) / points[0].cutoff_rank
+    : null
+  return { year, points, slide }
+}
+
+/**
+ * Per institute/course/category: how far the closing rank moved between the
+ * rounds of each year, and the typical slide over all years.
+ */
+export const analyzeRoundMovement = (records: CutoffRecord[]): Map<string, SeatLineMovement> => {
+  const grouped = new Map<string, Map<string, CutoffRecord[]>>()
+  for (const record of records) {
+    const key = getHistoryKey(record)
+    const years = grouped.get(key) ?? new Map<string, CutoffRecord[]>()
+    const list = years.get(record.year)
+    if (list) list.push(record)
+    else years.set(record.year, [record])
+    grouped.set(key, years)
+  }
+
+  const movements = new Map<string, SeatLineMovement>()
+  for (const [key, years] of grouped) {
+    const yearly = [...years.entries()]
+      .map(([year, list]) => toYearMovement(year, list))
+      .sort((a, b) => a.year.localeCompare(b.year))
+    const slides = yearly.map(y => y.slide).filter((s): s is number => s !== null)
+    movements.set(key, { key, years: yearly, typicalSlide: slides.length > 0 ? median(slides) : null })
+  }
+  return movements
+}
+
+export const getYearMovement = (movement: SeatLineMovement | undefined, year: string): YearMovement | undefined => {
+  return movement?.years.find(y => y.year === year)
+}
+
+export const formatSlide = (slide: number | null): string => {
+  if (slide === null) return '—'
+  return `${slide >= 0 ? '+' : ''}${(slide * 100).toFixed(0)}%`
+}
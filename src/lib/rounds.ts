@@ -0,0 +1,81 @@
+// Canonical KCET counselling rounds. Every dataset spells rounds differently
+// ("Round 1", "R1", "MR1", "Round 3 (Extended)", "EXT", file names such as
+// kcet-2024-mock-round1-cutoffs.xlsx); everything is parsed onto these ids.
+export const Round = {
+  Mock: 'MOCK',
+  Round1: 'R1',
+  Round2: 'R2',
+  Extended: 'EXT',
+  Special: 'SPECIAL'
+} as const
+
+export type Round = typeof Round[keyof typeof Round]
+
+// Chronological order of the counselling rounds
+export const ROUND_ORDER: Round[] = [Round.Mock, Round.Round1, Round.Round2, Round.Extended, Round.Special]
+
+const ROUND_LABELS: Record<Round, string> = {
+  MOCK: 'Mock Round 1',
+  R1: 'Round 1',
+  R2: 'Round 2',
+  EXT: 'Round 3 (Extended)',
+  SPECIAL: 'Special Round'
+}
+
+const ROUND_SHORT_LABELS: Record<Round, string> = {
+  MOCK: 'Mock',
+  R1: 'R1',
+  R2: 'R2',
+  EXT: 'R3 / EXT',
+  SPECIAL: 'Special'
+}
+
+const NUMBERED_ROUNDS: Record<string, Round> = {
+  '1': Round.Round1,
+  '2': Round.Round2,
+  '3': Round.Extended,
+  'FIRST': Round.Round1,
+  'SECOND': Round.Round2,
+  'THIRD': Round.Extended
+}
+
+/**
+ * Parse any known spelling of a round (id, label, abbreviation or file name).
+ * Returns null when the value does not name a round.
+ */
+export const parseRound = (value: unknown): Round | null => {
+  const key = String(value ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+  if (!key) return null
+
+  // Checked first: mock file names also contain "round1"
+  if (key.includes('MOCK') || /^MR\d?$/.test(key)) return Round.Mock
+  if (key.includes('SPECIAL') || key === 'SPL') return Round.Special
+  if (key.includes('EXT')) return Round.Extended
+
+  const numbered = key.match(/^(?:R|ROUND)?(\d)$/) ?? key.match(/ROUND(\d|FIRST|SECOND|THIRD)/) ?? key.match(/^(FIRST|SECOND|THIRD)ROUND$/)
+  return numbered ? NUMBERED_ROUNDS[numbered[1]] ?? null : null
+}
+
+export const isRound = (value: unknown): value is Round => {
+  return ROUND_ORDER.includes(value as Round)
+}
+
+export const getRoundLabel = (value: string): string => {
+  const round = parseRound(value)
+  return round ? ROUND_LABELS[round] : value
+}
+
+export const getRoundShortLabel = (value: string): string => {
+  const round = parseRound(value)
+  return round ? ROUND_SHORT_LABELS[round] : value
+}
+
+/** Sort comparator placing rounds in counselling order; unknown values go last. */
+export const compareRounds = (a: string, b: string): number => {
+  const ai = ROUND_ORDER.indexOf(parseRound(a) as Round)
+  const bi = ROUND_ORDER.indexOf(parseRound(b) as Round)
+  if (ai === -1 && bi === -1) return a.localeCompare(b)
+  if (ai === -1) return 1
+  if (bi === -1) return -1
+  return ai - bi
+}
@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'vitest'
+import { compareAllocations, compareWithHistory, simulateSeatAllocation, synthesizeCandidatePool } from './seat-allocation'
+import { getSeatMatrixColumn, type SeatCapacity } from './seat-matrix'
+import type { CutoffRecord } from './cutoff-repository'
+
+const capacities: SeatCapacity[] = [
+  { collegeCode: 'E001', branchCode: 'CS', category: 'GM', seats: 60 },
+  { collegeCode: 'E001', branchCode: 'CS', category: 'SCG', seats: 15 },
+  { collegeCode: 'E002', branchCode: 'CS', category: 'GM', seats: 60 },
+  { collegeCode: 'E002', branchCode: 'CS', category: 'SCG', seats: 15 },
+  { collegeCode: 'E003', branchCode: 'EC', category: 'GM', seats: 60 },
+  { collegeCode: 'E003', branchCode: 'EC', category: 'SCG', seats: 15 }
+]
+
+const gm = (institute_code: string, course_code: string, cutoff_rank: number): CutoffRecord => ({
+  institute: institute_code, institute_code, course: course_code, course_code, category: 'GM', cutoff_rank, year: '2024', round: 'R1'
+})
+
+const history = [gm('E001', 'CS', 150), gm('E002', 'CS', 400), gm('E003', 'EC', 900)]
+
+describe('Seat allocation simulation', () => {
+  test('maps seat_matrix quotas to cutoff columns', () => {
+    expect(getSeatMatrixColumn('GM', 'general')).toBe('GM')
+    expect(getSeatMatrixColumn('1G', 'rural')).toBe('1R')
+    expect(getSeatMatrixColumn('2A', null)).toBe('2AG')
+    expect(getSeatMatrixColumn('SC', 'hyderabad_karnataka')).toBeNull()
+  })
+
+  test('pool categories follow the seat shares and is reproducible', () => {
+    const pool = synthesizeCandidatePool(capacities, { poolSize: 2000, seed: 7 })
+    const scShare = pool.filter(c => c.category === 'SCG').length / pool.length
+    expect(scShare).toBeGreaterThan(0.1)
+    expect(scShare).toBeLessThan(0.3)
+    expect(pool.find(c => c.category === 'SCG')?.categories).toEqual(['GM', 'SCG'])
+    expect(synthesizeCandidatePool(capacities, { poolSize: 2000, seed: 7 })).toEqual(pool)
+  })
+
+  test('never overfills a column and keeps popular lines closing earlier', () => {
+    const result = simulateSeatAllocation(capacities, history, { poolSize: 2000, listLength: 3, seed: 3 })
+    for (const cutoff of result.cutoffs) expect(cutoff.filled).toBeLessThanOrEqual(cutoff.seats)
+    const closing = (college: string) => result.cutoffs.find(c => c.collegeCode === college && c.category === 'GM')!.closingRank!
+    expect(closing('E001')).toBeLessThan(closing('E003'))
+    expect(compareWithHistory(result.cutoffs, history, '2024')).toHaveLength(3)
+  })
+
+  test('more seats push closing ranks later', () => {
+    const base = simulateSeatAllocation(capacities, history, { poolSize: 2000, listLength: 3, seed: 3 })
+    const more = simulateSeatAllocation(capacities, history, { poolSize: 2000, listLength: 3, seed: 3, seatFactor: 1.5 })
+    const total = (cutoffs: typeof base.cutoffs) => cutoffs.reduce((sum, c) => sum + (c.closingRank ?? 0), 0)
+    expect(more.placed).toBeGreaterThan(base.placed)
+    expect(total(more.cutoffs)).toBeGreaterThan(total(base.cutoffs))
+
+    const rows = compareAllocations(base.cutoffs, more.cutoffs)
+    expect(rows).toHaveLength(capacities.length)
+    const gm = rows.find(row => row.collegeCode === 'E003' && row.category === 'GM')!
+    expect(gm.scenarioSeats).toBeGreaterThan(gm.baselineSeats)
+    expect(gm.scenarioRank).toBeGreaterThanOrEqual(gm.baselineRank!)
+  })
+})
@@ -0,0 +1,302 @@
+import { lineKey } from '@/lib/allotment-engine'
+import { getAllotmentOrder, profileFromCategory } from '@/lib/categories'
+import type { CutoffRecord } from '@/lib/cutoff-repository'
+import { kcet2025RankTable } from '@/lib/rank-predictor'
+import { Round } from '@/lib/rounds'
+import type { SeatCapacity } from '@/lib/seat-matrix'
+import { createRandom, median, randomNormal } from '@/lib/statistics'
+
+export interface SyntheticCandidate {
+  rank: number
+  // Column the candidate belongs to and the columns they compete in, in allotment order
+  category: string
+  categories: string[]
+}
+
+export interface SyntheticCutoff {
+  collegeCode: string
+  branchCode: string
+  category: string
+  seats: number
+  filled: number
+  // Rank of the last candidate admitted; null when nobody took a seat
+  closingRank: number | null
+}
+
+export interface AllocationOptions {
+  // Candidates in the full pool; defaults to the last rank of the rank table
+  poolSize?: number
+  // Fraction of the pool simulated; seats are scaled by the same fraction
+  sampleRate?: number
+  // Multiplier on every seat count, e.g. 1.1 for ten percent more seats
+  seatFactor?: number
+  // Options each candidate enters
+  listLength?: number
+  seed?: number
+}
+
+export interface AllocationResult {
+  cutoffs: SyntheticCutoff[]
+  candidates: number
+  placed: number
+}
+
+export interface ScenarioRow {
+  collegeCode: string
+  branchCode: string
+  category: string
+  baselineSeats: number
+  scenarioSeats: number
+  baselineRank: number | null
+  scenarioRank: number | null
+}
+
+export interface CutoffComparison {
+  collegeCode: string
+  branchCode: string
+  category: string
+  synthetic: number
+  actual: number
+  // ln(synthetic / actual); positive when the simulation closes later
+  logRatio: number
+}
+
+// How far, in log-rank, candidates look around their own rank when picking
+// options, and how much they lean towards colleges that closed earlier
+const REACH_SPREAD = 0.6
+const REACH_BIAS = -0.15
+// Noise on the popularity order of a candidate's list
+const ORDER_NOISE = 0.15
+
+const DEFAULT_LIST_LENGTH = 25
+
+export const getDefaultPoolSize = (): number => Math.max(...kcet2025RankTable.map(point => point.rank))
+
+/**
+ * Historical popularity of each college/course as its median general merit
+ * closing rank in Round 1; lower means more sought after.
+ */
+export const getSeatLinePopularity = (history: CutoffRecord[]): Map<string, number> => {
+  const ranks = new Map<string, number[]>()
+  for (const record of history) {
+    if (record.category !== 'GM' || record.round !== Round.Round1 || !record.course_code) continue
+    const key = lineKey(record.institute_code, record.course_code)
+    const list = ranks.get(key)
+    if (list) list.push(record.cutoff_rank)
+    else ranks.set(key, [record.cutoff_rank])
+  }
+  return new Map([...ranks].map(([key, values]) => [key, median(values)]))
+}
+
+/**
+ * Candidates ranked 1..poolSize (every 1/sampleRate-th rank when sampling),
+ * each assigned a category column in proportion to the seats reserved for it.
+ */
+export const synthesizeCandidatePool = (
+  capacities: SeatCapacity[],
+  options: Pick<AllocationOptions, 'poolSize' | 'sampleRate' | 'seed'> = {}
+): SyntheticCandidate[] => {
+  const poolSize = options.poolSize ?? getDefaultPoolSize()
+  const sampleRate = options.sampleRate ?? 1
+  const random = createRandom(options.seed ?? 1)
+
+  const seatsByColumn = new Map<string, number>()
+  for (const capacity of capacities) {
+    seatsByColumn.set(capacity.category, (seatsByColumn.get(capacity.category) ?? 0) + capacity.seats)
+  }
+  const columns = [...seatsByColumn.keys()]
+  const total = [...seatsByColumn.values()].reduce((sum, seats) => sum + seats, 0)
+  if (total === 0) return []
+
+  const cumulative: number[] = []
+  let running = 0
+  for (const column of columns) {
+    running += seatsByColumn.get(column)! / total
+    cumulative.push(running)
+  }
+
+  const count = Math.floor(poolSize * sampleRate)
+  const candidates: SyntheticCandidate[] = []
+  for (let i = 0; i < count; i++) {
+    const draw = random()
+    const index = cumulative.findIndex(c => draw < c)
+    const category = columns[index === -1 ? columns.length - 1 : index]
+    const profile = profileFromCategory(category)
+    candidates.push({
+      rank: Math.floor(i / sampleRate) + 1,
+      category,
+      categories: profile ? getAllotmentOrder(profile) : [category]
+    })
+  }
+  return candidates
+}
+
+/**
+ * Run a student-proposing deferred-acceptance allocation of a synthetic pool
+ * against seat_matrix capacities. Each candidate lists colleges whose past
+ * closing ranks sit around their own rank, ordered by popularity, and tries
+ * their columns for a seat line in allotment order. Every column ranks
+ * candidates by KCET rank, so the last admitted rank is the synthetic cutoff.
+ */
+export const simulateSeatAllocation = (
+  capacities: SeatCapacity[],
+  history: CutoffRecord[],
+  options: AllocationOptions = {}
+): AllocationResult => {
+  const sampleRate = options.sampleRate ?? 1
+  const seatFactor = options.seatFactor ?? 1
+  const listLength = options.listLength ?? DEFAULT_LIST_LENGTH
+  const poolSize = options.poolSize ?? getDefaultPoolSize()
+  const random = createRandom((options.seed ?? 1) + 1)
+  const candidates = synthesizeCandidatePool(capacities, { ...options, poolSize })
+
+  // Programs are (seat line, column) pairs; seats are rounded stochastically
+  // so small samples keep the expected capacity
+  const programs = capacities.map(capacity => {
+    const scaled = capacity.seats * seatFactor * sampleRate
+    const seats = Math.floor(scaled) + (random() < scaled - Math.floor(scaled) ? 1 : 0)
+    return { ...capacity, seats, held: [] as number[] }
+  })
+  const programsByLine = new Map<string, Map<string, number>>()
+  programs.forEach((program, index) => {
+    const key = lineKey(program.collegeCode, program.branchCode)
+    if (!programsByLine.has(key)) programsByLine.set(key, new Map())
+    programsByLine.get(key)!.set(program.category, index)
+  })
+
+  // Seat lines ordered from most to least popular; lines without history sit at the median
+  const popularity = getSeatLinePopularity(history)
+  const fallback = popularity.size > 0 ? median([...popularity.values()]) : poolSize / 2
+  const lines = [...programsByLine.keys()]
+    .map(key => ({ key, logRank: Math.log(Math.max(1, popularity.get(key) ?? fallback)) }))
+    .sort((a, b) => a.logRank - b.logRank)
+
+  const nearestLine = (logRank: number) => {
+    let lo = 0
+    let hi = lines.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (lines[mid].logRank < logRank) lo = mid + 1
+      else hi = mid
+    }
+    return lo
+  }
+
+  const buildPreferences = (candidate: SyntheticCandidate): number[] => {
+    const picked = new Set<number>()
+    const target = Math.min(listLength, lines.length)
+    for (let attempt = 0; picked.size < target && attempt < target * 4; attempt++) {
+      picked.add(nearestLine(Math.log(candidate.rank) + REACH_BIAS + randomNormal(random) * REACH_SPREAD))
+    }
+    return [...picked]
+      .map(index => ({ index, score: lines[index].logRank + randomNormal(random) * ORDER_NOISE }))
+      .sort((a, b) => a.score - b.score)
+      .flatMap(({ index }) => {
+        const columns = programsByLine.get(lines[index].key)!
+        return candidate.categories
+          .map(category => columns.get(category))
+          .filter((program): program is number => program !== undefined)
+      })
+  }
+
+  const preferences: Array<number[] | undefined> = []
+  const next = new Array<number>(candidates.length).fill(0)
+  const queue = candidates.map((_, index) => index).reverse()
+
+  while (queue.length > 0) {
+    const id = queue.pop()!
+    const list = preferences[id] ??= buildPreferences(candidates[id])
+    while (next[id] < list.length) {
+      const program = programs[list[next[id]++]]
+      if (program.seats === 0) continue
+
+      // Keep held candidates sorted by rank (candidate ids follow rank order)
+      let position = program.held.length
+      while (position > 0 && program.held[position - 1] > id) position--
+      program.held.splice(position, 0, id)
+
+      if (program.held.length <= program.seats) break
+      const rejected = program.held.pop()!
+      if (rejected !== id) {
+        queue.push(rejected)
+        break
+      }
+    }
+  }
+
+  const cutoffs = programs.map(program => ({
+    collegeCode: program.collegeCode,
+    branchCode: program.branchCode,
+    category: program.category,
+    seats: program.seats,
+    filled: program.held.length,
+    closingRank: program.held.length > 0 ? candidates[program.held[program.held.length - 1]].rank : null
+  }))
+
+  return {
+    cutoffs,
+    candidates: candidates.length,
+    placed: cutoffs.reduce((sum, cutoff) => sum + cutoff.filled, 0)
+  }
+}
+
+/** Synthetic cutoffs as cutoff records, so they can feed the allotment engine and charts. */
+export const toCutoffRecords = (cutoffs: SyntheticCutoff[], year: string, round: string = Round.Round1): CutoffRecord[] => {
+  return cutoffs
+    .filter(cutoff => cutoff.closingRank !== null)
+    .map(cutoff => ({
+      institute: cutoff.collegeCode,
+      institute_code: cutoff.collegeCode,
+      course: cutoff.branchCode,
+      course_code: cutoff.branchCode,
+      category: cutoff.category,
+      cutoff_rank: cutoff.closingRank!,
+      year,
+      round
+    }))
+}
+
+/** Pair synthetic closing ranks with the published ones of the same year and round. */
+export const compareWithHistory = (
+  cutoffs: SyntheticCutoff[],
+  history: CutoffRecord[],
+  year: string,
+  round: string = Round.Round1
+): CutoffComparison[] => {
+  const actual = new Map<string, number>()
+  for (const record of history) {
+    if (record.year !== year || record.round !== round || !record.course_code) continue
+    actual.set(`${lineKey(record.institute_code, record.course_code)}|${record.category}`, record.cutoff_rank)
+  }
+
+  return cutoffs.flatMap(cutoff => {
+    const published = actual.get(`${lineKey(cutoff.collegeCode, cutoff.branchCode)}|${cutoff.category}`)
+    if (cutoff.closingRank === null || published === undefined) return []
+    return [{
+      collegeCode: cutoff.collegeCode,
+      branchCode: cutoff.branchCode,
+      category: cutoff.category,
+      synthetic: cutoff.closingRank,
+      actual: published,
+      logRatio: Math.log(cutoff.closingRank / published)
+    }]
+  })
+}
+
+/** Pair the closing ranks of two allocations of the same seat lines, e.g. before and after a seat increase. */
+export const compareAllocations = (baseline: SyntheticCutoff[], scenario: SyntheticCutoff[]): ScenarioRow[] => {
+  const key = (cutoff: SyntheticCutoff) => `${lineKey(cutoff.collegeCode, cutoff.branchCode)}|${cutoff.category}`
+  const scenarioByKey = new Map(scenario.map(cutoff => [key(cutoff), cutoff]))
+  return baseline.map(cutoff => {
+    const other = scenarioByKey.get(key(cutoff))
+    return {
+      collegeCode: cutoff.collegeCode,
+      branchCode: cutoff.branchCode,
+      category: cutoff.category,
+      baselineSeats: cutoff.seats,
+      scenarioSeats: other?.seats ?? 0,
+      baselineRank: cutoff.closingRank,
+      scenarioRank: other?.closingRank ?? null
+    }
+  })
+}
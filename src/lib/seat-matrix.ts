@@ -0,0 +1,62 @@
+import { supabase } from '@/integrations/supabase/client'
+import type { Database } from '@/integrations/supabase/types'
+import { getCategoryCode, parseCategory, type SubQuota } from '@/lib/categories'
+
+type QuotaType = Database['public']['Enums']['quota_type']
+
+export interface SeatCapacity {
+  collegeCode: string
+  branchCode: string
+  // Published column code, e.g. GM, 2AR
+  category: string
+  seats: number
+}
+
+export interface SeatMatrix {
+  year: number
+  capacities: SeatCapacity[]
+  // Rows under quotas that have no column in the published cutoffs
+  skipped: number
+}
+
+// Hyderabad-Karnataka, Horanadu and Gadinadu seats are allotted from separate
+// lists, so only general and rural rows map to cutoff columns
+const QUOTA_COLUMNS: Partial<Record<QuotaType, SubQuota>> = {
+  general: 'G',
+  rural: 'R'
+}
+
+/** Column code for a seat_matrix row, or null when its quota has no column. */
+export const getSeatMatrixColumn = (category: string, quota: QuotaType | null): string | null => {
+  const column = parseCategory(category)
+  const subQuota = QUOTA_COLUMNS[quota ?? 'general']
+  return column && subQuota ? getCategoryCode(column.base, subQuota) : null
+}
+
+/** Load the seat matrix of one year with college and branch codes resolved. */
+export const loadSeatMatrix = async (year: number): Promise<SeatMatrix> => {
+  const { data, error } = await supabase
+    .from('seat_matrix')
+    .select('seats_total, category, quota_type, colleges(code), branches(code)')
+    .eq('year', year)
+
+  if (error) throw new Error(`Failed to load seat matrix: ${error.message}`)
+
+  const capacities = new Map<string, SeatCapacity>()
+  let skipped = 0
+  for (const row of data ?? []) {
+    const category = getSeatMatrixColumn(row.category, row.quota_type)
+    const collegeCode = row.colleges?.code?.toUpperCase()
+    const branchCode = row.branches?.code?.toUpperCase()
+    if (!category || !collegeCode || !branchCode || row.seats_total <= 0) {
+      skipped++
+      continue
+    }
+    const key = `${collegeCode}|${branchCode}|${category}`
+    const existing = capacities.get(key)
+    if (existing) existing.seats += row.seats_total
+    else capacities.set(key, { collegeCode, branchCode, category, seats: row.seats_total })
+  }
+
+  return { year, capacities: [...capacities.values()], skipped }
+}
@@ -1,4 +1,5 @@
 import DOMPurify from 'dompurify';
+import { CATEGORY_COLUMNS, parseCategory } from '@/lib/categories';
 
 // Input validation constants
 export const VALIDATION_LIMITS = {
@@ -246,24 +247,24 @@ export function validateCollegeCode(code: string): { isValid: boolean; sanitized
 }
 
 /**
- * Validate category input
+ * Validate category input. Accepts KEA column codes (GM, 2AR, SCK, ...) and
+ * base categories, returning the canonical column code.
  */
 export function validateCategory(category: string): { isValid: boolean; sanitized: string; error?: string } {
-  const validCategories = ['1G', '2A', '2B', '3A', '3B', 'GM', 'SC', 'ST'];
-  
   if (!category || typeof category !== 'string') {
     return { isValid: false, sanitized: '', error: 'Category is required' };
   }
 
-  const sanitized = sanitizeText(category).toUpperCase();
-  
-  if (!validCategories.includes(sanitized)) {
+  const column = parseCategory(sanitizeText(category));
+
+  if (!column) {
     return { 
       isValid: false, 
       sanitized: '', 
-      error: `Category must be one of: ${validCategories.join(', ')}` 
+      error: `Category must be one of: ${CATEGORY_COLUMNS.map(c => c.code).join(', ')}` 
     };
   }
 
+  const sanitized = column.code;
   return { isValid: true, sanitized };
 }
@@ -0,0 +1,27 @@
+import { describe, test, expect } from 'vitest'
+import { median, quantile } from './statistics'
+
+describe('Statistics', () => {
+  test('median of odd and even length lists', () => {
+    expect(median([3, 1, 2])).toBe(2)
+    expect(median([4, 1, 3, 2])).toBe(2.5)
+    expect(median([7])).toBe(7)
+    expect(median([])).toBeNaN()
+  })
+
+  test('quantile interpolates between order statistics', () => {
+    const values = [40, 10, 30, 20]
+    expect(quantile(values, 0)).toBe(10)
+    expect(quantile(values, 1)).toBe(40)
+    expect(quantile(values, 0.5)).toBe(median(values))
+    // Position 0.25 * 3 = 0.75 between 10 and 20
+    expect(quantile(values, 0.25)).toBeCloseTo(17.5, 6)
+    expect(quantile(values, 0.9)).toBeCloseTo(37, 6)
+  })
+
+  test('quantile of a single value or an empty list', () => {
+    expect(quantile([5], 0)).toBe(5)
+    expect(quantile([5], 0.75)).toBe(5)
+    expect(quantile([], 0.5)).toBeNaN()
+  })
+})
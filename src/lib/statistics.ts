@@ -0,0 +1,61 @@
+// Small numeric helpers shared by the cutoff models
+
+/** Standard normal cumulative distribution (Abramowitz & Stegun 26.2.17). */
+export const normalCdf = (z: number): number => {
+  if (!isFinite(z)) return z > 0 ? 1 : 0
+  const t = 1 / (1 + 0.2316419 * Math.abs(z))
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI)
+  const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))))
+  return z >= 0 ? 1 - tail : tail
+}
+
+export const weightedMean = (values: number[], weights: number[]): number => {
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  if (total === 0) return NaN
+  return values.reduce((sum, v, i) => sum + v * weights[i], 0) / total
+}
+
+export const weightedStdDev = (values: number[], weights: number[]): number => {
+  const mean = weightedMean(values, weights)
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  if (total === 0) return NaN
+  const variance = values.reduce((sum, v, i) => sum + weights[i] * (v - mean) ** 2, 0) / total
+  return Math.sqrt(variance)
+}
+
+export const median = (values: number[]): number => {
+  if (values.length === 0) return NaN
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/** Quantile with linear interpolation between order statistics, q in [0, 1]. */
+export const quantile = (values: number[], q: number): number => {
+  if (values.length === 0) return NaN
+  const sorted = [...values].sort((a, b) => a - b)
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+export const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value))
+
+/** Seeded uniform generator (mulberry32) so simulations can be replayed. */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Standard normal draw (Box-Muller) from a uniform generator. */
+export const randomNormal = (random: () => number): number => {
+  const u = 1 - random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
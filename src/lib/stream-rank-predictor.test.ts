@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest'
+import {
+  getStreamComposite,
+  getStreamRule,
+  isStreamCalibrated,
+  predictAllStreams,
+  predictStreamRank,
+  STREAM_RULES,
+  type StreamMarks
+} from './stream-rank-predictor'
+import { predictKCETRank } from './rank-predictor'
+
+const marks: StreamMarks = {
+  cet: { physics: 40, chemistry: 45, maths: 35, biology: 50 },
+  pucPcm: 85,
+  pucPcb: 90
+}
+
+describe('Stream rank predictor', () => {
+  test('engineering matches the KCET predictor', () => {
+    const engineering = predictStreamRank('engineering', marks)
+    const direct = predictKCETRank(120, 85)
+    expect(engineering.composite).toBeCloseTo(direct.composite, 6)
+    expect([engineering.low, engineering.medium, engineering.high]).toEqual([direct.low, direct.medium, direct.high])
+  })
+
+  test('uses the best qualifying paper combination', () => {
+    const pharmacy = getStreamComposite(getStreamRule('pharmacy'), marks)
+    expect(pharmacy.subjects).toEqual(['physics', 'chemistry', 'biology'])
+    expect(pharmacy.composite).toBeCloseTo(135 / 180 * 100, 6)
+    expect(getStreamComposite(getStreamRule('pharmacy'), { cet: { physics: 40, chemistry: 45, maths: 35 } }).subjects).toContain('maths')
+  })
+
+  test('reports the inputs a stream still needs', () => {
+    const partial: StreamMarks = { cet: { physics: 40, chemistry: 45, maths: 35 }, pucPcm: 85 }
+    expect(getStreamComposite(getStreamRule('engineering'), partial).missing).toEqual([])
+    expect(getStreamComposite(getStreamRule('veterinary'), partial).missing).toEqual(['KCET Physics, Chemistry, Biology'])
+    expect(getStreamComposite(getStreamRule('agriculture'), partial).missing).toHaveLength(2)
+    expect(getStreamComposite(getStreamRule('architecture'), partial).missing).toEqual(['NATA score'])
+    expect(getStreamComposite(getStreamRule('architecture'), { ...marks, nata: 150 }).composite).toBeCloseTo(80, 6)
+    expect(predictAllStreams({ cet: { physics: 40 } })[0].missing).toEqual(['KCET Physics, Chemistry, Mathematics', 'PUC PCM %'])
+  })
+
+  test('streams without published score-rank data are not predicted', () => {
+    const uncalibrated = STREAM_RULES.filter(rule => !isStreamCalibrated(rule))
+    expect(uncalibrated.map(rule => rule.stream)).toEqual(['pharmacy', 'agriculture', 'veterinary', 'nursing', 'architecture'])
+    expect(predictAllStreams(marks).map(result => result.rule.stream)).toEqual(['engineering'])
+    expect(() => predictStreamRank('pharmacy', marks)).toThrow(/no published score-rank data/)
+  })
+
+  test('engineering ranks better marks higher within its list', () => {
+    const rule = getStreamRule('engineering')
+    let previous = Infinity
+    for (let score = 0; score <= 60; score += 5) {
+      const prediction = predictStreamRank('engineering', {
+        cet: { physics: score, chemistry: score, maths: score },
+        pucPcm: score / 0.6
+      })
+      expect(prediction.medium).toBeLessThanOrEqual(previous)
+      expect(prediction.high).toBeLessThanOrEqual(rule.maxRank)
+      previous = prediction.medium
+    }
+  })
+})
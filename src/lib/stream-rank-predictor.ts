@@ -0,0 +1,254 @@
+import { estimateRank, fitRankCurve, type RankCurve, type RankEstimate, type ScoreRankSample } from '@/lib/rank-curve'
+import { kcet2025RankTable, MAX_PREDICTED_RANK } from '@/lib/rank-predictor'
+
+export type KcetStream = 'engineering' | 'pharmacy' | 'agriculture' | 'veterinary' | 'nursing' | 'architecture'
+
+export type CetSubject = 'physics' | 'chemistry' | 'maths' | 'biology'
+
+export type PucGroup = 'pcm' | 'pcb' | 'pcmb'
+
+export const CET_SUBJECTS: CetSubject[] = ['physics', 'chemistry', 'maths', 'biology']
+
+export const CET_SUBJECT_LABELS: Record<CetSubject, string> = {
+  physics: 'Physics',
+  chemistry: 'Chemistry',
+  maths: 'Mathematics',
+  biology: 'Biology'
+}
+
+// Each KCET paper has 60 one-mark questions
+export const CET_PAPER_MAX = 60
+export const NATA_MAX = 200
+
+export interface StreamMarks {
+  // KCET marks per paper, out of 60
+  cet: Partial<Record<CetSubject, number | null>>
+  // PUC percentages in the PCM and PCB groups
+  pucPcm?: number | null
+  pucPcb?: number | null
+  // NATA score out of 200, for architecture
+  nata?: number | null
+}
+
+export interface StreamRule {
+  stream: KcetStream
+  label: string
+  courses: string
+  // CET paper combinations that qualify; the best scoring one counts
+  cetCombinations: CetSubject[][]
+  cetWeight: number
+  pucGroup: PucGroup | null
+  pucWeight: number
+  nataWeight: number
+  // Published score-rank results; empty until KEA data for the stream is
+  // collected, and the stream is not predicted until then
+  samples: ScoreRankSample[]
+  // Last rank of the stream's rank list
+  maxRank: number
+}
+
+export interface StreamRankPrediction extends RankEstimate {
+  stream: KcetStream
+  composite: number
+  // CET papers that counted towards the composite
+  subjects: CetSubject[]
+}
+
+export interface StreamResult {
+  rule: StreamRule
+  prediction: StreamRankPrediction | null
+  // Inputs the stream needs that were not given
+  missing: string[]
+}
+
+// Weightages follow the KEA information bulletin; check them each year.
+// Engineering keeps the 60/40 split its sample table was calibrated with.
+// Only engineering has published score-rank data so far, so the rank
+// predictor page offers no stream view until the other tables are added
+export const STREAM_RULES: StreamRule[] = [
+  {
+    stream: 'engineering',
+    label: 'Engineering',
+    courses: 'B.E. / B.Tech',
+    cetCombinations: [['physics', 'chemistry', 'maths']],
+    cetWeight: 0.6,
+    pucGroup: 'pcm',
+    pucWeight: 0.4,
+    nataWeight: 0,
+    samples: kcet2025RankTable,
+    maxRank: MAX_PREDICTED_RANK
+  },
+  {
+    stream: 'pharmacy',
+    label: 'Pharmacy',
+    courses: 'B.Pharm / Pharm.D',
+    cetCombinations: [['physics', 'chemistry', 'maths'], ['physics', 'chemistry', 'biology']],
+    cetWeight: 1,
+    pucGroup: null,
+    pucWeight: 0,
+    nataWeight: 0,
+    samples: [],
+    maxRank: 280000
+  },
+  {
+    stream: 'agriculture',
+    label: 'Agriculture & Farm Science',
+    courses: 'B.Sc (Agri), B.Sc (Horti), B.Tech (Agri Engg) and allied',
+    cetCombinations: [['physics', 'chemistry', 'maths', 'biology']],
+    cetWeight: 0.5,
+    pucGroup: 'pcmb',
+    pucWeight: 0.5,
+    nataWeight: 0,
+    samples: [],
+    maxRank: 200000
+  },
+  {
+    stream: 'veterinary',
+    label: 'Veterinary',
+    courses: 'B.V.Sc & A.H.',
+    cetCombinations: [['physics', 'chemistry', 'biology']],
+    cetWeight: 1,
+    pucGroup: null,
+    pucWeight: 0,
+    nataWeight: 0,
+    samples: [],
+    maxRank: 200000
+  },
+  {
+    stream: 'nursing',
+    label: 'Nursing',
+    courses: 'B.Sc Nursing',
+    cetCombinations: [['physics', 'chemistry', 'biology']],
+    cetWeight: 1,
+    pucGroup: null,
+    pucWeight: 0,
+    nataWeight: 0,
+    samples: [],
+    maxRank: 200000
+  },
+  {
+    stream: 'architecture',
+    label: 'Architecture',
+    courses: 'B.Arch',
+    cetCombinations: [],
+    cetWeight: 0,
+    pucGroup: 'pcm',
+    pucWeight: 0.5,
+    nataWeight: 0.5,
+    samples: [],
+    maxRank: 20000
+  }
+]
+
+export const getStreamRule = (stream: KcetStream): StreamRule => {
+  const rule = STREAM_RULES.find(r => r.stream === stream)
+  if (!rule) throw new Error(`Unknown stream ${stream}`)
+  return rule
+}
+
+const streamCurves = new Map<KcetStream, RankCurve>()
+
+const getStreamCurve = (rule: StreamRule): RankCurve => {
+  let curve = streamCurves.get(rule.stream)
+  if (!curve) {
+    curve = fitRankCurve(rule.samples, { bottomRank: rule.maxRank })
+    streamCurves.set(rule.stream, curve)
+  }
+  return curve
+}
+
+const isMark = (value: number | null | undefined, max: number): value is number =>
+  typeof value === 'number' && !isNaN(value) && value >= 0 && value <= max
+
+// PCMB is not asked for separately; the mean of the two groups stands in for it
+const getPucPercentage = (marks: StreamMarks, group: PucGroup): number | null => {
+  const pcm = isMark(marks.pucPcm, 100) ? marks.pucPcm : null
+  const pcb = isMark(marks.pucPcb, 100) ? marks.pucPcb : null
+  if (group === 'pcm') return pcm
+  if (group === 'pcb') return pcb
+  return pcm !== null && pcb !== null ? (pcm + pcb) / 2 : null
+}
+
+const PUC_GROUP_LABELS: Record<PucGroup, string> = {
+  pcm: 'PUC PCM %',
+  pcb: 'PUC PCB %',
+  pcmb: 'PUC PCM % and PCB %'
+}
+
+/**
+ * Composite score of a stream and the CET papers behind it, or the inputs
+ * still needed. Where several paper combinations qualify the best one counts.
+ */
+export const getStreamComposite = (
+  rule: StreamRule,
+  marks: StreamMarks
+): { composite: number; subjects: CetSubject[]; missing: string[] } => {
+  const missing: string[] = []
+  let cetPercentage = 0
+  let subjects: CetSubject[] = []
+
+  if (rule.cetWeight > 0) {
+    const scored = rule.cetCombinations
+      .filter(combination => combination.every(subject => isMark(marks.cet[subject], CET_PAPER_MAX)))
+      .map(combination => ({
+        combination,
+        percentage: combination.reduce((sum, subject) => sum + marks.cet[subject]!, 0) / (combination.length * CET_PAPER_MAX) * 100
+      }))
+      .sort((a, b) => b.percentage - a.percentage)
+    if (scored.length === 0) {
+      missing.push(`KCET ${rule.cetCombinations.map(c => c.map(s => CET_SUBJECT_LABELS[s]).join(', ')).join(' or ')}`)
+    } else {
+      cetPercentage = scored[0].percentage
+      subjects = scored[0].combination
+    }
+  }
+
+  let pucPercentage = 0
+  if (rule.pucGroup && rule.pucWeight > 0) {
+    const value = getPucPercentage(marks, rule.pucGroup)
+    if (value === null) missing.push(PUC_GROUP_LABELS[rule.pucGroup])
+    else pucPercentage = value
+  }
+
+  let nataPercentage = 0
+  if (rule.nataWeight > 0) {
+    if (!isMark(marks.nata, NATA_MAX)) missing.push('NATA score')
+    else nataPercentage = marks.nata / NATA_MAX * 100
+  }
+
+  return {
+    composite: rule.cetWeight * cetPercentage + rule.pucWeight * pucPercentage + rule.nataWeight * nataPercentage,
+    subjects,
+    missing
+  }
+}
+
+/** Streams with published score-rank data to predict from. */
+export const isStreamCalibrated = (rule: StreamRule): boolean => rule.samples.length > 0
+
+/**
+ * Rank in one stream's list; throws when the stream has no score-rank data
+ * or marks it needs are missing.
+ */
+export const predictStreamRank = (stream: KcetStream, marks: StreamMarks): StreamRankPrediction => {
+  const rule = getStreamRule(stream)
+  if (!isStreamCalibrated(rule)) throw new Error(`${rule.label} has no published score-rank data to predict from yet`)
+  const { composite, subjects, missing } = getStreamComposite(rule, marks)
+  if (missing.length > 0) throw new Error(`${rule.label} needs ${missing.join(', ')}`)
+  return {
+    ...estimateRank(getStreamCurve(rule), composite, rule.maxRank),
+    stream,
+    composite,
+    subjects
+  }
+}
+
+/**
+ * Ranks in every calibrated stream the marks qualify for, with what is
+ * missing for the rest. Streams without score-rank data are left out.
+ */
+export const predictAllStreams = (marks: StreamMarks): StreamResult[] =>
+  STREAM_RULES.filter(isStreamCalibrated).map(rule => {
+    const { missing } = getStreamComposite(rule, marks)
+    return { rule, prediction: missing.length === 0 ? predictStreamRank(rule.stream, marks) : null, missing }
+  })
@@ -0,0 +1,100 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest'
+import {
+  emptySubjectMarks,
+  getCompositeBreakdown,
+  saveRankPrediction,
+  toSubjectMarksJson,
+  validateSubjectMarks,
+  type PredictionRecord,
+  type SubjectMarks
+} from './subject-marks'
+import { predictKCETRank } from './rank-predictor'
+
+const supabase = vi.hoisted(() => ({
+  auth: { getUser: vi.fn() },
+  from: vi.fn()
+}))
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase }))
+
+const marks: SubjectMarks = {
+  kcet: { physics: 40, chemistry: 45, maths: 35 },
+  puc: { physics: 88, chemistry: 92, maths: 75 }
+}
+
+describe('Subject marks', () => {
+  test('validates each paper against its own maximum', () => {
+    expect(validateSubjectMarks(marks)).toEqual([])
+    const errors = validateSubjectMarks({
+      kcet: { physics: 61, chemistry: 45, maths: 35.5 },
+      puc: { physics: 100, chemistry: null, maths: -1 }
+    })
+    expect(errors.map(e => `${e.exam}.${e.subject}`)).toEqual(['kcet.physics', 'kcet.maths', 'puc.chemistry', 'puc.maths'])
+    expect(errors[0].error).toBe('KCET Physics must be between 0 and 60')
+    expect(validateSubjectMarks(emptySubjectMarks())).toHaveLength(6)
+  })
+
+  test('composite matches the single-total predictor', () => {
+    const breakdown = getCompositeBreakdown(marks)
+    expect(breakdown.kcetTotal).toBe(120)
+    expect(breakdown.pucPercentage).toBeCloseTo(85, 6)
+    expect(breakdown.composite).toBeCloseTo(predictKCETRank(120, 85).composite, 6)
+  })
+
+  test('subject contributions add up to the composite', () => {
+    const breakdown = getCompositeBreakdown(marks)
+    const total = breakdown.subjects.reduce((sum, s) => sum + s.points, 0)
+    expect(total).toBeCloseTo(breakdown.composite, 6)
+    const chemistry = breakdown.subjects.find(s => s.subject === 'chemistry')!
+    expect(chemistry.kcetPoints).toBeCloseTo(0.6 * 45 / 180 * 100, 6)
+    expect(chemistry.pucPoints).toBeCloseTo(0.4 * 92 / 300 * 100, 6)
+    expect(() => getCompositeBreakdown(emptySubjectMarks())).toThrow(/required/)
+  })
+
+  test('serialises marks for the subject_marks column', () => {
+    const json = toSubjectMarksJson(marks, getCompositeBreakdown(marks))
+    expect(JSON.parse(JSON.stringify(json))).toMatchObject({ kcet: marks.kcet, puc: marks.puc, kcetTotal: 120 })
+  })
+})
+
+describe('Saving predictions', () => {
+  const insert = vi.fn()
+  const eq = vi.fn()
+  const update = vi.fn(() => ({ eq }))
+  const record: PredictionRecord = {
+    category: 'GM',
+    marks: 120,
+    rankMin: 9000,
+    rankMax: 14000,
+    year: 2025,
+    subjectMarks: toSubjectMarksJson(marks, getCompositeBreakdown(marks))
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    supabase.from.mockImplementation((table: string) => table === 'users' ? { update } : { insert })
+    supabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1' } } })
+    insert.mockResolvedValue({ error: null })
+    eq.mockResolvedValue({ error: null })
+  })
+
+  test('writes rank_predictions and the user subject marks', async () => {
+    await expect(saveRankPrediction(record)).resolves.toBe(true)
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ user_id: 'user-1', marks: 120, subject_marks: record.subjectMarks }))
+    expect(update).toHaveBeenCalledWith({ subject_marks: record.subjectMarks, marks: 120 })
+    expect(eq).toHaveBeenCalledWith('id', 'user-1')
+  })
+
+  test('skips signed-out users and totals-only predictions', async () => {
+    await saveRankPrediction({ ...record, subjectMarks: null })
+    expect(update).not.toHaveBeenCalled()
+    supabase.auth.getUser.mockResolvedValue({ data: { user: null } })
+    await expect(saveRankPrediction(record)).resolves.toBe(false)
+    expect(insert).toHaveBeenCalledTimes(1)
+  })
+
+  test('surfaces Supabase errors', async () => {
+    insert.mockResolvedValue({ error: { message: 'permission denied' } })
+    await expect(saveRankPrediction(record)).rejects.toThrow('Failed to save prediction: permission denied')
+  })
+})
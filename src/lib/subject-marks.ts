@@ -0,0 +1,153 @@
+import { supabase } from '@/integrations/supabase/client'
+import type { Json } from '@/integrations/supabase/types'
+import type { CategoryType } from '@/lib/categories'
+import { COMPOSITE_WEIGHTS, getCompositeScore } from '@/lib/rank-predictor'
+import { CET_PAPER_MAX, CET_SUBJECT_LABELS } from '@/lib/stream-rank-predictor'
+
+export type PcmSubject = 'physics' | 'chemistry' | 'maths'
+
+export type MarksExam = 'kcet' | 'puc'
+
+export const PCM_SUBJECTS: PcmSubject[] = ['physics', 'chemistry', 'maths']
+
+// Each second PUC subject is marked out of 100, theory and practicals together
+export const PUC_PAPER_MAX = 100
+
+export const PAPER_MAX: Record<MarksExam, number> = { kcet: CET_PAPER_MAX, puc: PUC_PAPER_MAX }
+
+const EXAM_LABELS: Record<MarksExam, string> = { kcet: 'KCET', puc: 'PUC' }
+
+export interface SubjectMarks {
+  // KCET marks per paper, out of 60
+  kcet: Record<PcmSubject, number | null>
+  // Second PUC marks per subject, out of 100
+  puc: Record<PcmSubject, number | null>
+}
+
+export interface SubjectMarkError {
+  exam: MarksExam
+  subject: PcmSubject
+  error: string
+}
+
+export interface SubjectContribution {
+  subject: PcmSubject
+  label: string
+  kcet: number
+  puc: number
+  // Composite points the subject's KCET and PUC marks add
+  kcetPoints: number
+  pucPoints: number
+  points: number
+}
+
+export interface CompositeBreakdown {
+  // KCET PCM out of 180 and PUC PCM percentage, as the single-total predictor takes them
+  kcetTotal: number
+  pucPercentage: number
+  composite: number
+  subjects: SubjectContribution[]
+}
+
+export interface PredictionRecord {
+  category: CategoryType
+  // KCET PCM total out of 180
+  marks: number
+  rankMin: number
+  rankMax: number
+  year: number
+  // toSubjectMarksJson output, or null when only totals were entered
+  subjectMarks: Json | null
+}
+
+export const emptySubjectMarks = (): SubjectMarks => ({
+  kcet: { physics: null, chemistry: null, maths: null },
+  puc: { physics: null, chemistry: null, maths: null }
+})
+
+/** One error per missing or out-of-range mark, checked against its own paper's maximum. */
+export const validateSubjectMarks = (marks: SubjectMarks): SubjectMarkError[] => {
+  const errors: SubjectMarkError[] = []
+  for (const exam of ['kcet', 'puc'] as MarksExam[]) {
+    for (const subject of PCM_SUBJECTS) {
+      const value = marks[exam][subject]
+      const name = `${EXAM_LABELS[exam]} ${CET_SUBJECT_LABELS[subject]}`
+      const max = PAPER_MAX[exam]
+      if (value === null || value === undefined || isNaN(value)) {
+        errors.push({ exam, subject, error: `${name} is required` })
+      } else if (!Number.isInteger(value)) {
+        errors.push({ exam, subject, error: `${name} must be a whole number` })
+      } else if (value < 0 || value > max) {
+        errors.push({ exam, subject, error: `${name} must be between 0 and ${max}` })
+      }
+    }
+  }
+  return errors
+}
+
+/**
+ * Composite score from per-subject marks and the points each subject adds
+ * to it. The points of all subjects sum to the composite. Throws on the
+ * first invalid mark.
+ */
+export const getCompositeBreakdown = (marks: SubjectMarks): CompositeBreakdown => {
+  const errors = validateSubjectMarks(marks)
+  if (errors.length > 0) throw new Error(errors[0].error)
+
+  const kcetMax = PCM_SUBJECTS.length * CET_PAPER_MAX
+  const pucMax = PCM_SUBJECTS.length * PUC_PAPER_MAX
+  const kcetTotal = PCM_SUBJECTS.reduce((sum, subject) => sum + marks.kcet[subject], 0)
+  const pucPercentage = PCM_SUBJECTS.reduce((sum, subject) => sum + marks.puc[subject], 0) / pucMax * 100
+
+  return {
+    kcetTotal,
+    pucPercentage,
+    composite: getCompositeScore(kcetTotal, pucPercentage),
+    subjects: PCM_SUBJECTS.map(subject => {
+      const kcet = marks.kcet[subject]
+      const puc = marks.puc[subject]
+      const kcetPoints = COMPOSITE_WEIGHTS.cet * kcet / kcetMax * 100
+      const pucPoints = COMPOSITE_WEIGHTS.puc * puc / pucMax * 100
+      return { subject, label: CET_SUBJECT_LABELS[subject], kcet, puc, kcetPoints, pucPoints, points: kcetPoints + pucPoints }
+    })
+  }
+}
+
+/** Shape stored in the subject_marks column of users and rank_predictions. */
+export const toSubjectMarksJson = (marks: SubjectMarks, breakdown: CompositeBreakdown): Json => ({
+  kcet: { ...marks.kcet },
+  puc: { ...marks.puc },
+  kcetTotal: breakdown.kcetTotal,
+  pucPercentage: breakdown.pucPercentage,
+  composite: breakdown.composite
+})
+
+/**
+ * Store a prediction in rank_predictions for the signed-in user and keep
+ * their latest subject marks on their users row. Resolves false when nobody
+ * is signed in; throws when Supabase rejects either write.
+ */
+export const saveRankPrediction = async (record: PredictionRecord): Promise<boolean> => {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return false
+
+  const { error } = await supabase.from('rank_predictions').insert({
+    user_id: user.id,
+    category: record.category,
+    marks: record.marks,
+    predicted_rank_min: record.rankMin,
+    predicted_rank_max: record.rankMax,
+    year: record.year,
+    subject_marks: record.subjectMarks
+  })
+  if (error) throw new Error(`Failed to save prediction: ${error.message}`)
+
+  if (record.subjectMarks !== null) {
+    const { error: userError } = await supabase
+      .from('users')
+      .update({ subject_marks: record.subjectMarks, marks: record.marks })
+      .eq('id', user.id)
+    if (userError) throw new Error(`Failed to save subject marks: ${userError.message}`)
+  }
+  return true
+}
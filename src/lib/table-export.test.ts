@@ -0,0 +1,52 @@
+import { describe, test, expect, vi, afterEach } from 'vitest'
+import { exportTable, toCsv, toFileName, toSheetName } from './table-export'
+
+describe('Table export', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('quotes CSV cells with commas, quotes and line breaks', () => {
+    expect(toCsv([
+      ['Institute', 'Rank', 'Note'],
+      ['RV College, Bengaluru', 1234, 'said "best"'],
+      ['BMS', null, 'line\nbreak']
+    ])).toBe('Institute,Rank,Note\r\n"RV College, Bengaluru",1234,"said ""best"""\r\nBMS,,"line\nbreak"')
+  })
+
+  test('CSV downloads start with a byte order mark', async () => {
+    let blob: Blob | undefined
+    vi.stubGlobal('URL', {
+      createObjectURL: (value: Blob) => {
+        blob = value
+        return 'blob:export'
+      },
+      revokeObjectURL: vi.fn()
+    })
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+    exportTable({ title: 'Cutoffs', headers: ['Rank'], rows: [[1]] }, 'csv')
+
+    expect(click).toHaveBeenCalled()
+    // Read raw bytes; decoding as text would strip the mark
+    const bytes = await new Promise<Uint8Array>(resolve => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+      reader.readAsArrayBuffer(blob!)
+    })
+    expect([...bytes]).toEqual([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('Rank\r\n1')])
+    click.mockRestore()
+  })
+
+  test('sheet names drop forbidden characters and stop at 31 characters', () => {
+    expect(toSheetName('GM/Round 1: [2024]')).toBe('GM Round 1   2024 ')
+    expect(toSheetName('A'.repeat(40))).toHaveLength(31)
+    expect(toSheetName('')).toBe('Sheet1')
+  })
+
+  test('file names keep word characters and dashes', () => {
+    expect(toFileName('KCET 2024 - Round 1 (GM)')).toBe('KCET_2024_-_Round_1_GM')
+    expect(toFileName('***')).toBe('export')
+    expect(toFileName('', 'cutoffs')).toBe('cutoffs')
+  })
+})
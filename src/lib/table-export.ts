@@ -0,0 +1,49 @@
+import * as XLSX from 'xlsx'
+
+export type TableExportFormat = 'csv' | 'xlsx'
+
+export type TableCell = string | number | null
+
+export interface ExportTable {
+  // Sheet name and base of the file name
+  title: string
+  headers: string[]
+  rows: TableCell[][]
+}
+
+const escapeCsv = (value: TableCell): string => {
+  const text = value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (rows: TableCell[][]): string =>
+  rows.map(row => row.map(escapeCsv).join(',')).join('\r\n')
+
+/** Sheet names are limited to 31 characters and some punctuation. */
+export const toSheetName = (title: string, fallback = 'Sheet1'): string =>
+  title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || fallback
+
+export const toFileName = (title: string, fallback = 'export'): string =>
+  title.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || fallback
+
+export const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const exportTable = (table: ExportTable, format: TableExportFormat): void => {
+  const fileName = toFileName(table.title)
+  const rows = [table.headers, ...table.rows]
+  if (format === 'csv') {
+    // Byte order mark so spreadsheet apps read the file as UTF-8
+    downloadFile(`\uFEFF${toCsv(rows)}`, 'text/csv;charset=utf-8', `${fileName}.csv`)
+    return
+  }
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), toSheetName(table.title))
+  XLSX.writeFile(workbook, `${fileName}.xlsx`)
+}
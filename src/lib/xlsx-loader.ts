@@ -1,4 +1,6 @@
 import * as XLSX from 'xlsx'
+import { parseRound, Round } from '@/lib/rounds'
+import { isCategoryCode } from '@/lib/categories'
 
 export interface XLSXData {
   cutoffs: any[]
@@ -330,15 +332,10 @@ export class XLSXLoader {
   }
 
   /**
-   * Determine round from filename
+   * Determine round from filename (mock files also contain "round1")
    */
   private static determineRound(filename: string): string {
-    const filenameLower = filename.toLowerCase()
-    if (filenameLower.includes('round1')) return 'R1'
-    if (filenameLower.includes('round2')) return 'R2'
-    if (filenameLower.includes('round3') || filenameLower.includes('extended')) return 'EXT'
-    if (filenameLower.includes('mock')) return 'MOCK'
-    return 'R1'
+    return parseRound(filename) ?? Round.Round1
   }
 
   /**
@@ -413,7 +410,6 @@ export class XLSXLoader {
    * Check if category is valid
    */
   private static isValidCategory(category: string): boolean {
-    const validCategories = ['GM', 'SC', 'ST', 'OBC', 'CATEGORY', '1G', '2A', '2B', '3A', '3B']
-    return validCategories.some(valid => category.toUpperCase().includes(valid))
+    return isCategoryCode(category)
   }
 }
@@ -1,88 +1,44 @@
 import { useEffect, useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { BarChart3, Clock } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CutoffDashboards } from "@/components/CutoffDashboards"
+import { SeatAllocationScenarios } from "@/components/SeatAllocationScenarios"
+import { BarChart3, Clock, TrendingUp } from "lucide-react"
 import { finderStore, FinderMatch } from "@/store/finderStore"
+import {
+  getAvailableCategories,
+  getAvailableRounds,
+  getAvailableYears,
+  loadCutoffDataset,
+  type CutoffDatasetMetadata,
+  type CutoffRecord
+} from "@/lib/cutoff-repository"
+import { getProjectionYear, projectCutoffs, type CutoffProjection } from "@/lib/cutoff-projection"
+import { getRoundLabel } from "@/lib/rounds"
+import { getCategoryLabel } from "@/lib/categories"
+import { median } from "@/lib/statistics"
 
-interface CutoffData {
-  institute: string
-  institute_code: string
-  course: string
-  category: string
-  cutoff_rank: number
-  year: string
-  round: string
-}
-
-interface CutoffResponseMeta {
-  last_updated?: string
-  total_entries?: number
-  total_institutes?: number
-  total_courses?: number
-  total_categories?: number
-  years_covered?: string[]
-  source_files?: string[]
-}
-
-interface CutoffResponse {
-  metadata?: CutoffResponseMeta
-  cutoffs?: CutoffData[]
-}
+const formatChange = (change: number) => `${change >= 0 ? '+' : ''}${(change * 100).toFixed(1)}%`
 
 const Analytics = () => {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string>("")
-  const [cutoffs, setCutoffs] = useState<CutoffData[]>([])
-  const [metadata, setMetadata] = useState<CutoffResponseMeta | null>(null)
+  const [cutoffs, setCutoffs] = useState<CutoffRecord[]>([])
+  const [metadata, setMetadata] = useState<CutoffDatasetMetadata | null>(null)
   const [liveMatches, setLiveMatches] = useState<FinderMatch[]>(finderStore.getState().matches)
   const [liveRank, setLiveRank] = useState<number | null>(finderStore.getState().userRank)
+  const [projectionCategory, setProjectionCategory] = useState('GM')
+  const [projectionRound, setProjectionRound] = useState('')
 
   useEffect(() => {
     const loadData = async () => {
       setLoading(true)
       setError("")
       try {
-        const urls = [
-          '/data/kcet_cutoffs_consolidated.json',
-          '/kcet_cutoffs.json',
-          '/kcet_cutoffs_round3_2025.json',
-          '/kcet_cutoffs2025.json'
-        ]
-
-        let response: Response | null = null
-        for (const url of urls) {
-          response = await fetch(url, { cache: 'no-store' })
-          if (response.ok) break
-        }
-        if (!response || !response.ok) {
-          throw new Error('Failed to load consolidated data')
-        }
-
-        const raw = await response.json()
-        let processed: CutoffResponse
-        if (Array.isArray(raw)) {
-          processed = { cutoffs: raw }
-        } else {
-          processed = raw
-        }
-
-        // Alternate keys fallback
-        const cutoffsArr: CutoffData[] = (processed.cutoffs as any)
-          ?? (processed as any).data
-          ?? (processed as any).cutoffs_data
-          ?? []
-
-        const normalized = (cutoffsArr as any[]).map((i: any) => ({
-          institute: (i.institute ?? '').toString().trim(),
-          institute_code: (i.institute_code ?? '').toString().trim().toUpperCase(),
-          course: (i.course ?? '').toString().trim(),
-          category: (i.category ?? '').toString().trim(),
-          cutoff_rank: Number(i.cutoff_rank ?? 0),
-          year: (i.year ?? '').toString().trim(),
-          round: (i.round ?? '').toString().trim(),
-        })) as CutoffData[]
-
-        setCutoffs(normalized)
-        setMetadata(processed.metadata ?? null)
+        const dataset = await loadCutoffDataset()
+        setCutoffs(dataset.cutoffs)
+        setMetadata(dataset.metadata)
       } catch (e: any) {
         setError(e?.message || 'Unknown error')
       } finally {
@@ -101,13 +57,65 @@ const Analytics = () => {
   }, [])
 
   const stats = useMemo(() => {
-    const totalEntries = metadata?.total_entries ?? cutoffs.length
-    const totalInstitutes = metadata?.total_institutes ?? new Set(cutoffs.map(c => c.institute_code)).size
-    const totalCourses = metadata?.total_courses ?? new Set(cutoffs.map(c => c.course)).size
-    const totalCategories = metadata?.total_categories ?? new Set(cutoffs.map(c => c.category)).size
-    const yearsCovered = metadata?.years_covered ?? Array.from(new Set(cutoffs.map(c => c.year))).sort((a, b) => b.localeCompare(a))
+    const totalEntries = cutoffs.length
+    const totalInstitutes = new Set(cutoffs.map(c => c.institute_code)).size
+    const totalCourses = new Set(cutoffs.map(c => c.course)).size
+    const totalCategories = new Set(cutoffs.map(c => c.category)).size
+    const yearsCovered = getAvailableYears(cutoffs)
     return { totalEntries, totalInstitutes, totalCourses, totalCategories, yearsCovered }
-  }, [metadata, cutoffs])
+  }, [cutoffs])
+
+  const projectionYear = useMemo(() => getProjectionYear(cutoffs), [cutoffs])
+  const projections = useMemo(() => projectCutoffs(cutoffs, projectionYear), [cutoffs, projectionYear])
+  const projectionRounds = useMemo(() => getAvailableRounds(cutoffs), [cutoffs])
+  const projectionCategories = useMemo(() => getAvailableCategories(cutoffs), [cutoffs])
+  const activeRound = projectionRound || projectionRounds[projectionRounds.length - 1] || ''
+
+  // Seat lines of the chosen column and round with the strongest fitted trend
+  const projectionStats = useMemo(() => {
+    const scoped = projections.filter(p =>
+      p.category === projectionCategory && p.round === activeRound && p.observations > 1
+    )
+    const byChange = [...scoped].sort((a, b) => b.yearlyChange - a.yearlyChange)
+    // Split on the sign so a line never shows up as both easing and tightening
+    return {
+      count: scoped.length,
+      median: scoped.length > 0 ? median(scoped.map(p => p.yearlyChange)) : 0,
+      easing: byChange.filter(p => p.yearlyChange > 0).slice(0, 10),
+      tightening: byChange.filter(p => p.yearlyChange < 0).slice(-10).reverse()
+    }
+  }, [projections, projectionCategory, activeRound])
+
+  const renderProjectionTable = (rows: CutoffProjection[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Institute</TableHead>
+          <TableHead>Course</TableHead>
+          <TableHead className="text-right">Trend / year</TableHead>
+          <TableHead className="text-right">Projected {projectionYear}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(p => (
+          <TableRow key={`${p.institute_code}-${p.course_code || p.course}`}>
+            <TableCell>
+              <div className="font-medium truncate max-w-[220px]" title={p.institute}>{p.institute || p.institute_code}</div>
+              <div className="text-xs text-muted-foreground">{p.institute_code}</div>
+            </TableCell>
+            <TableCell className="text-sm">{p.course_code || p.course}</TableCell>
+            <TableCell className={`text-right font-mono ${p.yearlyChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatChange(p.yearlyChange)}
+            </TableCell>
+            <TableCell className="text-right font-mono">
+              <div>{p.expected.toLocaleString()}</div>
+              <div className="text-xs text-muted-foreground">{p.low.toLocaleString()}–{p.high.toLocaleString()}</div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
 
   const liveStats = useMemo(() => {
     if (!liveMatches || liveMatches.length === 0) return null
@@ -180,6 +188,67 @@ const Analytics = () => {
         </CardContent>
       </Card>
 
+      {!loading && !error && cutoffs.length > 0 && <CutoffDashboards cutoffs={cutoffs} />}
+
+      {!loading && !error && cutoffs.length > 0 && <SeatAllocationScenarios cutoffs={cutoffs} />}
+
+      {!loading && !error && projectionYear && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Projected {projectionYear} Cutoffs
+            </CardTitle>
+            <div className="text-sm text-muted-foreground">
+              Closing ranks fitted over all years and rounds per institute, course and category, with 90% intervals.
+              A rising closing rank means the seat is getting easier to win.
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-4">
+              <Select value={projectionCategory} onValueChange={setProjectionCategory}>
+                <SelectTrigger className="w-64"><SelectValue placeholder="Category" /></SelectTrigger>
+                <SelectContent>
+                  {projectionCategories.map(category => (
+                    <SelectItem key={category} value={category}>{getCategoryLabel(category)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={activeRound} onValueChange={setProjectionRound}>
+                <SelectTrigger className="w-56"><SelectValue placeholder="Round" /></SelectTrigger>
+                <SelectContent>
+                  {projectionRounds.map(round => (
+                    <SelectItem key={round} value={round}>{getRoundLabel(round)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4 max-w-md">
+              <div className="p-4 rounded-md border">
+                <div className="text-xs text-muted-foreground">Seat lines with a trend</div>
+                <div className="text-xl font-semibold">{projectionStats.count.toLocaleString()}</div>
+              </div>
+              <div className="p-4 rounded-md border">
+                <div className="text-xs text-muted-foreground">Median yearly change</div>
+                <div className="text-xl font-semibold">{formatChange(projectionStats.median)}</div>
+              </div>
+            </div>
+            {projectionStats.count > 0 && (
+              <div className="grid gap-6 lg:grid-cols-2">
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Expected to ease the most</div>
+                  {renderProjectionTable(projectionStats.easing)}
+                </div>
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Expected to tighten the most</div>
+                  {renderProjectionTable(projectionStats.tightening)}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {liveStats && (
         <Card>
           <CardHeader>
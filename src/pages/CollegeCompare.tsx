@@ -1,7 +1,219 @@
+import { useEffect, useMemo, useState } from "react"
+import { useSearchParams } from "react-router-dom"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Construction, Clock, Scale } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, Link2, Plus, Scale, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { getCategoryLabel, parseCategory } from "@/lib/categories"
+import {
+  buildCutoffComparison,
+  formatCompareItems,
+  getCompareKey,
+  highlightValues,
+  MAX_COMPARE_ITEMS,
+  MIN_COMPARE_ITEMS,
+  parseCompareItems,
+  valuesDiffer,
+  type CellHighlight,
+  type CompareItem,
+  type Preference
+} from "@/lib/college-compare"
+import { loadCollegeProfiles, SEAT_TYPE_LABELS, SEAT_TYPES, type CollegeProfile, type SeatType } from "@/lib/college-profile"
+import { loadReviewSummaries, type ReviewSummary } from "@/lib/college-service"
+import { COURSE_CODE_TO_NAME } from "@/lib/courses"
+import { getAvailableCategories, getAvailableInstitutes, loadCutoffDataset, type CutoffDataset } from "@/lib/cutoff-repository"
+import { calculateFees, DEFAULT_COURSE_YEARS, getFeeSchedule } from "@/lib/fee-engine"
+import { applySchemes, evaluateSchemes, getIncomeBand, INCOME_BANDS, loadFeeSchemeRules, type FeeSchemeRules } from "@/lib/fee-schemes"
+import { getRoundLabel } from "@/lib/rounds"
+
+interface CompareRow {
+  label: string
+  values: Array<number | null>
+  prefer?: Preference
+  format: (value: number) => string
+}
+
+interface CompareSection {
+  title: string
+  // Shown when no item has any value in the section
+  empty: string
+  rows: CompareRow[]
+}
+
+const ALL_COURSES = "all"
+const UNKNOWN_INCOME = "unknown"
+
+const HIGHLIGHT_STYLES: Record<Exclude<CellHighlight, null>, string> = {
+  best: "bg-green-50 text-green-800 font-semibold",
+  worst: "bg-red-50 text-red-800"
+}
+
+const formatRank = (value: number) => value.toLocaleString()
+const formatRupees = (value: number) => `₹${value.toLocaleString("en-IN")}`
+const formatLpa = (value: number) => `${value.toFixed(1)} LPA`
+const formatRating = (value: number) => `${value.toFixed(1)} / 5`
 
 const CollegeCompare = () => {
+  const { toast } = useToast()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [dataset, setDataset] = useState<CutoffDataset | null>(null)
+  const [profiles, setProfiles] = useState<Map<string, CollegeProfile>>(new Map())
+  const [reviews, setReviews] = useState<Map<string, ReviewSummary>>(new Map())
+  const [rules, setRules] = useState<FeeSchemeRules | null>(null)
+  const [loadError, setLoadError] = useState("")
+  const [profileError, setProfileError] = useState("")
+  const [collegeInput, setCollegeInput] = useState("")
+  const [courseInput, setCourseInput] = useState(ALL_COURSES)
+  const [onlyDifferences, setOnlyDifferences] = useState(false)
+
+  const items = useMemo(() => parseCompareItems(searchParams.get("items")), [searchParams])
+  const category = searchParams.get("category") || "GM"
+  const incomeBand = getIncomeBand(searchParams.get("income"))
+  const collegeCodes = useMemo(() => [...new Set(items.map(item => item.collegeCode))], [items])
+
+  useEffect(() => {
+    loadCutoffDataset()
+      .then(setDataset)
+      .catch((error: Error) => setLoadError(error.message))
+    loadReviewSummaries().then(setReviews)
+    // Net payable rows are left out when the rules cannot be loaded
+    loadFeeSchemeRules().then(setRules).catch(() => setRules(null))
+  }, [])
+
+  useEffect(() => {
+    setProfileError("")
+    loadCollegeProfiles(collegeCodes)
+      .then(setProfiles)
+      .catch((error: Error) => setProfileError(error.message))
+  }, [collegeCodes])
+
+  const institutes = useMemo(() => dataset ? getAvailableInstitutes(dataset.cutoffs) : [], [dataset])
+  const categories = useMemo(() => dataset ? getAvailableCategories(dataset.cutoffs) : [], [dataset])
+
+  const pendingCollege = collegeInput.trim().toUpperCase().match(/^E\d{3}/)?.[0] ?? ""
+  const pendingCourses = useMemo(() => {
+    if (!dataset || !pendingCollege) return []
+    const codes = new Set(dataset.cutoffs.filter(r => r.institute_code === pendingCollege && r.course_code).map(r => r.course_code))
+    return [...codes].sort()
+  }, [dataset, pendingCollege])
+
+  const updateParams = (next: { items?: CompareItem[]; category?: string; income?: string }) => {
+    const params = new URLSearchParams(searchParams)
+    if (next.items) params.set("items", formatCompareItems(next.items))
+    if (next.category) params.set("category", next.category)
+    if (next.income === UNKNOWN_INCOME) params.delete("income")
+    else if (next.income) params.set("income", next.income)
+    setSearchParams(params, { replace: true })
+  }
+
+  const addItem = () => {
+    if (!pendingCollege || items.length >= MAX_COMPARE_ITEMS) return
+    const item = { collegeCode: pendingCollege, courseCode: courseInput === ALL_COURSES ? null : courseInput }
+    if (items.some(existing => getCompareKey(existing) === getCompareKey(item))) return
+    updateParams({ items: [...items, item] })
+    setCollegeInput("")
+    setCourseInput(ALL_COURSES)
+  }
+
+  const removeItem = (key: string) => updateParams({ items: items.filter(item => getCompareKey(item) !== key) })
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast({ title: "Link copied", description: "Anyone with the link sees this comparison" })
+    } catch {
+      toast({ title: "Could not copy the link", description: window.location.href, variant: "destructive" })
+    }
+  }
+
+  const collegeName = (code: string) =>
+    profiles.get(code)?.name ?? dataset?.metadata.institute_names[code] ?? code
+
+  const cutoffRows = useMemo(
+    () => dataset ? buildCutoffComparison(dataset.cutoffs, items, category) : [],
+    [dataset, items, category]
+  )
+
+  const sections: CompareSection[] = useMemo(() => {
+    const profileOf = (item: CompareItem) => profiles.get(item.collegeCode)
+    // Student details come from the cutoff category column (e.g. 2AR) and the income band
+    const column = parseCategory(category)
+    const student = {
+      base: column?.base ?? "GM" as const,
+      rural: column?.quota === "R",
+      kannadaMedium: column?.quota === "K",
+      incomeBand: incomeBand?.id ?? null
+    }
+    const netPayable = (profile: CollegeProfile | undefined, seatType: SeatType) => {
+      const schedule = getFeeSchedule(profile?.fees, seatType)
+      if (!schedule || !rules) return null
+      const breakdown = calculateFees(schedule, { category: student.base, familyIncome: incomeBand?.max ?? null, includeHostel: true })
+      return applySchemes(breakdown, evaluateSchemes(rules, student, seatType)).net
+    }
+    const reviewOf = (item: CompareItem) => reviews.get(item.collegeCode)
+    return [
+      {
+        title: `Closing ranks · ${getCategoryLabel(category)}`,
+        empty: "No closing ranks in this category for the selected colleges.",
+        rows: cutoffRows.map(row => ({
+          label: `${row.year} ${getRoundLabel(row.round)}`,
+          values: row.values,
+          // A later closing rank is easier to get
+          prefer: "higher" as const,
+          format: formatRank
+        }))
+      },
+      {
+        title: "Fees",
+        empty: profileError ? `Fee data unavailable: ${profileError}` : "No fee data recorded for these colleges.",
+        rows: [
+          ...SEAT_TYPES.map(seatType => ({
+            label: `Tuition · ${SEAT_TYPE_LABELS[seatType]}`,
+            values: items.map(item => profileOf(item)?.fees?.tuition[seatType] ?? null),
+            prefer: "lower" as const,
+            format: formatRupees
+          })),
+          { label: "Hostel", values: items.map(item => profileOf(item)?.fees?.hostel ?? null), prefer: "lower" as const, format: formatRupees },
+          { label: "One-time charges", values: items.map(item => profileOf(item)?.fees?.oneTime ?? null), prefer: "lower" as const, format: formatRupees },
+          ...(rules ? SEAT_TYPES.map(seatType => ({
+            label: `Net payable, ${DEFAULT_COURSE_YEARS} years · ${SEAT_TYPE_LABELS[seatType]}`,
+            values: items.map(item => netPayable(profileOf(item), seatType)),
+            prefer: "lower" as const,
+            format: formatRupees
+          })) : [])
+        ]
+      },
+      {
+        title: "Placements",
+        empty: profileError ? `Placement data unavailable: ${profileError}` : "No placement data recorded for these colleges.",
+        rows: [
+          { label: "Average package", values: items.map(item => profileOf(item)?.placements?.averagePackage ?? null), prefer: "higher" as const, format: formatLpa },
+          { label: "Median package", values: items.map(item => profileOf(item)?.placements?.medianPackage ?? null), prefer: "higher" as const, format: formatLpa },
+          { label: "Highest package", values: items.map(item => profileOf(item)?.placements?.highestPackage ?? null), prefer: "higher" as const, format: formatLpa },
+          { label: "Students placed", values: items.map(item => profileOf(item)?.placements?.placementRate ?? null), prefer: "higher" as const, format: (v: number) => `${v.toFixed(0)}%` },
+          { label: "Recruiters", values: items.map(item => profileOf(item)?.placements?.recruiters ?? null), prefer: "higher" as const, format: (v: number) => v.toFixed(0) }
+        ]
+      },
+      {
+        title: "Student reviews",
+        empty: "No reviews yet for these colleges.",
+        rows: [
+          { label: "Overall", values: items.map(item => reviewOf(item)?.rating ?? null), prefer: "higher" as const, format: formatRating },
+          { label: "Faculty", values: items.map(item => reviewOf(item)?.faculty ?? null), prefer: "higher" as const, format: formatRating },
+          { label: "Infrastructure", values: items.map(item => reviewOf(item)?.infrastructure ?? null), prefer: "higher" as const, format: formatRating },
+          { label: "Placements", values: items.map(item => reviewOf(item)?.placements ?? null), prefer: "higher" as const, format: formatRating },
+          { label: "Reviews", values: items.map(item => reviewOf(item)?.count ?? null), format: (v: number) => v.toFixed(0) }
+        ]
+      }
+    ]
+  }, [items, category, cutoffRows, profiles, reviews, profileError, rules, incomeBand])
+
   return (
     <div className="space-y-6">
       <div className="space-y-2">
@@ -9,26 +221,190 @@ const CollegeCompare = () => {
         <p className="text-muted-foreground">Contrast colleges side-by-side with cutoffs, fees, and ratings</p>
       </div>
 
-      <Card className="border-orange-200 bg-orange-50">
+      {loadError && (
+        <Card className="border-destructive/40 bg-destructive/10">
+          <CardContent className="py-4 flex items-center gap-2 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load cutoff data: {loadError}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2 text-orange-800">
-            <Construction className="h-5 w-5" />
-            Under Development
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Colleges to Compare
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex items-center gap-3 text-orange-800">
-            <Clock className="h-5 w-5" />
-            <p className="font-medium">This feature is currently under development and will be rolling out soon.</p>
+          <div className="flex flex-wrap gap-2">
+            {items.map(item => (
+              <Badge key={getCompareKey(item)} variant="secondary" className="gap-1 py-1">
+                <span className="font-mono">{getCompareKey(item)}</span>
+                <span className="font-normal">
+                  {collegeName(item.collegeCode)}{item.courseCode && ` · ${COURSE_CODE_TO_NAME[item.courseCode] ?? item.courseCode}`}
+                </span>
+                <button onClick={() => removeItem(getCompareKey(item))} aria-label={`Remove ${getCompareKey(item)}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            {items.length === 0 && <span className="text-sm text-muted-foreground">Add {MIN_COMPARE_ITEMS} to {MAX_COMPARE_ITEMS} colleges or college courses.</span>}
+          </div>
+
+          <div className="grid gap-4 grid-cols-1 md:grid-cols-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="compare-college">College</Label>
+              <Input
+                id="compare-college"
+                list="compare-colleges"
+                value={collegeInput}
+                onChange={(e) => setCollegeInput(e.target.value)}
+                placeholder="College code, e.g. E001"
+                disabled={items.length >= MAX_COMPARE_ITEMS}
+              />
+              <datalist id="compare-colleges">
+                {institutes.map(institute => (
+                  <option key={institute.code} value={`${institute.code} ${institute.name}`} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label>Course</Label>
+              <Select value={courseInput} onValueChange={setCourseInput} disabled={!pendingCollege}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_COURSES}>All courses</SelectItem>
+                  {pendingCourses.map(code => (
+                    <SelectItem key={code} value={code}>{code} · {COURSE_CODE_TO_NAME[code] ?? code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={addItem} disabled={!pendingCollege || items.length >= MAX_COMPARE_ITEMS}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(value) => updateParams({ category: value })}>
+                <SelectTrigger className="w-64"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(categories.length > 0 ? categories : [category]).map(code => (
+                    <SelectItem key={code} value={code}>{getCategoryLabel(code)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="only-differences" checked={onlyDifferences} onCheckedChange={setOnlyDifferences} />
+              <Label htmlFor="only-differences">Only rows that differ</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label>Family income</Label>
+              <Select value={incomeBand?.id ?? UNKNOWN_INCOME} onValueChange={(value) => updateParams({ income: value })}>
+                <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNKNOWN_INCOME}>Not specified</SelectItem>
+                  {INCOME_BANDS.map(band => <SelectItem key={band.id} value={band.id}>{band.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" size="sm" onClick={copyLink} disabled={items.length === 0}>
+              <Link2 className="h-4 w-4 mr-2" />
+              Copy link
+            </Button>
           </div>
-          <p className="text-sm text-orange-700">
-            College Compare will allow you to compare multiple colleges side-by-side with detailed 
-            information about cutoffs, fees, placements, and other important factors.
-          </p>
         </CardContent>
       </Card>
+
+      {items.length < MIN_COMPARE_ITEMS ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Add at least {MIN_COMPARE_ITEMS} colleges to see them side by side.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6 space-y-2">
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-48"></TableHead>
+                    {items.map(item => (
+                      <TableHead key={getCompareKey(item)}>
+                        <div className="font-mono text-foreground">{getCompareKey(item)}</div>
+                        <div className="text-xs font-normal">{collegeName(item.collegeCode)}</div>
+                        {item.courseCode && (
+                          <div className="text-xs font-normal">{COURSE_CODE_TO_NAME[item.courseCode] ?? item.courseCode}</div>
+                        )}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell className="text-muted-foreground">Location</TableCell>
+                    {items.map(item => {
+                      const profile = profiles.get(item.collegeCode)
+                      return (
+                        <TableCell key={getCompareKey(item)}>
+                          {[profile?.location, profile?.district].filter(Boolean).join(", ") || "—"}
+                          {profile?.type && <div className="text-xs text-muted-foreground">{profile.type}</div>}
+                          {profile?.establishedYear && <div className="text-xs text-muted-foreground">Est. {profile.establishedYear}</div>}
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+
+                  {sections.map(section => {
+                    const withValues = section.rows.filter(row => row.values.some(value => value !== null))
+                    const shown = onlyDifferences ? withValues.filter(row => valuesDiffer(row.values)) : withValues
+                    return [
+                      <TableRow key={section.title} className="bg-muted/50 hover:bg-muted/50">
+                        <TableCell colSpan={items.length + 1} className="font-semibold">{section.title}</TableCell>
+                      </TableRow>,
+                      withValues.length === 0 && (
+                        <TableRow key={`${section.title}-empty`}>
+                          <TableCell colSpan={items.length + 1} className="text-sm text-muted-foreground">{section.empty}</TableCell>
+                        </TableRow>
+                      ),
+                      ...shown.map(row => {
+                        const highlights = row.prefer ? highlightValues(row.values, row.prefer) : row.values.map(() => null)
+                        return (
+                          <TableRow key={`${section.title}-${row.label}`}>
+                            <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                            {row.values.map((value, index) => {
+                              const highlight = highlights[index]
+                              return (
+                                <TableCell key={index} className={highlight ? HIGHLIGHT_STYLES[highlight] : ""}>
+                                  {value === null ? "—" : row.format(value)}
+                                </TableCell>
+                              )
+                            })}
+                          </TableRow>
+                        )
+                      })
+                    ]
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Green marks the most favourable value in a row and red the least: later closing ranks, lower fees,
+              higher packages and ratings. College-wide closing ranks are the median across the college's courses.
+              Net payable includes hostel and the scholarships and concessions your category and income qualify for.
+            </p>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
 
-export default CollegeCompare
\ No newline at end of file
+export default CollegeCompare
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -7,47 +7,44 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
 import { Search, MapPin, GraduationCap, TrendingUp, Star, Users, Check, ChevronsUpDown, FileSpreadsheet, Trash2, FileText, AlertCircle, Info, ChevronDown, ChevronUp, BarChart3 } from "lucide-react"
 import { useNavigate } from "react-router-dom"
 import { useToast } from "@/hooks/use-toast"
 import { useIsMobile } from "@/hooks/use-mobile"
-import { XLSXLoader } from "@/lib/xlsx-loader"
+import { getCourseCode } from "@/lib/courses"
+import {
+  getAvailableCategories,
+  getAvailableCourses,
+  getAvailableInstitutes,
+  getAvailableRounds,
+  getAvailableYears,
+  loadCutoffDataset,
+  loadXLSXCutoffDataset,
+  pickBestColumns,
+  queryCutoffs,
+  type CutoffDataset,
+  type CutoffDatasetMetadata,
+  type CutoffRecord
+} from "@/lib/cutoff-repository"
+import { getRoundLabel, parseRound } from "@/lib/rounds"
+import { getCategoryLabel, getEligibleCategories, type StudentCategoryProfile } from "@/lib/categories"
+import { CategoryProfileInput } from "@/components/CategoryProfileInput"
+import { estimateAdmissionChance, getHistoryKey, indexCutoffHistory, MIN_LISTED_CHANCE, type ChanceBand } from "@/lib/admission-chance"
+import {
+  estimateProjectedChance,
+  getProjectionYear,
+  projectCutoffs,
+  toProjectedRecords,
+  type CutoffProjection
+} from "@/lib/cutoff-projection"
 import { finderStore } from "@/store/finderStore"
 import { loadSettings } from '@/lib/settings'
 import { Progress } from "@/components/ui/progress"
 import { Skeleton } from "@/components/ui/skeleton"
 
-interface CutoffData {
-  institute: string
-  institute_code: string
-  course: string
-  category: string
-  cutoff_rank: number
-  year: string
-  round: string
-  total_seats?: number
-  available_seats?: number
-}
-
-interface CutoffResponse {
-  metadata: {
-    last_updated: string
-    total_entries: number
-    total_institutes: number
-    total_courses: number
-    total_categories: number
-    years_covered: string[]
-    extraction_method: string
-    source_files: string[]
-    auto_detected_courses: string[]
-    detected_categories: string[]
-    institute_names: Record<string, string>
-  }
-  cutoffs: CutoffData[]
-}
-
 interface CollegeMatch {
   institute: string
   institute_code: string
@@ -57,18 +54,26 @@ interface CollegeMatch {
   year: string
   round: string
   matchScore: number
-  safetyLevel: 'Eligible'
+  safetyLevel: ChanceBand
+  expectedCutoff: number
+  compared_categories?: string[]
+  projection?: CutoffProjection
 }
 
+const DEFAULT_PROFILE: StudentCategoryProfile = { base: 'GM', rural: false, kannadaMedium: false, hyderabadKarnataka: false }
+
+// Year select value for next year's projected cutoffs
+const PROJECTED_YEAR = 'projected'
+
 const CollegeFinder = () => {
-  const [cutoffs, setCutoffs] = useState<CutoffData[]>([])
+  const [cutoffs, setCutoffs] = useState<CutoffRecord[]>([])
   const [matches, setMatches] = useState<CollegeMatch[]>([])
   const [loading, setLoading] = useState(true)
   const [searching, setSearching] = useState(false)
   const [progress, setProgress] = useState<number>(0)
   const [tipIndex, setTipIndex] = useState<number>(0)
   const [secondsLeft, setSecondsLeft] = useState<number>(0)
-  const [metadata, setMetadata] = useState<CutoffResponse['metadata'] | null>(null)
+  const [metadata, setMetadata] = useState<CutoffDatasetMetadata | null>(null)
   
   // Dynamic options extracted from JSON data
   const [availableYears, setAvailableYears] = useState<string[]>([])
@@ -80,6 +85,9 @@ const CollegeFinder = () => {
   // User inputs
   const [userRank, setUserRank] = useState<number>(50000)
   const [userCategory, setUserCategory] = useState("")
+  // Eligibility mode: evaluate every column the student's category profile allows
+  const [eligibilityMode, setEligibilityMode] = useState(false)
+  const [profile, setProfile] = useState<StudentCategoryProfile>(DEFAULT_PROFILE)
   const [selectedYear, setSelectedYear] = useState("")
   const [selectedRound, setSelectedRound] = useState("")
   const [selectedInstitute, setSelectedInstitute] = useState("")
@@ -91,424 +99,18 @@ const CollegeFinder = () => {
   const [showFilters, setShowFilters] = useState(false)
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
 
+  const historyIndex = useMemo(() => indexCutoffHistory(cutoffs), [cutoffs])
+  const projectionYear = useMemo(() => getProjectionYear(cutoffs), [cutoffs])
+  // Fitted only once the projected pseudo-year is picked
+  const projectedCutoffs = useMemo(
+    () => selectedYear === PROJECTED_YEAR ? toProjectedRecords(projectCutoffs(cutoffs, projectionYear)) : [],
+    [cutoffs, projectionYear, selectedYear]
+  )
+
   const isMobile = useIsMobile()
   const { toast } = useToast()
   const navigate = useNavigate()
 
-  // Mapping: course codes to canonical names (normalized display) - EXACT MATCHING
-  const courseCodeToName: Record<string, string> = {
-    // Engineering Courses
-    AD: 'Artificial Intelligence And Data Science',
-    AE: 'Aeronautical Engineering',
-    AI: 'Artificial Intelligence and Machine Learning',
-    AR: 'Architecture',
-    AT: 'Automotive Engineering',
-    AU: 'Automobile Engineering',
-    BC: 'BTech Computer Technology',
-    BD: 'Computer Science Engineering-Big Data',
-    BE: 'Bio-Electronics Engineering',
-    BI: 'Information Technology and Engineering',
-    BM: 'Bio Medical Engineering',
-    BR: 'BioMedical and Robotic Engineering',
-    BS: 'Bachelor of Science (Honours)',
-    BT: 'Bio Technology',
-    CA: 'Computer Science Engineering-AI',
-    CB: 'Computer Science and Business Systems',
-    CC: 'Computer and Communication Engineering',
-    CD: 'Computer Science and Design',
-    CE: 'Civil Engineering',
-    CF: 'Computer Science Engineering-Artificial',
-    CG: 'Computer Science and Technology',
-    CH: 'Chemical Engineering',
-    CI: 'Computer Science and Information',
-    CK: 'Civil Engineering (Kannada Medium)',
-    CM: 'Electronics Engineering (VLSI Design)',
-    CO: 'Computer Engineering',
-    CP: 'Civil Engineering and Planning',
-    CR: 'Ceramics and Cement Technology',
-    CS: 'Computer Science And Engineering',
-    CT: 'Construction Technology and Management',
-    CV: 'Civil Environmental Engineering',
-    CY: 'Computer Science Engineering-Cyber',
-    DC: 'Data Sciences',
-    DG: 'Design',
-    DM: 'Computer Science and Engineering',
-    DS: 'Computer Science Engineering-Data',
-    EA: 'Agriculture Engineering',
-    EB: 'Electronics and Communication (Advanced)',
-    EC: 'Electronics and Communication Engineering',
-    EE: 'Electrical And Electronics Engineering',
-    EG: 'Energy Engineering',
-    EI: 'Electronics and Instrumentation Engineering',
-    EL: 'Electronics and Instrumentation Technology',
-    EN: 'Environmental Engineering',
-    EP: 'BTech Technology and Entrepreneurship',
-    ER: 'Electrical and Computer Engineering',
-    ES: 'Electronics and Computer Engineering',
-    ET: 'Electronics and Telecommunication',
-    EV: 'Electronics Engineering (VLSI Design)',
-    IB: 'Computer Science Engg - IoT including Blockchain',
-    IC: 'Computer Science - Internet of Things',
-    IE: 'Information Science and Engineering',
-    IG: 'Information Technology',
-    II: 'Electronics and Communication - Industrial',
-    IM: 'Industrial Engineering and Management',
-    IO: 'Computer Science Engineering - Internet of Things',
-    IP: 'Industrial and Production Engineering',
-    IS: 'Information Science and Technology',
-    IT: 'Instrumentation Technology',
-    IY: 'Computer Science - Information Technology - Cyber Security',
-    LA: 'B Plan',
-    LC: 'Computer Science Engineering - Block Chain',
-    LJ: 'BTech in Computer Science',
-    MC: 'Mathematics and Computing',
-    MD: 'Medical Electronics',
-    ME: 'Mechanical Engineering',
-    MK: 'Mechanical Engineering (Kannada Medium)',
-    MM: 'Mechanical and Smart Manufacturing',
-    MN: 'Mining Engineering',
-    MR: 'Marine Engineering',
-    MS: 'Manufacturing Science and Engineering',
-    MT: 'Mechatronics',
-    NT: 'Nano Technology',
-    OP: 'Computer Science Engineering - DevOps',
-    OT: 'Industrial IoT',
-    PE: 'Petrochemical Engineering',
-    PL: 'Petroleum Engineering',
-    PM: 'Precision Manufacturing',
-    PT: 'Polymer Science and Technology',
-    RA: 'Robotics and Automation',
-    RB: 'Robotics',
-    RI: 'Robotics and Artificial Intelligence',
-    RM: 'Computer Science - Robotic Engineering - AI',
-    RO: 'Automation and Robotics Engineering',
-    SA: 'Smart Agritech',
-    SE: 'Aerospace Engineering',
-    SS: 'Computer Science and System Engineering',
-    ST: 'Silk Technology',
-    TC: 'Telecommunication Engineering',
-    TE: 'Tool Engineering',
-    TX: 'Textile Technology',
-    UP: 'Planning',
-    UR: 'Planning',
-    ZC: 'Computer Science',
-    
-    // B.Tech Specialisations (prefixed with "B")
-    AM: 'B Tech in Computer Science & Engg (AI & ML)',
-    BA: 'B.Tech (Agricultural Engineering)',
-    BB: 'B Tech in Electronics & Communication',
-    BF: 'B Tech (Hons) Comp Sci and Engg (Data)',
-    BG: 'B Tech in Artificial Intelligence and Data',
-    BH: 'B Tech in Artificial Intelligence and ML',
-    BJ: 'B Tech in Electrical & Electronics',
-    BK: 'B Tech in Energy Engineering',
-    BL: 'B Tech in Aerospace Engineering',
-    BN: 'B Tech in Computer Science and Tech (Big Data)',
-    BO: 'B Tech in Bio-Technology',
-    BP: 'B Tech in Civil Engineering',
-    BQ: 'B Tech in Computer Science',
-    BU: 'B Tech in Computer Science and Information',
-    BV: 'B Tech in Computer Engineering',
-    BW: 'B Tech in Computer Science',
-    BX: 'B Tech in Computer Science and Engg (Cyber)',
-    BY: 'B Tech in Computer Science',
-    BZ: 'B Tech in Computer Science',
-    CL: 'B Tech in Electronics & Computer',
-    CN: 'B Tech in Computer Science and Engg (IoT and ...)',
-    CQ: 'B Tech in Computer Science',
-    CU: 'B Tech in Information Science',
-    CW: 'B Tech in Information Technology',
-    CX: 'B Tech in Information Science & ...',
-    CZ: 'B Tech in Computer Science',
-    DA: 'B Tech in Mathematics and Computing',
-    DB: 'B Tech in Mechanical Engineering',
-    DD: 'B Tech in Mechatronics Engineering',
-    DE: 'B Tech in Petroleum Engineering',
-    DF: 'B Tech in Robotics and Automation',
-    DH: 'B Tech in Robotics and Artificial Intelligence',
-    DI: 'B Tech in Robotic Engineering',
-    DJ: 'B Tech in Robotics',
-    DK: 'B Tech in Computer Science and System',
-    DL: 'B Tech in Computer Science',
-    DN: 'B Tech in VLSI',
-    LD: 'B Tech in Computer Science (Data)',
-    LE: 'B Tech in Computer Science (AI & ML)',
-    LF: 'B Tech in Computer Science (Cloud)',
-    LG: 'B Tech in Computer Science (Cyber)',
-    LH: 'B Tech in Computer Science (Information)',
-    LK: 'B Tech in Computer Science (Internet of Things)',
-    
-    // Farm Science Courses
-    FH: 'B.F.Sc. Fisheries Science',
-    AB: 'B.Tech (Biotechnology)',
-    AMB: 'B.Sc. (Hons) Ag. Business Management',
-    AG: 'B.Sc. (Hons) Agriculture',
-    HS: 'B.Sc. (Hons) Community Science',
-    FR: 'B.Sc. (Hons) Forestry',
-    HT: 'B.Sc. (Hons) Horticulture',
-    SR: 'B.Sc. (Hons) Sericulture',
-    VS: 'B.V.Sc. and A.H',
-    DT: 'B.Tech (Dairy Technology)',
-    FS: 'B.Tech (Food Technology)',
-    FT: 'B.Tech (Food Technology)',
-    HE: 'Horticultural Engineering',
-
-    // New 2025 course names
-    'ARTIFICIAL\nINTELLIGENCE AND\nDATA SCIENCE': 'Artificial Intelligence and Data Science',
-    'ARTIFICIAL\nINTELLIGENCE AND\nMACHINE\nLEARNING': 'Artificial Intelligence and Machine Learning',
-    'AUTOMATION\nAND ROBOTICS': 'Automation and Robotics',
-    'AUTOMATION AND\nROBOTICS': 'Automation and Robotics',
-    'AUTOMOBILE\nENGINEERING': 'Automobile Engineering',
-    'AUTOMOTIVE\nENGINEERING': 'Automotive Engineering',
-    'B TECH (HONS)\nCOMPUTER\nSCIENCE AND\nENGINEERING(D\nATA SCIENCE)': 'B.Tech (Hons) Computer Science and Engineering (Data Science)',
-    'B TECH (HONS)\nCOMPUTER\nSCIENCE AND\nENGINEERING(DAT\nA SCIENCE)': 'B.Tech (Hons) Computer Science and Engineering (Data Science)',
-    'B TECH IN\nAERONAUTICAL\nENGINEERING': 'B.Tech in Aeronautical Engineering',
-    'B TECH IN\nAGRICULTURAL\nENGINEERING': 'B.Tech in Agricultural Engineering',
-    'B TECH IN\nARTIFICIAL\nINTELLIGENCE\nAND DATA\nSCIENCE': 'B.Tech in Artificial Intelligence and Data Science',
-    'B TECH IN\nARTIFICIAL\nINTELLIGENCE\nAND MACHINE\nLEARNING': 'B.Tech in Artificial Intelligence and Machine Learning',
-    'B TECH IN\nCOMPUTER\nENGINEERING': 'B.Tech in Computer Engineering',
-    'B TECH IN\nCOMPUTER\nSCIENCE': 'B.Tech in Computer Science',
-    'B TECH IN\nCOMPUTER\nSCIENCE\n(CLOUD\nCOMPUTING)': 'B.Tech in Computer Science (Cloud Computing)',
-    'B TECH IN\nCOMPUTER\nSCIENCE\n(CYBER\nSECURITY)': 'B.Tech in Computer Science (Cyber Security)',
-    'B TECH IN\nCOMPUTER\nSCIENCE &\nENGG\n(ARTIFICIAL\nINTELLIGENCE\nAND FUTURE\nTECHNOLOGIES\n)': 'B.Tech in Computer Science & Engineering (Artificial Intelligence and Future Technologies)',
-    'B TECH IN\nCOMPUTER\nSCIENCE &\nENGINEERING\n(ARTIFICAL\nINTELLIGENCE &\nMACHINE\nLEARNING)': 'B.Tech in Computer Science & Engineering (Artificial Intelligence and Machine Learning)',
-    'B TECH IN\nCOMPUTER\nSCIENCE & ENGG\n(ARTIFICIAL\nINTELLIGENCE AND\nFUTURE\nTECHNOLOGIES)': 'B.Tech in Computer Science & Engineering (Artificial Intelligence and Future Technologies)',
-    'B TECH IN\nCOMPUTER\nSCIENCE (CLOUD\nCOMPUTING)': 'B.Tech in Computer Science (Cloud Computing)',
-    'B TECH IN\nCOMPUTER\nSCIENCE (CYBER\nSECURITY)': 'B.Tech in Computer Science (Cyber Security)',
-    'B TECH IN\nCOMPUTER\nSCIENCE (DATA\nSCIENCE)': 'B.Tech in Computer Science (Data Science)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING': 'B.Tech in Computer Science and Engineering',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(A\nRTIFICIAL\nINTELLIGENCE &\nDATA SCIENCE)': 'B.Tech in Computer Science and Engineering (Artificial Intelligence and Data Science)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(ARTI\nFICAL\nINTELLIGENCE &\nDATA SCIENCE)': 'B.Tech in Computer Science and Engineering (Artificial Intelligence and Data Science)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(BLO\nCK CHAIN)': 'B.Tech in Computer Science and Engineering (Block Chain)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(C\nYBER\nSECURITY)': 'B.Tech in Computer Science and Engineering (Cyber Security)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(CYB\nER SECURITY)': 'B.Tech in Computer Science and Engineering (Cyber Security)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(D\nATA SCIENCE)': 'B.Tech in Computer Science and Engineering (Data Science)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(DAT\nA SCIENCE)': 'B.Tech in Computer Science and Engineering (Data Science)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(I\nOT INCLUDING\nBLOCK CHAIN)': 'B.Tech in Computer Science and Engineering (IoT including Block Chain)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(I\nOT)': 'B.Tech in Computer Science and Engineering (IoT)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(IOT\nINCLUDING BLOCK\nCHAIN)': 'B.Tech in Computer Science and Engineering (IoT including Block Chain)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nENGINEERING(IOT)': 'B.Tech in Computer Science and Engineering (IoT)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nINFORMATION\nTECHNOLOGY': 'B.Tech in Computer Science and Information Technology',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nTECHNOLOGY': 'B.Tech in Computer Science and Technology',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nTECHNOLOGY(BIG\nDATA)': 'B.Tech in Computer Science and Technology (Big Data)',
-    'B TECH IN\nCOMPUTER\nSCIENCE AND\nTECHNOLOGY(DEV\nOPS)': 'B.Tech in Computer Science and Technology (DevOps)',
-    'B TECH IN\nELECTRICAL &\nELECTRONICS\nENGINEERING': 'B.Tech in Electrical & Electronics Engineering',
-    'B TECH IN\nELECTRONICS &\nCOMMUNICATIO\nN ENGINEERING': 'B.Tech in Electronics & Communication Engineering',
-    'B TECH IN\nELECTRONICS &\nCOMMUNICATION\nENGINEERING': 'B.Tech in Electronics & Communication Engineering',
-    'B TECH IN\nELECTRONICS &\nCOMPUTER\nENGINEERING': 'B.Tech in Electronics & Computer Engineering',
-    'B TECH IN\nINFORMATION\nSCIENCE\nENGINEERING': 'B.Tech in Information Science Engineering',
-    'B TECH IN\nINFORMATION\nSCIENCE &\nTECHNOLOGY': 'B.Tech in Information Science & Technology',
-    'B TECH IN\nINFORMATION\nTECHNOLOGY': 'B.Tech in Information Technology',
-    'B TECH IN\nMATHAMATICS\nAND\nCOMPUTING': 'B.Tech in Mathematics and Computing',
-    'B TECH IN\nMATHAMATICS\nAND COMPUTING': 'B.Tech in Mathematics and Computing',
-    'B TECH IN\nMECHANICAL\nENGINEERING': 'B.Tech in Mechanical Engineering',
-    'B TECH IN\nMECHATRONICS\nENGINEERING': 'B.Tech in Mechatronics Engineering',
-    'B TECH IN\nPETROLEUM\nENGINEERING': 'B.Tech in Petroleum Engineering',
-    'B TECH IN\nROBOTIC\nENGINEERING': 'B.Tech in Robotic Engineering',
-    'B TECH IN\nROBOTICS\nENGINEERING': 'B.Tech in Robotics Engineering',
-    'B TECH IN\nROBOTICS AND\nAUTOMATION': 'B.Tech in Robotics and Automation',
-    'B TECH IN AERO\nSPACE\nENGINEERING': 'B.Tech in Aerospace Engineering',
-    'B TECH IN BIO-\nTECHNOLOGY': 'B.Tech in Bio-Technology',
-    'B TECH IN CIVIL\nENGINEERING': 'B.Tech in Civil Engineering',
-    'B TECH IN ENERGY\nENGINEERING': 'B.Tech in Energy Engineering',
-    'B Tech in\nComputer\nScience(AI &ML)': 'B.Tech in Computer Science (AI & ML)',
-    'B Tech in\nComputer Science\n(Information\nSecurity)': 'B.Tech in Computer Science (Information Security)',
-    'B Tech in\nROBOTICS AND\nARTIFICIAL\nINTELLIGENCE': 'B.Tech in Robotics and Artificial Intelligence',
-    'B Tech in Computer\nScience (Information\nSecurity)': 'B.Tech in Computer Science (Information Security)',
-    'B Tech in Computer\nScience(AI &ML)': 'B.Tech in Computer Science (AI & ML)',
-    'B.Plan': 'B.Plan',
-    'B.TECH IN\nCOMPUTER\nENGINEERING(S\nOFTWARE\nPRODUCT\nDEVELOPMENT)': 'B.Tech in Computer Engineering (Software Product Development)',
-    'B.TECH IN\nCOMPUTER\nENGINEERING(SOF\nTWARE PRODUCT\nDEVELOPMENT)': 'B.Tech in Computer Engineering (Software Product Development)',
-    'B.TECH IN\nCOMPUTER\nSCIENCE AND\nARTIFICIAL\nINTELLIGENCE': 'B.Tech in Computer Science and Artificial Intelligence',
-    'B.TECH IN\nCOMPUTER\nSCIENCE AND\nENGG\n(ROBOTICS)': 'B.Tech in Computer Science and Engineering (Robotics)',
-    'B.TECH IN\nCOMPUTER\nSCIENCE AND\nENGG (ROBOTICS)': 'B.Tech in Computer Science and Engineering (Robotics)',
-    'B.TECH IN\nCOMPUTER\nSICENCE AND\nENGG (DATA\nANALYTICS)': 'B.Tech in Computer Science and Engineering (Data Analytics)',
-    'B.TECH IN\nComputer Science\nand Medical\nEngineering': 'B.Tech in Computer Science and Medical Engineering',
-    'B.TECH IN\nELECTRICAL\nENGINEERING\nAND COMPUTER\nSCIENCE': 'B.Tech in Electrical Engineering and Computer Science',
-    'B.TECH IN\nELECTRICAL\nENGINEERING AND\nCOMPUTER\nSCIENCE': 'B.Tech in Electrical Engineering and Computer Science',
-    'B.TECH IN\nELECTRONICS\nENGINEERING': 'B.Tech in Electronics Engineering',
-    'B.TECH IN\nELECTRONICS\nENGINEERING\n(VLSI AND\nEMBEDDED\nSYSTEM)': 'B.Tech in Electronics Engineering (VLSI and Embedded System)',
-    'B.TECH IN\nEMBEDDED\nSYSTEM AND\nVLSI': 'B.Tech in Embedded System and VLSI',
-    'B.TECH IN\nEMBEDDED\nSYSTEM AND VLSI': 'B.Tech in Embedded System and VLSI',
-    'B.TECH IN\nMECHANICAL\nAND\nAEROSPACE\nENGINEERING': 'B.Tech in Mechanical and Aerospace Engineering',
-    'B.TECH IN\nMECHANICAL AND\nAEROSPACE\nENGINEERING': 'B.Tech in Mechanical and Aerospace Engineering',
-    'B.TECH IN CIVIL\nCONSTRUCTION\nAND\nSUSTAINABILITY\nENGINEERING': 'B.Tech in Civil Construction and Sustainability Engineering',
-    'B.Tech In\nBIOTECHNOLOG\nY & BIO-\nENGINEERING': 'B.Tech in Biotechnology & Bio-Engineering',
-    'B.Tech In\nBIOTECHNOLOGY\n& BIO-\nENGINEERING': 'B.Tech in Biotechnology & Bio-Engineering',
-    'B.Tech in\nCOMPUTER\nSCIENCE & ENGG\n(Business Systems)': 'B.Tech in Computer Science & Engineering (Business Systems)',
-    'B.Tech in\nComputer Science\n(Internet of\nThings)': 'B.Tech in Computer Science (Internet of Things)',
-    'B.Tech in\nComputer Science\nand\nEngineering(Clou\nd Computing)': 'B.Tech in Computer Science and Engineering (Cloud Computing)',
-    'B.Tech in\nComputer Science\nand\nEngineering(Dev\nOps)': 'B.Tech in Computer Science and Engineering (DevOps)',
-    'B.Tech in\nComputer Science\nand\nEngineering(Full\nStack\nDevelopment)': 'B.Tech in Computer Science and Engineering (Full Stack Development)',
-    'B.Tech in\nElectrical and\nElectronics\nEngineering\n(Electrical Vehicle\nTechnology)': 'B.Tech in Electrical and Electronics Engineering (Electrical Vehicle Technology)',
-    'B.Tech in Computer\nScience (Internet of\nThings)': 'B.Tech in Computer Science (Internet of Things)',
-    'B.Tech in Computer\nScience and\nEngineering(Cloud\nComputing)': 'B.Tech in Computer Science and Engineering (Cloud Computing)',
-    'B.Tech in Computer\nScience and\nEngineering(Dev\nOps)': 'B.Tech in Computer Science and Engineering (DevOps)',
-    'B.Tech in Computer\nScience and\nEngineering(Full\nStack Development)': 'B.Tech in Computer Science and Engineering (Full Stack Development)',
-    'B.Tech in Electrical\nand Electronics\nEngineering\n(Electrical Vehicle\nTechnology)': 'B.Tech in Electrical and Electronics Engineering (Electrical Vehicle Technology)',
-    'B.Tech in VLSI': 'B.Tech in VLSI',
-    'BIO-\nTECHNOLOGY': 'Bio-Technology',
-    'BIO-MEDICAL\nENGINEERING': 'Bio Medical Engineering',
-    'BIO-TECHNOLOGY': 'Bio-Technology',
-    'BIOMEDICAL\nAND ROBOTIC\nENGINEERING': 'Biomedical and Robotic Engineering',
-    'BIOMEDICAL AND\nROBOTIC\nENGINEERING': 'Biomedical and Robotic Engineering',
-    'BTECH IN\nCOMPUTER\nSCIENCE AND\nBUSINESS\nSYSTEMS': 'B.Tech in Computer Science and Business Systems',
-    'BTECH IN\nCOMPUTER\nSCIENCE AND\nDESIGN': 'B.Tech in Computer Science and Design',
-    'BTECH IN\nELECTRONICS\nENGINEERING(V\nLSI DESIGN &\nTECHNOLOGY)': 'B.Tech in Electronics Engineering (VLSI Design & Technology)',
-    'BTECH IN\nELECTRONICS\nENGINEERING(VLSI\nDESIGN &\nTECHNOLOGY)': 'B.Tech in Electronics Engineering (VLSI Design & Technology)',
-    'BTECH IN\nINFORMATION\nTECHNOLOGY\nDATA\nANALYTICS': 'B.Tech in Information Technology Data Analytics',
-    'BTECH IN\nINFORMATION\nTECHNOLOGY\nDATA ANALYTICS': 'B.Tech in Information Technology Data Analytics',
-    'BTECH IN\nMECHANICAL AND\nSMART\nMANUFACTURING': 'B.Tech in Mechanical and Smart Manufacturing',
-    'BTECH IN\nPHARMACEUTICAL\nENGINEERING': 'B.Tech in Pharmaceutical Engineering',
-    'CERAMICS &\nCEMENT\nENGINEERING': 'Ceramics and Cement Engineering',
-    'CHEMICAL\nENGINEERING': 'Chemical Engineering',
-    'CIVIL\nENGINEERING': 'Civil Engineering',
-    'CIVIL\nENGINEERING\n(KANNADA\nMEDIUM)': 'Civil Engineering (Kannada Medium)',
-    'CIVIL\nENGINEERING\nWITH COMPUTER\nAPPLICATION': 'Civil Engineering with Computer Application',
-    'CIVIL\nENVIRONMENTA\nL ENGINEERING': 'Civil Environmental Engineering',
-    'CIVIL\nENVIRONMENTAL\nENGINEERING': 'Civil Environmental Engineering',
-    'COMMUNICATION\nDESIGN': 'Communication Design',
-    'COMPUTER\nENGINEERING': 'Computer Engineering',
-    'COMPUTER\nSCIENCE': 'Computer Science',
-    'COMPUTER\nSCIENCE &\nTECHNOLOGY': 'Computer Science & Technology',
-    'COMPUTER\nSCIENCE AND\nBUSINESS\nSYSTEMS': 'Computer Science and Business Systems',
-    'COMPUTER\nSCIENCE AND\nDESIGN': 'Computer Science and Design',
-    'COMPUTER\nSCIENCE AND\nENGG\n(ARTIFICIAL\nINTELLIGENCE)': 'Computer Science and Engineering (Artificial Intelligence)',
-    'COMPUTER\nSCIENCE AND\nENGG (ARTIFICIAL\nINTELLIGENCE)': 'Computer Science and Engineering (Artificial Intelligence)',
-    'COMPUTER\nSCIENCE AND\nENGG(ARTIFICIA\nL INTELLIGENCE\nAND MACHINE\nLEARNING)': 'Computer Science and Engineering (Artificial Intelligence and Machine Learning)',
-    'COMPUTER\nSCIENCE AND\nENGG(ARTIFICIAL\nINTELLIGENCE AND\nMACHINE\nLEARNING)': 'Computer Science and Engineering (Artificial Intelligence and Machine Learning)',
-    'COMPUTER\nSCIENCE AND\nENGG(INTERNE\nT OF THINGS &\nCYBER\nSECURITY\nINCLUDING\nBLOCK CHAIN\nTECH)': 'Computer Science and Engineering (Internet of Things & Cyber Security including Block Chain Tech)',
-    'COMPUTER\nSCIENCE AND\nENGG(INTERNE\nT OF THINGS)': 'Computer Science and Engineering (Internet of Things)',
-    'COMPUTER\nSCIENCE AND\nENGG(INTERNET\nOF THINGS &\nCYBER SECURITY\nINCLUDING BLOCK\nCHAIN TECH)': 'Computer Science and Engineering (Internet of Things & Cyber Security including Block Chain Tech)',
-    'COMPUTER\nSCIENCE AND\nENGG(INTERNET\nOF THINGS)': 'Computer Science and Engineering (Internet of Things)',
-    'COMPUTER\nSCIENCE AND\nENGINEERING': 'Computer Science and Engineering',
-    'COMPUTER\nSCIENCE AND\nENGINEERING\n(AIML)': 'Computer Science and Engineering (AIML)',
-    'COMPUTER\nSCIENCE AND\nENGINEERING\n(CYBER\nSECURITY)': 'Computer Science and Engineering (Cyber Security)',
-    'COMPUTER\nSCIENCE AND\nENGINEERING\n(CYBER SECURITY)': 'Computer Science and Engineering (Cyber Security)',
-    'COMPUTER\nSCIENCE AND\nENGINEERING(A\nRTIFICAL\nINTELLIGENCE &\nDATA SCIENCE)': 'Computer Science and Engineering (Artificial Intelligence and Data Science)',
-    'COMPUTER\nSCIENCE AND\nENGINEERING(ARTI\nFICAL\nINTELLIGENCE &\nDATA SCIENCE)': 'Computer Science and Engineering (Artificial Intelligence and Data Science)',
-    'COMPUTER\nSCIENCE AND\nENGINEERING(D\nATA SCIENCE)': 'Computer Science and Engineering (Data Science)',
-    'COMPUTER\nSCIENCE AND\nENGINEERING(DAT\nA SCIENCE)': 'Computer Science and Engineering (Data Science)',
-    'COMPUTER AND\nCOMMUNICATIO\nN ENGINEERING': 'Computer and Communication Engineering',
-    'COMPUTER AND\nCOMMUNICATION\nENGINEERING': 'Computer and Communication Engineering',
-    'CYBER\nSECURITY': 'Cyber Security',
-    'CYBER SECURITY': 'Cyber Security',
-    'DATA SCIENCES': 'Data Sciences',
-    'DESIGN': 'Design',
-    'ELECTRICAL &\nCOMPUTER\nENGINEERING': 'Electrical & Computer Engineering',
-    'ELECTRICAL &\nELECTRONICS\nENGINEERING': 'Electrical & Electronics Engineering',
-    'ELECTRONICS\nAND\nCOMMUNICATIO\nN (ADVANCED\nCOMMUNICATIO\nN\nTECHNOLOGY)': 'Electronics and Communication (Advanced Communication Technology)',
-    'ELECTRONICS\nAND\nCOMMUNICATIO\nN ENGG': 'Electronics and Communication Engineering',
-    'ELECTRONICS\nAND\nCOMMUNICATIO\nN ENGG (VLSI\nDESIGN AND\nTECHNOLOGY)': 'Electronics and Communication Engineering (VLSI Design and Technology)',
-    'ELECTRONICS\nAND\nINSTRUMENTATI\nON\nENGINEERING': 'Electronics and Instrumentation Engineering',
-    'ELECTRONICS\nAND\nTELECOMMUNIC\nATION\nENGINEERING': 'Electronics and Telecommunication Engineering',
-    'ELECTRONICS\nENGINEERING(V\nLSI DESIGN &\nTECHNOLOGY)': 'Electronics Engineering (VLSI Design & Technology)',
-    'ELECTRONICS\nENGINEERING(VLSI\nDESIGN &\nTECHNOLOGY)': 'Electronics Engineering (VLSI Design & Technology)',
-    'ELECTRONICS &\nCOMMUNICATION\nENGINEERING(IND\nUSTRIAL\nINTEGTATED)': 'Electronics & Communication Engineering (Industrial Integrated)',
-    'ELECTRONICS &\nCOMPUTER\nENGINEERING': 'Electronics & Computer Engineering',
-    'ELECTRONICS &\nCOMPUTER\nSCIENCE': 'Electronics & Computer Science',
-    'ELECTRONICS &\nINSTRUMENTATI\nON\nENGINEERING': 'Electronics & Instrumentation Engineering',
-    'ELECTRONICS &\nINSTRUMENTATION\nENGINEERING': 'Electronics & Instrumentation Engineering',
-    'ELECTRONICS AND\nCOMMUNICATION\n(ADVANCED\nCOMMUNICATION\nTECHNOLOGY)': 'Electronics and Communication (Advanced Communication Technology)',
-    'ELECTRONICS AND\nCOMMUNICATION\nENGG': 'Electronics and Communication Engineering',
-    'ELECTRONICS AND\nCOMMUNICATION\nENGG (VLSI\nDESIGN AND\nTECHNOLOGY)': 'Electronics and Communication Engineering (VLSI Design and Technology)',
-    'ELECTRONICS AND\nINSTRUMENTATION\nENGINEERING': 'Electronics and Instrumentation Engineering',
-    'ELECTRONICS AND\nTELECOMMUNICAT\nION ENGINEERING': 'Electronics and Telecommunication Engineering',
-    'ENGINEERING\nDESIGN': 'Engineering Design',
-    'ENVIRONMENTA\nL ENGINEERING': 'Environmental Engineering',
-    'ENVIRONMENTAL\nENGINEERING': 'Environmental Engineering',
-    'FASHION DESIGN': 'Fashion Design',
-    'INDUSTRIAL\nDESIGN': 'Industrial Design',
-    'INDUSTRIAL\nENGINEERING &\nMANAGEMENT': 'Industrial Engineering & Management',
-    'INDUSTRIAL &\nPRODUCTION\nENGINEERING': 'Industrial & Production Engineering',
-    'INDUSTRIAL IOT': 'Industrial IoT',
-    'INFORMATION\nSCIENCE': 'Information Science',
-    'INFORMATION\nSCIENCE AND\nENGINEERING': 'Information Science and Engineering',
-    'LIFE STYLE AND\nACCESSORY\nDESIGN': 'Life Style and Accessory Design',
-    'MARINE\nENGINEERING': 'Marine Engineering',
-    'MECHANICAL\nENGINEERING': 'Mechanical Engineering',
-    'MECHANICAL\nENGINEERING\n(KANNADA\nMEDIUM)': 'Mechanical Engineering (Kannada Medium)',
-    'MECHANICAL AND\nSMART\nMANUFACTURING': 'Mechanical and Smart Manufacturing',
-    'MECHATRONICS': 'Mechatronics',
-    'MEDICAL\nELECTRONICS\nENGINEERING': 'Medical Electronics Engineering',
-    'MINING\nENGINEERING': 'Mining Engineering',
-    'PLANNING': 'Planning',
-    'POLYMER\nSCIENCE &\nTECHNOLOGY': 'Polymer Science & Technology',
-    'POLYMER SCIENCE\n& TECHNOLOGY': 'Polymer Science & Technology',
-    'PRODUCTION\nENGINEERING': 'Production Engineering',
-    'ROBOTICS AND\nARTIFICIAL\nINTELLIGENCE': 'Robotics and Artificial Intelligence',
-    'ROBOTICS AND\nAUTOMATION': 'Robotics and Automation',
-    'SILK\nTECHNOLOGY': 'Silk Technology',
-    'TEXTILES\nTECHNOLOGY': 'Textiles Technology',
-    // Additional common variations for better matching
-    'ARTIFICIAL INTELLIGENCE AND DATA SCIENCE': 'Artificial Intelligence and Data Science',
-    'ARTIFICIAL INTELLIGENCE AND MACHINE LEARNING': 'Artificial Intelligence and Machine Learning',
-    'COMPUTER SCIENCE AND ENGINEERING (AI)': 'Computer Science and Engineering (AI)',
-    'COMPUTER SCIENCE AND ENGINEERING (CYBER SECURITY)': 'Computer Science and Engineering (Cyber Security)',
-    'COMPUTER SCIENCE AND ENGINEERING (DATA SCIENCE)': 'Computer Science and Engineering (Data Science)',
-    'COMPUTER SCIENCE AND ENGINEERING (IOT)': 'Computer Science and Engineering (IoT)',
-    'ELECTRONICS AND COMMUNICATION ENGINEERING': 'Electronics and Communication Engineering',
-    'ELECTRICAL AND ELECTRONICS ENGINEERING': 'Electrical and Electronics Engineering',
-    'BIO TECHNOLOGY': 'Bio Technology',
-    'BIO MEDICAL ENGINEERING': 'Bio Medical Engineering',
-    'INFORMATION SCIENCE AND ENGINEERING': 'Information Science and Engineering',
-    'INFORMATION TECHNOLOGY': 'Information Technology',
-    'ROBOTICS AND AUTOMATION': 'Robotics and Automation',
-    'ROBOTICS AND ARTIFICIAL INTELLIGENCE': 'Robotics and Artificial Intelligence',
-    'AERONAUTICAL ENGINEERING': 'Aeronautical Engineering',
-    'AUTOMOBILE ENGINEERING': 'Automobile Engineering',
-    'AUTOMOTIVE ENGINEERING': 'Automotive Engineering',
-    'AUTOMATION AND ROBOTICS': 'Automation and Robotics',
-    'AEROSPACE ENGINEERING': 'Aerospace Engineering',
-    'MARINE ENGINEERING': 'Marine Engineering',
-    'MINING ENGINEERING': 'Mining Engineering',
-        'PETROLEUM ENGINEERING': 'Petroleum Engineering',
-    'POLYMER SCIENCE AND TECHNOLOGY': 'Polymer Science and Technology',
-    'B.PLAN': 'B.Plan',
-    'B.TECH': 'B.Tech',
-    'B.TECH IN': 'B.Tech in',
-    'B TECH IN': 'B.Tech in',
-    'B TECH': 'B.Tech',
-    
-    // Additional mappings for specific course names found in the data
-    'COMPUTER SCIENCE AND ENGG(INTERNET OF THINGS & CYBER SECURITY INCLUDING BLOCK CHAIN TECH)': 'Computer Science and Engineering (Internet of Things & Cyber Security including Block Chain Tech)',
-  }
-
-  const mapCourseName = (rawCourse: string): string => {
-    const text = (rawCourse ?? '').toString().trim()
-    if (!text) return text
-    
-    // ULTRA-PRECISE MATCHING: First try exact course code match
-    const code = text.split(/[\s-]/)[0].toUpperCase()
-    if (courseCodeToName[code]) {
-      console.log(`Exact code match: ${text} -> ${code} -> ${courseCodeToName[code]}`)
-      return courseCodeToName[code]
-    }
-    
-    // Try matching against the full course name exactly
-    const normalizedText = text.toLowerCase().trim()
-    for (const [code, name] of Object.entries(courseCodeToName)) {
-      if (name.toLowerCase().trim() === normalizedText) {
-        console.log(`Exact name match: ${text} -> ${code} -> ${name}`)
-        return name
-      }
-    }
-    
-    // Try matching against course names with line breaks removed
-    const cleanText = text.replace(/[\r\n]/g, ' ').replace(/\s+/g, ' ').trim()
-    for (const [code, name] of Object.entries(courseCodeToName)) {
-      const cleanName = name.replace(/[\r\n]/g, ' ').replace(/\s+/g, ' ').trim()
-      if (cleanName.toLowerCase() === cleanText.toLowerCase()) {
-        console.log(`Clean name match: ${text} -> ${code} -> ${name}`)
-        return name
-      }
-    }
-    
-    // If no match found, return original text
-    console.log(`No match found for: ${text}`)
-    return text
-  }
-
   // Simulated progressive loading while data is fetched and normalized
   useEffect(() => {
     if (!loading) return
@@ -529,7 +131,7 @@ const CollegeFinder = () => {
   // Helpful rotating tips to keep users engaged
   const loadingTips: string[] = [
     'Tip: Use the course picker to filter by specific branches.',
-    'Did you know? Ranks higher than yours indicate better chances.',
+    'Did you know? Chances are estimated from every year and round of cutoff history.',
     'Pro tip: Toggle sort to see closest cutoffs first.',
     'You can search found colleges by name, code, or rank.',
     'Analytics shows coverage and quick stats about the dataset.'
@@ -543,200 +145,54 @@ const CollegeFinder = () => {
     return () => clearInterval(id)
   }, [loading])
 
-  // Load cutoff data from consolidated data source (kcet_cutoffs.json)
+  // Apply a loaded dataset to the page: cutoffs, filter options and defaults
+  const applyDataset = (dataset: CutoffDataset, useSettingsDefaults: boolean) => {
+    const records = dataset.cutoffs
+    setCutoffs(records)
+    setMetadata(dataset.metadata)
+
+    const years = getAvailableYears(records)
+    const categories = getAvailableCategories(records)
+    const courses = getAvailableCourses(records).map(c => c.name)
+    // Only E001-E314 are engineering institutes in the KEA list
+    const institutes = getAvailableInstitutes(records)
+      .filter(({ code }) => {
+        const codeNum = parseInt(code.replace('E', ''))
+        return codeNum >= 1 && codeNum <= 314
+      })
+      .map(({ code, name }) => `${dataset.metadata.institute_names[code] || name} (${code})`)
+      .sort()
+    // Rounds are scoped per selected year; initialize using the latest year's rounds
+    const rounds = getAvailableRounds(records, years[0])
+
+    setAvailableYears(years)
+    setAvailableCategories(['ALL', ...categories])
+    setAvailableCourses(courses)
+    setAvailableInstitutes(institutes)
+    setAvailableRounds(['ALL', ...rounds])
+
+    const s = useSettingsDefaults ? loadSettings() : null
+    setSelectedYear(s?.defaultYear && years.includes(s.defaultYear) ? s.defaultYear : years[0] ?? '')
+    const defaultRound = parseRound(s?.defaultRound)
+    setSelectedRound(defaultRound && rounds.includes(defaultRound) ? defaultRound : 'ALL')
+    setUserCategory(s?.defaultCategory && categories.includes(s.defaultCategory) ? s.defaultCategory : 'ALL')
+  }
+
+  // Load cutoff data from the shared cutoff repository
   useEffect(() => {
     const loadData = async () => {
       try {
-        console.log('Starting to load data from consolidated data source...')
         setProgress(10)
-        
-        // Load from the main consolidated data source - try multiple sources (no-cache)
-        const urls = [
-          '/data/kcet_cutoffs_consolidated.json',
-          '/kcet_cutoffs.json',
-          '/kcet_cutoffs_round3_2025.json',
-          '/kcet_cutoffs2025.json'
-        ]
-        let response: Response | null = null
-        let dataSource = ''
-        for (const url of urls) {
-          const r = await fetch(url, { cache: 'no-store' })
-          if (r.ok) {
-            response = r
-            dataSource = url
-            break
-          }
-        }
-        if (!response) {
-          throw new Error('Failed to load data from all sources')
-        }
-        console.log(`Loading data from: ${dataSource}`)
-        setProgress(35)
-        
-        console.log('Response received, parsing JSON...')
-        const data: CutoffResponse = await response.json()
-        setProgress(55)
-        
-        // Handle different data structures
-        let processedData = data
-        if (!data.cutoffs && Array.isArray(data)) {
-          console.log('Data is a direct array')
-          processedData = { cutoffs: data, metadata: {} } as any
-        } else {
-          processedData = data
-        }
-        
-        console.log('JSON parsed successfully, data structure:', {
-          metadata: processedData.metadata,
-          cutoffsLength: processedData.cutoffs?.length,
-          sampleCutoff: processedData.cutoffs?.[0],
-          dataKeys: Object.keys(processedData)
-        })
+        const dataset = await loadCutoffDataset()
         setProgress(65)
-        
-        // Check if data has a different structure
-        if (!processedData.cutoffs && (processedData as any).data) {
-          console.log('Data has "data" key instead of "cutoffs"')
-          processedData.cutoffs = (processedData as any).data
-        }
-        
-        // Handle case where data might be nested differently
-        if (!processedData.cutoffs && (processedData as any).cutoffs_data) {
-          console.log('Data has "cutoffs_data" key')
-          processedData.cutoffs = (processedData as any).cutoffs_data
-        }
-        
-        if (!processedData.cutoffs || processedData.cutoffs.length === 0) {
-          throw new Error('No cutoff data found in the JSON file')
-        }
-        
-        // Normalize data: trim strings to avoid mismatches
-        const normalizedCutoffs: CutoffData[] = processedData.cutoffs.map(item => {
-          const cutoffRank = Number(item.cutoff_rank ?? 0)
-          
-          // Debug: Log any suspicious cutoff rank values
-          if (cutoffRank === 0 || isNaN(cutoffRank)) {
-            console.log('Suspicious cutoff rank:', item.cutoff_rank, 'for item:', item)
-          }
-          
-          // Debug: Log Sri Sairam entries during normalization
-          if ((item.institute ?? '').toString().toLowerCase().includes('sri sairam')) {
-            console.log('Normalizing Sri Sairam entry:', {
-              original: item.cutoff_rank,
-              parsed: cutoffRank,
-              course: item.course,
-              category: item.category,
-              year: item.year,
-              round: item.round
-            })
-          }
-          
-          return {
-            institute: (item.institute ?? '').toString().trim(),
-            institute_code: (item.institute_code ?? '').toString().trim().toUpperCase(),
-            course: mapCourseName((item.course ?? '').toString()),
-            category: (item.category ?? '').toString().trim(),
-            cutoff_rank: cutoffRank,
-            year: (item.year ?? '').toString().trim(),
-            round: (item.round ?? '').toString().trim()
-          }
-        })
-        setProgress(80)
-        
-        // Debug: Check for Sri Sairam College in the loaded data
-        const sriSairamInData = normalizedCutoffs.filter(c => 
-          c.institute.toLowerCase().includes('sri sairam')
-        )
-        console.log('Sri Sairam entries in loaded data:', sriSairamInData.length)
-        if (sriSairamInData.length > 0) {
-          console.log('Sample Sri Sairam entries:', sriSairamInData.slice(0, 3))
-        }
-        
-        setCutoffs(normalizedCutoffs)
-        setMetadata(processedData.metadata ?? null)
-        
-        // Populate options from metadata sections when available
-        const years = processedData.metadata?.years_covered
-          ? [...processedData.metadata.years_covered].sort((a, b) => b.localeCompare(a))
-          : [...new Set(normalizedCutoffs.map(item => item.year))].sort((a, b) => b.localeCompare(a))
-        const categories = processedData.metadata?.detected_categories ? [...processedData.metadata.detected_categories] : [...new Set(normalizedCutoffs.map(item => item.category))]
-        categories.sort()
-        const courses = processedData.metadata?.auto_detected_courses ? [...processedData.metadata.auto_detected_courses.map(c => mapCourseName(c))] : [...new Set(normalizedCutoffs.map(item => item.course))]
-        courses.sort()
-        
-        // Debug: Log some course names to see what we're working with
-        console.log('Sample course names from data:', courses.slice(0, 10))
-        console.log('Sample course names from mapping:', Object.values(courseCodeToName).slice(0, 10))
-        
-        // Filter institutes to only E001-E314 and remove duplicates
-        let institutes: string[] = []
-        if (processedData.metadata?.institute_names) {
-          // Use metadata institute names but filter by code range
-          const instituteEntries = Object.entries(processedData.metadata.institute_names)
-          const filteredEntries = instituteEntries.filter(([code, name]) => {
-            const codeNum = parseInt(code.replace('E', ''))
-            return codeNum >= 1 && codeNum <= 314
-          })
-          institutes = filteredEntries.map(([code, name]) => `${name} (${code})`)
-        } else {
-          // Filter from cutoff data
-          const instituteMap = new Map<string, string>()
-          normalizedCutoffs.forEach(item => {
-            const codeNum = parseInt(item.institute_code.replace('E', ''))
-            if (codeNum >= 1 && codeNum <= 314) {
-              instituteMap.set(item.institute_code, item.institute)
-            }
-          })
-          institutes = Array.from(instituteMap.entries()).map(([code, name]) => `${name} (${code})`)
-        }
-        institutes.sort()
-        // Rounds will be scoped per selected year; initialize using the latest year's rounds
-        // Rounds should reflect the currently selected or latest year (descending years list)
-        const latestYear = years[0]
-        const rounds = [...new Set(
-          normalizedCutoffs
-            .filter(item => item.year === latestYear)
-            .map(item => item.round)
-        )].sort()
-        
-        console.log('Extracted unique values:', {
-          years: years.length,
-          categories: categories.length,
-          courses: courses.length,
-          institutes: institutes.length,
-          rounds: rounds.length
-        })
-        
-        setAvailableYears(years)
-        setAvailableCategories(['ALL', ...categories])
-        setAvailableCourses(courses)
-        setAvailableInstitutes(institutes)
-        setAvailableRounds(['ALL', ...rounds])
+
+        applyDataset(dataset, true)
         setProgress(90)
-        
-        // Set default values based on settings
-        const s = loadSettings()
-        const preferredYear = s.defaultYear && years.includes(s.defaultYear) ? s.defaultYear : years[0]
-        setSelectedYear(preferredYear)
-        const preferredRound = s.defaultRound && rounds.includes(s.defaultRound) ? s.defaultRound : 'ALL'
-        setSelectedRound(preferredRound)
-        const preferredCategory = s.defaultCategory && categories.includes(s.defaultCategory) ? s.defaultCategory : 'ALL'
-        setUserCategory(preferredCategory)
-        
-        console.log('Data loaded successfully:', {
-          totalEntries: processedData.cutoffs.length,
-          years: years,
-          categories: categories.slice(0, 10), // Show first 10
-          courses: courses.slice(0, 10), // Show first 10
-          rounds: rounds,
-          institutes: institutes.length
-        })
-        
+
         toast({
           title: "Success",
-          description: `Loaded ${data.cutoffs.length.toLocaleString()} cutoff entries from consolidated data source!`,
+          description: `Loaded ${dataset.cutoffs.length.toLocaleString()} cutoff entries from consolidated data source!`,
         })
-        
       } catch (error) {
         console.error('Error loading data:', error)
         toast({
@@ -760,54 +216,15 @@ const CollegeFinder = () => {
     setLoading(true)
     setProgress(10)
     try {
-      console.log('Starting to load data from XLSX files...')
-      
-      const result = await XLSXLoader.loadAllXLSXFiles()
-      setProgress(55)
-      
-      // Convert XLSX data to match existing format
-      const convertedData: CutoffData[] = result.cutoffs.map(item => ({
-        institute: item.institute || '',
-        institute_code: item.institute_code || '',
-        course: mapCourseName(item.course || ''),
-        category: item.category || '',
-        cutoff_rank: item.cutoff_rank || 0,
-        year: item.year || '',
-        round: item.round || ''
-      }))
-
-      setCutoffs(convertedData)
-      setMetadata(null)
+      const dataset = await loadXLSXCutoffDataset()
       setProgress(80)
-      
-      // Extract unique values for options
-      const years = [...new Set(convertedData.map(item => item.year))].sort((a, b) => b.localeCompare(a))
-      const categories = [...new Set(convertedData.map(item => item.category))].sort()
-      const courses = [...new Set(convertedData.map(item => item.course))].sort()
-      const institutes = [...new Set(convertedData.map(item => item.institute))].sort()
-      const rounds = [...new Set(convertedData.map(item => item.round))].sort()
 
-      setAvailableYears(years)
-      setAvailableCategories(['ALL', ...categories])
-      setAvailableCourses(courses)
-      setAvailableInstitutes(institutes)
-      setAvailableRounds(['ALL', ...rounds])
+      applyDataset(dataset, false)
       setProgress(90)
       
-      // Set default values
-      if (years.length > 0) {
-        setSelectedYear(years[0])
-      }
-      if (categories.length > 0) {
-        setUserCategory('ALL')
-      }
-      if (rounds.length > 0) {
-        setSelectedRound('ALL')
-      }
-      
       toast({
         title: "Success",
-        description: `Loaded ${convertedData.length.toLocaleString()} cutoff entries from XLSX files!`,
+        description: `Loaded ${dataset.cutoffs.length.toLocaleString()} cutoff entries from XLSX files!`,
       })
     } catch (error: any) {
       console.error('Error loading XLSX data:', error)
@@ -826,11 +243,9 @@ const CollegeFinder = () => {
   // When year changes, recompute available rounds for that year only
   useEffect(() => {
     if (!selectedYear || cutoffs.length === 0) return
-    const yearSpecificRounds = [...new Set(
-      cutoffs
-        .filter(c => c.year === selectedYear)
-        .map(c => c.round)
-    )].sort()
+    const yearSpecificRounds = selectedYear === PROJECTED_YEAR
+      ? getAvailableRounds(cutoffs)
+      : getAvailableRounds(cutoffs, selectedYear)
     setAvailableRounds(['ALL', ...yearSpecificRounds])
     if (!['ALL', ...yearSpecificRounds].includes(selectedRound)) {
       setSelectedRound('ALL')
@@ -841,160 +256,46 @@ const CollegeFinder = () => {
     setSearching(true)
     
     try {
-      console.log('Searching with criteria:', {
-        year: selectedYear,
+      const categoryProfile = eligibilityMode ? profile : null
+      const eligibleCategories = categoryProfile ? getEligibleCategories(categoryProfile) : []
+
+      const isProjected = selectedYear === PROJECTED_YEAR
+      const candidates = queryCutoffs<CutoffRecord & { projection?: CutoffProjection }>(isProjected ? projectedCutoffs : cutoffs, {
+        year: isProjected ? 'ALL' : selectedYear,
         round: selectedRound,
-        category: userCategory,
-        rankRange: [minRank, maxRank],
-        selectedCourses: selectedCourses.length,
-        locationFilter
-      })
-      
-      // Filter data based on user criteria
-      // IMPORTANT: For college admission, we want colleges where cutoff_rank > userRank
-      // This means the college accepts students with worse ranks (higher numbers)
-      let filteredData = cutoffs.filter(cutoff => {
-        const yearMatch = cutoff.year === selectedYear
-        const roundMatch = selectedRound === 'ALL' || cutoff.round === selectedRound
-        const categoryMatch = userCategory === 'ALL' || cutoff.category === userCategory
-        const rankEligible = cutoff.cutoff_rank > userRank
-        const rankInRange = cutoff.cutoff_rank >= minRank && cutoff.cutoff_rank <= maxRank
-        
-        // Debug: Log any Sri Sairam entries that don't match
-        if (cutoff.institute.toLowerCase().includes('sri sairam')) {
-          console.log(`Sri Sairam entry - Course: ${cutoff.course}, Cutoff: ${cutoff.cutoff_rank}, User Rank: ${userRank}, Year: ${cutoff.year}, Round: ${cutoff.round}, Category: ${cutoff.category}`)
-          console.log(`  - Year match: ${yearMatch}, Round match: ${roundMatch}, Category match: ${categoryMatch}, Rank eligible: ${rankEligible}, Rank in range: ${rankInRange}`)
-          if (!yearMatch || !roundMatch || !categoryMatch || !rankEligible || !rankInRange) {
-            console.log(`  - FILTERED OUT: Year: ${yearMatch}, Round: ${roundMatch}, Category: ${categoryMatch}, Rank: ${rankEligible}, Range: ${rankInRange}`)
-          }
-        }
-        
-        return yearMatch && roundMatch && categoryMatch && rankEligible && rankInRange
+        category: categoryProfile ? eligibleCategories : userCategory,
+        institute: selectedInstitute,
+        course: selectedCourses
       })
 
-      // Debug: Log some sample data to understand what's being filtered
-      console.log('Sample cutoffs before filtering:', cutoffs.slice(0, 5))
-      console.log('User rank:', userRank)
-      console.log('Selected year:', selectedYear)
-      console.log('Selected round:', selectedRound)
-      console.log('User category:', userCategory)
-      console.log('Min rank:', minRank)
-      console.log('Max rank:', maxRank)
-
-      console.log(`Initial filter result: ${filteredData.length} entries`)
-
-      // Debug: Check for Sri Sairam College specifically
-      const sriSairamEntries = cutoffs.filter(c => 
-        c.institute.toLowerCase().includes('sri sairam') && 
-        c.category === userCategory &&
-        c.year === selectedYear &&
-        (selectedRound === 'ALL' || c.round === selectedRound)
-      )
-      console.log('Sri Sairam entries found:', sriSairamEntries.length)
-      sriSairamEntries.forEach(entry => {
-        console.log(`Sri Sairam - Course: ${entry.course}, Cutoff: ${entry.cutoff_rank}, Eligible: ${entry.cutoff_rank > userRank}, Round: ${entry.round}`)
-      })
-      
-      // Debug: Show ALL Sri Sairam entries regardless of criteria
-      const allSriSairamEntries = cutoffs.filter(c => 
-        c.institute.toLowerCase().includes('sri sairam')
-      )
-      console.log('ALL Sri Sairam entries in data:', allSriSairamEntries.length)
-      allSriSairamEntries.forEach(entry => {
-        console.log(`ALL Sri Sairam - Course: ${entry.course}, Cutoff: ${entry.cutoff_rank}, Category: ${entry.category}, Year: ${entry.year}, Round: ${entry.round}`)
-      })
-      
-      // Also check all entries for the specific criteria
-      const allMatchingEntries = cutoffs.filter(c => 
-        c.category === userCategory &&
-        c.year === selectedYear &&
-        (selectedRound === 'ALL' || c.round === selectedRound)
+      let filteredData = (categoryProfile ? pickBestColumns(candidates, eligibleCategories) : candidates).filter(cutoff =>
+        cutoff.cutoff_rank >= minRank &&
+        cutoff.cutoff_rank <= maxRank
       )
-      console.log(`Total entries for category ${userCategory}, year ${selectedYear}, round ${selectedRound}:`, allMatchingEntries.length)
-      console.log('Sample entries:', allMatchingEntries.slice(0, 5))
-
-      // Filter by selected courses - ULTRA ACCURATE MATCHING
-      if (selectedCourses.length > 0) {
-        filteredData = filteredData.filter(cutoff => {
-          // Normalize both the cutoff course and selected courses for comparison
-          const cutoffCourseNormalized = cutoff.course.toLowerCase().trim()
-          const selectedCoursesNormalized = selectedCourses.map(c => c.toLowerCase().trim())
-          
-          // Try exact match first
-          if (selectedCoursesNormalized.includes(cutoffCourseNormalized)) {
-            return true
-          }
-          
-          // Try clean match (remove line breaks and extra spaces)
-          const cutoffCourseClean = cutoff.course.replace(/[\r\n]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase()
-          const selectedCoursesClean = selectedCourses.map(c => c.replace(/[\r\n]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase())
-          
-          if (selectedCoursesClean.includes(cutoffCourseClean)) {
-            return true
-          }
-          
-          // Try matching by course codes
-          const cutoffCourseCode = getCourseCode(cutoff.course)
-          if (cutoffCourseCode) {
-            const selectedCourseCodes = selectedCourses.map(c => getCourseCode(c)).filter(code => code)
-            if (selectedCourseCodes.includes(cutoffCourseCode)) {
-              console.log(`Course code match: ${cutoff.course} (${cutoffCourseCode}) matches selected courses`)
-              return true
-            }
-          }
-          
-          return false
-        })
-        console.log(`After course filter: ${filteredData.length} entries`)
-      }
-
-      // Filter by selected institute (optional)
-      if (selectedInstitute) {
-        // Extract institute code from selected institute (format: "Name (E001)")
-        const selectedInstituteMatch = selectedInstitute.match(/\(([^)]+)\)/)
-        const selectedInstituteCode = selectedInstituteMatch ? selectedInstituteMatch[1] : null
-        const selectedInstituteName = selectedInstitute.replace(/\s*\([^)]+\)$/, '').trim()
-        
-        filteredData = filteredData.filter(cutoff => {
-          // Match by exact institute name
-          if (cutoff.institute.toLowerCase() === selectedInstituteName.toLowerCase()) {
-            return true
-          }
-          
-          // Match by institute code
-          if (selectedInstituteCode && cutoff.institute_code.toLowerCase() === selectedInstituteCode.toLowerCase()) {
-            return true
-          }
-          
-          // Match by partial name (fallback)
-          if (cutoff.institute.toLowerCase().includes(selectedInstituteName.toLowerCase())) {
-            return true
-          }
-          
-          return false
-        })
-        console.log(`After institute filter: ${filteredData.length} entries`)
-      }
 
       // Filter by location
       if (locationFilter) {
         filteredData = filteredData.filter(cutoff => 
           cutoff.institute.toLowerCase().includes(locationFilter.toLowerCase())
         )
-        console.log(`After location filter: ${filteredData.length} entries`)
       }
 
-      // Note: eligibleOnly filter removed - now automatically shows only colleges where user has a chance
-      // (cutoff_rank > userRank means better chances of admission)
-
-      // Simply map the data without safety levels - just show all eligible colleges
-      const matchesWithScores = filteredData.map(cutoff => {
-        return {
-          ...cutoff,
-          matchScore: 100, // All shown colleges are eligible
-          safetyLevel: 'Eligible' as const
-        }
-      })
+      // Score every seat line against its full year/round history. Lines whose
+      // last cutoff is just better than the user's rank stay in as borderline
+      // picks; only those with practically no chance are dropped.
+      const matchesWithScores = filteredData
+        .map(cutoff => {
+          const chance = cutoff.projection
+            ? estimateProjectedChance(userRank, cutoff.projection)
+            : estimateAdmissionChance(userRank, historyIndex.get(getHistoryKey(cutoff)) ?? [cutoff])
+          return {
+            ...cutoff,
+            matchScore: Math.round(chance.probability * 100),
+            safetyLevel: chance.band,
+            expectedCutoff: chance.expectedCutoff
+          }
+        })
+        .filter(match => match.cutoff_rank > userRank || match.matchScore >= MIN_LISTED_CHANCE * 100)
 
       // Sort by cutoff rank based on user preference
       // Ascending: shows colleges with cutoff ranks closest to user rank first (default)
@@ -1011,6 +312,7 @@ const CollegeFinder = () => {
       finderStore.setState({
         userRank,
         userCategory,
+        categoryProfile,
         selectedYear,
         selectedRound,
         selectedInstitute,
@@ -1033,127 +335,29 @@ const CollegeFinder = () => {
     }
   }
 
-  const getSafetyColor = (level: string) => {
-    return 'bg-green-100 text-green-800' // All eligible colleges are green
-  }
-
-  const getMatchColor = (score: number) => {
-    return 'text-green-600' // All eligible colleges are green
-  }
-
-  // Helper function to get category display name
-  const getCategoryDisplayName = (category: string) => {
-    const categoryNames: Record<string, string> = {
-      'GM': 'General (GM)',
-      'GMK': 'General Karnataka (GMK)',
-      'GMR': 'General Rural (GMR)',
-      '1G': 'Category 1G',
-      '1K': 'Category 1K',
-      '1R': 'Category 1R',
-      '2AG': 'Category 2AG',
-      '2AK': 'Category 2AK',
-      '2AR': 'Category 2AR',
-      '2BG': 'Category 2BG',
-      '2BK': 'Category 2BK',
-      '2BR': 'Category 2BR',
-      '3AG': 'Category 3AG',
-      '3AK': 'Category 3AK',
-      '3AR': 'Category 3AR',
-      '3BG': 'Category 3BG',
-      '3BK': 'Category 3BK',
-      '3BR': 'Category 3BR',
-      'SCG': 'Scheduled Caste General (SCG)',
-      'SCK': 'Scheduled Caste Karnataka (SCK)',
-      'SCR': 'Scheduled Caste Rural (SCR)',
-      'STG': 'Scheduled Tribe General (STG)',
-      'STK': 'Scheduled Tribe Karnataka (STK)',
-      'STR': 'Scheduled Tribe Rural (STR)'
-    }
-    return categoryNames[category] || category
-  }
-
-  // Helper function to get round display name
-  const getRoundDisplayName = (round: string) => {
-    const roundNames: Record<string, string> = {
-      'R1': 'Round 1',
-      'R2': 'Round 2',
-      'R3': 'Round 3 (Extended)',
-      'EXT': 'Round 3 (Extended)',
-      'MR1': 'Mock Round 1',
-      'MOCK': 'Mock Round 1'
-    }
-    return roundNames[round] || round
-  }
-
-  // Helper function to get course code from course name - ULTRA ACCURATE
-  const getCourseCode = (courseName: string): string => {
-    if (!courseName) return ''
-    
-    const normalizedCourseName = courseName.toLowerCase().trim()
-    
-    // EXACT MATCH: Try to find the code by exact course name match
-    for (const [code, name] of Object.entries(courseCodeToName)) {
-      if (name.toLowerCase().trim() === normalizedCourseName) {
-        console.log(`Exact course code match: ${courseName} -> ${code}`)
-        return code
-      }
+  const getSafetyColor = (level: ChanceBand) => {
+    switch (level) {
+      case 'Safe': return 'bg-green-100 text-green-800'
+      case 'Moderate': return 'bg-yellow-100 text-yellow-800'
+      case 'Reach': return 'bg-orange-100 text-orange-800'
+      default: return 'bg-red-100 text-red-800'
     }
-    
-    // CLEAN MATCH: Try matching with line breaks and extra spaces removed
-    const cleanCourseName = courseName.replace(/[\r\n]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase()
-    for (const [code, name] of Object.entries(courseCodeToName)) {
-      const cleanName = name.replace(/[\r\n]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase()
-      if (cleanName === cleanCourseName) {
-        console.log(`Clean course code match: ${courseName} -> ${code}`)
-        return code
-      }
-    }
-    
-    // PARTIAL MATCH: Only if course name contains key engineering terms
-    const engineeringTerms = ['computer', 'electronics', 'electrical', 'mechanical', 'civil', 'information', 'artificial', 'robotics', 'bio', 'chemical', 'telecommunication', 'instrumentation', 'medical', 'aeronautical', 'aerospace', 'automobile', 'automotive', 'mining', 'marine', 'petroleum', 'polymer', 'ceramics', 'textile', 'silk', 'architecture', 'planning', 'design', 'data', 'cyber', 'cloud', 'devops', 'blockchain', 'iot', 'vlsi', 'mechatronics', 'nanotechnology', 'energy', 'environmental', 'agriculture', 'food', 'dairy', 'fisheries', 'forestry', 'horticulture', 'sericulture']
-    
-    const courseWords = cleanCourseName.split(' ')
-    const hasEngineeringTerm = courseWords.some(word => engineeringTerms.includes(word))
-    
-    if (hasEngineeringTerm) {
-      for (const [code, name] of Object.entries(courseCodeToName)) {
-        const cleanName = name.replace(/[\r\n]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase()
-        const nameWords = cleanName.split(' ')
-        
-        // Check if at least 2 key words match
-        const matchingWords = courseWords.filter(word => 
-          nameWords.includes(word) && word.length > 2
-        )
-        
-        if (matchingWords.length >= 2) {
-          console.log(`Partial course code match: ${courseName} -> ${code} (${matchingWords.join(', ')})`)
-          return code
-        }
-      }
-    }
-    
-    console.log(`No course code found for: ${courseName}`)
-    return '' // Return empty string if no code found
   }
 
-  // Debug function to test course code matching
-  const debugCourseCodeMatching = () => {
-    console.log('=== Course Code Matching Debug ===')
-    const sampleCourses = availableCourses.slice(0, 20)
-    sampleCourses.forEach(course => {
-      const code = getCourseCode(course)
-      console.log(`Course: "${course}" -> Code: "${code}"`)
-    })
-    console.log('=== End Debug ===')
+  const getMatchColor = (score: number) => {
+    if (score >= 80) return 'text-green-600'
+    if (score >= 50) return 'text-yellow-600'
+    if (score >= 20) return 'text-orange-600'
+    return 'text-red-600'
   }
 
-  // Compute analytics from metadata with fallback to computed values from cutoffs
+  // Compute analytics from the normalized cutoffs
   const analytics = (() => {
-    const totalEntries = metadata?.total_entries ?? cutoffs.length
-    const totalInstitutes = metadata?.total_institutes ?? new Set(cutoffs.map(c => c.institute_code)).size
-    const totalCourses = metadata?.total_courses ?? new Set(cutoffs.map(c => c.course)).size
-    const totalCategories = metadata?.total_categories ?? new Set(cutoffs.map(c => c.category)).size
-    const yearsCovered = metadata?.years_covered ?? Array.from(new Set(cutoffs.map(c => c.year))).sort((a, b) => b.localeCompare(a))
+    const totalEntries = cutoffs.length
+    const totalInstitutes = new Set(cutoffs.map(c => c.institute_code)).size
+    const totalCourses = new Set(cutoffs.map(c => c.course)).size
+    const totalCategories = new Set(cutoffs.map(c => c.category)).size
+    const yearsCovered = getAvailableYears(cutoffs)
     return { totalEntries, totalInstitutes, totalCourses, totalCategories, yearsCovered }
   })()
 
@@ -1327,25 +531,37 @@ const CollegeFinder = () => {
                 placeholder="Enter your rank"
               />
               <p className="text-xs text-muted-foreground">
-                <strong>Tip:</strong> Colleges with cutoff ranks <strong>higher than your rank</strong> are your best chances for admission.
+                <strong>Tip:</strong> Each result gets an admission chance from past cutoffs; <strong>Safe</strong> and <strong>Moderate</strong> picks are your best bets.
               </p>
             </div>
 
             {/* Category */}
             <div className="space-y-2">
-              <Label>Category</Label>
-              <Select value={userCategory} onValueChange={setUserCategory}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select category" />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableCategories.map((category) => (
-                    <SelectItem key={category} value={category}>
-                      {category === 'ALL' ? 'All Categories' : getCategoryDisplayName(category)}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <div className="flex items-center justify-between gap-2">
+                <Label>Category</Label>
+                <div className="flex items-center gap-2">
+                  <Switch id="eligibility-mode" checked={eligibilityMode} onCheckedChange={setEligibilityMode} />
+                  <Label htmlFor="eligibility-mode" className="text-xs font-normal text-muted-foreground">
+                    All eligible columns
+                  </Label>
+                </div>
+              </div>
+              {eligibilityMode ? (
+                <CategoryProfileInput value={profile} onChange={setProfile} />
+              ) : (
+                <Select value={userCategory} onValueChange={setUserCategory}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCategories.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {category === 'ALL' ? 'All Categories' : getCategoryLabel(category)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
 
             {/* Year */}
@@ -1356,6 +572,9 @@ const CollegeFinder = () => {
                   <SelectValue placeholder="Select year" />
                 </SelectTrigger>
                 <SelectContent>
+                  {projectionYear && (
+                    <SelectItem value={PROJECTED_YEAR}>{projectionYear} (projected)</SelectItem>
+                  )}
                   {availableYears.map((year) => (
                     <SelectItem key={year} value={year}>
                       {year}
@@ -1375,7 +594,7 @@ const CollegeFinder = () => {
                 <SelectContent>
                   {availableRounds.map((round) => (
                     <SelectItem key={round} value={round}>
-                      {round === 'ALL' ? 'All Rounds' : getRoundDisplayName(round)}
+                      {round === 'ALL' ? 'All Rounds' : getRoundLabel(round)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -1432,7 +651,7 @@ const CollegeFinder = () => {
                 <div className="flex flex-col sm:flex-row items-stretch sm:items-end gap-2 sm:col-span-2 lg:col-span-3">
                   <Button 
                     onClick={findColleges} 
-                    disabled={searching || !userCategory || !selectedYear || !selectedRound}
+                    disabled={searching || (!eligibilityMode && !userCategory) || !selectedYear || !selectedRound}
                     className="flex-1"
                   >
                     {searching ? (
@@ -1480,6 +699,8 @@ const CollegeFinder = () => {
                       onClick={() => {
                         setUserRank(50000)
                         setUserCategory("")
+                        setEligibilityMode(false)
+                        setProfile(DEFAULT_PROFILE)
                         setSelectedYear("")
                         setSelectedRound("")
                         setSelectedInstitute("")
@@ -1492,6 +713,7 @@ const CollegeFinder = () => {
                         finderStore.setState({
                           userRank: 50000,
                           userCategory: '',
+                          categoryProfile: null,
                           selectedYear: '',
                           selectedRound: '',
                           selectedInstitute: '',
@@ -1701,7 +923,7 @@ const CollegeFinder = () => {
               </CardTitle>
               <div className="text-sm text-muted-foreground space-y-2">
                 <p>
-                  <strong>How to read results:</strong> Colleges are shown where the cutoff rank is <strong>higher than your rank ({userRank.toLocaleString()})</strong>.
+                  <strong>How to read results:</strong> Match score is the estimated chance that the closing rank reaches your rank ({userRank.toLocaleString()}) given past years and rounds: Safe ≥ 80%, Moderate ≥ 50%, Reach ≥ 20%, otherwise Unlikely. Borderline colleges whose last cutoff was slightly better than your rank are included.
                 </p>
               </div>
               
@@ -1813,10 +1035,26 @@ const CollegeFinder = () => {
                                 </div>
                               </TableCell>
                               <TableCell>
-                                <Badge variant="outline">{match.category}</Badge>
+                                <Badge variant="outline" title={match.compared_categories ? `Best of ${match.compared_categories.join(', ')}` : undefined}>
+                                  {match.category}
+                                </Badge>
+                                {match.compared_categories && match.compared_categories.length > 1 && (
+                                  <div className="text-xs text-muted-foreground mt-1">
+                                    best of {match.compared_categories.length} columns
+                                  </div>
+                                )}
                               </TableCell>
                               <TableCell className="font-mono font-semibold">
                                 {match.cutoff_rank.toLocaleString()}
+                                {match.projection ? (
+                                  <div className="text-xs font-normal text-muted-foreground">
+                                    90%: {match.projection.low.toLocaleString()}–{match.projection.high.toLocaleString()}
+                                  </div>
+                                ) : match.expectedCutoff > 0 && (
+                                  <div className="text-xs font-normal text-muted-foreground">
+                                    typical {match.expectedCutoff.toLocaleString()}
+                                  </div>
+                                )}
                               </TableCell>
                               <TableCell>
                                 <div className={`font-semibold ${getMatchColor(match.matchScore)}`}>
@@ -1830,12 +1068,12 @@ const CollegeFinder = () => {
                               </TableCell>
                               <TableCell>
                                 <Badge variant="outline">
-                                  {match.year}
+                                  {match.projection ? `${match.year} (projected)` : match.year}
                                 </Badge>
                               </TableCell>
                               <TableCell>
                                 <Badge variant="outline">
-                                  {getRoundDisplayName(match.round)}
+                                  {getRoundLabel(match.round)}
                                 </Badge>
                               </TableCell>
                             </TableRow>
@@ -1866,9 +1104,12 @@ const CollegeFinder = () => {
                             </div>
 
                             <div className="flex flex-wrap gap-2">
-                              <Badge variant="outline">{match.category}</Badge>
-                              <Badge variant="outline">{match.year}</Badge>
-                              <Badge variant="outline">{getRoundDisplayName(match.round)}</Badge>
+                              <Badge variant="outline">
+                                {match.category}
+                                {match.compared_categories && match.compared_categories.length > 1 && ` (best of ${match.compared_categories.length})`}
+                              </Badge>
+                              <Badge variant="outline">{match.projection ? `${match.year} (projected)` : match.year}</Badge>
+                              <Badge variant="outline">{getRoundLabel(match.round)}</Badge>
                             </div>
 
                             <div className="flex justify-between items-center">
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -10,35 +10,31 @@ import { Progress } from "@/components/ui/progress"
 import { Search, Filter, Upload, FileSpreadsheet, AlertCircle, ChevronDown, ChevronUp } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { useIsMobile } from "@/hooks/use-mobile"
-import { XLSXLoader } from "@/lib/xlsx-loader"
-import { COURSES, COURSE_CODE_TO_NAME } from "@/lib/courses"
-
-// Types for the cutoff data
-interface CutoffData {
-  institute: string
-  institute_code: string
-  course: string
-  category: string
-  cutoff_rank: number
-  year: string
-  round: string
-  total_seats?: number
-  available_seats?: number
-}
-
-interface CutoffResponse {
-  metadata: {
-    last_updated: string
-    total_files_processed: number
-    total_entries: number
-  }
-  cutoffs: CutoffData[]
-}
+import { type Course } from "@/lib/courses"
+import {
+  getAvailableCategories,
+  getAvailableCourses,
+  getAvailableInstitutes,
+  getAvailableRounds,
+  getAvailableYears,
+  loadCutoffDataset,
+  loadXLSXCutoffDataset,
+  queryCutoffs,
+  type CutoffDataset,
+  type CutoffRecord,
+  type InstituteOption
+} from "@/lib/cutoff-repository"
+import { getRoundLabel } from "@/lib/rounds"
+import { getCategoryLabel, parseCategory } from "@/lib/categories"
+import { getProjectionKey, getProjectionYear, indexProjections, projectCutoffs } from "@/lib/cutoff-projection"
+import { getHistoryKey } from "@/lib/admission-chance"
+import { analyzeRoundMovement, formatSlide, getYearMovement } from "@/lib/round-movement"
+import { RoundSparkline } from "@/components/RoundSparkline"
 
 const CutoffExplorer = () => {
   console.log('CutoffExplorer component rendering')
-  const [cutoffs, setCutoffs] = useState<CutoffData[]>([])
-  const [allCutoffs, setAllCutoffs] = useState<CutoffData[]>([])
+  const [cutoffs, setCutoffs] = useState<CutoffRecord[]>([])
+  const [allCutoffs, setAllCutoffs] = useState<CutoffRecord[]>([])
   const [loading, setLoading] = useState(true)
   const [searchQuery, setSearchQuery] = useState("")
   const [selectedYear, setSelectedYear] = useState("")
@@ -47,7 +43,8 @@ const CutoffExplorer = () => {
   const [selectedInstitute, setSelectedInstitute] = useState("")
   const [selectedRound, setSelectedRound] = useState("")
   const [availableYears, setAvailableYears] = useState<string[]>([])
-  const [availableInstitutes, setAvailableInstitutes] = useState<string[]>([])
+  const [availableInstitutes, setAvailableInstitutes] = useState<InstituteOption[]>([])
+  const [availableCourses, setAvailableCourses] = useState<Course[]>([])
   const [availableCategories, setAvailableCategories] = useState<string[]>([])
   const [availableRounds, setAvailableRounds] = useState<string[]>([])
   const [stats, setStats] = useState<{ total: number; institutes: number; courses: number; categories: number }>({ total: 0, institutes: 0, courses: 0, categories: 0 })
@@ -56,7 +53,14 @@ const CutoffExplorer = () => {
   const [errorMessage, setErrorMessage] = useState("")
   const [xlsxLoading, setXlsxLoading] = useState(false)
   const [showFilters, setShowFilters] = useState(false)
+  const [slideSort, setSlideSort] = useState<'none' | 'asc' | 'desc'>('none')
   const isMobile = useIsMobile()
+
+  // Next year's expected closing rank for every seat line and round
+  const projectionYear = useMemo(() => getProjectionYear(allCutoffs), [allCutoffs])
+  const projections = useMemo(() => indexProjections(projectCutoffs(allCutoffs, projectionYear)), [allCutoffs, projectionYear])
+  // How each seat's closing rank moves from the first to the last round
+  const movements = useMemo(() => analyzeRoundMovement(allCutoffs), [allCutoffs])
   
   // Keep filters open by default on mobile
   useEffect(() => {
@@ -66,106 +70,48 @@ const CutoffExplorer = () => {
   }, [isMobile])
   const { toast } = useToast()
 
-  // Load data from local JSON file
+  // Populate filter options and defaults from a loaded dataset
+  const applyDataset = (dataset: CutoffDataset) => {
+    const records = dataset.cutoffs
+    setAllCutoffs(records)
+
+    const years = getAvailableYears(records)
+    // Only E001 to E314 are engineering institutes in the KEA list
+    const institutes = getAvailableInstitutes(records).filter(({ code }) => {
+      const num = parseInt(code.replace('E', ''))
+      return num >= 1 && num <= 314
+    })
+    const categories = getAvailableCategories(records)
+    const rounds = getAvailableRounds(records)
+
+    setAvailableYears(years)
+    setAvailableInstitutes(institutes)
+    setAvailableCourses(getAvailableCourses(records))
+    setAvailableCategories(['ALL', ...categories])
+    setAvailableRounds(['ALL', ...rounds])
+
+    // Set default year to the most recent year
+    if (years.length > 0) {
+      setSelectedYear(years[0])
+    }
+    if (categories.length > 0) {
+      setSelectedCategory('ALL')
+    }
+    if (rounds.length > 0) {
+      setSelectedRound('ALL')
+    }
+
+    setCutoffs(records.slice(0, 200)) // Show first 200 records initially
+  }
+
+  // Load data from the shared cutoff repository
   const loadCutoffData = async () => {
     setLoading(true)
     try {
-      console.log('Loading cutoff data from local JSON file...')
-      
-      // Try multiple data sources with fallback
-      let response = await fetch('/data/kcet_cutoffs_consolidated.json', { cache: 'no-store' })
-      let dataSource = 'data/kcet_cutoffs_consolidated.json'
-      
-      if (!response.ok) {
-        // Try root consolidated
-        response = await fetch('/kcet_cutoffs.json', { cache: 'no-store' })
-        dataSource = 'kcet_cutoffs.json'
-        
-        if (!response.ok) {
-          // Try public directory
-          response = await fetch('/public/data/kcet_cutoffs_consolidated.json', { cache: 'no-store' })
-          dataSource = 'public/data/kcet_cutoffs_consolidated.json'
-          
-          if (!response.ok) {
-            // Try the 2025 data file
-            response = await fetch('/kcet_cutoffs2025.json', { cache: 'no-store' })
-            dataSource = 'kcet_cutoffs2025.json'
-            
-            if (!response.ok) {
-              // Try the new Round 3 2025 specific data
-              response = await fetch('/kcet_cutoffs_round3_2025.json', { cache: 'no-store' })
-              dataSource = 'kcet_cutoffs_round3_2025.json'
-              
-              if (!response.ok) {
-                throw new Error(`Failed to load data from all sources: ${response.status} ${response.statusText}`)
-              }
-            }
-          }
-        }
-      }
-      
-      console.log(`Loading data from: ${dataSource}`)
-      
-      const rawData = await response.json()
-      console.log('Raw data structure:', Object.keys(rawData))
-      
-      // Handle different data structures
-      let data: CutoffResponse
-      if (!rawData.cutoffs && Array.isArray(rawData)) {
-        console.log('Data is a direct array, wrapping in response format')
-        data = { cutoffs: rawData, metadata: {} } as any
-      } else {
-        data = rawData
-      }
-      
-      console.log('Loaded cutoff data:', data.cutoffs.length, 'records')
-      console.log('First record:', data.cutoffs[0])
-      
-      setAllCutoffs(data.cutoffs)
-      
-      // Extract unique values from the data
-      const years = [...new Set(data.cutoffs.map(item => item.year))].sort((a, b) => b.localeCompare(a))
-      
-      // Filter institutes to only E001 to E314
-      const allInstitutes = [...new Set(data.cutoffs.map(item => item.institute))].sort()
-      const filteredInstitutes = allInstitutes.filter(inst => {
-        const match = inst.match(/E(\d+)/)
-        if (match) {
-          const num = parseInt(match[1])
-          return num >= 1 && num <= 314
-        }
-        return false
-      })
-      
-      const categories = [...new Set(data.cutoffs.map(item => item.category))].sort()
-      const rounds = [...new Set(data.cutoffs.map(item => item.round))].sort()
-      
-      console.log('Available institutes:', filteredInstitutes.length, filteredInstitutes.slice(0, 10))
-      
-      setAvailableYears(years)
-      setAvailableInstitutes(filteredInstitutes)
-      setAvailableCategories(['ALL', ...categories])
-      setAvailableRounds(['ALL', ...rounds])
-      
-      // Set default year to the most recent year
-      if (years.length > 0) {
-        setSelectedYear(years[0])
-      }
-      if (categories.length > 0) {
-        setSelectedCategory('ALL')
-      }
-      if (rounds.length > 0) {
-        setSelectedRound('ALL')
-      }
-      
-      setCutoffs(data.cutoffs.slice(0, 200)) // Show first 200 records initially
+      const dataset = await loadCutoffDataset()
+      applyDataset(dataset)
     } catch (error: any) {
       console.error('Error loading cutoff data:', error)
-      console.error('Error details:', {
-        message: error?.message,
-        stack: error?.stack,
-        name: error?.name
-      })
       setErrorMessage(`Failed to load cutoff data: ${error?.message || 'Unknown error'}. Please check the console for more details.`)
       toast({
         title: "Error",
@@ -181,59 +127,12 @@ const CutoffExplorer = () => {
   const loadFromXLSX = async () => {
     setXlsxLoading(true)
     try {
-      const result = await XLSXLoader.loadAllXLSXFiles()
-      
-      // Convert XLSX data to match existing format
-      const convertedData: CutoffData[] = result.cutoffs.map(item => ({
-        institute: item.institute || '',
-        institute_code: item.institute_code || '',
-        course: item.course || '',
-        category: item.category || '',
-        cutoff_rank: item.cutoff_rank || 0,
-        year: item.year || '',
-        round: item.round || ''
-      }))
-
-      setAllCutoffs(convertedData)
-      
-      // Extract unique values from the data
-      const years = [...new Set(convertedData.map(item => item.year))].sort((a, b) => b.localeCompare(a))
-      
-      // Filter institutes to only E001 to E314
-      const allInstitutes = [...new Set(convertedData.map(item => item.institute))].sort()
-      const filteredInstitutes = allInstitutes.filter(inst => {
-        const match = inst.match(/E(\d+)/)
-        if (match) {
-          const num = parseInt(match[1])
-          return num >= 1 && num <= 314
-        }
-        return false
-      })
-      
-      const categories = [...new Set(convertedData.map(item => item.category))].sort()
-      const rounds = [...new Set(convertedData.map(item => item.round))].sort()
-      
-      setAvailableYears(years)
-      setAvailableInstitutes(filteredInstitutes)
-      setAvailableCategories(['ALL', ...categories])
-      setAvailableRounds(['ALL', ...rounds])
-      
-      // Set default year to the most recent year
-      if (years.length > 0) {
-        setSelectedYear(years[0])
-      }
-      if (categories.length > 0) {
-        setSelectedCategory('ALL')
-      }
-      if (rounds.length > 0) {
-        setSelectedRound('ALL')
-      }
-      
-      setCutoffs(convertedData.slice(0, 200)) // Show first 200 records initially
+      const dataset = await loadXLSXCutoffDataset()
+      applyDataset(dataset)
       
       toast({
         title: "Success",
-        description: `Loaded ${convertedData.length} records from XLSX files`,
+        description: `Loaded ${dataset.cutoffs.length} records from XLSX files`,
       })
     } catch (error: any) {
       console.error('Error loading XLSX data:', error)
@@ -251,27 +150,13 @@ const CutoffExplorer = () => {
   const filterData = () => {
     console.log('Filtering data with:', { selectedYear, selectedCategory, selectedCourse, selectedInstitute, selectedRound, searchQuery })
     
-    let filteredData = allCutoffs
-
-    // Filter by year
-    if (selectedYear) {
-      filteredData = filteredData.filter(item => item.year === selectedYear)
-    }
-
-    // Filter by category
-    if (selectedCategory && selectedCategory !== 'ALL') {
-      filteredData = filteredData.filter(item => item.category === selectedCategory)
-    }
-
-    // Filter by institute
-    if (selectedInstitute) {
-      filteredData = filteredData.filter(item => item.institute === selectedInstitute)
-    }
-
-    // Filter by round
-    if (selectedRound && selectedRound !== 'ALL') {
-      filteredData = filteredData.filter(item => item.round === selectedRound)
-    }
+    let filteredData = queryCutoffs(allCutoffs, {
+      year: selectedYear,
+      round: selectedRound,
+      category: selectedCategory,
+      institute: selectedInstitute,
+      course: selectedCourse
+    })
 
     // Filter by search query
     if (searchQuery) {
@@ -282,9 +167,17 @@ const CutoffExplorer = () => {
       )
     }
 
-    // Filter by selected course
-    if (selectedCourse) {
-      filteredData = filteredData.filter(item => item.course === selectedCourse)
+    // Sort by typical round-to-round slide; seats without one go last
+    if (slideSort !== 'none') {
+      const direction = slideSort === 'asc' ? 1 : -1
+      const slideOf = (item: CutoffRecord) => movements.get(getHistoryKey(item))?.typicalSlide ?? null
+      filteredData = [...filteredData].sort((a, b) => {
+        const sa = slideOf(a)
+        const sb = slideOf(b)
+        if (sa === null) return sb === null ? 0 : 1
+        if (sb === null) return -1
+        return (sa - sb) * direction
+      })
     }
 
     // Update stats
@@ -313,7 +206,7 @@ const CutoffExplorer = () => {
     if (allCutoffs.length > 0) {
       filterData()
     }
-  }, [selectedYear, selectedCategory, selectedCourse, selectedInstitute, selectedRound, searchQuery, allCutoffs, page, pageSize])
+  }, [selectedYear, selectedCategory, selectedCourse, selectedInstitute, selectedRound, searchQuery, allCutoffs, page, pageSize, slideSort, movements])
 
   const handleSearch = () => {
     filterData()
@@ -329,11 +222,11 @@ const CutoffExplorer = () => {
   }
 
   const getCategoryColor = (category: string) => {
-    switch (category) {
+    switch (parseCategory(category)?.base) {
       case 'GM': return 'bg-blue-100 text-blue-800'
       case 'SC': return 'bg-green-100 text-green-800'
       case 'ST': return 'bg-purple-100 text-purple-800'
-      case '1G': return 'bg-red-100 text-red-800'
+      case '1': return 'bg-red-100 text-red-800'
       case '2A': return 'bg-orange-100 text-orange-800'
       case '2B': return 'bg-yellow-100 text-yellow-800'
       case '3A': return 'bg-pink-100 text-pink-800'
@@ -342,17 +235,6 @@ const CutoffExplorer = () => {
     }
   }
 
-  const getRoundDisplayName = (round: string) => {
-    switch (round) {
-      case 'Round 1': return 'Round 1'
-      case 'Round 2': return 'Round 2'
-      case 'Round 3': return 'Round 3'
-      case 'Round 3 (Extended)': return 'Round 3 (Extended)'
-      case 'Mock Round 1': return 'Mock Round 1'
-      default: return round
-    }
-  }
-
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-6 space-y-6 max-w-7xl">
@@ -447,7 +329,7 @@ const CutoffExplorer = () => {
                     <SelectContent>
                       {availableRounds.map((round) => (
                         <SelectItem key={round} value={round}>
-                          {round === 'ALL' ? 'All Rounds' : getRoundDisplayName(round)}
+                          {round === 'ALL' ? 'All Rounds' : getRoundLabel(round)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -463,8 +345,8 @@ const CutoffExplorer = () => {
                     <SelectContent className="max-h-72">
                       <SelectItem value="ALL">All Institutes</SelectItem>
                       {availableInstitutes.map((inst) => (
-                        <SelectItem key={inst} value={inst}>
-                          {inst}
+                        <SelectItem key={inst.code} value={inst.code}>
+                          {inst.name} ({inst.code})
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -480,7 +362,7 @@ const CutoffExplorer = () => {
                     <SelectContent>
                       {availableCategories.map((cat) => (
                         <SelectItem key={cat} value={cat}>
-                          {cat === 'ALL' ? 'All Categories' : cat}
+                          {cat === 'ALL' ? 'All Categories' : getCategoryLabel(cat)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -495,9 +377,9 @@ const CutoffExplorer = () => {
                     </SelectTrigger>
                     <SelectContent className="max-h-72">
                       <SelectItem value="ALL">All Courses</SelectItem>
-                      {COURSES.map((c) => (
-                        <SelectItem key={c.code} value={c.code}>
-                          {c.code} — {c.name}
+                      {availableCourses.map((c) => (
+                        <SelectItem key={c.name} value={c.name}>
+                          {c.code ? `${c.code} — ${c.name}` : c.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -592,6 +474,22 @@ const CutoffExplorer = () => {
                         <TableHead>Category</TableHead>
                         <TableHead>Round</TableHead>
                         <TableHead className="text-right">Cutoff Rank</TableHead>
+                        <TableHead className="text-right">Projected {projectionYear}</TableHead>
+                        <TableHead>Rounds {selectedYear !== 'ALL' ? selectedYear : ''}</TableHead>
+                        <TableHead
+                          className="cursor-pointer select-none text-right"
+                          title="Median change of the closing rank from the first to the last round, across years"
+                          onClick={() => {
+                            setSlideSort(slideSort === 'desc' ? 'asc' : slideSort === 'asc' ? 'none' : 'desc')
+                            setPage(1)
+                          }}
+                        >
+                          <div className="flex items-center justify-end gap-1">
+                            Typical Slide
+                            {slideSort === 'desc' && <ChevronDown className="h-4 w-4" />}
+                            {slideSort === 'asc' && <ChevronUp className="h-4 w-4" />}
+                          </div>
+                        </TableHead>
                         <TableHead className="text-center">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -608,8 +506,8 @@ const CutoffExplorer = () => {
                           </TableCell>
                           <TableCell>
                             <div>
-                              <div className="font-medium">{COURSE_CODE_TO_NAME[cutoff.course] || cutoff.course}</div>
-                              <div className="text-sm text-muted-foreground">{cutoff.course}</div>
+                              <div className="font-medium">{cutoff.course}</div>
+                              <div className="text-sm text-muted-foreground">{cutoff.course_code}</div>
                             </div>
                           </TableCell>
                           <TableCell>
@@ -625,6 +523,29 @@ const CutoffExplorer = () => {
                           <TableCell className="text-right font-mono font-semibold">
                             {cutoff.cutoff_rank?.toLocaleString()}
                           </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {(() => {
+                              const projection = projections.get(getProjectionKey(cutoff))
+                              if (!projection) return <span className="text-muted-foreground">—</span>
+                              return (
+                                <div title={`90% interval, fitted on ${projection.observations} year(s) of this round`}>
+                                  <div>{projection.expected.toLocaleString()}</div>
+                                  <div className="text-xs text-muted-foreground">
+                                    {projection.low.toLocaleString()}–{projection.high.toLocaleString()}
+                                  </div>
+                                </div>
+                              )
+                            })()}
+                          </TableCell>
+                          <TableCell>
+                            <RoundSparkline
+                              points={getYearMovement(movements.get(getHistoryKey(cutoff)), cutoff.year)?.points ?? []}
+                              highlightRound={cutoff.round}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatSlide(movements.get(getHistoryKey(cutoff))?.typicalSlide ?? null)}
+                          </TableCell>
                           <TableCell className="text-center">
                             <Button variant="ghost" size="sm">
                               {/* <Eye className="h-4 w-4" /> */}
@@ -659,8 +580,8 @@ const CutoffExplorer = () => {
                         
                         {/* Course Info */}
                         <div className="bg-muted/50 rounded-lg p-3">
-                          <div className="font-medium text-base">{COURSE_CODE_TO_NAME[cutoff.course] || cutoff.course}</div>
-                          <div className="text-sm text-muted-foreground">{cutoff.course}</div>
+                          <div className="font-medium text-base">{cutoff.course}</div>
+                          <div className="text-sm text-muted-foreground">{cutoff.course_code}</div>
                         </div>
 
                         {/* Badges */}
@@ -676,6 +597,37 @@ const CutoffExplorer = () => {
                           </Badge>
                         </div>
 
+                        {(() => {
+                          const projection = projections.get(getProjectionKey(cutoff))
+                          if (!projection) return null
+                          return (
+                            <div className="flex justify-between items-center text-sm">
+                              <span className="text-muted-foreground">Projected {projectionYear}</span>
+                              <span className="font-mono">
+                                {projection.expected.toLocaleString()}
+                                <span className="text-xs text-muted-foreground ml-1">
+                                  ({projection.low.toLocaleString()}–{projection.high.toLocaleString()})
+                                </span>
+                              </span>
+                            </div>
+                          )
+                        })()}
+
+                        {getYearMovement(movements.get(getHistoryKey(cutoff)), cutoff.year) && (
+                          <div className="flex justify-between items-center text-sm">
+                            <span className="text-muted-foreground">Round movement</span>
+                            <span className="flex items-center gap-2">
+                              <RoundSparkline
+                                points={getYearMovement(movements.get(getHistoryKey(cutoff)), cutoff.year)?.points ?? []}
+                                highlightRound={cutoff.round}
+                              />
+                              <span className="font-mono text-xs" title="Typical slide">
+                                {formatSlide(movements.get(getHistoryKey(cutoff))?.typicalSlide ?? null)}
+                              </span>
+                            </span>
+                          </div>
+                        )}
+
                         {/* Additional Info */}
                         {(cutoff.total_seats || cutoff.available_seats) && (
                           <div className="grid grid-cols-2 gap-3 text-sm">
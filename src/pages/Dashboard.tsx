@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react"
 import { loadSettings } from '@/lib/settings'
+import { loadCutoffDataset } from '@/lib/cutoff-repository'
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -48,39 +49,30 @@ const Dashboard = () => {
   useEffect(() => {
     const loadStats = async () => {
       try {
-        // Prefer the consolidated dataset to ensure latest counts
         // Try tiny summary first for instant load
         const appSettings = loadSettings()
-        const urls = appSettings.dashboardFastMode
-          ? ['/data/cutoffs-summary.json', '/data/kcet_cutoffs_consolidated.json', '/kcet_cutoffs.json']
-          : ['/data/kcet_cutoffs_consolidated.json', '/kcet_cutoffs.json']
-        let response: Response | null = null
-        for (const url of urls) {
-          const r = await fetch(url, { cache: 'no-store' })
-          if (r.ok) { response = r; break }
-        }
-        if (!response) throw new Error('Failed to load data')
-        
-        const raw = await response.json()
-        
-        // If summary shape, set stats quickly and return
-        if (!Array.isArray(raw) && raw.totals && raw.years && raw.categories) {
-          const sortedYears: { [key: string]: number } = {}
-          Object.keys(raw.years).sort((a, b) => b.localeCompare(a)).forEach(y => { sortedYears[y] = raw.years[y] })
-          setStats({
-            totalRecords: raw.totals.records,
-            totalColleges: raw.totals.colleges,
-            totalBranches: raw.totals.branches,
-            years: sortedYears,
-            categories: raw.categories,
-            topBranches: [],
-            seatTypes: {}
-          })
-          setLoading(false)
-          return
+        if (appSettings.dashboardFastMode) {
+          const r = await fetch('/data/cutoffs-summary.json', { cache: 'no-store' }).catch(() => null)
+          const raw = r?.ok ? await r.json().catch(() => null) : null
+          if (raw && raw.totals && raw.years && raw.categories) {
+            const sortedYears: { [key: string]: number } = {}
+            Object.keys(raw.years).sort((a, b) => b.localeCompare(a)).forEach(y => { sortedYears[y] = raw.years[y] })
+            setStats({
+              totalRecords: raw.totals.records,
+              totalColleges: raw.totals.colleges,
+              totalBranches: raw.totals.branches,
+              years: sortedYears,
+              categories: raw.categories,
+              topBranches: [],
+              seatTypes: {}
+            })
+            setLoading(false)
+            return
+          }
         }
 
-        const cutoffs = Array.isArray(raw) ? raw : (raw.cutoffs || raw.data || raw.cutoffs_data || [])
+        // Fall back to the full consolidated dataset for exact counts
+        const { cutoffs } = await loadCutoffDataset()
         
         // Calculate statistics
         const colleges = new Map()
@@ -89,7 +81,7 @@ const Dashboard = () => {
         const categories: { [key: string]: number } = {}
         const rounds: { [key: string]: number } = {}
         
-        cutoffs.forEach((record: any) => {
+        cutoffs.forEach((record) => {
           // Count by year
           years[record.year] = (years[record.year] || 0) + 1
           
@@ -113,7 +105,7 @@ const Dashboard = () => {
           if (record.course) {
             const branchKey = record.course
             branches.set(branchKey, {
-              code: record.course,
+              code: record.course_code || record.course,
               name: record.course,
               count: (branches.get(branchKey)?.count || 0) + 1
             })
@@ -1,7 +1,107 @@
+import { useEffect, useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Construction, Clock, Calculator } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, Calculator, ExternalLink, GraduationCap, IndianRupee } from "lucide-react"
+import { CategoryProfileInput } from "@/components/CategoryProfileInput"
+import type { StudentCategoryProfile } from "@/lib/categories"
+import { loadCollegeProfiles, SEAT_TYPE_LABELS, SEAT_TYPES, type CollegeProfile, type SeatType } from "@/lib/college-profile"
+import { getAvailableInstitutes, loadCutoffDataset, type InstituteOption } from "@/lib/cutoff-repository"
+import { calculateFees, DEFAULT_COURSE_YEARS, getFeeSchedule, parseFee, type FeeInputs, type FeeSchedule } from "@/lib/fee-engine"
+import {
+  applySchemes,
+  evaluateSchemes,
+  getIncomeBand,
+  INCOME_BANDS,
+  loadFeeSchemeRules,
+  type FeeSchemeRules,
+  type SchemeStatus
+} from "@/lib/fee-schemes"
+
+const formatRupees = (value: number) => `₹${value.toLocaleString("en-IN")}`
+
+const UNKNOWN_INCOME = "unknown"
+
+const STATUS_STYLES: Record<SchemeStatus, { label: string; className: string }> = {
+  eligible: { label: "Eligible", className: "bg-green-100 text-green-800" },
+  possible: { label: "May qualify", className: "bg-blue-100 text-blue-800" },
+  needs_income: { label: "Check income", className: "bg-yellow-100 text-yellow-800" },
+  ineligible: { label: "Not eligible", className: "bg-gray-100 text-gray-700" }
+}
 
 const FeeCalculator = () => {
+  const [institutes, setInstitutes] = useState<InstituteOption[]>([])
+  const [collegeInput, setCollegeInput] = useState("")
+  const [collegeProfile, setCollegeProfile] = useState<CollegeProfile | null>(null)
+  const [profileError, setProfileError] = useState("")
+  const [seatType, setSeatType] = useState<SeatType>("government")
+  const [student, setStudent] = useState<StudentCategoryProfile>({ base: "GM", rural: false, kannadaMedium: false })
+  const [incomeBand, setIncomeBand] = useState(UNKNOWN_INCOME)
+  const [rules, setRules] = useState<FeeSchemeRules | null>(null)
+  const [rulesError, setRulesError] = useState("")
+  const [includeHostel, setIncludeHostel] = useState(true)
+  const [increase, setIncrease] = useState("0")
+  const [years, setYears] = useState(String(DEFAULT_COURSE_YEARS))
+  const [tuitionOverride, setTuitionOverride] = useState("")
+  const [hostelOverride, setHostelOverride] = useState("")
+  const [oneTimeOverride, setOneTimeOverride] = useState("")
+
+  useEffect(() => {
+    loadCutoffDataset()
+      .then(data => setInstitutes(getAvailableInstitutes(data.cutoffs)))
+      .catch(() => setInstitutes([]))
+    loadFeeSchemeRules()
+      .then(setRules)
+      .catch((error: Error) => setRulesError(error.message))
+  }, [])
+
+  const collegeCode = collegeInput.trim().toUpperCase().match(/^E\d{3}/)?.[0] ?? ""
+
+  useEffect(() => {
+    setCollegeProfile(null)
+    setProfileError("")
+    if (!collegeCode) return
+    loadCollegeProfiles([collegeCode])
+      .then(profiles => setCollegeProfile(profiles.get(collegeCode) ?? null))
+      .catch((error: Error) => setProfileError(error.message))
+  }, [collegeCode])
+
+  const band = getIncomeBand(incomeBand)
+  const inputs: FeeInputs = {
+    category: student.base,
+    familyIncome: band?.max ?? null,
+    includeHostel,
+    years: parseInt(years) || DEFAULT_COURSE_YEARS,
+    annualIncrease: (parseFloat(increase) || 0) / 100
+  }
+
+  // Typed amounts take precedence over the college's recorded fees
+  const schedule: FeeSchedule | null = useMemo(() => {
+    const recorded = getFeeSchedule(collegeProfile?.fees, seatType)
+    const tuition = parseFee(tuitionOverride) ?? recorded?.tuition ?? null
+    if (tuition === null) return null
+    return {
+      seatType,
+      tuition,
+      hostel: parseFee(hostelOverride) ?? recorded?.hostel ?? collegeProfile?.fees?.hostel ?? null,
+      oneTime: parseFee(oneTimeOverride) ?? recorded?.oneTime ?? collegeProfile?.fees?.oneTime ?? null
+    }
+  }, [collegeProfile, seatType, tuitionOverride, hostelOverride, oneTimeOverride])
+
+  const breakdown = schedule ? calculateFees(schedule, inputs) : null
+  const eligibility = { ...student, incomeBand: band?.id ?? null }
+  const matches = rules ? evaluateSchemes(rules, eligibility, seatType) : []
+  const netPayable = breakdown ? applySchemes(breakdown, matches) : null
+
+  const bySeatType = SEAT_TYPES
+    .map(type => ({ type, schedule: getFeeSchedule(collegeProfile?.fees, type) }))
+    .filter((entry): entry is { type: SeatType; schedule: FeeSchedule } => entry.schedule !== null)
+    .map(({ type, schedule }) => ({ type, breakdown: calculateFees(schedule, inputs) }))
+
   return (
     <div className="space-y-6">
       <div className="space-y-2">
@@ -9,26 +109,240 @@ const FeeCalculator = () => {
         <p className="text-muted-foreground">Estimate your annual cost across colleges and categories</p>
       </div>
 
-      <Card className="border-orange-200 bg-orange-50">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2 text-orange-800">
-            <Construction className="h-5 w-5" />
-            Under Development
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex items-center gap-3 text-orange-800">
-            <Clock className="h-5 w-5" />
-            <p className="font-medium">This feature is currently under development and will be rolling out soon.</p>
-          </div>
-          <p className="text-sm text-orange-700">
-            The Fee Calculator will help you estimate the total cost of education across different 
-            colleges and categories, including tuition fees, hostel charges, and other expenses.
-          </p>
-        </CardContent>
-      </Card>
+      <div className="grid gap-6 grid-cols-1 lg:grid-cols-3">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calculator className="h-5 w-5" />
+              Your Seat
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="fee-college">College</Label>
+              <Input
+                id="fee-college"
+                list="fee-colleges"
+                value={collegeInput}
+                onChange={(e) => setCollegeInput(e.target.value)}
+                placeholder="College code, e.g. E001"
+              />
+              <datalist id="fee-colleges">
+                {institutes.map(institute => <option key={institute.code} value={`${institute.code} ${institute.name}`} />)}
+              </datalist>
+              {collegeProfile && <div className="text-xs text-muted-foreground">{collegeProfile.name}</div>}
+              {profileError && <div className="text-xs text-destructive">Fee data unavailable: {profileError}</div>}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Seat type</Label>
+              <Select value={seatType} onValueChange={(value) => setSeatType(value as SeatType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SEAT_TYPES.map(type => <SelectItem key={type} value={type}>{SEAT_TYPE_LABELS[type]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <CategoryProfileInput value={student} onChange={setStudent} showEligible={false} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Family income / year</Label>
+              <Select value={incomeBand} onValueChange={setIncomeBand}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNKNOWN_INCOME}>Not specified</SelectItem>
+                  {INCOME_BANDS.map(b => <SelectItem key={b.id} value={b.id}>{b.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="fee-years">Course years</Label>
+                <Input id="fee-years" type="number" min={1} max={6} value={years} onChange={(e) => setYears(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fee-increase">Yearly increase %</Label>
+                <Input id="fee-increase" type="number" min={0} step={1} value={increase} onChange={(e) => setIncrease(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="fee-hostel" checked={includeHostel} onCheckedChange={setIncludeHostel} />
+              <Label htmlFor="fee-hostel">Include hostel</Label>
+            </div>
+
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="text-sm font-medium">Annual amounts</div>
+              <p className="text-xs text-muted-foreground">Leave blank to use the college's recorded fees.</p>
+              <div className="grid grid-cols-3 gap-2">
+                <Input aria-label="Tuition" value={tuitionOverride} onChange={(e) => setTuitionOverride(e.target.value)}
+                  placeholder={collegeProfile?.fees?.tuition[seatType]?.toLocaleString("en-IN") ?? "Tuition"} />
+                <Input aria-label="Hostel" value={hostelOverride} onChange={(e) => setHostelOverride(e.target.value)}
+                  placeholder={collegeProfile?.fees?.hostel?.toLocaleString("en-IN") ?? "Hostel"} />
+                <Input aria-label="One-time" value={oneTimeOverride} onChange={(e) => setOneTimeOverride(e.target.value)}
+                  placeholder={collegeProfile?.fees?.oneTime?.toLocaleString("en-IN") ?? "One-time"} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {!breakdown ? (
+            <Card>
+              <CardContent className="py-8 flex items-center gap-2 text-sm text-muted-foreground">
+                <AlertCircle className="h-4 w-4" />
+                {collegeCode
+                  ? `No ${SEAT_TYPE_LABELS[seatType]} tuition is recorded for ${collegeCode}; enter it above to see the total.`
+                  : "Pick a college or enter the annual tuition to see the total."}
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <IndianRupee className="h-5 w-5" />
+                  {breakdown.years.length}-Year Cost
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                  <div>
+                    <div className="text-xs text-muted-foreground">Net payable</div>
+                    <div className="text-2xl font-bold">{formatRupees(netPayable!.net)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Fees charged</div>
+                    <div className="text-lg font-semibold">{formatRupees(breakdown.total)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Hostel</div>
+                    <div className="text-lg font-semibold">{formatRupees(breakdown.hostel)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">One-time</div>
+                    <div className="text-lg font-semibold">{formatRupees(breakdown.oneTime)}</div>
+                  </div>
+                </div>
+
+                {breakdown.appliedConcession ? (
+                  <Badge className="bg-green-100 text-green-800">
+                    {breakdown.appliedConcession.label}: {formatRupees(breakdown.concession)} waived
+                  </Badge>
+                ) : inputs.familyIncome === null && (
+                  <p className="text-xs text-muted-foreground">Choose a family income band to check fee exemptions and scholarships.</p>
+                )}
+
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Year</TableHead>
+                        <TableHead>Tuition</TableHead>
+                        <TableHead>Concession</TableHead>
+                        <TableHead>Hostel</TableHead>
+                        <TableHead>One-time</TableHead>
+                        <TableHead>Charged</TableHead>
+                        <TableHead>Schemes</TableHead>
+                        <TableHead>Net</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {breakdown.years.map((row, index) => (
+                        <TableRow key={row.year}>
+                          <TableCell>Year {row.year}</TableCell>
+                          <TableCell>{formatRupees(row.tuition)}</TableCell>
+                          <TableCell>{row.concession ? `−${formatRupees(row.concession)}` : "—"}</TableCell>
+                          <TableCell>{row.hostel ? formatRupees(row.hostel) : "—"}</TableCell>
+                          <TableCell>{row.oneTime ? formatRupees(row.oneTime) : "—"}</TableCell>
+                          <TableCell>{formatRupees(row.total)}</TableCell>
+                          <TableCell>{netPayable!.years[index].benefit ? `−${formatRupees(netPayable!.years[index].benefit)}` : "—"}</TableCell>
+                          <TableCell className="font-medium">{formatRupees(netPayable!.years[index].net)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GraduationCap className="h-5 w-5" />
+                Scholarships &amp; Concessions
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {rulesError && <div className="text-sm text-destructive">Scheme rules unavailable: {rulesError}</div>}
+              {matches.map(({ scheme, status, reasons }) => {
+                const amount = netPayable?.benefits.find(b => b.scheme.id === scheme.id)?.amount
+                return (
+                  <div key={scheme.id} className={`rounded-md border p-3 space-y-1 ${status === "ineligible" ? "opacity-60" : ""}`}>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{scheme.name}</span>
+                      <Badge className={STATUS_STYLES[status].className}>{STATUS_STYLES[status].label}</Badge>
+                      {amount ? <span className="text-sm text-green-700">{formatRupees(amount)} over the course</span> : null}
+                      {scheme.url && (
+                        <a href={scheme.url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{scheme.provider}</div>
+                    {reasons.length > 0 && <div className="text-xs">{reasons.join(" • ")}</div>}
+                    {scheme.note && status !== "ineligible" && <div className="text-xs text-muted-foreground">{scheme.note}</div>}
+                  </div>
+                )
+              })}
+              {rules && (
+                <p className="text-xs text-muted-foreground">
+                  Rules version {rules.version}, updated {rules.updated}. Schemes marked "May qualify" depend on a condition not checked here and are left out of net payable. {rules.notes}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {bySeatType.length > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Seat Types at {collegeProfile?.name ?? collegeCode}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Seat type</TableHead>
+                      <TableHead>Annual tuition</TableHead>
+                      <TableHead>Fees charged</TableHead>
+                      <TableHead>Net payable</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bySeatType.map(({ type, breakdown: seat }) => (
+                      <TableRow key={type} className={type === seatType ? "bg-muted/50" : ""}>
+                        <TableCell>{SEAT_TYPE_LABELS[type]}</TableCell>
+                        <TableCell>{formatRupees(seat.years[0].tuition)}</TableCell>
+                        <TableCell>{formatRupees(seat.total)}</TableCell>
+                        <TableCell className="font-medium">
+                          {rules ? formatRupees(applySchemes(seat, evaluateSchemes(rules, eligibility, type)).net) : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
     </div>
   )
 }
 
-export default FeeCalculator
\ No newline at end of file
+export default FeeCalculator
@@ -1,34 +1,282 @@
+import { useEffect, useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Construction, Clock, Target } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, ArrowRight, Play, Target } from "lucide-react"
+import { CategoryProfileInput } from "@/components/CategoryProfileInput"
+import { getAllotmentOrder, type StudentCategoryProfile } from "@/lib/categories"
+import { getAvailableYears, loadCutoffDataset, queryCutoffs, type CutoffDataset } from "@/lib/cutoff-repository"
+import { parseOptionCode, type AllotmentOption, type OptionEvaluation, type OptionOutcome } from "@/lib/allotment-engine"
+import {
+  compareChoices,
+  COUNSELLING_CHOICES,
+  COUNSELLING_ROUNDS,
+  simulateCounselling,
+  type ChoiceComparison,
+  type CounsellingChoice,
+  type CounsellingResult
+} from "@/lib/counselling-simulator"
+import { getRoundLabel } from "@/lib/rounds"
+import { COURSE_CODE_TO_NAME } from "@/lib/courses"
+
+const OUTCOME_STYLES: Record<OptionOutcome, { label: string; className: string }> = {
+  allotted: { label: 'Allotted', className: 'bg-green-100 text-green-800' },
+  rank_above_cutoff: { label: 'Closed', className: 'bg-orange-100 text-orange-800' },
+  no_eligible_column: { label: 'No seats for you', className: 'bg-gray-100 text-gray-800' },
+  no_data: { label: 'No data', className: 'bg-gray-100 text-gray-800' },
+  not_reached: { label: 'Not reached', className: 'bg-blue-50 text-blue-700' }
+}
+
+// Decisions are only taken in rounds that have a later round to move on to
+const DECISION_ROUNDS = COUNSELLING_ROUNDS.slice(0, -1)
 
 const MockSimulator = () => {
+  const [dataset, setDataset] = useState<CutoffDataset | null>(null)
+  const [loadError, setLoadError] = useState("")
+  const [rank, setRank] = useState<number>(25000)
+  const [profile, setProfile] = useState<StudentCategoryProfile>({ base: 'GM', rural: false, kannadaMedium: false })
+  const [year, setYear] = useState("")
+  const [optionText, setOptionText] = useState("")
+  const [choices, setChoices] = useState<Partial<Record<string, CounsellingChoice>>>({ R1: 2, R2: 2 })
+  const [result, setResult] = useState<CounsellingResult<AllotmentOption> | null>(null)
+  const [alternatives, setAlternatives] = useState<Record<string, ChoiceComparison<AllotmentOption>[]>>({})
+
+  useEffect(() => {
+    loadCutoffDataset()
+      .then(data => {
+        setDataset(data)
+        setYear(getAvailableYears(data.cutoffs)[0] ?? "")
+      })
+      .catch((error: Error) => setLoadError(error.message))
+  }, [])
+
+  const years = useMemo(() => dataset ? getAvailableYears(dataset.cutoffs) : [], [dataset])
+
+  const parsedOptions = useMemo(() => {
+    const lines = optionText.split(/[\n,;]+/).map(l => l.trim()).filter(Boolean)
+    const options = lines.map(parseOptionCode).filter((o): o is AllotmentOption => o !== null)
+    const invalid = lines.filter(line => !parseOptionCode(line))
+    return { options, invalid }
+  }, [optionText])
+
+  const describe = (option: AllotmentOption) => {
+    const college = dataset?.metadata.institute_names[option.collegeCode] ?? option.collegeCode
+    const course = COURSE_CODE_TO_NAME[option.branchCode] ?? option.branchCode
+    return `${college} — ${course}`
+  }
+
+  const describeSeat = (seat: OptionEvaluation<AllotmentOption> | null) => {
+    if (!seat) return 'No seat'
+    return `Option ${seat.priority}: ${seat.option.collegeCode}${seat.option.branchCode} under ${seat.category}`
+  }
+
+  const runSimulation = () => {
+    if (!dataset || parsedOptions.options.length === 0 || rank <= 0) return
+    const yearCutoffs = queryCutoffs(dataset.cutoffs, { year })
+    const input = {
+      rank,
+      year,
+      categories: getAllotmentOrder(profile),
+      options: parsedOptions.options,
+      choices
+    }
+    setResult(simulateCounselling(yearCutoffs, input))
+    setAlternatives(Object.fromEntries(
+      DECISION_ROUNDS.map(round => [round, compareChoices(yearCutoffs, input, round)])
+    ))
+  }
+
   return (
     <div className="space-y-6">
       <div className="space-y-2">
         <h1 className="text-3xl font-bold tracking-tight">Mock Simulator</h1>
-        <p className="text-muted-foreground">Simulate seat allotment based on your rank and preferences</p>
+        <p className="text-muted-foreground">
+          Play your option list through Round 1, Round 2 and the extended round using a past year's closing ranks
+        </p>
       </div>
 
-      <Card className="border-orange-200 bg-orange-50">
+      {loadError && (
+        <Card className="border-destructive/40 bg-destructive/10">
+          <CardContent className="py-4 flex items-center gap-2 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load cutoff data: {loadError}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Your Details
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-6 grid-cols-1 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="sim-rank">KCET Rank</Label>
+              <Input id="sim-rank" type="number" min={1} value={rank} onChange={(e) => setRank(parseInt(e.target.value) || 0)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <CategoryProfileInput value={profile} onChange={setProfile} showEligible={false} />
+            </div>
+            <div className="space-y-2">
+              <Label>Cutoffs from year</Label>
+              <Select value={year} onValueChange={setYear}>
+                <SelectTrigger><SelectValue placeholder="Select year" /></SelectTrigger>
+                <SelectContent>
+                  {years.map(y => <SelectItem key={y} value={y}>{y}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sim-options">Option list (one code per line, highest priority first)</Label>
+            <Textarea
+              id="sim-options"
+              rows={8}
+              value={optionText}
+              onChange={(e) => setOptionText(e.target.value)}
+              placeholder={"E005CS\nE003CS\nE010EC"}
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              {parsedOptions.options.length} options
+              {parsedOptions.invalid.length > 0 && ` • not recognised: ${parsedOptions.invalid.slice(0, 5).join(', ')}`}
+            </p>
+          </div>
+
+          <div className="grid gap-6 grid-cols-1 md:grid-cols-2">
+            {DECISION_ROUNDS.map(round => (
+              <div key={round} className="space-y-2">
+                <Label>Decision after {getRoundLabel(round)}</Label>
+                <Select
+                  value={String(choices[round] ?? 2)}
+                  onValueChange={(v) => setChoices({ ...choices, [round]: Number(v) as CounsellingChoice })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {COUNSELLING_CHOICES.map(c => (
+                      <SelectItem key={c.choice} value={String(c.choice)}>
+                        {c.label} — {c.description}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <Button onClick={runSimulation} disabled={!dataset || parsedOptions.options.length === 0 || rank <= 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Run Simulation
+          </Button>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <Card>
             <CardHeader>
-          <CardTitle className="flex items-center gap-2 text-orange-800">
-            <Construction className="h-5 w-5" />
-            Under Development
-              </CardTitle>
+              <CardTitle>Outcome</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-          <div className="flex items-center gap-3 text-orange-800">
-            <Clock className="h-5 w-5" />
-            <p className="font-medium">This feature is currently under development and will be rolling out soon.</p>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {result.steps.map((step, index) => (
+                  <div key={step.round} className="flex items-center gap-2">
+                    {index > 0 && <ArrowRight className="h-4 w-4 text-muted-foreground" />}
+                    <Badge variant="outline">{getRoundLabel(step.round)}</Badge>
+                    <span>{step.hasData ? describeSeat(step.seat) : 'no data'}</span>
+                    {step.choice && <Badge variant="secondary">Choice {step.choice}</Badge>}
+                  </div>
+                ))}
+              </div>
+              <div className="rounded-md border p-4">
+                <div className="text-xs text-muted-foreground">Final seat</div>
+                <div className="text-lg font-semibold">
+                  {result.finalSeat ? describe(result.finalSeat.option) : 'No seat'}
+                </div>
+                {result.finalSeat && (
+                  <div className="text-sm text-muted-foreground">{describeSeat(result.finalSeat)}</div>
+                )}
               </div>
-          <p className="text-sm text-orange-700">
-            The Mock Simulator will allow you to simulate seat allotment based on your rank, category, 
-            and preferences using historical KCET data to help you make informed decisions.
-          </p>
+            </CardContent>
+          </Card>
+
+          {result.steps.map(step => (
+            <Card key={step.round}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {getRoundLabel(step.round)}
+                  {step.upgraded && step.heldSeat && <Badge className="bg-green-100 text-green-800">Upgraded</Badge>}
+                </CardTitle>
+                <div className="text-sm text-muted-foreground">{step.note}</div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {step.allotment && (
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">#</TableHead>
+                          <TableHead>Option</TableHead>
+                          <TableHead>Result</TableHead>
+                          <TableHead>Why</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {step.allotment.evaluations.map(evaluation => (
+                          <TableRow key={`${evaluation.option.collegeCode}${evaluation.option.branchCode}`}>
+                            <TableCell>{evaluation.priority}</TableCell>
+                            <TableCell>
+                              <div className="font-mono">{evaluation.option.collegeCode}{evaluation.option.branchCode}</div>
+                              <div className="text-xs text-muted-foreground">{describe(evaluation.option)}</div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge className={OUTCOME_STYLES[evaluation.outcome].className}>
+                                {OUTCOME_STYLES[evaluation.outcome].label}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-sm">{evaluation.explanation}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {alternatives[step.round] && step.seat && (
+                  <div className="space-y-2">
+                    <div className="text-sm font-medium">What each choice here would lead to</div>
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {alternatives[step.round].map(({ choice, result: alt }) => (
+                        <div
+                          key={choice}
+                          className={`rounded-md border p-3 text-sm ${choice === step.choice ? 'border-primary' : ''}`}
+                        >
+                          <div className="font-medium">Choice {choice}</div>
+                          <div className="text-muted-foreground">
+                            {alt.finalSeat ? `${describe(alt.finalSeat.option)} (${alt.finalSeat.category})` : 'No seat'}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
+          ))}
+        </>
+      )}
     </div>
   )
 }
 
-export default MockSimulator
\ No newline at end of file
+export default MockSimulator
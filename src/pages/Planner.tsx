@@ -1,78 +1,406 @@
-import { useState } from "react";
-import { Card, CardContent } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
-import { Construction } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { FilePlus, FileText, ListPlus, Plus, Save, Search, Trash2, Upload } from "lucide-react"
+import { Link } from "react-router-dom"
+import { useToast } from "@/hooks/use-toast"
+import OptionEntryTable from "@/components/OptionEntryTable"
+import CollegeList from "@/components/CollegeList"
+import { CategoryProfileInput } from "@/components/CategoryProfileInput"
+import { OptionLintPanel } from "@/components/OptionLintPanel"
+import { OptionOrderOptimizer } from "@/components/OptionOrderOptimizer"
+import { PDFImportReview } from "@/components/PDFImportReview"
+import { indexCutoffHistory } from "@/lib/admission-chance"
+import { parseOptionCode } from "@/lib/allotment-engine"
+import { getEligibleCategories, profileFromCategory, type StudentCategoryProfile } from "@/lib/categories"
+import { COURSE_CODE_TO_NAME, getCourseCode } from "@/lib/courses"
+import { loadCollegeProfiles, type CollegeProfile } from "@/lib/college-profile"
+import { loadCutoffDataset, type CutoffDataset } from "@/lib/cutoff-repository"
+import { calculateFees, getFeeSchedule } from "@/lib/fee-engine"
+import {
+  annotateOption,
+  appendOptions,
+  createPlannerOption,
+  deleteDraft,
+  loadDrafts,
+  renumberOptions,
+  saveDraft,
+  type PlannerDraft,
+  type PlannerOption
+} from "@/lib/option-planner"
+import { applyLintFix, lintOptionList } from "@/lib/option-linter"
+import { buildImportResult, type ImportReference, type ImportRow, type OptionImportResult } from "@/lib/option-import"
+import { finderStore } from "@/store/finderStore"
+
+const DEFAULT_PROFILE: StudentCategoryProfile = { base: 'GM', rural: false, kannadaMedium: false, hyderabadKarnataka: false }
+
+// Finder results offered for import, best chance first
+const FINDER_IMPORT_LIMIT = 50
+
+const newDraft = (rank: number | null, profile: StudentCategoryProfile): PlannerDraft => ({
+  id: `draft-${Date.now().toString(36)}`,
+  name: `Option list ${new Date().toLocaleDateString()}`,
+  updatedAt: new Date().toISOString(),
+  rank,
+  profile,
+  options: []
+})
 
 const Planner = () => {
-  const [showPopup, setShowPopup] = useState(true);
+  const { toast } = useToast()
+  const finder = finderStore.getState()
+  const [dataset, setDataset] = useState<CutoffDataset | null>(null)
+  const [drafts, setDrafts] = useState<PlannerDraft[]>(() => loadDrafts())
+  const [draft, setDraft] = useState<PlannerDraft>(() => {
+    const finderProfile = finder.categoryProfile ?? profileFromCategory(finder.userCategory) ?? DEFAULT_PROFILE
+    return loadDrafts()[0] ?? newDraft(finder.userRank, finderProfile)
+  })
+  const [codeText, setCodeText] = useState("")
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<OptionImportResult | null>(null)
+  const [collegeProfiles, setCollegeProfiles] = useState<Map<string, CollegeProfile>>(new Map())
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    loadCutoffDataset()
+      .then(setDataset)
+      .catch((error: Error) => toast({ title: "Cutoff data unavailable", description: error.message, variant: "destructive" }))
+  }, [toast])
+
+  const collegeCodes = [...new Set(draft.options.map(option => option.collegeCode.toUpperCase()))].sort().join(",")
+  useEffect(() => {
+    // Fee data is optional; options fall back to the fee printed against them
+    loadCollegeProfiles(collegeCodes ? collegeCodes.split(",") : [])
+      .then(setCollegeProfiles)
+      .catch(() => setCollegeProfiles(new Map()))
+  }, [collegeCodes])
+
+  const updateDraft = (partial: Partial<PlannerDraft>) => {
+    const next = { ...draft, ...partial }
+    setDraft(next)
+    // Drafts are stored as soon as they hold an option
+    if (next.options.length > 0 || drafts.some(d => d.id === next.id)) setDrafts(saveDraft(next))
+  }
+
+  const setOptions = (options: PlannerOption[]) => updateDraft({ options: renumberOptions(options) })
+  const addOptions = (incoming: PlannerOption[]) => {
+    const options = appendOptions(draft.options, incoming)
+    updateDraft({ options })
+    return options.length - draft.options.length
+  }
+
+  const historyIndex = useMemo(() => indexCutoffHistory(dataset?.cutoffs ?? []), [dataset])
+  const categories = useMemo(() => getEligibleCategories(draft.profile), [draft.profile])
+  const annotations = useMemo(
+    () => Object.fromEntries(draft.options.map(option => [option.id, annotateOption(option, draft.rank, categories, historyIndex)])),
+    [draft.options, draft.rank, categories, historyIndex]
+  )
+  // Option entry is for government seats; concessions need income, which the planner does not ask for
+  const costs = useMemo(
+    () => Object.fromEntries(draft.options.map(option => {
+      const schedule = getFeeSchedule(collegeProfiles.get(option.collegeCode.toUpperCase())?.fees, 'government', option.courseFee)
+      return [option.id, schedule ? calculateFees(schedule, { category: draft.profile.base, familyIncome: null, includeHostel: false }).total : null]
+    })),
+    [draft.options, draft.profile.base, collegeProfiles]
+  )
+  const importReference = useMemo<ImportReference>(
+    () => ({ colleges: dataset?.metadata.institute_names ?? {}, courses: COURSE_CODE_TO_NAME }),
+    [dataset]
+  )
+  const lintIssues = useMemo(
+    () => dataset ? lintOptionList(draft.options, annotations, draft.rank) : [],
+    [dataset, draft.options, annotations, draft.rank]
+  )
+
+  const finderMatches = useMemo(
+    () => [...finder.matches].sort((a, b) => b.matchScore - a.matchScore).slice(0, FINDER_IMPORT_LIMIT),
+    [finder.matches]
+  )
+  const listedCodes = new Set(draft.options.map(o => o.collegeCourse))
+
+  const optionFromMatch = (match: (typeof finderMatches)[number]) => {
+    const branchCode = match.course_code || getCourseCode(match.course)
+    return branchCode
+      ? createPlannerOption({ collegeCode: match.institute_code, branchCode, collegeName: match.institute, branchName: match.course })
+      : null
+  }
+
+  const addCodes = () => {
+    const lines = codeText.split(/[\n,;]+/).map(l => l.trim()).filter(Boolean)
+    const parsed = lines.map(parseOptionCode)
+    const invalid = lines.filter((_, i) => !parsed[i])
+    const added = addOptions(parsed.filter(Boolean).map(code => createPlannerOption({
+      ...code!,
+      collegeName: dataset?.metadata.institute_names[code!.collegeCode]
+    })))
+    setCodeText(invalid.join('\n'))
+    toast({
+      title: `Added ${added} option${added === 1 ? '' : 's'}`,
+      description: invalid.length > 0 ? `Could not read: ${invalid.slice(0, 5).join(', ')}` : undefined
+    })
+  }
+
+  const importPdf = async (file: File) => {
+    setImporting(true)
+    try {
+      // The parser pulls in PDF.js, so it is only loaded when a file is picked
+      const { PDFParser } = await import("@/lib/pdf-parser")
+      const extraction = await PDFParser.extractOptionCandidates(file)
+      setImportResult(buildImportResult(file.name, extraction, importReference))
+    } catch (error) {
+      toast({ title: "PDF import failed", description: error instanceof Error ? error.message : String(error), variant: "destructive" })
+    } finally {
+      setImporting(false)
+      if (fileInput.current) fileInput.current.value = ""
+    }
+  }
+
+  const confirmImport = (rows: ImportRow[]) => {
+    const added = addOptions(rows.map(row => row.option))
+    toast({ title: `Imported ${added} option${added === 1 ? '' : 's'} from ${importResult?.fileName}` })
+    setImportResult(null)
+  }
+
+  const startNewDraft = () => {
+    setDraft(newDraft(draft.rank, draft.profile))
+  }
+
+  const removeDraft = () => {
+    const remaining = deleteDraft(draft.id)
+    setDrafts(remaining)
+    setDraft(remaining[0] ?? newDraft(draft.rank, draft.profile))
+  }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 relative">
-      {/* Blurred Background Content */}
-      <div className={`transition-all duration-300 ${showPopup ? 'blur-sm pointer-events-none' : ''}`}>
-        <div className="container mx-auto px-4 py-8">
-          <div className="text-center space-y-6">
-            <h1 className="text-4xl font-bold text-slate-800">Option Entry Planner</h1>
-            <p className="text-lg text-slate-600">Plan your KCET option entries strategically</p>
-            
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-12">
-              <Card className="p-6">
-                <h3 className="text-xl font-semibold mb-4">Rank Analysis</h3>
-                <p className="text-slate-600">Analyze your rank and find suitable colleges</p>
-              </Card>
-              <Card className="p-6">
-                <h3 className="text-xl font-semibold mb-4">Option Entry</h3>
-                <p className="text-slate-600">Plan and prioritize your college choices</p>
-              </Card>
-              <Card className="p-6">
-                <h3 className="text-xl font-semibold mb-4">Mock Allotment</h3>
-                <p className="text-slate-600">Simulate your allotment results</p>
-              </Card>
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Option Entry Planner</h1>
+        <p className="text-muted-foreground">
+          Build and order your option list, with past closing ranks and a rough chance for each option
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Save className="h-5 w-5" />
+            Draft
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 grid-cols-1 md:grid-cols-[1fr_1fr_auto] items-end">
+            <div className="space-y-2">
+              <Label htmlFor="draft-name">Name</Label>
+              <Input id="draft-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
             </div>
-              </div>
+            <div className="space-y-2">
+              <Label>Saved drafts</Label>
+              <Select
+                value={drafts.some(d => d.id === draft.id) ? draft.id : undefined}
+                onValueChange={(id) => setDraft(drafts.find(d => d.id === id) ?? draft)}
+              >
+                <SelectTrigger><SelectValue placeholder={drafts.length ? "Open a draft" : "No saved drafts"} /></SelectTrigger>
+                <SelectContent>
+                  {drafts.map(d => (
+                    <SelectItem key={d.id} value={d.id}>
+                      {d.name} ({d.options.length} options)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={startNewDraft}>
+                <FilePlus className="h-4 w-4 mr-2" />
+                New
+              </Button>
+              <Button variant="outline" onClick={removeDraft} disabled={!drafts.some(d => d.id === draft.id)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
             </div>
           </div>
 
-      {/* Development Popup */}
-      {showPopup && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <Card className="w-full max-w-md mx-auto shadow-2xl border-0">
-            <CardContent className="p-8 text-center space-y-6">
-              <div className="w-16 h-16 bg-orange-100 rounded-full flex items-center justify-center mx-auto">
-                <Construction className="h-8 w-8 text-orange-600" />
+          <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="planner-rank">KCET Rank</Label>
+              <Input
+                id="planner-rank"
+                type="number"
+                min={1}
+                value={draft.rank ?? ""}
+                onChange={(e) => updateDraft({ rank: parseInt(e.target.value) || null })}
+                placeholder="Enter your rank"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <CategoryProfileInput value={draft.profile} onChange={(profile) => updateDraft({ profile })} />
+            </div>
           </div>
-              
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListPlus className="h-5 w-5" />
+            Add Options
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue={finderMatches.length > 0 ? "finder" : "codes"}>
+            <TabsList className="flex-wrap h-auto">
+              <TabsTrigger value="finder">From College Finder</TabsTrigger>
+              <TabsTrigger value="codes">By Code</TabsTrigger>
+              <TabsTrigger value="manual">Manual Entry</TabsTrigger>
+              <TabsTrigger value="pdf">Upload PDF</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="finder" className="space-y-4 pt-4">
+              {finderMatches.length === 0 ? (
+                <div className="text-sm text-muted-foreground">
+                  No finder results yet. <Link to="/college-finder" className="underline">Search in the College Finder</Link> and come back to add them here.
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-sm text-muted-foreground">
+                      Top {finderMatches.length} matches for rank {finder.userRank?.toLocaleString()}
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => addOptions(finderMatches.map(optionFromMatch).filter((o): o is PlannerOption => o !== null))}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add all
+                    </Button>
+                  </div>
+                  <div className="rounded-md border max-h-96 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>College</TableHead>
+                          <TableHead>Course</TableHead>
+                          <TableHead>Cutoff</TableHead>
+                          <TableHead>Chance</TableHead>
+                          <TableHead className="w-20"></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {finderMatches.map(match => {
+                          const option = optionFromMatch(match)
+                          const listed = option ? listedCodes.has(option.collegeCourse) : false
+                          return (
+                            <TableRow key={`${match.institute_code}-${match.course}-${match.category}-${match.year}-${match.round}`}>
+                              <TableCell>
+                                <div className="font-medium">{match.institute}</div>
+                                <div className="text-xs text-muted-foreground">{match.institute_code}</div>
+                              </TableCell>
+                              <TableCell>{match.course}</TableCell>
+                              <TableCell>{match.cutoff_rank.toLocaleString()} ({match.category})</TableCell>
+                              <TableCell><Badge variant="outline">{match.safetyLevel} · {match.matchScore}%</Badge></TableCell>
+                              <TableCell>
+                                <Button size="sm" variant="outline" disabled={!option || listed} onClick={() => option && addOptions([option])}>
+                                  {listed ? "Added" : "Add"}
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="codes" className="space-y-4 pt-4">
               <div className="space-y-2">
-                <h2 className="text-2xl font-bold text-slate-800">Under Development</h2>
-                <p className="text-slate-600">
-                  The Option Entry Planner is currently being developed and will be available soon.
-                </p>
+                <Label htmlFor="planner-codes">Option codes (one per line, in priority order)</Label>
+                <Textarea
+                  id="planner-codes"
+                  rows={6}
+                  value={codeText}
+                  onChange={(e) => setCodeText(e.target.value)}
+                  placeholder={"E005CS\nE003CS\nE010EC"}
+                  className="font-mono"
+                />
               </div>
+              <Button onClick={addCodes} disabled={!codeText.trim()}>
+                <Search className="h-4 w-4 mr-2" />
+                Add codes
+              </Button>
+            </TabsContent>
 
-              <div className="space-y-3">
-                <p className="text-sm text-slate-500">
-                  This feature will help you:
-                </p>
-                <ul className="text-sm text-slate-600 space-y-1">
-                  <li>• Analyze your rank and find suitable colleges</li>
-                  <li>• Plan and prioritize your option entries</li>
-                  <li>• Simulate mock allotment results</li>
-                  <li>• Get strategic recommendations</li>
-                    </ul>
-                  </div>
+            <TabsContent value="manual" className="pt-4">
+              <CollegeList options={draft.options} onOptionsChange={setOptions} />
+            </TabsContent>
 
-              <Button 
-                onClick={() => setShowPopup(false)}
-                className="w-full bg-orange-600 hover:bg-orange-700 text-white"
-              >
-                Got it, show me anyway
+            <TabsContent value="pdf" className="space-y-4 pt-4">
+              <p className="text-sm text-muted-foreground">
+                Upload the option entry PDF downloaded from the KEA portal; its options are checked against the cutoff data and can be reviewed before they are added below the current list.
+              </p>
+              <input
+                ref={fileInput}
+                type="file"
+                accept="application/pdf"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && importPdf(e.target.files[0])}
+              />
+              <Button onClick={() => fileInput.current?.click()} disabled={importing}>
+                {importing ? <FileText className="h-4 w-4 mr-2 animate-pulse" /> : <Upload className="h-4 w-4 mr-2" />}
+                {importing ? "Reading PDF..." : "Choose PDF"}
               </Button>
-            </CardContent>
-                </Card>
-          </div>
-        )}
-      </div>
-  );
-};
+              {importResult && (
+                <PDFImportReview
+                  key={importResult.fileName + importResult.rows.length}
+                  result={importResult}
+                  reference={importReference}
+                  onConfirm={confirmImport}
+                  onCancel={() => setImportResult(null)}
+                />
+              )}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <OptionEntryTable
+        userRank={draft.rank}
+        userCategory={categories[0] ?? ''}
+        options={draft.options}
+        onOptionsChange={setOptions}
+        annotations={dataset ? annotations : undefined}
+        costs={costs}
+        exportTitle={draft.name}
+      />
+
+      {draft.options.length > 0 && dataset && (
+        <OptionLintPanel
+          issues={lintIssues}
+          rankMissing={!draft.rank}
+          onApplyFix={(fix) => setOptions(applyLintFix(draft.options, fix))}
+        />
+      )}
+
+      {dataset && (
+        <OptionOrderOptimizer
+          options={draft.options}
+          annotations={annotations}
+          cutoffs={dataset.cutoffs}
+          onOptionsChange={setOptions}
+        />
+      )}
+    </div>
+  )
+}
 
-export default Planner;
+export default Planner
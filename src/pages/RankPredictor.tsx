@@ -8,7 +8,8 @@ import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
-import { Calculator, TrendingUp, Target, AlertCircle, Download, FileText, BarChart3, PieChart, LineChart, Crown, Shield, Info } from "lucide-react"
+import { Switch } from "@/components/ui/switch"
+import { Calculator, TrendingUp, Target, AlertCircle, Download, FileText, BarChart3, PieChart, LineChart, Crown, Shield, Info, Crosshair, Sparkles } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { supabase } from "@/integrations/supabase/client"
 import { 
@@ -18,21 +19,50 @@ import {
   getRankAnalysis, 
   getCollegeSuggestions,
   getRankGapAnalysis,
-  getCutoffEstimates,
+  DEFAULT_SAMPLE_YEAR,
+  COMPOSITE_WEIGHTS,
   type RankPrediction 
 } from "@/lib/rank-predictor"
 import { validateKCETMarks, validatePUCPercentage } from "@/lib/security"
-
-
+import { getCategoryLabel, type CategoryType } from "@/lib/categories"
+import { Constants, type Json } from "@/integrations/supabase/types"
+import { TargetMarksPanel } from "@/components/TargetMarksPanel"
+import { WhatIfPanel } from "@/components/WhatIfPanel"
+import { getMilestoneScores } from "@/lib/reverse-rank-predictor"
+import { SubjectContributionTable, SubjectMarksInput } from "@/components/SubjectMarksInput"
+import {
+  emptySubjectMarks,
+  getCompositeBreakdown,
+  saveRankPrediction,
+  toSubjectMarksJson,
+  validateSubjectMarks,
+  type CompositeBreakdown,
+  type SubjectMarks
+} from "@/lib/subject-marks"
+
+// A prediction kept in localStorage under kcetResults
+interface SavedResult {
+  cet: number
+  puc: number
+  rank: number
+  range: string
+  percentile: string
+  subject_marks: Json | null
+  timestamp: string
+}
 
 const RankPredictor = () => {
   const [kcetMarks, setKcetMarks] = useState(90)
   const [pucPercentage, setPucPercentage] = useState(60)
-  const [prediction, setPrediction] = useState<any>(null)
+  const [bySubject, setBySubject] = useState(false)
+  const [subjectMarks, setSubjectMarks] = useState<SubjectMarks>(emptySubjectMarks)
+  const [breakdown, setBreakdown] = useState<CompositeBreakdown | null>(null)
+  const [category, setCategory] = useState<CategoryType>("GM")
+  const [prediction, setPrediction] = useState<RankPrediction | null>(null)
   const [loading, setLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("predictor")
   const [disclaimerAccepted, setDisclaimerAccepted] = useState(true) // Auto-accept disclaimer
-  const [savedResults, setSavedResults] = useState<any[]>([])
+  const [savedResults, setSavedResults] = useState<SavedResult[]>([])
   const { toast } = useToast()
 
   // Load saved results from localStorage
@@ -59,8 +89,29 @@ const RankPredictor = () => {
       return
     }
 
+    // Subject marks, when given, replace the totals
+    let cet = kcetMarks
+    let puc = pucPercentage
+    let subjectBreakdown: CompositeBreakdown | null = null
+    if (bySubject) {
+      const subjectErrors = validateSubjectMarks(subjectMarks)
+      if (subjectErrors.length > 0) {
+        toast({
+          title: "Invalid Subject Marks",
+          description: subjectErrors[0].error,
+          variant: "destructive"
+        })
+        return
+      }
+      subjectBreakdown = getCompositeBreakdown(subjectMarks)
+      cet = subjectBreakdown.kcetTotal
+      puc = subjectBreakdown.pucPercentage
+      setKcetMarks(cet)
+      setPucPercentage(Number(puc.toFixed(2)))
+    }
+
     // Validate KCET marks
-    const kcetValidation = validateKCETMarks(kcetMarks);
+    const kcetValidation = validateKCETMarks(cet);
     if (!kcetValidation.isValid) {
       toast({
         title: "Invalid KCET Marks",
@@ -71,7 +122,7 @@ const RankPredictor = () => {
     }
 
     // Validate PUC percentage
-    const pucValidation = validatePUCPercentage(pucPercentage);
+    const pucValidation = validatePUCPercentage(puc);
     if (!pucValidation.isValid) {
       toast({
         title: "Invalid PUC Percentage",
@@ -83,16 +134,18 @@ const RankPredictor = () => {
 
     setLoading(true)
     try {
-      const rankData = predictKCETRank(kcetMarks, pucPercentage)
+      const rankData = predictKCETRank(cet, puc)
       setPrediction(rankData)
+      setBreakdown(subjectBreakdown)
       
       // Save result
-      const result = {
-        cet: kcetMarks,
-        puc: pucPercentage,
+      const result: SavedResult = {
+        cet,
+        puc: Number(puc.toFixed(2)),
         rank: rankData.medium,
         range: `${rankData.low}–${rankData.high}`,
         percentile: calculatePercentile(rankData.medium),
+        subject_marks: subjectBreakdown ? toSubjectMarksJson(subjectMarks, subjectBreakdown) : null,
         timestamp: new Date().toISOString()
       }
       
@@ -104,6 +157,24 @@ const RankPredictor = () => {
         title: "Rank Predicted!",
         description: `Your predicted rank is ${rankData.medium.toLocaleString()}`,
       })
+
+      // Signed-in users also keep the prediction in their account
+      try {
+        await saveRankPrediction({
+          category,
+          marks: cet,
+          rankMin: rankData.low,
+          rankMax: rankData.high,
+          year: Number(DEFAULT_SAMPLE_YEAR),
+          subjectMarks: result.subject_marks
+        })
+      } catch (error) {
+        toast({
+          title: "Prediction Not Saved",
+          description: error instanceof Error ? error.message : "Unable to save your prediction",
+          variant: "destructive"
+        })
+      }
     } catch (error) {
       toast({
         title: "Prediction Failed",
@@ -190,11 +261,15 @@ const RankPredictor = () => {
 
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="predictor" className="flex items-center gap-2">
             <Calculator className="h-4 w-4" />
             Predictor
           </TabsTrigger>
+          <TabsTrigger value="target" className="flex items-center gap-2">
+            <Crosshair className="h-4 w-4" />
+            Target
+          </TabsTrigger>
           <TabsTrigger value="breakdown" className="flex items-center gap-2">
             <PieChart className="h-4 w-4" />
             Breakdown
@@ -203,6 +278,10 @@ const RankPredictor = () => {
             <BarChart3 className="h-4 w-4" />
             Analysis
           </TabsTrigger>
+          <TabsTrigger value="what-if" className="flex items-center gap-2">
+            <Sparkles className="h-4 w-4" />
+            What If
+          </TabsTrigger>
           <TabsTrigger value="progress" className="flex items-center gap-2">
             <LineChart className="h-4 w-4" />
             Progress
@@ -236,6 +315,7 @@ const RankPredictor = () => {
                         min="0"
                         max="180"
                         value={kcetMarks}
+                        disabled={bySubject}
                         onChange={(e) => setKcetMarks(Number(e.target.value))}
                       />
                     </div>
@@ -248,6 +328,7 @@ const RankPredictor = () => {
                         min="0"
                         max="100"
                         value={pucPercentage}
+                        disabled={bySubject}
                         onChange={(e) => setPucPercentage(Number(e.target.value))}
                       />
                     </div>
@@ -262,6 +343,30 @@ const RankPredictor = () => {
                 </CardContent>
               </Card>
 
+              {/* Subject-wise Marks */}
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-4">
+                    <CardTitle className="flex items-center gap-2">
+                      <FileText className="h-5 w-5" />
+                      Subject-wise Marks
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                      <Switch id="by-subject" checked={bySubject} onCheckedChange={setBySubject} />
+                      <Label htmlFor="by-subject">Enter by subject</Label>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Enter each KCET paper and second PUC subject to see how much every subject adds to your composite.
+                  </p>
+                </CardHeader>
+                {bySubject && (
+                  <CardContent>
+                    <SubjectMarksInput value={subjectMarks} onChange={setSubjectMarks} />
+                  </CardContent>
+                )}
+              </Card>
+
               {/* Detailed Calculator */}
               <Card>
                 <CardHeader>
@@ -284,6 +389,7 @@ const RankPredictor = () => {
                           min="0"
                           max="180"
                           value={kcetMarks}
+                          disabled={bySubject}
                           onChange={(e) => setKcetMarks(Number(e.target.value))}
                           className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
                         />
@@ -301,6 +407,7 @@ const RankPredictor = () => {
                           min="0"
                           max="100"
                           value={pucPercentage}
+                          disabled={bySubject}
                           onChange={(e) => setPucPercentage(Number(e.target.value))}
                           className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
                         />
@@ -309,7 +416,16 @@ const RankPredictor = () => {
                   </div>
 
                   <div className="space-y-2">
-
+                    <Label htmlFor="category">Category</Label>
+                    <Select value={category} onValueChange={(value) => setCategory(value as CategoryType)}>
+                      <SelectTrigger id="category"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Constants.public.Enums.category_type.map((type) => (
+                          <SelectItem key={type} value={type}>{getCategoryLabel(type)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">Saved with your prediction when you are signed in</p>
                   </div>
 
                   <Button 
@@ -338,7 +454,7 @@ const RankPredictor = () => {
                   {prediction && (
                     <div className="space-y-2 text-sm">
                       <p>Range: {prediction.low.toLocaleString()}–{prediction.high.toLocaleString()}</p>
-                      <p>Percentile: {prediction.percentile || calculatePercentile(prediction.medium)}</p>
+                      <p>Percentile: {prediction.percentile || calculatePercentile(prediction.medium)}%</p>
                       <p>Rank Band: <Badge variant="outline" className="ml-1">{prediction.rankBand}</Badge></p>
                       <p className="text-xs opacity-80">Among ~2,60,000 candidates (KCET 2025)</p>
                     </div>
@@ -349,6 +465,10 @@ const RankPredictor = () => {
           </div>
         </TabsContent>
 
+        <TabsContent value="target" className="space-y-6">
+          <TargetMarksPanel kcetMarks={kcetMarks} pucPercentage={pucPercentage} />
+        </TabsContent>
+
         <TabsContent value="breakdown" className="space-y-6">
           {prediction ? (
             <>
@@ -403,6 +523,20 @@ const RankPredictor = () => {
                 </Card>
               </div>
 
+              {breakdown && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Subject Contributions</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Composite points from each subject: KCET carries {Math.round(COMPOSITE_WEIGHTS.cet * 100)}% and PUC {Math.round(COMPOSITE_WEIGHTS.puc * 100)}% of the composite.
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <SubjectContributionTable breakdown={breakdown} />
+                  </CardContent>
+                </Card>
+              )}
+
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
@@ -495,7 +629,7 @@ const RankPredictor = () => {
                           </div>
                           <div className="flex justify-between">
                             <span className="text-sm text-muted-foreground">Percentile:</span>
-                            <span className="font-medium">{prediction.percentile}</span>
+                            <span className="font-medium">{prediction.percentile}%</span>
                           </div>
                         </div>
                       </div>
@@ -509,16 +643,16 @@ const RankPredictor = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Target className="h-5 w-5" />
-                    KCET 2025 Cutoff Estimates
+                    Composite Needed for Target Ranks
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {getCutoffEstimates().map((cutoff, index) => (
-                      <div key={index} className="flex justify-between items-center p-3 rounded-lg bg-slate-50">
-                        <span className="font-medium">{cutoff.targetRank}</span>
+                    {getMilestoneScores().map((milestone) => (
+                      <div key={milestone.targetRank} className="flex justify-between items-center p-3 rounded-lg bg-slate-50">
+                        <span className="font-medium">Top {milestone.targetRank.toLocaleString()}</span>
                         <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                          {cutoff.expectedAggregate}
+                          {milestone.composite.toFixed(1)}%+
                         </Badge>
                       </div>
                     ))}
@@ -566,6 +700,10 @@ const RankPredictor = () => {
           )}
         </TabsContent>
 
+        <TabsContent value="what-if" className="space-y-6">
+          <WhatIfPanel kcetMarks={kcetMarks} pucPercentage={pucPercentage} />
+        </TabsContent>
+
         <TabsContent value="progress" className="space-y-6">
           {savedResults.length > 0 ? (
             <div className="space-y-4">
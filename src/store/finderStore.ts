@@ -1,20 +1,26 @@
-type SafetyLevel = 'Eligible'
+import type { ChanceBand } from '@/lib/admission-chance'
+import type { StudentCategoryProfile } from '@/lib/categories'
 
 export interface FinderMatch {
   institute: string
   institute_code: string
   course: string
+  course_code?: string
   category: string
   cutoff_rank: number
   year: string
   round: string
   matchScore: number
-  safetyLevel: SafetyLevel
+  safetyLevel: ChanceBand
+  expectedCutoff?: number
+  // Category columns evaluated for this college/course in eligibility mode
+  compared_categories?: string[]
 }
 
 interface FinderState {
   userRank: number | null
   userCategory: string
+  categoryProfile: StudentCategoryProfile | null
   selectedYear: string
   selectedRound: string
   selectedInstitute: string
@@ -29,6 +35,7 @@ class FinderStore {
   private state: FinderState = {
     userRank: null,
     userCategory: '',
+    categoryProfile: null,
     selectedYear: '',
     selectedRound: '',
     selectedInstitute: '',